@@ -105,7 +105,7 @@ export const pagesConfig: PageConfig[] = [
               id: 'rom-file-input',
               testId: 'rom-file-input',
               accept:
-                '.nes,.sfc,.smc,.md,.gen,.bin,.cue,.chd,.n64,.z64,.v64,.gba',
+                '.zip,.nes,.sfc,.smc,.md,.gen,.bin,.cue,.chd,.n64,.z64,.v64,.gba',
               label: 'Select ROM File',
               required: true,
             },
@@ -444,3 +444,35 @@ export const batchUploadConfig = {
 };
 
 export type BatchUploadConfig = typeof batchUploadConfig;
+
+// POL-022: Resumable Upload Configuration
+// Large disc images are sent in chunks that survive dropped connections
+export const resumableUploadConfig = {
+  // The ingest page uploads files above this size in chunks
+  thresholdSize: 20 * 1024 * 1024,
+  chunkSize: 8 * 1024 * 1024,
+  maxUploadSize: 8 * 1024 * 1024 * 1024,
+  // Uploads without a chunk for this long are removed
+  expiryMs: 24 * 60 * 60 * 1000,
+  cleanupIntervalMs: 60 * 60 * 1000,
+  // Chunk and progress requests per IP in 15 minutes
+  chunkRateLimit: 2000,
+};
+
+export type ResumableUploadConfig = typeof resumableUploadConfig;
+
+// POL-022: Batch Job Queue Configuration
+// Jobs are journaled in the workspace so a restart resumes them
+export const batchQueueConfig = {
+  // A processing job whose lease is not renewed for this long is resumed
+  leaseMs: 60 * 1000,
+  // Finished jobs are kept this long, and at most this many of them
+  retentionMs: 24 * 60 * 60 * 1000,
+  maxFinishedJobs: 500,
+  // The journal is rewritten as a snapshot once it holds this many entries
+  compactAfterEntries: 10_000,
+  // Job priorities, highest first; a job waits for every job ranked above it
+  priorities: ['high', 'normal', 'low'] as const,
+};
+
+export type BatchQueueConfig = typeof batchQueueConfig;
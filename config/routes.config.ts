@@ -7,6 +7,8 @@
 
 import { z } from 'zod';
 
+import { batchQueueConfig, resumableUploadConfig } from './policy.config.js';
+
 /**
  * HTTP Methods supported
  */
@@ -58,6 +60,28 @@ export const configValidationSchema = z.object({
     .min(1, 'At least one platform required'),
 });
 
+// Resumable upload creation schema (POL-022)
+export const createUploadSchema = z.object({
+  filename: z.string().min(1, 'Filename is required').max(255),
+  size: z
+    .number()
+    .int()
+    .positive('Size must be positive')
+    .max(
+      resumableUploadConfig.maxUploadSize,
+      `Size exceeds ${resumableUploadConfig.maxUploadSize} bytes`
+    ),
+});
+
+// Batch job priority schemas (POL-022)
+export const batchUploadQuerySchema = z.object({
+  priority: z.enum(batchQueueConfig.priorities).optional(),
+});
+
+export const batchPrioritySchema = z.object({
+  priority: z.enum(batchQueueConfig.priorities),
+});
+
 /**
  * API Routes Configuration
  * All routes defined here are:
@@ -85,6 +109,71 @@ export const routesConfig: RouteConfig[] = [
     expectedStatus: 200,
     enabled: true,
   },
+  {
+    id: 'batch-upload',
+    method: 'POST',
+    path: '/api/roms/batch-upload',
+    description: 'Queue a multipart batch of ROM files for ingestion',
+    requiresAuth: false,
+    expectedStatus: 202,
+    enabled: true,
+  },
+  {
+    id: 'create-upload',
+    method: 'POST',
+    path: '/api/roms/uploads',
+    description: 'Create a resumable upload for a large ROM file',
+    requiresAuth: false,
+    bodySchema: createUploadSchema,
+    expectedStatus: 201,
+    enabled: true,
+  },
+  {
+    id: 'finalize-upload',
+    method: 'POST',
+    path: '/api/roms/uploads/:uploadId/finalize',
+    description: 'Run the pipeline on a fully received resumable upload',
+    requiresAuth: false,
+    expectedStatus: 200,
+    enabled: true,
+  },
+  {
+    id: 'batch-status',
+    method: 'GET',
+    path: '/api/roms/batch-status/:jobId',
+    description: 'Progress, per-file results and errors of a batch job',
+    requiresAuth: false,
+    expectedStatus: 200,
+    enabled: true,
+  },
+  {
+    id: 'batch-cancel',
+    method: 'POST',
+    path: '/api/roms/batch-jobs/:jobId/cancel',
+    description: 'Cancel a queued or running batch job',
+    requiresAuth: false,
+    expectedStatus: 200,
+    enabled: true,
+  },
+  {
+    id: 'batch-retry',
+    method: 'POST',
+    path: '/api/roms/batch-jobs/:jobId/retry',
+    description: 'Queue the failed files of a finished batch job again',
+    requiresAuth: false,
+    expectedStatus: 202,
+    enabled: true,
+  },
+  {
+    id: 'batch-priority',
+    method: 'PUT',
+    path: '/api/roms/batch-jobs/:jobId/priority',
+    description: 'Change the priority of a batch job that has not finished',
+    requiresAuth: false,
+    bodySchema: batchPrioritySchema,
+    expectedStatus: 200,
+    enabled: true,
+  },
 ];
 
 /**
@@ -8,7 +8,13 @@ import { test, expect, type APIRequestContext } from '@playwright/test';
 
 type BatchStatus = {
   jobId: string;
-  status: 'queued' | 'processing' | 'completed' | 'failed';
+  status:
+    | 'queued'
+    | 'processing'
+    | 'completed'
+    | 'partially_failed'
+    | 'failed'
+    | 'cancelled';
   progress: { processed: number; total: number };
   errors?: string[];
   createdAt?: string;
@@ -26,7 +32,7 @@ async function waitForStatus(
     const resp = await request.get(`/api/roms/batch-status/${jobId}`);
     if (resp.status() === 200) {
       const data = (await resp.json()) as BatchStatus;
-      if (data.status === 'completed' || data.status === 'failed') {
+      if (data.status !== 'queued' && data.status !== 'processing') {
         return data;
       }
     }
@@ -52,12 +58,14 @@ test.describe('Batch Processing Flow (POL-022)', () => {
     const payload = (await enqueue.json()) as { jobId: string };
     expect(typeof payload.jobId).toBe('string');
 
-    // Act: Poll status until completed or failed
+    // Act: Poll status until the job finishes
     const status = await waitForStatus(request, payload.jobId, 15000);
 
     // Assert: Status object shape
     expect(status.jobId).toBe(payload.jobId);
-    expect(['completed', 'failed']).toContain(status.status);
+    expect(['completed', 'partially_failed', 'failed']).toContain(
+      status.status
+    );
     expect(status.progress).toBeDefined();
   });
 
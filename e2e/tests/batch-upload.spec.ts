@@ -9,8 +9,7 @@
 
 import { test, expect } from '@playwright/test';
 
-// TODO: Batch upload endpoint not yet implemented - these are TDD placeholder tests
-test.describe.skip('Batch ROM Upload Endpoint (POL-022, E2E-001)', () => {
+test.describe('Batch ROM Upload Endpoint (POL-022, E2E-001)', () => {
   test('POST /api/roms/batch-upload - endpoint should exist and handle requests', async ({
     request,
   }) => {
@@ -10,6 +10,7 @@ import { test, expect } from '@playwright/test';
 import { pagesConfig } from '../../config/pages.config.js';
 import { e2ePolicyConfig } from '../config/e2e-policy.config.js';
 import { policyConfig } from '../../config/policy.config.js';
+import { routesConfig } from '../../config/routes.config.js';
 
 // Auto-generate smoke tests for each configured page
 // Follows E2E-003: Auto-Generated Tests from configuration
@@ -59,6 +60,28 @@ for (const pageConfig of pagesConfig) {
   });
 }
 
+// Auto-generate smoke tests for each configured API route
+// Follows E2E-003: Auto-Generated Tests from configuration
+test.describe('Smoke Test: API Routes', () => {
+  for (const route of routesConfig.filter((r) => r.enabled)) {
+    test(`${route.method} ${route.path} should respond with JSON`, async ({
+      request,
+    }) => {
+      // Route parameters get a placeholder value
+      const path = route.path.replace(/:\w+/g, 'smoke-test');
+      const response = await request.fetch(path, {
+        method: route.method,
+        ...(route.method !== 'GET' && { data: {} }),
+      });
+
+      // The route exists and handles requests without a server error
+      const SERVER_ERROR_STATUS = 500;
+      expect(response.status()).toBeLessThan(SERVER_ERROR_STATUS);
+      expect(response.headers()['content-type']).toContain('application/json');
+    });
+  }
+});
+
 // E2E Policy compliance smoke tests
 test.describe('Smoke Test: E2E Policy Compliance', () => {
   test('should verify E2E policy configuration is loaded', async ({ page }) => {
@@ -2,7 +2,7 @@
 /**
  * Batch ROM Ingestion CLI
  * High-performance batch processor for 8,000+ ROM files
- * Usage: npx tsx examples/batch-ingest.ts <directory-path>
+ * Usage: npx tsx examples/batch-ingest.ts [--link-only] <directory-path>
  */
 
 /* eslint-disable no-console */
@@ -85,7 +85,9 @@ async function main(): Promise<void> {
 
   // Parse command line arguments
   const args = process.argv.slice(2);
-  if (args.length === 0) {
+  const linkOnly = args.includes('--link-only');
+  const [inputArg] = args.filter((arg) => !arg.startsWith('--'));
+  if (inputArg === undefined) {
     log('\n❌ Error: No path provided', colors.red);
     log('\nUsage:', colors.yellow);
     log('  npm run ingest /path/to/rom-file-or-directory/', colors.reset);
@@ -97,10 +99,12 @@ async function main(): Promise<void> {
     log('  npm run ingest ~/ROMs/', colors.reset);
     log('  npm run ingest /mnt/usb/games/game.nes', colors.reset);
     log('  npm run ingest "C:\\Users\\user\\ROMs"', colors.reset);
+    log('  npm run ingest -- --link-only ~/ROMs/', colors.reset);
+    log('\n--link-only skips validation and duplicate detection', colors.reset);
     process.exit(1);
   }
 
-  const inputPath = resolve(args[0] ?? '');
+  const inputPath = resolve(inputArg);
 
   // Validate path exists
   if (!existsSync(inputPath)) {
@@ -130,7 +134,14 @@ async function main(): Promise<void> {
     );
   });
 
-  const processor = new BatchProcessor(paths, platformConfig);
+  log(
+    linkOnly
+      ? '🔗 Link-only: no validation or duplicate detection'
+      : '🔎 Validating: duplicates are skipped',
+    colors.cyan
+  );
+
+  const processor = new BatchProcessor(paths, platformConfig, { linkOnly });
 
   // Run batch processing
   logSection('Running Batch Processing');
@@ -145,10 +156,27 @@ async function main(): Promise<void> {
     log('', colors.reset);
     log(`  Total Files Scanned:  ${result.total}`, colors.reset);
     log(`  Successfully Processed: ${result.processed}`, colors.green);
+    log(
+      `  Added / Changed:      ${result.changes.added} / ${result.changes.changed}`,
+      colors.reset
+    );
+    log(`  Unchanged (skipped):  ${result.changes.unchanged}`, colors.reset);
+    if (result.changes.removed > 0) {
+      log(
+        `  Removed from source:  ${result.changes.removed} (kept in library)`,
+        colors.yellow
+      );
+    }
     log(
       `  Failed:               ${result.failed}`,
       result.failed > 0 ? colors.yellow : colors.reset
     );
+    const placed = Object.entries(result.linkStrategies)
+      .filter(([, count]) => count > 0)
+      .map(([strategy, count]) => `${count} ${strategy}`);
+    if (placed.length > 0) {
+      log(`  Placed by:            ${placed.join(', ')}`, colors.reset);
+    }
     log(
       `  Duration:             ${(result.duration / 1000).toFixed(2)}s`,
       colors.reset
@@ -172,6 +200,29 @@ async function main(): Promise<void> {
       }
     }
 
+    // Show files rejected as ambiguous
+    if (result.rejected.length > 0) {
+      log(`\n🚫 Rejected (${result.rejected.length}):`, colors.yellow);
+      result.rejected.slice(0, 10).forEach((rejected) => {
+        log(`   ${rejected.file}: ${rejected.reason}`, colors.yellow);
+      });
+      log(
+        `   Placed in: ${platformConfig.directories.workspace.rejected}/`,
+        colors.reset
+      );
+    }
+
+    // Show duplicates skipped
+    if (result.duplicates.length > 0) {
+      log(
+        `\n♻️  Duplicates skipped (${result.duplicates.length}):`,
+        colors.yellow
+      );
+      result.duplicates.slice(0, 10).forEach((duplicate) => {
+        log(`   ${duplicate.file} = ${duplicate.duplicateOf}`, colors.yellow);
+      });
+    }
+
     // Show platforms processed
     const platformCounts = new Map<string, number>();
     for (const file of result.files) {
@@ -207,6 +258,11 @@ async function main(): Promise<void> {
     log('   Your ROMs and playlists are ready!', colors.reset);
     log('', colors.reset);
     log('🎉 All done!', colors.green);
+  } else if (result.changes.unchanged > 0) {
+    log('✅ Library is up to date', colors.green);
+    log('', colors.reset);
+    log(`  Unchanged (skipped):  ${result.changes.unchanged}`, colors.reset);
+    log(`  Failed:               ${result.failed}`, colors.reset);
   } else {
     log('⚠️  No ROM files were processed', colors.yellow);
     log('', colors.reset);
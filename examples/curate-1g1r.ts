@@ -0,0 +1,114 @@
+#!/usr/bin/env tsx
+/**
+ * 1G1R Curated Set CLI
+ * Rebuilds the sync directory with only the best version of each game
+ * Usage: npx tsx examples/curate-1g1r.ts [--regions=USA,Europe] [--languages=En] [platform...]
+ */
+
+/* eslint-disable no-console */
+
+import { OneGameOneRomBuilder } from '../src/pipeline/one-game-one-rom.js';
+import { platformConfig } from '../config/platform.config.js';
+import type { OneGameOneRomConfig } from '../src/interfaces/platform-config.interface.js';
+
+// ANSI color codes
+const colors = {
+  reset: '\x1b[0m',
+  bright: '\x1b[1m',
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  yellow: '\x1b[33m',
+  cyan: '\x1b[36m',
+};
+
+const MAX_LISTED = 10;
+const RULE_WIDTH = 60;
+/** Skips the node binary and script path */
+const ARGS_START = 2;
+
+function log(message: string, color = colors.reset): void {
+  console.log(`${color}${message}${colors.reset}`);
+}
+
+function logSection(title: string): void {
+  console.log();
+  log(`${'═'.repeat(RULE_WIDTH)}`, colors.cyan);
+  log(`  ${title}`, colors.bright);
+  log(`${'═'.repeat(RULE_WIDTH)}`, colors.cyan);
+}
+
+function listOption(args: string[], name: string): string[] | undefined {
+  const value = args
+    .find((arg) => arg.startsWith(`--${name}=`))
+    ?.slice(`--${name}=`.length);
+  return value !== undefined
+    ? value.split(',').map((item) => item.trim())
+    : undefined;
+}
+
+async function main(): Promise<void> {
+  logSection('RetroArch PWA Configurator - 1G1R Curated Set');
+
+  // Parse command line arguments
+  const args = process.argv.slice(ARGS_START);
+  const regions = listOption(args, 'regions');
+  const languages = listOption(args, 'languages');
+  const platforms = args.filter((arg) => !arg.startsWith('--'));
+
+  const priorities: OneGameOneRomConfig | undefined =
+    regions !== undefined
+      ? { regions, ...(languages !== undefined && { languages }) }
+      : undefined;
+
+  log(
+    `📂 Manifests: ${platformConfig.directories.archive.manifests}`,
+    colors.cyan
+  );
+  log(
+    `🎮 Platforms: ${platforms.length > 0 ? platforms.join(', ') : 'all'}`,
+    colors.cyan
+  );
+
+  const builder = new OneGameOneRomBuilder(platformConfig);
+  const result = await builder.rebuild(
+    platforms.length > 0 ? platforms : undefined,
+    priorities
+  );
+
+  if (!result.success || result.data === undefined) {
+    log(`\n❌ Rebuild failed: ${result.error ?? 'Unknown error'}`, colors.red);
+    process.exit(1);
+  }
+
+  const report = result.data;
+  logSection('1G1R Results');
+  log(`  Platforms:  ${report.platforms.join(', ')}`, colors.reset);
+  log(`  Games:      ${report.games}`, colors.reset);
+  log(`  Promoted:   ${report.promoted.length} files`, colors.green);
+  log(`  Removed:    ${report.removed.length} files`, colors.reset);
+
+  if (report.errors.length > 0) {
+    log(`\n⚠️  Errors (${report.errors.length}):`, colors.yellow);
+    report.errors.slice(0, MAX_LISTED).forEach((error) => {
+      log(`   ${error}`, colors.yellow);
+    });
+    if (report.errors.length > MAX_LISTED) {
+      log(
+        `   ... and ${report.errors.length - MAX_LISTED} more errors`,
+        colors.yellow
+      );
+    }
+  }
+
+  console.log();
+}
+
+// Run the CLI
+main().catch((error) => {
+  log(
+    `❌ Fatal Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    colors.red
+  );
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,70 @@
+#!/usr/bin/env tsx
+/**
+ * Manifest Migration CLI
+ * Rewrites legacy Archiver and BatchProcessor manifests in the current
+ * versioned schema, in place
+ * Usage: npx tsx examples/migrate-manifests.ts [manifests directory]
+ */
+
+/* eslint-disable no-console */
+
+import { migrateManifests } from '../src/pipeline/manifest-file.js';
+import { platformConfig } from '../config/platform.config.js';
+
+// ANSI color codes
+const colors = {
+  reset: '\x1b[0m',
+  bright: '\x1b[1m',
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  yellow: '\x1b[33m',
+  cyan: '\x1b[36m',
+};
+
+const RULE_WIDTH = 60;
+/** Skips the node binary and script path */
+const ARGS_START = 2;
+
+function log(message: string, color = colors.reset): void {
+  console.log(`${color}${message}${colors.reset}`);
+}
+
+function logSection(title: string): void {
+  console.log();
+  log(`${'═'.repeat(RULE_WIDTH)}`, colors.cyan);
+  log(`  ${title}`, colors.bright);
+  log(`${'═'.repeat(RULE_WIDTH)}`, colors.cyan);
+}
+
+async function main(): Promise<void> {
+  logSection('RetroArch PWA Configurator - Manifest Migration');
+
+  const manifestsDir =
+    process.argv[ARGS_START] ?? platformConfig.directories.archive.manifests;
+  log(`📂 Manifests: ${manifestsDir}`, colors.cyan);
+
+  const report = await migrateManifests(manifestsDir, platformConfig.platforms);
+
+  logSection('Migration Results');
+  log(`  Migrated:   ${report.migrated.length} manifests`, colors.green);
+  report.migrated.forEach((file) => log(`   ${file}`, colors.reset));
+  log(`  Up to date: ${report.current.length} manifests`, colors.reset);
+
+  if (report.errors.length > 0) {
+    log(`\n⚠️  Errors (${report.errors.length}):`, colors.yellow);
+    report.errors.forEach((error) => log(`   ${error}`, colors.yellow));
+    process.exitCode = 1;
+  }
+
+  console.log();
+}
+
+// Run the CLI
+main().catch((error) => {
+  log(
+    `❌ Fatal Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    colors.red
+  );
+  console.error(error);
+  process.exit(1);
+});
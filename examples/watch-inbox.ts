@@ -0,0 +1,142 @@
+#!/usr/bin/env tsx
+/**
+ * Watch Folder CLI
+ * Ingests every ROM file dropped into one or more inbox directories, until
+ * interrupted; files that cannot be ingested are moved to the rejected
+ * directory with a `.rejection.json` report
+ * Usage: npx tsx examples/watch-inbox.ts [--link-only] <inbox> [inbox...]
+ */
+
+/* eslint-disable no-console */
+
+import { resolve } from 'node:path';
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+
+import { WatchFolder, type WatchReport } from '../src/watch-folder.js';
+import {
+  generateRetroArchPaths,
+  detectRetroArchPath,
+} from '../src/config/simple-config.js';
+import { platformConfig } from '../config/platform.config.js';
+import type { SimpleConfig } from '../src/interfaces/user-config.interface.js';
+
+// ANSI color codes
+const colors = {
+  reset: '\x1b[0m',
+  bright: '\x1b[1m',
+  green: '\x1b[32m',
+  red: '\x1b[31m',
+  yellow: '\x1b[33m',
+  cyan: '\x1b[36m',
+};
+
+const RULE_WIDTH = 60;
+/** Skips the node binary and script path */
+const ARGS_START = 2;
+
+function log(message: string, color = colors.reset): void {
+  console.log(`${color}${message}${colors.reset}`);
+}
+
+function logSection(title: string): void {
+  console.log();
+  log(`${'═'.repeat(RULE_WIDTH)}`, colors.cyan);
+  log(`  ${title}`, colors.bright);
+  log(`${'═'.repeat(RULE_WIDTH)}`, colors.cyan);
+}
+
+/**
+ * Base path from user-config.json, or auto-detected
+ */
+async function loadBasePath(): Promise<string | null> {
+  const configPath = 'user-config.json';
+
+  if (existsSync(configPath)) {
+    try {
+      const config = JSON.parse(
+        await readFile(configPath, 'utf-8')
+      ) as SimpleConfig;
+      return config.basePath;
+    } catch {
+      // Fall back to auto-detection
+    }
+  }
+
+  return detectRetroArchPath();
+}
+
+function logBatch(report: WatchReport): void {
+  const { result, rejected } = report;
+  const time = new Date().toLocaleTimeString();
+  log(
+    `\n[${time}] ${report.files.length} files: ${result.processed} ingested, ${result.changes.unchanged} unchanged, ${rejected.length + result.rejected.length} rejected`,
+    rejected.length > 0 ? colors.yellow : colors.green
+  );
+  result.files.forEach((file) => {
+    log(`   ✅ ${file.filename} → ${file.platformName}`, colors.reset);
+  });
+  [...result.rejected, ...rejected].forEach((file) => {
+    log(`   🚫 ${file.file}: ${file.reason}`, colors.yellow);
+  });
+}
+
+async function main(): Promise<void> {
+  logSection('RetroArch PWA Configurator - Watch Folder');
+
+  const args = process.argv.slice(ARGS_START);
+  const linkOnly = args.includes('--link-only');
+  const inboxes = args
+    .filter((arg) => !arg.startsWith('--'))
+    .map((arg) => resolve(arg));
+  if (inboxes.length === 0) {
+    log('\n❌ Error: No inbox directory provided', colors.red);
+    log('\nUsage:', colors.yellow);
+    log(
+      '  npm run watch /path/to/inbox/ [/path/to/other-inbox/]',
+      colors.reset
+    );
+    log('  npm run watch -- --link-only /path/to/inbox/', colors.reset);
+    process.exit(1);
+  }
+
+  const basePath = await loadBasePath();
+  if (basePath === null) {
+    log('❌ Could not auto-detect RetroArch directory', colors.red);
+    log('💡 Run: npm run setup', colors.yellow);
+    process.exit(1);
+  }
+  log(`✅ Base Path: ${basePath}`, colors.green);
+  inboxes.forEach((inbox) => log(`📥 Inbox: ${inbox}`, colors.cyan));
+  log(
+    `🚫 Rejected: ${platformConfig.directories.workspace.rejected}/`,
+    colors.cyan
+  );
+
+  const watcher = new WatchFolder(
+    generateRetroArchPaths(basePath),
+    platformConfig,
+    inboxes,
+    { linkOnly, onBatch: logBatch }
+  );
+
+  const shutdown = (): void => {
+    log('\n⏹  Stopping after the current batch...', colors.yellow);
+    void watcher.stop().then(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  await watcher.start();
+  log('\n👀 Waiting for files (Ctrl+C to stop)', colors.bright);
+}
+
+// Run the CLI
+main().catch((error) => {
+  log(
+    `❌ Fatal Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    colors.red
+  );
+  console.error(error);
+  process.exit(1);
+});
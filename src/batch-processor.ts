@@ -7,22 +7,61 @@
  * Policy: POL-019 (KISS) - Simple, direct approach
  */
 
-import { readdir, stat, link, mkdir, writeFile } from 'node:fs/promises';
-import { join, extname, basename } from 'node:path';
-import { existsSync } from 'node:fs';
+import { readdir, stat, lstat, mkdir, rm } from 'node:fs/promises';
+import { join, extname, basename, dirname, resolve, sep } from 'node:path';
 import { cpus } from 'node:os';
 
 import pLimit from 'p-limit';
 
 import type { RetroArchPaths } from './interfaces/user-config.interface.js';
-import type { PlatformConfig } from './interfaces/platform-config.interface.js';
+import type {
+  DatMatch,
+  DiscSetMembership,
+  HeaderlessHashes,
+  LinkStrategy,
+  ManifestEntry,
+  ROMFile,
+  RomHashes,
+  SourceFingerprint,
+} from './interfaces/pipeline.interface.js';
+import type {
+  PlatformConfig,
+  PlatformDefinition,
+} from './interfaces/platform-config.interface.js';
+import { PlatformResolver, rejectFile } from './pipeline/platform-resolver.js';
+import {
+  archiveReference,
+  classifyZipContents,
+  isZipArchive,
+} from './pipeline/zip-contents.js';
+import { extractZipEntry, type ZipEntry } from './pipeline/zip-reader.js';
+import { CUE_EXTENSION } from './pipeline/cue-sheet.js';
+import { M3U_EXTENSION, parseDiscTag, updateM3u } from './pipeline/disc-set.js';
+import { hashFile, playlistCrc32 } from './pipeline/rom-hashes.js';
+import { HashIndex } from './pipeline/hash-index.js';
+import { HashWorkerPool } from './pipeline/hash-worker-pool.js';
+import { FileLinker, LINK_STRATEGIES } from './pipeline/file-linker.js';
+import { Validator } from './pipeline/validator.js';
+import { Normalizer } from './pipeline/normalizer.js';
+import { updateJsonFile } from './pipeline/atomic-file.js';
+import {
+  MANIFEST_SCHEMA_VERSION,
+  batchManifestEntry,
+  mergeManifestEntries,
+  parseManifestDocument,
+  readManifest,
+} from './pipeline/manifest-file.js';
+import {
+  emptyPlaylist,
+  mergePlaylistItems,
+  parsePlaylist,
+} from './pipeline/playlist-file.js';
 
 /**
  * Constants for batch processing
  */
 const PROGRESS_UPDATE_INTERVAL = 100; // Update progress every N files
 const CONCURRENCY_MULTIPLIER = 4; // CPU cores * 4 for I/O bound tasks
-const JSON_INDENT = 2;
 
 /**
  * Result of processing a single file
@@ -34,6 +73,103 @@ export interface ProcessedFile {
   platformName: string;
   size: number;
   filename: string;
+  /** Not set when a link-only run placed the file without copying it */
+  hashes?: RomHashes;
+  /** Zip archive the file came from */
+  containerPath?: string;
+  /** Entry name inside `containerPath` */
+  entryName?: string;
+  /** Set for NES and SNES dumps carrying a header */
+  headerless?: HeaderlessHashes;
+  /** Names of the files that travel with the ROM, e.g. a cue sheet's tracks */
+  companionFiles?: string[];
+  /** DAT verification; not set in link-only mode */
+  dat?: DatMatch;
+  /** Normalizer metadata (filename tags); not set in link-only mode */
+  metadata?: Record<string, unknown>;
+  /** Scanned file (the zip for archive entries) when it was processed */
+  ingestedFrom?: SourceFingerprint;
+  /** How the file was placed; not set when it was already in place */
+  linkStrategy?: LinkStrategy;
+}
+
+/**
+ * Checksums and validation results of one ROM, before it is linked
+ */
+type InspectedContent = Pick<
+  ProcessedFile,
+  'hashes' | 'headerless' | 'companionFiles' | 'dat' | 'metadata'
+>;
+
+/**
+ * Path, label and CRC-32 of one playlist item
+ */
+interface PlaylistTarget {
+  path: string;
+  label: string;
+  crc32?: string;
+}
+
+/**
+ * File routed to the rejected directory instead of being misfiled
+ */
+export interface RejectedFile {
+  file: string;
+  reason: string;
+  rejectedPath: string;
+}
+
+/**
+ * File skipped because its content is already in the library
+ */
+export interface DuplicateFile {
+  file: string;
+  /** Archived filename, or the file ingested earlier in the same run */
+  duplicateOf: string;
+}
+
+/**
+ * How the scanned sources compare with the manifests
+ */
+export interface IngestChanges {
+  /** Sources not in any manifest */
+  added: number;
+  /** Sources whose size, modification time or inode changed */
+  changed: number;
+  /** Sources skipped because they match their manifest entries */
+  unchanged: number;
+  /**
+   * Sources under the input path that are gone; their entries are kept,
+   * as the library's hard links still hold the data
+   */
+  removed: number;
+}
+
+/**
+ * Options of a BatchProcessor
+ */
+export interface BatchOptions {
+  /**
+   * Link only, skipping validation and duplicate detection
+   * (the behaviour before batches went through the Validator)
+   * A file is hashed only when it had to be copied: a copy is new data
+   * whose checksums the manifest should record, while links share their
+   * source's. Unhashed files are recorded by where they were placed
+   */
+  linkOnly?: boolean;
+  /** Hashing worker threads; defaults to one per CPU */
+  hashWorkers?: number;
+}
+
+/**
+ * State shared by the files of one `processPaths` call
+ */
+interface BatchRun {
+  pool: HashWorkerPool;
+  /** Archived ROMs; undefined in link-only mode */
+  index?: HashIndex;
+  /** File that claimed each SHA-256 earlier in the run */
+  claimed: Map<string, string>;
 }
 
 /**
@@ -46,21 +182,46 @@ export interface BatchResult {
   duration: number;
   files: ProcessedFile[];
   errors: Array<{ file: string; error: string }>;
+  rejected: RejectedFile[];
+  duplicates: DuplicateFile[];
+  changes: IngestChanges;
+  /** Sources skipped because they are unchanged since they were ingested */
+  skipped: string[];
+  /** Processed files by how they were placed in the library */
+  linkStrategies: Record<LinkStrategy, number>;
 }
 
 /**
  * Batch processor for ROM files
+ * Unless `linkOnly` is set, every ROM is hashed on worker threads and
+ * validated as the PipelineOrchestrator validates it; duplicates of
+ * archived ROMs, or of files earlier in the run, are skipped
+ * Re-ingestion is incremental: sources whose size, modification time and
+ * inode match their manifest entries are skipped, and manifests and
+ * playlists are merged rather than replaced
  */
 export class BatchProcessor {
   private readonly paths: RetroArchPaths;
   private readonly platformConfig: PlatformConfig;
-  private readonly platformMap: Map<string, { id: string; name: string }>;
+  private readonly resolver: PlatformResolver;
+  private readonly validator: Validator;
+  private readonly normalizer: Normalizer;
+  private readonly linker: FileLinker;
+  private readonly options: BatchOptions;
   private readonly concurrency: number;
 
-  constructor(paths: RetroArchPaths, platformConfig: PlatformConfig) {
+  constructor(
+    paths: RetroArchPaths,
+    platformConfig: PlatformConfig,
+    options: BatchOptions = {}
+  ) {
     this.paths = paths;
     this.platformConfig = platformConfig;
-    this.platformMap = this.buildPlatformMap();
+    this.resolver = new PlatformResolver(platformConfig.platforms);
+    this.validator = new Validator(platformConfig);
+    this.normalizer = new Normalizer(platformConfig);
+    this.linker = new FileLinker(platformConfig.linking?.strategies);
+    this.options = options;
     this.concurrency = cpus().length * CONCURRENCY_MULTIPLIER;
   }
 
@@ -69,18 +230,40 @@ export class BatchProcessor {
    * Handles both single file paths and directory paths
    */
   async processDirectory(inputPath: string): Promise<BatchResult> {
+    return this.processPaths([inputPath]);
+  }
+
+  /**
+   * Process several files or directories as one batch
+   */
+  async processPaths(inputPaths: string[]): Promise<BatchResult> {
     const startTime = Date.now();
     const processedFiles: ProcessedFile[] = [];
     const errors: Array<{ file: string; error: string }> = [];
+    const rejected: RejectedFile[] = [];
+    const duplicates: DuplicateFile[] = [];
+    const skipped: string[] = [];
 
     // eslint-disable-next-line no-console
     console.log('\n🔍 Scanning for ROM files...');
-    const allFiles = await this.scanDirectory(inputPath);
+    const allFiles: string[] = [];
+    for (const inputPath of inputPaths) {
+      allFiles.push(...(await this.scanDirectory(inputPath)));
+    }
     const total = allFiles.length;
 
     // eslint-disable-next-line no-console
     console.log(`📊 Found ${total} file${total === 1 ? '' : 's'}\n`);
 
+    const ingested = await this.ingestedSources(inputPaths);
+    const scanned = new Set(allFiles.map((file) => resolve(file)));
+    const changes: IngestChanges = {
+      added: 0,
+      changed: 0,
+      unchanged: 0,
+      removed: [...ingested.keys()].filter((path) => !scanned.has(path)).length,
+    };
+
     if (total === 0) {
       return {
         total: 0,
@@ -89,6 +272,11 @@ export class BatchProcessor {
         duration: Date.now() - startTime,
         files: [],
         errors: [],
+        rejected: [],
+        duplicates: [],
+        changes,
+        skipped: [],
+        linkStrategies: countLinkStrategies([]),
       };
     }
 
@@ -97,10 +285,19 @@ export class BatchProcessor {
     console.log('📁 Creating directories...');
     await this.createDirectories();
 
+    // Manifests only change at the end of the run; one index serves it all
+    const run: BatchRun = {
+      pool: new HashWorkerPool(this.options.hashWorkers),
+      ...(this.options.linkOnly !== true && {
+        index: await HashIndex.open(this.paths.manifests),
+      }),
+      claimed: new Map(),
+    };
+
     // Process files in parallel with concurrency control
     // eslint-disable-next-line no-console
     console.log(
-      `⚡ Processing ${total} files (${this.concurrency} parallel)...\n`
+      `⚡ Processing ${total} files (${this.concurrency} parallel, ${run.pool.size} hash workers${run.index === undefined ? ', link-only' : ''})...\n`
     );
 
     const limit = pLimit(this.concurrency);
@@ -109,9 +306,35 @@ export class BatchProcessor {
     const tasks = allFiles.map((file) =>
       limit(async () => {
         try {
-          const result = await this.processFile(file);
-          if (result) {
-            processedFiles.push(result);
+          const fingerprint = await fingerprintOf(resolve(file));
+          const previous = ingested.get(fingerprint.path);
+          const unchanged =
+            previous !== undefined && isSameFile(previous, fingerprint);
+          if (unchanged) {
+            changes.unchanged++;
+            skipped.push(file);
+          } else if (previous === undefined) {
+            changes.added++;
+          } else {
+            changes.changed++;
+          }
+
+          // A changed source replaces the links made from its old version
+          const relink = previous !== undefined;
+          const results = unchanged
+            ? []
+            : isZipArchive(file)
+              ? await this.processArchive(file, run, relink)
+              : [await this.processFile(file, run, relink)];
+
+          for (const result of results) {
+            if (result !== null && 'reason' in result) {
+              rejected.push(result);
+            } else if (result !== null && 'duplicateOf' in result) {
+              duplicates.push(result);
+            } else if (result !== null) {
+              processedFiles.push({ ...result, ingestedFrom: fingerprint });
+            }
           }
 
           processed++;
@@ -127,7 +350,7 @@ export class BatchProcessor {
             );
           }
 
-          return result;
+          return results;
         } catch (error) {
           errors.push({
             file,
@@ -139,7 +362,11 @@ export class BatchProcessor {
       })
     );
 
-    await Promise.all(tasks);
+    try {
+      await Promise.all(tasks);
+    } finally {
+      await run.pool.close();
+    }
     // eslint-disable-next-line no-console
     console.log('\n');
 
@@ -158,9 +385,47 @@ export class BatchProcessor {
       duration,
       files: processedFiles,
       errors,
+      rejected,
+      duplicates,
+      changes,
+      skipped,
+      linkStrategies: countLinkStrategies(processedFiles),
     };
   }
 
+  /**
+   * Fingerprints of the ingested sources under `inputPaths`, by path
+   */
+  private async ingestedSources(
+    inputPaths: string[]
+  ): Promise<Map<string, SourceFingerprint>> {
+    const roots = inputPaths.map((inputPath) => resolve(inputPath));
+    const sources = new Map<string, SourceFingerprint>();
+
+    for (const platform of this.platformConfig.platforms) {
+      // An unreadable manifest fails when written; until then its
+      // sources count as added
+      const entries = await readManifest(
+        join(this.paths.manifests, `${platform.id}.json`)
+      ).catch((): ManifestEntry[] => []);
+
+      for (const { ingestedFrom } of entries) {
+        if (
+          ingestedFrom !== undefined &&
+          roots.some(
+            (root) =>
+              ingestedFrom.path === root ||
+              ingestedFrom.path.startsWith(`${root}${sep}`)
+          )
+        ) {
+          sources.set(ingestedFrom.path, ingestedFrom);
+        }
+      }
+    }
+
+    return sources;
+  }
+
   /**
    * Recursively scan directory for ROM files
    * Also handles single file paths
@@ -174,8 +439,7 @@ export class BatchProcessor {
 
       if (pathStat.isFile()) {
         // Single file - check if it's a recognized ROM file
-        const ext = extname(path).toLowerCase();
-        if (this.platformMap.has(ext)) {
+        if (this.isScannable(path)) {
           files.push(path);
         }
         return files;
@@ -193,8 +457,7 @@ export class BatchProcessor {
           files.push(...subFiles);
         } else if (entry.isFile()) {
           // Check if file has a recognized extension
-          const ext = extname(entry.name).toLowerCase();
-          if (this.platformMap.has(ext)) {
+          if (this.isScannable(entry.name)) {
             files.push(fullPath);
           }
         }
@@ -210,25 +473,368 @@ export class BatchProcessor {
     return files;
   }
 
+  /**
+   * ROM extensions plus zip archives
+   */
+  private isScannable(path: string): boolean {
+    const ext = extname(path).toLowerCase();
+    return isZipArchive(path) || this.resolver.candidatesFor(ext).length > 0;
+  }
+
   /**
    * Process a single ROM file
+   * Files with an undecidable shared extension are rejected, not misfiled
    */
-  private async processFile(source: string): Promise<ProcessedFile | null> {
+  private async processFile(
+    source: string,
+    run: BatchRun,
+    relink: boolean
+  ): Promise<ProcessedFile | RejectedFile | DuplicateFile | null> {
     const ext = extname(source).toLowerCase();
-    const platform = this.platformMap.get(ext);
+    const candidates = this.resolver.candidatesFor(ext);
 
-    if (!platform) {
+    if (candidates.length === 0) {
       return null;
     }
 
     const filename = basename(source);
     const fileStats = await stat(source);
 
+    // Only shared extensions pay for content probes
+    const resolution = this.resolver.isAmbiguous(ext)
+      ? await this.resolver.resolve(source, fileStats.size)
+      : { platform: candidates[0], reason: undefined };
+    const platform = resolution.platform;
+
+    if (platform === undefined) {
+      const reason = resolution.reason ?? 'Ambiguous platform';
+      const rejectedPath = await rejectFile(
+        source,
+        this.platformConfig.directories.workspace.rejected,
+        reason
+      );
+      return { file: source, reason, rejectedPath };
+    }
+
+    const rom = this.romFile(source, platform, filename, fileStats.size);
+    const content = await this.inspect(rom, run);
+    if ('duplicateOf' in content) {
+      return content;
+    }
+
+    return this.linkIntoLibrary(
+      source,
+      platform,
+      filename,
+      fileStats.size,
+      content,
+      () => this.hash(rom, run),
+      relink
+    );
+  }
+
+  /**
+   * Process a zip archive
+   * Single-ROM archives are linked intact; multi-entry archives are
+   * extracted to staging, linked into the library, then cleaned up
+   */
+  private async processArchive(
+    source: string,
+    run: BatchRun,
+    relink: boolean
+  ): Promise<Array<ProcessedFile | RejectedFile | DuplicateFile>> {
+    const contents = await classifyZipContents(source, this.resolver);
+    const rejectedDir = this.platformConfig.directories.workspace.rejected;
+    const [onlyRom] = contents.roms;
+
+    if (contents.roms.length === 0) {
+      const [firstUnresolved] = contents.unresolved;
+      if (firstUnresolved === undefined) {
+        return [];
+      }
+
+      const reason = firstUnresolved.resolution.reason ?? 'Ambiguous platform';
+      const rejectedPath = await rejectFile(source, rejectedDir, reason);
+      return [{ file: source, reason, rejectedPath }];
+    }
+
+    if (
+      contents.roms.length === 1 &&
+      contents.unresolved.length === 0 &&
+      onlyRom?.resolution.platform !== undefined
+    ) {
+      const { entry } = onlyRom;
+      const platform = onlyRom.resolution.platform;
+      const rom: ROMFile = {
+        ...this.romFile(
+          source,
+          platform,
+          basename(source),
+          entry.uncompressedSize
+        ),
+        containerPath: source,
+        entryName: entry.name,
+      };
+      const content = await this.inspect(rom, run, entry);
+      if ('duplicateOf' in content) {
+        return [content];
+      }
+
+      const processed = await this.linkIntoLibrary(
+        source,
+        platform,
+        basename(source),
+        entry.uncompressedSize,
+        content,
+        () => this.hash(rom, run, entry),
+        relink
+      );
+      return 'reason' in processed
+        ? [processed]
+        : [{ ...processed, containerPath: source, entryName: entry.name }];
+    }
+
+    const archiveName = basename(source, extname(source));
+    const stagingDir = join(
+      this.platformConfig.directories.workspace.staging,
+      archiveName
+    );
+    const results: Array<ProcessedFile | RejectedFile | DuplicateFile> = [];
+
+    try {
+      // Extract every ROM first, so cue sheets find their tracks
+      for (const { entry } of contents.roms) {
+        await extractZipEntry(
+          source,
+          entry,
+          join(stagingDir, basename(entry.name))
+        );
+      }
+
+      for (const { entry, resolution } of contents.roms) {
+        const platform = resolution.platform;
+        if (platform === undefined) {
+          continue;
+        }
+
+        const filename = basename(entry.name);
+        const staged = join(stagingDir, filename);
+        const rom: ROMFile = {
+          ...this.romFile(staged, platform, filename, entry.uncompressedSize),
+          containerPath: source,
+          entryName: entry.name,
+        };
+        const content = await this.inspect(rom, run);
+        if ('duplicateOf' in content) {
+          results.push({
+            file: archiveReference(source, entry.name),
+            duplicateOf: content.duplicateOf,
+          });
+          continue;
+        }
+
+        const processed = await this.linkIntoLibrary(
+          staged,
+          platform,
+          filename,
+          entry.uncompressedSize,
+          content,
+          () => this.hash(rom, run),
+          relink,
+          false
+        );
+        results.push(
+          'reason' in processed
+            ? { ...processed, file: archiveReference(source, entry.name) }
+            : {
+                ...processed,
+                source,
+                containerPath: source,
+                entryName: entry.name,
+              }
+        );
+      }
+
+      for (const { entry, resolution } of contents.unresolved) {
+        const staged = join(stagingDir, basename(entry.name));
+        await extractZipEntry(source, entry, staged);
+
+        const reason = resolution.reason ?? 'Ambiguous platform';
+        const rejectedPath = await rejectFile(staged, rejectedDir, reason);
+        results.push({
+          file: archiveReference(source, entry.name),
+          reason,
+          rejectedPath,
+        });
+      }
+    } finally {
+      await rm(stagingDir, { recursive: true, force: true });
+    }
+
+    return results;
+  }
+
+  /**
+   * Hashes a ROM on the worker pool and validates it as the
+   * PipelineOrchestrator does: cue sheets and companion files, duplicates,
+   * DATs, BIOS files and filename metadata
+   * Link-only runs do neither here; `linkIntoLibrary` hashes copies
+   * @throws When validation fails, so the file is reported as an error
+   */
+  private async inspect(
+    rom: ROMFile,
+    run: BatchRun,
+    entry?: ZipEntry
+  ): Promise<InspectedContent | DuplicateFile> {
+    if (run.index === undefined) {
+      return {};
+    }
+
+    const hashed = await this.hash(rom, run, entry);
+    const { hashes, headerless } = hashed;
+
+    const file =
+      rom.containerPath !== undefined && rom.entryName !== undefined
+        ? archiveReference(rom.containerPath, rom.entryName)
+        : rom.path;
+    const keys = [hashes.sha256, headerless?.hashes.sha256].filter(
+      (key): key is string => key !== undefined
+    );
+    const duplicateOf = this.claim(
+      run,
+      run.index,
+      file,
+      resolve(rom.containerPath ?? rom.path),
+      keys
+    );
+    if (duplicateOf !== undefined) {
+      return { file, duplicateOf };
+    }
+
+    const validated: ROMFile = { ...rom, hash: hashes.sha256, ...hashed };
+    const errors: string[] = [];
+
+    const companionResult = await this.validator.checkCompanionFiles(validated);
+    if (!companionResult.success) {
+      errors.push(companionResult.error ?? 'Companion file check failed');
+    }
+    const datResult = await this.validator.verifyAgainstDat(validated);
+    if (!datResult.success || datResult.data === undefined) {
+      errors.push(datResult.error ?? 'DAT verification failed');
+    }
+    const biosResult = await this.validator.validateBIOSDependencies(validated);
+    if (!biosResult.success) {
+      errors.push(biosResult.error ?? 'BIOS validation failed');
+    }
+
+    if (errors.length > 0) {
+      // A rejected file does not make later copies duplicates
+      keys.forEach((key) => run.claimed.delete(key));
+      throw new Error(errors.join('; '));
+    }
+
+    const companionFiles = (companionResult.data ?? []).map((f) => basename(f));
+    const metadataResult = await this.normalizer.generateMetadata(validated);
+    return {
+      ...hashed,
+      ...(companionFiles.length > 0 && { companionFiles }),
+      ...(datResult.data !== undefined && { dat: datResult.data }),
+      ...(metadataResult.data !== undefined && {
+        metadata: metadataResult.data,
+      }),
+    };
+  }
+
+  /**
+   * Full and headerless checksums of a ROM, taken on the worker pool
+   */
+  private async hash(
+    rom: ROMFile,
+    run: BatchRun,
+    entry?: ZipEntry
+  ): Promise<Pick<InspectedContent, 'headerless'> & { hashes: RomHashes }> {
+    const { hashes, headerless } = await run.pool.hash({
+      path: rom.path,
+      ...(rom.platform !== undefined && { platform: rom.platform }),
+      size: rom.size,
+      ...(entry !== undefined && { entry }),
+    });
+    return { hashes, ...(headerless !== undefined && { headerless }) };
+  }
+
+  /**
+   * Returns what `file`'s content duplicates, or claims its hashes
+   * Entries ingested from the same `source` are its old version, not
+   * duplicates; synchronous, so concurrent copies cannot both pass
+   */
+  private claim(
+    run: BatchRun,
+    index: HashIndex,
+    file: string,
+    source: string,
+    keys: string[]
+  ): string | undefined {
+    const archived = keys
+      .flatMap((key) => index.find('sha256', key))
+      .find((entry) => entry.ingestedFrom?.path !== source);
+    if (archived !== undefined) {
+      return archived.filename;
+    }
+
+    const earlier = keys
+      .map((key) => run.claimed.get(key))
+      .find((claimant) => claimant !== undefined);
+    if (earlier !== undefined) {
+      return earlier;
+    }
+
+    keys.forEach((key) => run.claimed.set(key, file));
+    return undefined;
+  }
+
+  /**
+   * ROM as the Validator and Normalizer see it
+   */
+  private romFile(
+    path: string,
+    platform: PlatformDefinition,
+    filename: string,
+    size: number
+  ): ROMFile {
+    return {
+      id: filename,
+      filename,
+      path,
+      platform: platform.id,
+      extension: extname(filename).toLowerCase(),
+      size,
+    };
+  }
+
+  /**
+   * Links a file into downloads/{Platform Name}/ and archive/{Platform Name}/
+   * by the first configured link strategy that works
+   * With `relink`, existing links are replaced; `durable` is false for
+   * staged files, which are deleted afterwards
+   * Unhashed content is hashed by `hashCopy` when the file was copied
+   * A library path already holding a different file is not overwritten:
+   * the file is rejected instead
+   */
+  private async linkIntoLibrary(
+    source: string,
+    platform: PlatformDefinition,
+    filename: string,
+    size: number,
+    content: InspectedContent,
+    hashCopy: () => Promise<InspectedContent>,
+    relink = false,
+    durable = true
+  ): Promise<ProcessedFile | RejectedFile> {
     // Destination: basePath/downloads/{Platform Name}/{filename}
     const platformDir = join(this.paths.downloads, platform.name);
     const destination = join(platformDir, filename);
 
-    // Also create hard link in archive
+    // Also link into archive
     const archiveDir = join(this.paths.archive, platform.name);
     const archiveDest = join(archiveDir, filename);
 
@@ -236,23 +842,44 @@ export class BatchProcessor {
     await mkdir(platformDir, { recursive: true });
     await mkdir(archiveDir, { recursive: true });
 
-    // Create hard link to downloads (primary location)
-    if (!existsSync(destination)) {
-      await link(source, destination);
+    if (relink) {
+      await rm(destination, { force: true });
+      await rm(archiveDest, { force: true });
     }
 
-    // Create hard link to archive (tracking)
-    if (!existsSync(archiveDest)) {
-      await link(source, archiveDest);
+    for (const path of [destination, archiveDest]) {
+      if ((await isPlaced(path)) && !(await holdsSameContent(source, path))) {
+        const reason = `A different file is already at ${path}`;
+        const rejectedPath = await rejectFile(
+          source,
+          this.platformConfig.directories.workspace.rejected,
+          reason
+        );
+        return { file: source, reason, rejectedPath };
+      }
     }
 
+    // Link to downloads (primary location)
+    const linkStrategy = (await isPlaced(destination))
+      ? undefined
+      : await this.linker.link(source, destination, durable);
+
+    // Link to archive (tracking)
+    const archiveStrategy = (await isPlaced(archiveDest))
+      ? undefined
+      : await this.linker.link(source, archiveDest, durable);
+
+    const copied = linkStrategy === 'copy' || archiveStrategy === 'copy';
     return {
       source,
       destination,
       platform: platform.id,
       platformName: platform.name,
-      size: fileStats.size,
+      size,
       filename,
+      ...content,
+      ...(content.hashes === undefined && copied && (await hashCopy())),
+      ...(linkStrategy !== undefined && { linkStrategy }),
     };
   }
 
@@ -276,68 +903,88 @@ export class BatchProcessor {
 
   /**
    * Write manifests (one per platform, batched)
+   * Entries are merged into the platform id's manifest, which the pipeline
+   * Archiver shares, so batch-ingested ROMs count as duplicates
+   * Entries of a re-processed source replace those of its old version
    */
   private async writeManifests(files: ProcessedFile[]): Promise<void> {
     const grouped = this.groupByPlatform(files);
 
-    const tasks = Array.from(grouped.entries()).map(
-      async ([platformName, platformFiles]) => {
-        const manifest = {
-          version: '1.0.0',
-          platform: platformName,
-          totalFiles: platformFiles.length,
-          files: platformFiles.map((f) => ({
-            filename: f.filename,
-            size: f.size,
-            source: f.source,
-            destination: f.destination,
-            processedAt: new Date().toISOString(),
-          })),
-        };
+    const tasks = Array.from(grouped.values()).map(async (platformFiles) => {
+      const entries = platformFiles.map((f) =>
+        batchManifestEntry(f.platform, {
+          filename: f.filename,
+          size: f.size,
+          ...(f.hashes !== undefined && { hashes: f.hashes }),
+          source: f.source,
+          destination: f.destination,
+          ...(f.containerPath !== undefined && {
+            containerPath: f.containerPath,
+          }),
+          ...(f.entryName !== undefined && { entryName: f.entryName }),
+          ...(f.headerless !== undefined && { headerless: f.headerless }),
+          ...(f.companionFiles !== undefined && {
+            companionFiles: f.companionFiles,
+          }),
+          ...(f.dat !== undefined && { dat: f.dat }),
+          ...(f.metadata !== undefined && { metadata: f.metadata }),
+          ...(f.ingestedFrom !== undefined && {
+            ingestedFrom: f.ingestedFrom,
+          }),
+          ...(f.linkStrategy !== undefined && {
+            linkStrategy: f.linkStrategy,
+          }),
+          ...this.discSetOf(f.filename),
+        })
+      );
+      const platform = entries[0]?.platform ?? 'unknown';
+      const sources = new Set(entries.map((e) => e.ingestedFrom?.path));
 
-        const manifestPath = join(this.paths.manifests, `${platformName}.json`);
-        await writeFile(
-          manifestPath,
-          JSON.stringify(manifest, null, JSON_INDENT),
-          'utf-8'
-        );
-      }
-    );
+      const manifestPath = join(this.paths.manifests, `${platform}.json`);
+      await updateJsonFile(manifestPath, parseManifestDocument, (current) => ({
+        schemaVersion: MANIFEST_SCHEMA_VERSION,
+        platform,
+        entries: mergeManifestEntries(
+          (current?.entries ?? []).filter(
+            (e) =>
+              e.ingestedFrom === undefined || !sources.has(e.ingestedFrom.path)
+          ),
+          entries
+        ),
+      }));
+    });
 
     await Promise.all(tasks);
   }
 
   /**
    * Write RetroArch playlists (one per platform, batched)
+   * Items are merged by path into the existing playlist
    */
   private async writePlaylists(files: ProcessedFile[]): Promise<void> {
     const grouped = this.groupByPlatform(files);
 
     const tasks = Array.from(grouped.entries()).map(
       async ([platformName, platformFiles]) => {
-        const playlist = {
-          version: '1.5',
-          default_core_path: '',
-          default_core_name: '',
-          label_display_mode: 0,
-          right_thumbnail_mode: 0,
-          left_thumbnail_mode: 0,
-          sort_mode: 0,
-          items: platformFiles.map((f) => ({
-            path: f.destination,
-            label: f.filename.replace(/\.[^.]+$/, ''),
+        const items = (await this.playlistTargets(platformFiles)).map(
+          ({ path, label, crc32 }) => ({
+            path,
+            label,
             core_path: 'DETECT',
             core_name: 'DETECT',
-            crc32: '00000000',
+            crc32: playlistCrc32(crc32),
             db_name: platformName,
-          })),
-        };
+          })
+        );
 
         const playlistPath = join(this.paths.playlists, `${platformName}.lpl`);
-        await writeFile(
+        await updateJsonFile(
           playlistPath,
-          JSON.stringify(playlist, null, JSON_INDENT),
-          'utf-8'
+          parsePlaylist,
+          (current = emptyPlaylist()) => ({
+            ...current,
+            items: mergePlaylistItems(current.items, items),
+          })
         );
       }
     );
@@ -345,6 +992,83 @@ export class BatchProcessor {
     await Promise.all(tasks);
   }
 
+  /**
+   * Playlist paths and labels for one platform
+   * "(Disc N)" files collapse into one .m3u per title, written next to
+   * the discs; each disc launches from its cue sheet when it has one
+   * A set's CRC-32 is that of its first disc's launch file
+   */
+  private async playlistTargets(
+    files: ProcessedFile[]
+  ): Promise<PlaylistTarget[]> {
+    const targets: PlaylistTarget[] = [];
+    const discSets = new Map<
+      string,
+      { dir: string; title: string; discs: Map<number, ProcessedFile> }
+    >();
+
+    for (const f of files) {
+      const tag = parseDiscTag(f.filename);
+      if (tag === null) {
+        targets.push({
+          path:
+            f.entryName !== undefined && isZipArchive(f.destination)
+              ? archiveReference(f.destination, f.entryName)
+              : f.destination,
+          label: f.filename.replace(/\.[^.]+$/, ''),
+          ...(f.hashes !== undefined && { crc32: f.hashes.crc32 }),
+        });
+        continue;
+      }
+
+      const dir = dirname(f.destination);
+      const key = join(dir, tag.title);
+      const set = discSets.get(key) ?? {
+        dir,
+        title: tag.title,
+        discs: new Map<number, ProcessedFile>(),
+      };
+      const current = set.discs.get(tag.disc);
+      if (
+        current === undefined ||
+        extname(f.filename).toLowerCase() === CUE_EXTENSION
+      ) {
+        set.discs.set(tag.disc, f);
+      }
+      discSets.set(key, set);
+    }
+
+    for (const set of discSets.values()) {
+      const discs = Array.from(set.discs.entries()).sort(([a], [b]) => a - b);
+      const m3uPath = await updateM3u(
+        set.dir,
+        `${set.title}${M3U_EXTENSION}`,
+        discs.map(([disc, f]) => ({ disc, file: f.filename }))
+      );
+      targets.push({
+        path: m3uPath,
+        label: set.title,
+        ...(discs[0]?.[1].hashes !== undefined && {
+          crc32: discs[0][1].hashes.crc32,
+        }),
+      });
+    }
+
+    return targets;
+  }
+
+  /**
+   * Manifest disc set fields for "(Disc N)" files
+   */
+  private discSetOf(filename: string): {
+    discSet?: Omit<DiscSetMembership, 'file'>;
+  } {
+    const tag = parseDiscTag(filename);
+    return tag !== null
+      ? { discSet: { ...tag, playlist: `${tag.title}${M3U_EXTENSION}` } }
+      : {};
+  }
+
   /**
    * Group files by platform name
    */
@@ -361,22 +1085,69 @@ export class BatchProcessor {
 
     return grouped;
   }
+}
 
-  /**
-   * Build extension to platform mapping
-   */
-  private buildPlatformMap(): Map<string, { id: string; name: string }> {
-    const map = new Map<string, { id: string; name: string }>();
+/**
+ * Whether a library path exists, as a link or file; unlike `existsSync`,
+ * true for a symbolic link whose source is gone
+ */
+async function isPlaced(path: string): Promise<boolean> {
+  return lstat(path).then(
+    () => true,
+    () => false
+  );
+}
 
-    for (const platform of this.platformConfig.platforms) {
-      for (const ext of platform.extensions) {
-        map.set(ext.toLowerCase(), {
-          id: platform.id,
-          name: platform.name,
-        });
-      }
-    }
+/**
+ * Whether `destination` already holds `source`'s content: the same file
+ * (a hard link, or a symbolic link to it) or an identical copy
+ */
+async function holdsSameContent(
+  source: string,
+  destination: string
+): Promise<boolean> {
+  const [from, to] = await Promise.all([
+    stat(source),
+    stat(destination).catch(() => undefined),
+  ]);
+  if (to === undefined || from.size !== to.size) {
+    return false;
+  }
+  if (from.dev === to.dev && from.ino === to.ino) {
+    return true;
+  }
+  const [original, placed] = await Promise.all([
+    hashFile(source),
+    hashFile(destination),
+  ]);
+  return original.sha256 === placed.sha256;
+}
 
-    return map;
+/**
+ * Processed files by link strategy
+ */
+function countLinkStrategies(
+  files: ProcessedFile[]
+): Record<LinkStrategy, number> {
+  const counts = Object.fromEntries(
+    LINK_STRATEGIES.map((strategy) => [strategy, 0])
+  ) as Record<LinkStrategy, number>;
+  for (const { linkStrategy } of files) {
+    if (linkStrategy !== undefined) {
+      counts[linkStrategy]++;
+    }
   }
+  return counts;
+}
+
+/**
+ * Size, modification time and inode of a scanned file
+ */
+async function fingerprintOf(path: string): Promise<SourceFingerprint> {
+  const { size, mtimeMs, ino } = await stat(path);
+  return { path, size, mtimeMs, inode: ino };
+}
+
+function isSameFile(a: SourceFingerprint, b: SourceFingerprint): boolean {
+  return a.size === b.size && a.mtimeMs === b.mtimeMs && a.inode === b.inode;
 }
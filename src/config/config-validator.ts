@@ -87,6 +87,17 @@ export class ConfigValidator {
       errors,
       warnings
     );
+
+    // DAT directory is optional; verification is skipped when unset
+    if (
+      config.datDirectory !== undefined &&
+      config.datDirectory.trim() !== '' &&
+      !isAbsolute(config.datDirectory)
+    ) {
+      warnings.push(
+        `datDirectory: Path "${config.datDirectory}" is not absolute. Consider using an absolute path for better reliability.`
+      );
+    }
   }
 
   /**
@@ -13,20 +13,44 @@ import { Archiver } from '../pipeline/archiver.js';
 import { Promoter } from '../pipeline/promoter.js';
 import { ConfigLoader } from '../config/config-loader.js';
 import { platformConfig } from '../../config/platform.config.js';
-import { batchUploadConfig } from '../../config/policy.config.js';
+import {
+  batchQueueConfig,
+  batchUploadConfig,
+} from '../../config/policy.config.js';
 
-import { batchQueue, type BatchJob } from './batch-queue.js';
+import {
+  batchQueue,
+  type BatchJob,
+  type BatchJobStatus,
+  type BatchQueue,
+} from './batch-queue.js';
+
+/** Pipeline error for a ROM that is already archived */
+const DUPLICATE_ERROR = 'Duplicate ROM detected';
+/** Leases are renewed this many times per lease period */
+const LEASE_RENEWALS = 3;
 
 /**
  * Batch processor for handling queued ROM upload jobs
  * Runs serially (one file at a time) to avoid resource exhaustion
  * Follows POL-022 configuration for batch processing behavior
+ * Jobs are leased from the queue, so one interrupted by a crash or restart
+ * is resumed with its pending files; a running job gives way between files
+ * to a queued job of higher priority
  */
 export class BatchProcessor {
+  private readonly queue: BatchQueue;
   private isRunning = false;
+  /** Set while a job runs, so jobs never overlap */
+  private isProcessing = false;
   private processingInterval: NodeJS.Timeout | null = null;
+  private cleanupInterval: NodeJS.Timeout | null = null;
   private readonly POLL_INTERVAL_MS = 5000; // Poll queue every 5 seconds
-  private readonly CLEANUP_INTERVAL_MS = 24 * 60 * 60 * 1000; // Clean old jobs daily
+  private readonly CLEANUP_INTERVAL_MS = 60 * 60 * 1000; // Apply job retention hourly
+
+  constructor(queue: BatchQueue = batchQueue) {
+    this.queue = queue;
+  }
 
   /**
    * Start the batch processor
@@ -44,9 +68,9 @@ export class BatchProcessor {
       void this.processNextJob();
     }, this.POLL_INTERVAL_MS);
 
-    // Start cleanup loop for old completed jobs
-    setInterval(() => {
-      const cleared = batchQueue.clearOldJobs();
+    // Start cleanup loop for old finished jobs
+    this.cleanupInterval = setInterval(() => {
+      const cleared = this.queue.applyRetention();
       if (cleared > 0) {
         // eslint-disable-next-line no-console
         console.log(`Batch processor: Cleared ${cleared} old jobs`);
@@ -72,6 +96,10 @@ export class BatchProcessor {
       clearInterval(this.processingInterval);
       this.processingInterval = null;
     }
+    if (this.cleanupInterval !== null) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
 
     this.isRunning = false;
     // eslint-disable-next-line no-console
@@ -79,44 +107,56 @@ export class BatchProcessor {
   }
 
   /**
-   * Process the next queued job
-   * Polls queue for 'queued' status jobs and processes them serially
+   * Process queued jobs until none is left
+   * Leases a queued job, or one whose lease ran out, and processes it
    */
   private async processNextJob(): Promise<void> {
+    if (this.isProcessing) {
+      return;
+    }
+
+    this.isProcessing = true;
     try {
-      // Find first queued job
-      const jobs = batchQueue.listJobs();
-      const queuedJob = jobs.find((j) => j.status === 'queued');
+      const { leaseMs } = batchQueueConfig;
+      let job = this.queue.leaseNextJob(leaseMs);
 
-      if (queuedJob === undefined) {
-        return; // No jobs to process
-      }
+      while (job !== undefined) {
+        // Process this job, holding its lease meanwhile
+        const { id } = job;
+        const renewal = setInterval(() => {
+          this.queue.renewLease(id, leaseMs);
+        }, leaseMs / LEASE_RENEWALS);
+        try {
+          await this.processJob(job);
+        } finally {
+          clearInterval(renewal);
+        }
 
-      // Process this job
-      await this.processJob(queuedJob);
+        job = this.queue.leaseNextJob(leaseMs);
+      }
     } catch (error) {
       const err = error as Error;
       // eslint-disable-next-line no-console
       console.error('Error in batch processor loop:', err.message);
+    } finally {
+      this.isProcessing = false;
     }
   }
 
   /**
    * Process a single batch job
-   * Updates job status and processes each file serially
+   * Processes its pending files serially, stopping early when the job is
+   * cancelled or outranked
    */
   private async processJob(job: BatchJob): Promise<void> {
     try {
-      // Update status to processing
-      batchQueue.updateStatus(job.id, 'processing');
-
       // Load configuration
       const configLoader = new ConfigLoader();
       const configResult = await configLoader.load();
 
       if (!configResult.success || configResult.config === undefined) {
-        batchQueue.updateStatus(job.id, 'failed');
-        batchQueue.addError(job.id, 'Configuration not found');
+        this.queue.updateStatus(job.id, 'failed');
+        this.queue.addError(job.id, 'Configuration not found');
         return;
       }
 
@@ -137,17 +177,53 @@ export class BatchProcessor {
         promoter
       );
 
-      // Process each file serially (per POL-022)
-      let successCount = 0;
-      for (const file of job.files) {
+      // Process each file serially (per POL-022), skipping the files a
+      // previous attempt finished
+      for (let index = 0; index < job.files.length; index++) {
+        const file = job.files[index];
+        const status = job.results[index]?.status;
+        if (
+          file === undefined ||
+          (status !== 'pending' && status !== 'processing')
+        ) {
+          continue;
+        }
+
+        if (job.status === 'cancelled') {
+          break;
+        }
+        if (this.queue.hasHigherPriorityJob(job.id)) {
+          // Resumed with its pending files once the other job is done
+          this.queue.releaseJob(job.id);
+          return;
+        }
+
         try {
-          const result = await orchestrator.process(file.path);
+          const interrupted = this.queue.startFile(job.id, index);
+          const result = await orchestrator.process(file.path, file.hashes);
 
-          if (result.success) {
-            successCount++;
+          // An interrupted attempt may have archived the ROM already
+          if (
+            result.success ||
+            (interrupted &&
+              result.errors.length === 1 &&
+              result.errors[0] === DUPLICATE_ERROR)
+          ) {
+            this.queue.updateFile(job.id, index, {
+              filename: file.filename,
+              status: 'completed',
+              ...(result.rom?.platform !== undefined && {
+                platform: result.rom.platform,
+              }),
+            });
           } else {
             const errorMsg = `${file.filename}: ${result.errors.join(', ')} (phase: ${result.phase})`;
-            batchQueue.addError(job.id, errorMsg);
+            this.queue.addError(job.id, errorMsg);
+            this.queue.updateFile(job.id, index, {
+              filename: file.filename,
+              status: 'failed',
+              error: result.errors.join(', '),
+            });
 
             // Per POL-022 continueOnError: keep processing remaining files
             if (batchUploadConfig.errorHandling !== 'continueOnError') {
@@ -158,7 +234,12 @@ export class BatchProcessor {
         } catch (fileError) {
           const err = fileError as Error;
           const errorMsg = `${file.filename}: ${err.message}`;
-          batchQueue.addError(job.id, errorMsg);
+          this.queue.addError(job.id, errorMsg);
+          this.queue.updateFile(job.id, index, {
+            filename: file.filename,
+            status: 'failed',
+            error: err.message,
+          });
 
           // Per POL-022 continueOnError: keep processing
           if (batchUploadConfig.errorHandling !== 'continueOnError') {
@@ -167,25 +248,46 @@ export class BatchProcessor {
         }
 
         // Update progress
-        batchQueue.updateProgress(job.id, successCount + job.errors.length);
+        this.queue.updateProgress(
+          job.id,
+          this.countFiles(job, 'completed') + this.countFiles(job, 'failed')
+        );
       }
 
-      // Determine final status
-      const finalStatus = job.errors.length === 0 ? 'completed' : 'completed'; // All processed (even with errors)
-      batchQueue.updateStatus(job.id, finalStatus);
+      // Cancelled jobs keep their status
+      if (job.status !== 'cancelled') {
+        this.queue.updateStatus(job.id, this.finalStatusOf(job));
+      }
 
       // eslint-disable-next-line no-console
       console.log(
-        `Batch ${job.id}: Completed ${successCount}/${job.files.length} files (${job.errors.length} errors)`
+        `Batch ${job.id}: ${job.status}, ${this.countFiles(job, 'completed')}/${job.files.length} files completed (${job.errors.length} errors)`
       );
     } catch (error) {
       const err = error as Error;
-      batchQueue.updateStatus(job.id, 'failed');
-      batchQueue.addError(job.id, `Processing failed: ${err.message}`);
+      this.queue.updateStatus(job.id, 'failed');
+      this.queue.addError(job.id, `Processing failed: ${err.message}`);
       // eslint-disable-next-line no-console
       console.error(`Batch ${job.id} failed:`, err.message);
     }
   }
+
+  /**
+   * Status of a job once processing stops
+   * Only a job whose files all completed is completed; files left pending
+   * after a stop on error, or cancelled before a retry, count against it
+   */
+  private finalStatusOf(job: BatchJob): BatchJobStatus {
+    const completed = this.countFiles(job, 'completed');
+    if (completed === job.files.length) {
+      return 'completed';
+    }
+    return completed === 0 ? 'failed' : 'partially_failed';
+  }
+
+  private countFiles(job: BatchJob, status: 'completed' | 'failed'): number {
+    return job.results.filter((result) => result.status === status).length;
+  }
 }
 
 // Singleton instance for application-wide use
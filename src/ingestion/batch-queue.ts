@@ -1,65 +1,321 @@
 /**
  * Batch Job Queue Management
- * In-memory queue for tracking batch ROM upload jobs
+ * Persistent queue for tracking batch ROM upload jobs
  * Follows POL-022 (Batch Upload Policy) for job lifecycle
+ *
+ * Every change to a job is appended to a journal file in the workspace
+ * before it is applied in memory, so replaying the journal after a
+ * restart or crash rebuilds the queue as it was. Changes to a job's state
+ * are synced to disk; bookkeeping that is rebuilt by processing again
+ * (progress, leases, files being started) is left to the OS to flush. A job being
+ * processed is leased; when the lease runs out without being renewed the
+ * job is handed out again and resumes with its files still pending.
+ *
+ * Jobs are handed out by priority, then in creation order. A job can be
+ * cancelled, and a finished job can be retried, which queues its failed
+ * files again.
  */
 
+import {
+  closeSync,
+  fdatasyncSync,
+  fsyncSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+  writeSync,
+} from 'node:fs';
+import { dirname, resolve } from 'node:path';
+
 import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+
+import type { RomHashes } from '../interfaces/pipeline.interface.js';
+import { romHashesSchema } from '../pipeline/manifest-file.js';
+import { platformConfig } from '../../config/platform.config.js';
+import {
+  batchQueueConfig,
+  type BatchQueueConfig,
+} from '../../config/policy.config.js';
+
+export type BatchJobStatus =
+  | 'queued'
+  | 'processing'
+  | 'completed'
+  | 'partially_failed'
+  | 'failed'
+  | 'cancelled';
 
-export type BatchJobStatus = 'queued' | 'processing' | 'completed' | 'failed';
+export type BatchJobPriority = (typeof batchQueueConfig.priorities)[number];
+
+export type BatchFileStatus =
+  | 'pending'
+  | 'processing'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
 
 export interface BatchFile {
   filename: string;
   path: string;
   size: number;
+  /** Checksums taken during upload, reused by the Validator */
+  hashes?: RomHashes;
+}
+
+/**
+ * Status of one file of a batch job
+ */
+export interface BatchFileResult {
+  filename: string;
+  status: BatchFileStatus;
+  /** Platform id of the ingested ROM */
+  platform?: string;
+  error?: string;
 }
 
 export interface BatchJob {
   id: string;
   files: BatchFile[];
   status: BatchJobStatus;
+  priority: BatchJobPriority;
   progress: {
     processed: number;
     total: number;
   };
   errors: string[];
+  /** One per file, in the order of `files` */
+  results: BatchFileResult[];
   createdAt: Date;
   startedAt?: Date;
   completedAt?: Date;
 }
 
+const JOURNAL_FILE = 'batch-jobs.jsonl';
+
+const jobSchema = z.object({
+  id: z.string(),
+  files: z.array(
+    z.object({
+      filename: z.string(),
+      path: z.string(),
+      size: z.number(),
+      hashes: romHashesSchema.optional(),
+    })
+  ),
+  status: z.enum([
+    'queued',
+    'processing',
+    'completed',
+    'partially_failed',
+    'failed',
+    'cancelled',
+  ]),
+  priority: z.enum(batchQueueConfig.priorities).default('normal'),
+  progress: z.object({ processed: z.number(), total: z.number() }),
+  errors: z.array(z.string()),
+  results: z.array(
+    z.object({
+      filename: z.string(),
+      status: z.enum([
+        'pending',
+        'processing',
+        'completed',
+        'failed',
+        'cancelled',
+      ]),
+      platform: z.string().optional(),
+      error: z.string().optional(),
+    })
+  ),
+  createdAt: z.string(),
+  startedAt: z.string().optional(),
+  completedAt: z.string().optional(),
+});
+
+/**
+ * One line of the journal; replaying them in order rebuilds the queue
+ */
+const journalEntrySchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('job'), job: jobSchema }),
+  z.object({
+    type: z.literal('status'),
+    jobId: z.string(),
+    status: jobSchema.shape.status,
+    at: z.string(),
+  }),
+  z.object({
+    type: z.literal('progress'),
+    jobId: z.string(),
+    processed: z.number(),
+  }),
+  z.object({ type: z.literal('error'), jobId: z.string(), error: z.string() }),
+  z.object({
+    type: z.literal('file'),
+    jobId: z.string(),
+    index: z.number(),
+    result: jobSchema.shape.results.element,
+  }),
+  z.object({
+    type: z.literal('priority'),
+    jobId: z.string(),
+    priority: jobSchema.shape.priority.unwrap(),
+  }),
+  // Failed files are pending again and the job queued
+  z.object({ type: z.literal('retry'), jobId: z.string() }),
+  z.object({
+    type: z.literal('lease'),
+    jobId: z.string(),
+    expiresAt: z.number(),
+  }),
+  z.object({ type: z.literal('remove'), jobId: z.string() }),
+]);
+
+type JournalEntry = z.infer<typeof journalEntrySchema>;
+type SerializedJob = z.infer<typeof jobSchema>;
+
 /**
- * In-memory batch job queue manager
- * Stores job metadata and progress
- * Note: This is not persistent. For production, use Redis or database.
+ * Whether an entry must be on disk before it is acknowledged
+ * Progress, leases and files being started are flushed with the next
+ * entry that is synced; losing them to a power cut only repeats work
+ */
+function needsSync(entry: JournalEntry): boolean {
+  switch (entry.type) {
+    case 'progress':
+    case 'lease':
+      return false;
+    case 'file':
+      return entry.result.status !== 'processing';
+    default:
+      return true;
+  }
+}
+
+function isFinished(status: BatchJobStatus): boolean {
+  return status !== 'queued' && status !== 'processing';
+}
+
+function priorityRank(priority: BatchJobPriority): number {
+  return batchQueueConfig.priorities.indexOf(priority);
+}
+
+function countProcessed(job: BatchJob): number {
+  return job.results.filter(
+    (result) => result.status === 'completed' || result.status === 'failed'
+  ).length;
+}
+
+function serializeJob(job: BatchJob): SerializedJob {
+  return {
+    id: job.id,
+    files: job.files,
+    status: job.status,
+    priority: job.priority,
+    progress: job.progress,
+    errors: job.errors,
+    results: job.results,
+    createdAt: job.createdAt.toISOString(),
+    ...(job.startedAt !== undefined && {
+      startedAt: job.startedAt.toISOString(),
+    }),
+    ...(job.completedAt !== undefined && {
+      completedAt: job.completedAt.toISOString(),
+    }),
+  };
+}
+
+function deserializeResult(
+  result: SerializedJob['results'][number]
+): BatchFileResult {
+  return {
+    filename: result.filename,
+    status: result.status,
+    ...(result.platform !== undefined && { platform: result.platform }),
+    ...(result.error !== undefined && { error: result.error }),
+  };
+}
+
+function deserializeJob(job: SerializedJob): BatchJob {
+  return {
+    id: job.id,
+    files: job.files.map((file) => ({
+      filename: file.filename,
+      path: file.path,
+      size: file.size,
+      ...(file.hashes !== undefined && { hashes: file.hashes }),
+    })),
+    status: job.status,
+    priority: job.priority,
+    progress: { ...job.progress },
+    errors: [...job.errors],
+    results: job.results.map(deserializeResult),
+    createdAt: new Date(job.createdAt),
+    ...(job.startedAt !== undefined && { startedAt: new Date(job.startedAt) }),
+    ...(job.completedAt !== undefined && {
+      completedAt: new Date(job.completedAt),
+    }),
+  };
+}
+
+/**
+ * Journaled batch job queue manager
+ * Stores job metadata and progress; writes are synchronous so that a job
+ * is on disk before its creation is acknowledged
  */
 export class BatchQueue {
+  private readonly journalPath: string;
+  private readonly config: BatchQueueConfig;
   private jobs: Map<string, BatchJob> = new Map();
+  /** Lease expiry (epoch ms) of jobs being processed */
+  private leases = new Map<string, number>();
+  private journal: number | null = null;
+  private entryCount = 0;
+  private loaded = false;
+
+  constructor(
+    journalPath: string,
+    config: BatchQueueConfig = batchQueueConfig
+  ) {
+    this.journalPath = journalPath;
+    this.config = config;
+  }
 
   /**
    * Create and queue a new batch job
    */
-  createJob(files: BatchFile[]): BatchJob {
+  createJob(
+    files: BatchFile[],
+    priority: BatchJobPriority = 'normal'
+  ): BatchJob {
     const job: BatchJob = {
       id: uuidv4(),
       files,
       status: 'queued',
+      priority,
       progress: {
         processed: 0,
         total: files.length,
       },
       errors: [],
+      results: files.map((file) => ({
+        filename: file.filename,
+        status: 'pending',
+      })),
       createdAt: new Date(),
     };
 
-    this.jobs.set(job.id, job);
-    return job;
+    this.record({ type: 'job', job: serializeJob(job) });
+    return this.jobs.get(job.id) ?? job;
   }
 
   /**
    * Get job by ID
    */
   getJob(jobId: string): BatchJob | undefined {
+    this.load();
     return this.jobs.get(jobId);
   }
 
@@ -67,81 +323,392 @@ export class BatchQueue {
    * Update job status
    */
   updateStatus(jobId: string, status: BatchJobStatus): BatchJob | undefined {
-    const job = this.jobs.get(jobId);
+    return this.recordFor(jobId, {
+      type: 'status',
+      jobId,
+      status,
+      at: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Update job progress
+   */
+  updateProgress(jobId: string, processed: number): BatchJob | undefined {
+    return this.recordFor(jobId, { type: 'progress', jobId, processed });
+  }
+
+  /**
+   * Add error to job
+   */
+  addError(jobId: string, error: string): BatchJob | undefined {
+    return this.recordFor(jobId, { type: 'error', jobId, error });
+  }
+
+  /**
+   * Record the status of file `index` of a job
+   */
+  updateFile(
+    jobId: string,
+    index: number,
+    result: BatchFileResult
+  ): BatchJob | undefined {
+    if (this.getJob(jobId)?.results[index] === undefined) {
+      return undefined;
+    }
+    return this.recordFor(jobId, { type: 'file', jobId, index, result });
+  }
+
+  /**
+   * List all jobs (for monitoring/debugging)
+   */
+  listJobs(): BatchJob[] {
+    this.load();
+    return Array.from(this.jobs.values());
+  }
+
+  /**
+   * Hands out the highest priority job that is queued, or processing under
+   * a lease that ran out, marking it processing under a new lease
+   * A resumed job keeps its file statuses; its pending files remain
+   */
+  leaseNextJob(leaseMs: number = this.config.leaseMs): BatchJob | undefined {
+    const job = this.availableJobs()[0];
     if (job === undefined) {
       return undefined;
     }
 
-    job.status = status;
+    this.updateStatus(job.id, 'processing');
+    this.renewLease(job.id, leaseMs);
+    return job;
+  }
 
-    if (status === 'processing' && job.startedAt === undefined) {
-      job.startedAt = new Date();
+  /**
+   * Extends the lease of a processing job
+   */
+  renewLease(
+    jobId: string,
+    leaseMs: number = this.config.leaseMs
+  ): BatchJob | undefined {
+    if (this.getJob(jobId)?.status !== 'processing') {
+      return undefined;
     }
+    return this.recordFor(jobId, {
+      type: 'lease',
+      jobId,
+      expiresAt: Date.now() + leaseMs,
+    });
+  }
 
-    if (
-      (status === 'completed' || status === 'failed') &&
-      job.completedAt === undefined
-    ) {
-      job.completedAt = new Date();
+  /**
+   * Whether a job waiting to be leased outranks `jobId`
+   */
+  hasHigherPriorityJob(jobId: string): boolean {
+    const job = this.getJob(jobId);
+    const next = this.availableJobs().find(
+      (candidate) => candidate.id !== jobId
+    );
+    return (
+      job !== undefined &&
+      next !== undefined &&
+      priorityRank(next.priority) < priorityRank(job.priority)
+    );
+  }
+
+  /**
+   * Returns a processing job to the queue, giving up its lease
+   */
+  releaseJob(jobId: string): BatchJob | undefined {
+    if (this.getJob(jobId)?.status !== 'processing') {
+      return undefined;
+    }
+    return this.updateStatus(jobId, 'queued');
+  }
+
+  /**
+   * Marks file `index` of a job as handed to the pipeline
+   * @returns Whether an earlier attempt at the same file was interrupted
+   * before its outcome was recorded
+   */
+  startFile(jobId: string, index: number): boolean {
+    const file = this.getJob(jobId)?.results[index];
+    if (file === undefined) {
+      return false;
     }
 
-    return job;
+    const interrupted = file.status === 'processing';
+    this.updateFile(jobId, index, {
+      filename: file.filename,
+      status: 'processing',
+    });
+    return interrupted;
   }
 
   /**
-   * Update job progress
+   * Cancels a queued or processing job; its pending files are cancelled
+   * A file already in the pipeline finishes and keeps its outcome
+   * @returns The job, or undefined when unknown or already finished
    */
-  updateProgress(jobId: string, processed: number): BatchJob | undefined {
-    const job = this.jobs.get(jobId);
-    if (job === undefined) {
+  cancelJob(jobId: string): BatchJob | undefined {
+    const job = this.getJob(jobId);
+    if (job === undefined || isFinished(job.status)) {
       return undefined;
     }
+    return this.updateStatus(jobId, 'cancelled');
+  }
 
-    job.progress.processed = Math.min(processed, job.progress.total);
-    return job;
+  /**
+   * Queues the failed files of a finished job again
+   * @returns The job, or undefined when unknown, unfinished or without
+   * failed files
+   */
+  retryJob(jobId: string): BatchJob | undefined {
+    const job = this.getJob(jobId);
+    if (
+      job === undefined ||
+      !isFinished(job.status) ||
+      !job.results.some((result) => result.status === 'failed')
+    ) {
+      return undefined;
+    }
+    return this.recordFor(jobId, { type: 'retry', jobId });
   }
 
   /**
-   * Add error to job
+   * Changes the priority of a job that has not finished
    */
-  addError(jobId: string, error: string): BatchJob | undefined {
-    const job = this.jobs.get(jobId);
-    if (job === undefined) {
+  setPriority(jobId: string, priority: BatchJobPriority): BatchJob | undefined {
+    const job = this.getJob(jobId);
+    if (job === undefined || isFinished(job.status)) {
       return undefined;
     }
+    return this.recordFor(jobId, { type: 'priority', jobId, priority });
+  }
 
-    job.errors.push(error);
-    return job;
+  /**
+   * Removes finished jobs older than the retention period, then the
+   * oldest beyond the number of finished jobs kept, deleting their
+   * uploaded files
+   * Queued and processing jobs are never removed
+   * @returns The number of jobs removed
+   */
+  applyRetention(): number {
+    const now = Date.now();
+    const finished = this.listJobs()
+      .filter((job) => isFinished(job.status))
+      .sort(
+        (a, b) =>
+          (b.completedAt?.getTime() ?? 0) - (a.completedAt?.getTime() ?? 0)
+      );
+
+    const expired = finished.filter(
+      (job, rank) =>
+        rank >= this.config.maxFinishedJobs ||
+        now - (job.completedAt?.getTime() ?? 0) > this.config.retentionMs
+    );
+    for (const job of expired) {
+      this.record({ type: 'remove', jobId: job.id });
+      for (const file of job.files) {
+        rmSync(file.path, { force: true });
+      }
+    }
+
+    if (expired.length > 0) {
+      this.compact();
+    }
+    return expired.length;
   }
 
   /**
-   * List all jobs (for monitoring/debugging)
+   * Closes the journal; the next change reopens it
    */
-  listJobs(): BatchJob[] {
-    return Array.from(this.jobs.values());
+  close(): void {
+    if (this.journal !== null) {
+      closeSync(this.journal);
+      this.journal = null;
+    }
   }
 
   /**
-   * Clear completed jobs older than specified time (for cleanup)
+   * Jobs that can be leased, highest priority first, then oldest first
    */
-  clearOldJobs(maxAgeMs: number = 24 * 60 * 60 * 1000): number {
+  private availableJobs(): BatchJob[] {
     const now = Date.now();
-    let cleared = 0;
-
-    for (const [jobId, job] of this.jobs) {
-      if (
-        (job.status === 'completed' || job.status === 'failed') &&
-        job.completedAt !== undefined &&
-        now - job.completedAt.getTime() > maxAgeMs
-      ) {
-        this.jobs.delete(jobId);
-        cleared++;
+    return this.listJobs()
+      .filter(
+        (job) =>
+          job.status === 'queued' ||
+          (job.status === 'processing' && (this.leases.get(job.id) ?? 0) <= now)
+      )
+      .sort((a, b) => priorityRank(a.priority) - priorityRank(b.priority));
+  }
+
+  private recordFor(jobId: string, entry: JournalEntry): BatchJob | undefined {
+    if (this.getJob(jobId) === undefined) {
+      return undefined;
+    }
+    this.record(entry);
+    return this.jobs.get(jobId);
+  }
+
+  /**
+   * Writes an entry to the journal, syncing it when it changes job state,
+   * then applies it
+   */
+  private record(entry: JournalEntry): void {
+    this.load();
+    if (this.journal === null) {
+      mkdirSync(dirname(this.journalPath), { recursive: true });
+      this.journal = openSync(this.journalPath, 'a');
+    }
+
+    writeSync(this.journal, `${JSON.stringify(entry)}\n`);
+    if (needsSync(entry)) {
+      fdatasyncSync(this.journal);
+    }
+    this.entryCount++;
+    this.apply(entry);
+
+    if (this.entryCount > this.config.compactAfterEntries) {
+      this.compact();
+    }
+  }
+
+  private apply(entry: JournalEntry): void {
+    if (entry.type === 'job') {
+      this.jobs.set(entry.job.id, deserializeJob(entry.job));
+      return;
+    }
+
+    const job = this.jobs.get(entry.jobId);
+    if (job === undefined) {
+      return;
+    }
+
+    switch (entry.type) {
+      case 'status':
+        job.status = entry.status;
+        if (entry.status === 'processing' && job.startedAt === undefined) {
+          job.startedAt = new Date(entry.at);
+        }
+        if (entry.status === 'queued' || isFinished(entry.status)) {
+          this.leases.delete(job.id);
+        }
+        if (isFinished(entry.status)) {
+          job.completedAt ??= new Date(entry.at);
+        }
+        if (entry.status === 'cancelled') {
+          for (const result of job.results) {
+            if (result.status === 'pending') {
+              result.status = 'cancelled';
+            }
+          }
+        }
+        break;
+      case 'progress':
+        job.progress.processed = Math.min(entry.processed, job.progress.total);
+        break;
+      case 'error':
+        job.errors.push(entry.error);
+        break;
+      case 'file':
+        if (job.results[entry.index] !== undefined) {
+          job.results[entry.index] = deserializeResult(entry.result);
+        }
+        break;
+      case 'priority':
+        job.priority = entry.priority;
+        break;
+      case 'retry':
+        job.results = job.results.map((result) =>
+          result.status === 'failed'
+            ? { filename: result.filename, status: 'pending' }
+            : result
+        );
+        job.status = 'queued';
+        job.errors = [];
+        job.progress.processed = countProcessed(job);
+        delete job.completedAt;
+        break;
+      case 'lease':
+        this.leases.set(job.id, entry.expiresAt);
+        break;
+      case 'remove':
+        this.jobs.delete(job.id);
+        this.leases.delete(job.id);
+        break;
+    }
+  }
+
+  /**
+   * Replays the journal once, on first use
+   * A line cut short by a crash is dropped, and the journal rewritten so
+   * that later entries do not follow it on the same line
+   */
+  private load(): void {
+    if (this.loaded) {
+      return;
+    }
+    this.loaded = true;
+
+    let content: string;
+    try {
+      content = readFileSync(this.journalPath, 'utf-8');
+    } catch {
+      return; // No journal yet
+    }
+
+    let damaged = false;
+    for (const line of content.split('\n')) {
+      if (line === '') {
+        continue;
+      }
+      try {
+        this.apply(journalEntrySchema.parse(JSON.parse(line)));
+        this.entryCount++;
+      } catch {
+        damaged = true;
       }
     }
 
-    return cleared;
+    if (damaged || (content !== '' && !content.endsWith('\n'))) {
+      this.compact();
+    }
+  }
+
+  /**
+   * Rewrites the journal as one snapshot of every job
+   */
+  private compact(): void {
+    const entries: JournalEntry[] = [];
+    for (const job of this.jobs.values()) {
+      entries.push({ type: 'job', job: serializeJob(job) });
+      const expiresAt = this.leases.get(job.id);
+      if (expiresAt !== undefined) {
+        entries.push({ type: 'lease', jobId: job.id, expiresAt });
+      }
+    }
+
+    this.close();
+    mkdirSync(dirname(this.journalPath), { recursive: true });
+    const tempPath = `${this.journalPath}.tmp`;
+    writeFileSync(
+      tempPath,
+      entries.map((entry) => `${JSON.stringify(entry)}\n`).join('')
+    );
+    const handle = openSync(tempPath, 'r');
+    try {
+      fsyncSync(handle);
+    } finally {
+      closeSync(handle);
+    }
+    renameSync(tempPath, this.journalPath);
+    this.entryCount = entries.length;
   }
 }
 
-// Singleton instance for use throughout the application
-export const batchQueue = new BatchQueue();
+// Singleton instance for use throughout the application, journaled in the
+// workspace directory
+export const batchQueue = new BatchQueue(
+  resolve(platformConfig.directories.workspace.root, 'queue', JOURNAL_FILE)
+);
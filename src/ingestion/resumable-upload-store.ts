@@ -0,0 +1,404 @@
+/**
+ * Resumable Upload Store
+ * Chunked uploads that survive dropped connections (tus-style)
+ * Follows POL-022 (Batch Upload Policy) for upload limits
+ *
+ * Each upload is a directory in the workspace staging area holding the
+ * bytes received so far and an `upload.json` with its offset, so a client
+ * can ask where to resume even after a server restart. Chunks must start
+ * at the current offset and may carry a checksum; a chunk that fails its
+ * checksum is discarded. Uploads that stop receiving chunks expire.
+ * Finalizing an upload holds it until it is removed, so chunks, a second
+ * finalize and expiry leave it alone meanwhile.
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, open, readdir, rename, rm } from 'node:fs/promises';
+import { basename, join, resolve } from 'node:path';
+
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
+
+import {
+  readJsonFile,
+  serializeJson,
+  writeFileAtomic,
+} from '../pipeline/atomic-file.js';
+import { platformConfig } from '../../config/platform.config.js';
+import {
+  resumableUploadConfig,
+  type ResumableUploadConfig,
+} from '../../config/policy.config.js';
+
+const INFO_FILE = 'upload.json';
+const DATA_FILE = 'data.part';
+/** Upload ids are v4 UUIDs; anything else never reaches the filesystem */
+const UPLOAD_ID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+/** Checksum algorithms accepted for chunks */
+const CHECKSUM_ALGORITHMS = new Set(['md5', 'sha1', 'sha256']);
+
+const resumableUploadSchema = z.object({
+  id: z.string(),
+  filename: z.string(),
+  size: z.number().int().nonnegative(),
+  offset: z.number().int().nonnegative(),
+  createdAt: z.string(),
+  expiresAt: z.string(),
+});
+
+export type ResumableUpload = z.infer<typeof resumableUploadSchema>;
+
+/**
+ * Checksum a client sent with a chunk, e.g. `Upload-Checksum: sha1 <base64>`
+ */
+export interface ChunkChecksum {
+  algorithm: string;
+  /** Base64 digest of the chunk */
+  digest: string;
+}
+
+/**
+ * Why a chunk was not appended
+ */
+export type ChunkRejection =
+  | 'not-found'
+  | 'busy'
+  | 'finalizing'
+  | 'offset-mismatch'
+  | 'too-large'
+  | 'unsupported-checksum'
+  | 'checksum-mismatch';
+
+export type AppendResult =
+  | { success: true; upload: ResumableUpload }
+  | { success: false; reason: ChunkRejection; error: string };
+
+/**
+ * Why an upload could not be finalized
+ */
+export type CompleteRejection = 'not-found' | 'busy' | 'incomplete';
+
+export type CompleteResult =
+  | { success: true; upload: ResumableUpload; path: string }
+  | { success: false; reason: CompleteRejection; error: string };
+
+export class ResumableUploadStore {
+  private readonly directory: string;
+  private readonly config: ResumableUploadConfig;
+  /** Uploads with a chunk being written; one chunk at a time each */
+  private readonly receiving = new Set<string>();
+  /** Uploads being finalized; held until they are removed */
+  private readonly finalizing = new Set<string>();
+  private cleanupInterval: NodeJS.Timeout | null = null;
+
+  constructor(
+    directory: string,
+    config: ResumableUploadConfig = resumableUploadConfig
+  ) {
+    this.directory = directory;
+    this.config = config;
+  }
+
+  /**
+   * Starts removing expired uploads periodically
+   */
+  start(): void {
+    if (this.cleanupInterval !== null) {
+      return;
+    }
+
+    this.cleanupInterval = setInterval(() => {
+      void this.expireStale();
+    }, this.config.cleanupIntervalMs);
+    this.cleanupInterval.unref();
+  }
+
+  /**
+   * Stops removing expired uploads
+   */
+  stop(): void {
+    if (this.cleanupInterval !== null) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+  }
+
+  /**
+   * Creates an empty upload of `size` bytes
+   */
+  async create(filename: string, size: number): Promise<ResumableUpload> {
+    const now = Date.now();
+    const upload: ResumableUpload = {
+      id: uuidv4(),
+      filename,
+      size,
+      offset: 0,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.config.expiryMs).toISOString(),
+    };
+
+    await mkdir(this.uploadDir(upload.id), { recursive: true });
+    await (await open(this.dataPath(upload.id), 'wx')).close();
+    await this.save(upload);
+    return upload;
+  }
+
+  /**
+   * Current state of an upload, or undefined when unknown or expired
+   */
+  async get(id: string): Promise<ResumableUpload | undefined> {
+    if (!UPLOAD_ID_PATTERN.test(id)) {
+      return undefined;
+    }
+
+    let upload: ResumableUpload | undefined;
+    try {
+      upload = (
+        await readJsonFile(join(this.uploadDir(id), INFO_FILE), (value) =>
+          resumableUploadSchema.parse(value)
+        )
+      )?.data;
+    } catch {
+      // An unreadable upload cannot be resumed
+      return undefined;
+    }
+
+    if (upload !== undefined && Date.parse(upload.expiresAt) <= Date.now()) {
+      await this.remove(id);
+      return undefined;
+    }
+    return upload;
+  }
+
+  /**
+   * Appends a chunk that starts at `offset`
+   * Without a checksum the bytes received before a dropped connection are
+   * kept, so the client resumes after them
+   */
+  async append(
+    id: string,
+    offset: number,
+    chunk: AsyncIterable<Buffer>,
+    checksum?: ChunkChecksum
+  ): Promise<AppendResult> {
+    if (
+      checksum !== undefined &&
+      !CHECKSUM_ALGORITHMS.has(checksum.algorithm)
+    ) {
+      return {
+        success: false,
+        reason: 'unsupported-checksum',
+        error: `Unsupported checksum algorithm: ${checksum.algorithm}`,
+      };
+    }
+
+    if (this.finalizing.has(id)) {
+      return {
+        success: false,
+        reason: 'finalizing',
+        error: 'Upload is being finalized',
+      };
+    }
+    if (this.receiving.has(id)) {
+      return {
+        success: false,
+        reason: 'busy',
+        error: 'Another chunk of this upload is being received',
+      };
+    }
+
+    this.receiving.add(id);
+    try {
+      const upload = await this.get(id);
+      if (upload === undefined) {
+        return {
+          success: false,
+          reason: 'not-found',
+          error: 'Upload not found',
+        };
+      }
+      if (offset !== upload.offset) {
+        return {
+          success: false,
+          reason: 'offset-mismatch',
+          error: `Chunk offset ${offset} does not match upload offset ${upload.offset}`,
+        };
+      }
+
+      return await this.write(upload, chunk, checksum);
+    } finally {
+      this.receiving.delete(id);
+    }
+  }
+
+  /**
+   * Moves a fully received upload to its own filename for the pipeline
+   * On success the upload stays held until `remove` is called
+   */
+  async complete(id: string): Promise<CompleteResult> {
+    if (this.finalizing.has(id) || this.receiving.has(id)) {
+      return {
+        success: false,
+        reason: 'busy',
+        error: this.finalizing.has(id)
+          ? 'Upload is already being finalized'
+          : 'A chunk of this upload is being received',
+      };
+    }
+
+    this.finalizing.add(id);
+    try {
+      const upload = await this.get(id);
+      if (upload === undefined) {
+        this.finalizing.delete(id);
+        return {
+          success: false,
+          reason: 'not-found',
+          error: 'Upload not found',
+        };
+      }
+      if (upload.offset < upload.size) {
+        this.finalizing.delete(id);
+        return {
+          success: false,
+          reason: 'incomplete',
+          error: `Upload incomplete: ${upload.offset} of ${upload.size} bytes received`,
+        };
+      }
+
+      // Sanitize filename to prevent path traversal attacks
+      const filename = basename(upload.filename).replace(
+        /[^a-zA-Z0-9._-]/g,
+        '_'
+      );
+      const path = join(this.uploadDir(upload.id), filename);
+      await rename(this.dataPath(upload.id), path);
+      return { success: true, upload, path };
+    } catch (error) {
+      this.finalizing.delete(id);
+      throw error;
+    }
+  }
+
+  /**
+   * Deletes an upload and everything received for it
+   */
+  async remove(id: string): Promise<void> {
+    try {
+      if (UPLOAD_ID_PATTERN.test(id)) {
+        await rm(this.uploadDir(id), { recursive: true, force: true });
+      }
+    } finally {
+      this.finalizing.delete(id);
+    }
+  }
+
+  /**
+   * Removes uploads that expired, or whose state can no longer be read
+   * @returns The ids removed
+   */
+  async expireStale(): Promise<string[]> {
+    let ids: string[];
+    try {
+      ids = await readdir(this.directory);
+    } catch {
+      return []; // Nothing uploaded yet
+    }
+
+    const removed: string[] = [];
+    for (const id of ids.filter((name) => UPLOAD_ID_PATTERN.test(name))) {
+      if (this.receiving.has(id) || this.finalizing.has(id)) {
+        continue;
+      }
+      // get() removes expired uploads itself
+      if ((await this.get(id)) === undefined) {
+        await this.remove(id);
+        removed.push(id);
+      }
+    }
+    return removed;
+  }
+
+  private async write(
+    upload: ResumableUpload,
+    chunk: AsyncIterable<Buffer>,
+    checksum?: ChunkChecksum
+  ): Promise<AppendResult> {
+    const hash =
+      checksum === undefined ? undefined : createHash(checksum.algorithm);
+    const handle = await open(this.dataPath(upload.id), 'r+');
+    let position = upload.offset;
+    let result: AppendResult | undefined;
+    let received = false;
+
+    try {
+      for await (const data of chunk) {
+        if (result !== undefined) {
+          continue; // Drain the rest so the rejection can be answered
+        }
+        if (position + data.length > upload.size) {
+          result = {
+            success: false,
+            reason: 'too-large',
+            error: `Chunk exceeds upload size of ${upload.size} bytes`,
+          };
+          continue;
+        }
+        hash?.update(data);
+        await handle.write(data, 0, data.length, position);
+        position += data.length;
+      }
+
+      if (
+        result === undefined &&
+        hash !== undefined &&
+        hash.digest('base64') !== checksum?.digest
+      ) {
+        result = {
+          success: false,
+          reason: 'checksum-mismatch',
+          error: 'Chunk checksum does not match its content',
+        };
+      }
+      received = true;
+    } finally {
+      // A rejected chunk is dropped; of an interrupted one, only an
+      // unverified chunk keeps the bytes that arrived
+      const kept = (received ? result === undefined : hash === undefined)
+        ? position
+        : upload.offset;
+      await handle.truncate(kept);
+      await handle.close();
+      if (kept !== upload.offset) {
+        upload.offset = kept;
+        upload.expiresAt = new Date(
+          Date.now() + this.config.expiryMs
+        ).toISOString();
+        await this.save(upload);
+      }
+    }
+
+    return result ?? { success: true, upload };
+  }
+
+  private async save(upload: ResumableUpload): Promise<void> {
+    await writeFileAtomic(
+      join(this.uploadDir(upload.id), INFO_FILE),
+      serializeJson(upload)
+    );
+  }
+
+  private uploadDir(id: string): string {
+    return join(this.directory, id);
+  }
+
+  private dataPath(id: string): string {
+    return join(this.uploadDir(id), DATA_FILE);
+  }
+}
+
+// Singleton instance, in the workspace staging directory
+export const resumableUploads = new ResumableUploadStore(
+  resolve(platformConfig.directories.workspace.staging, 'uploads')
+);
@@ -14,6 +14,113 @@ export interface PhaseResult<T = unknown> {
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * Membership of a ROM in a multi-disc set, e.g. "Game (USA) (Disc 2)"
+ */
+export interface DiscSetMembership {
+  /** Title shared by every disc of the set */
+  title: string;
+  disc: number;
+  /** File RetroArch loads for this disc (the cue for bin/cue dumps) */
+  file: string;
+  /** Playlist file name, e.g. "Game (USA).m3u" */
+  playlist: string;
+}
+
+/**
+ * Checksums of a ROM's content, lowercase hex
+ */
+export interface RomHashes {
+  crc32: string;
+  md5: string;
+  sha1: string;
+  sha256: string;
+}
+
+/**
+ * Hashes of a ROM without its copier / iNES header
+ * Dumps of the same game differ in their headers; DATs list the data only
+ */
+export interface HeaderlessHashes {
+  /** Bytes skipped, e.g. 16 for iNES or 512 for an SNES copier header */
+  headerSize: number;
+  hashes: RomHashes;
+}
+
+/**
+ * Soft patch formats understood by RetroArch
+ */
+export type PatchFormat = 'ips' | 'bps' | 'ups';
+
+/**
+ * Patch file and the archived ROM it applies to, set by the Classifier
+ */
+export interface PatchInfo {
+  format: PatchFormat;
+  /** Base ROM checksum and size embedded by BPS / UPS */
+  sourceCrc32?: string;
+  sourceSize?: number;
+  /** Expected result checksum and size embedded by BPS / UPS */
+  targetCrc32?: string;
+  targetSize?: number;
+  /** Manifest entry of the base ROM */
+  base: Pick<ManifestEntry, 'id' | 'filename' | 'platform' | 'entryName'>;
+  /** How the base was found: embedded checksum (BPS / UPS) or name (IPS) */
+  matchedBy: 'crc32' | 'name';
+}
+
+/**
+ * Parent of a ROM produced by applying a patch
+ */
+export interface PatchedFrom {
+  /** Manifest id and filename of the base ROM */
+  id: string;
+  filename: string;
+  /** Patch file name */
+  patch: string;
+  format: PatchFormat;
+}
+
+/**
+ * N64 image byte orders, keyed by customary extension
+ */
+export type N64ByteOrder = 'z64' | 'v64' | 'n64';
+
+/**
+ * Dump format before the Normalizer converted it to the canonical form
+ */
+export interface OriginalFormat {
+  /** Ingested extension, e.g. `.v64` */
+  extension: string;
+  /** Set for N64 images converted to big-endian */
+  byteOrder?: N64ByteOrder;
+  /** Set for SNES dumps whose copier header was stripped */
+  headerSize?: number;
+}
+
+/**
+ * Outcome of checking a ROM against the configured DATs
+ * `bad-dump`: the DAT flags the dump as bad, or lists the file name with
+ * different checksums
+ */
+export type DatStatus = 'verified' | 'bad-dump' | 'unknown';
+
+/**
+ * DAT verification result with the canonical game it matched
+ */
+export interface DatMatch {
+  status: DatStatus;
+  /** DAT header name, e.g. "Nintendo - Nintendo Entertainment System" */
+  datName?: string;
+  /** Canonical game name, e.g. "Super Mario Bros. (World)" */
+  game?: string;
+  /** Parent game name when the DAT lists `game` as a clone */
+  cloneOf?: string;
+  region?: string;
+  revision?: string;
+  matchedBy?: 'sha1' | 'crc32' | 'name';
+}
+
 /**
  * ROM file information
  */
@@ -22,22 +129,52 @@ export interface ROMFile {
   filename: string;
   path: string;
   platform?: string;
+  /** Classifier confidence in `platform`, 0..1 */
+  confidence?: number;
   extension: string;
+  /** Name before the Normalizer renamed the ROM */
+  originalName?: string;
   hash?: string;
+  /** Every checksum, set by the Validator alongside `hash` (SHA-256) */
+  hashes?: RomHashes;
+  /** Set by the Validator for NES and SNES dumps carrying a header */
+  headerless?: HeaderlessHashes;
   size: number;
+  /** Zip archive the ROM came from */
+  containerPath?: string;
+  /** Entry name inside `containerPath`, e.g. `game.nes` */
+  entryName?: string;
+  /** Files that must travel with the ROM, e.g. a cue sheet and its tracks */
+  companionFiles?: string[];
+  /** Set by the Normalizer for "(Disc N)" dumps */
+  discSet?: DiscSetMembership;
+  /** Set by the Validator when DATs are configured */
+  dat?: DatMatch;
+  /** Set by the Classifier for .ips / .bps / .ups files */
+  patch?: PatchInfo;
+  /** Set on ROMs produced by applying a patch */
+  patchedFrom?: PatchedFrom;
+  /** Set by the Normalizer when the dump was converted or stripped */
+  originalFormat?: OriginalFormat;
   metadata?: Record<string, unknown>;
 }
 
 /**
  * Phase 1: Classifier Interface
- * Accepts raw ROMs and classifies them by extension
+ * Accepts raw ROMs and classifies them by header, falling back to extension
  */
 export interface IClassifier {
   /**
-   * Classifies a file by extension and determines platform
+   * Classifies a file by header or extension and determines platform
    */
   classify(filePath: string): Promise<PhaseResult<ROMFile>>;
 
+  /**
+   * Classifies each entry of a zip archive; single-ROM archives stay
+   * intact, multi-entry archives are extracted to staging
+   */
+  classifyArchive(filePath: string): Promise<PhaseResult<ROMFile[]>>;
+
   /**
    * Moves classified files to validation phase
    */
@@ -56,6 +193,7 @@ export interface IValidator {
 
   /**
    * Checks for companion files (cue sheets, etc.)
+   * Fails with the missing or truncated tracks of a cue sheet
    */
   checkCompanionFiles(rom: ROMFile): Promise<PhaseResult<string[]>>;
 
@@ -65,9 +203,17 @@ export interface IValidator {
   generateHash(rom: ROMFile): Promise<PhaseResult<string>>;
 
   /**
-   * Checks for duplicates
+   * Checks for duplicates by SHA-256, and by headerless SHA-256 when given
+   */
+  checkDuplicate(
+    hash: string,
+    headerlessHash?: string
+  ): Promise<PhaseResult<boolean>>;
+
+  /**
+   * Verifies hashed content against the configured DATs
    */
-  checkDuplicate(hash: string): Promise<PhaseResult<boolean>>;
+  verifyAgainstDat(rom: ROMFile): Promise<PhaseResult<DatMatch>>;
 
   /**
    * Validates BIOS dependencies
@@ -85,6 +231,17 @@ export interface IValidator {
  * Normalizes and prepares files for archival
  */
 export interface INormalizer {
+  /**
+   * Converts the dump to its canonical byte order, e.g. N64 images to
+   * big-endian .z64, and hashes the result
+   */
+  normalizeByteOrder(rom: ROMFile): Promise<PhaseResult<ROMFile>>;
+
+  /**
+   * Strips SNES copier headers when `copierHeaders.strip` is set
+   */
+  stripCopierHeader(rom: ROMFile): Promise<PhaseResult<ROMFile>>;
+
   /**
    * Applies naming patterns to ROM
    */
@@ -101,6 +258,24 @@ export interface INormalizer {
   generateMetadata(rom: ROMFile): Promise<PhaseResult<Record<string, unknown>>>;
 }
 
+/**
+ * Source file of a batch-ingested ROM as it was when ingested
+ * A file whose size, modification time or inode differ has changed
+ */
+export interface SourceFingerprint {
+  path: string;
+  size: number;
+  mtimeMs: number;
+  inode: number;
+}
+
+/**
+ * How a batch-ingested ROM was placed in the library, fastest first:
+ * a hard link, a copy-on-write clone, a symbolic link to the source, or a
+ * verified copy
+ */
+export type LinkStrategy = 'hardlink' | 'reflink' | 'symlink' | 'copy';
+
 /**
  * Manifest entry for archived ROM
  */
@@ -108,13 +283,40 @@ export interface ManifestEntry {
   id: string;
   filename: string;
   platform: string;
+  /** Ingested name when `filename` was normalized */
+  originalName?: string;
   hash: string;
+  hashes?: RomHashes;
+  headerless?: HeaderlessHashes;
   size: number;
   extension: string;
+  containerPath?: string;
+  entryName?: string;
+  /** Companion filenames archived alongside `filename` */
+  companionFiles?: string[];
+  discSet?: DiscSetMembership;
+  dat?: DatMatch;
+  patchedFrom?: PatchedFrom;
+  originalFormat?: OriginalFormat;
+  /** Set by the BatchProcessor; zip entries share their archive's */
+  ingestedFrom?: SourceFingerprint;
+  /** Set by the BatchProcessor */
+  linkStrategy?: LinkStrategy;
   archivedAt: string;
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * Manifest file of one platform, `{platform id}.json` in
+ * `archive.manifests`, written by the Archiver and BatchProcessor
+ */
+export interface ManifestDocument {
+  schemaVersion: number;
+  /** Platform id, e.g. "nes" */
+  platform: string;
+  entries: ManifestEntry[];
+}
+
 /**
  * Phase 4: Archiver Interface
  * Archives normalized ROMs
@@ -163,8 +365,30 @@ export interface IPromoter {
    */
   updatePlaylist(rom: ROMFile): Promise<PhaseResult<PlaylistEntry>>;
 
+  /**
+   * Removes a promoted ROM from the sync directory and its playlist
+   */
+  demoteROM(rom: ROMFile): Promise<PhaseResult<string[]>>;
+
   /**
    * Syncs thumbnails (optional)
    */
   syncThumbnails(rom: ROMFile): Promise<PhaseResult<boolean>>;
 }
+
+/**
+ * Patch handling for files the Classifier marked with `patch`
+ */
+export interface IPatcher {
+  /**
+   * Applies the patch to its archived base ROM
+   * The result is a new ROM for phases 2-5, linked through `patchedFrom`
+   */
+  applyPatch(patch: ROMFile): Promise<PhaseResult<ROMFile>>;
+
+  /**
+   * Stores the patch beside its base ROM in the archive and sync
+   * directories, named for RetroArch soft-patching
+   */
+  placeSoftPatch(patch: ROMFile): Promise<PhaseResult<string[]>>;
+}
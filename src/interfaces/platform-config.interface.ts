@@ -4,6 +4,8 @@
  * Following config-as-infrastructure and policy-as-code principles
  */
 
+import type { LinkStrategy } from './pipeline.interface.js';
+
 /**
  * Directory structure configuration
  * Defines all directory paths used by the system
@@ -14,6 +16,8 @@ export interface DirectoryStructure {
     bios: string;
     manifests: string;
     roms: string;
+    /** Logiqx XML DATs (No-Intro, Redump) used to verify dumps */
+    dats?: string;
   };
   sync: {
     root: string;
@@ -52,6 +56,50 @@ export interface PipelineConfig {
   enableMetadata: boolean;
 }
 
+/**
+ * Filename normalization; files keep their names when absent
+ */
+export interface NamingConfig {
+  /** e.g. "{title} ({region}) ({revision})"; tokens: title, region, revision, disc */
+  template: string;
+}
+
+/**
+ * SNES copier header handling; headers are kept when absent
+ */
+export interface CopierHeaderConfig {
+  /** Archive SNES dumps without their 512-byte copier (SMC) header */
+  strip: boolean;
+}
+
+/**
+ * 1G1R (one game, one ROM) curated sync set priorities
+ */
+export interface OneGameOneRomConfig {
+  /** Most preferred first, e.g. ["USA", "World", "Europe"] */
+  regions: string[];
+  /** Most preferred first, e.g. ["En"]; compared after regions */
+  languages?: string[];
+}
+
+/**
+ * Handling of ingested .ips / .bps / .ups patches
+ * `apply` archives the patched ROM as a new entry linked to its base;
+ * `soft` places the patch next to the base for RetroArch soft-patching
+ */
+export interface PatchingConfig {
+  mode: 'apply' | 'soft';
+}
+
+/**
+ * How the BatchProcessor places ingested ROMs in the library
+ * Strategies are tried in order until one works for the source and
+ * destination devices; defaults to hardlink, reflink, symlink, copy
+ */
+export interface LinkingConfig {
+  strategies: LinkStrategy[];
+}
+
 /**
  * Platform-specific configuration
  */
@@ -71,6 +119,12 @@ export interface PlatformConfig {
   version: string;
   directories: DirectoryStructure;
   pipeline: PipelineConfig;
+  naming?: NamingConfig;
+  copierHeaders?: CopierHeaderConfig;
+  oneGameOneRom?: OneGameOneRomConfig;
+  /** Defaults to `apply` */
+  patching?: PatchingConfig;
+  linking?: LinkingConfig;
   platforms: PlatformDefinition[];
   plugins: {
     enabled: boolean;
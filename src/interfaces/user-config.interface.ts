@@ -71,6 +71,8 @@ export interface UserConfig {
   colocate: boolean;
   /** Base path when co-locating (e.g., /home/user/RetroArch) */
   basePath?: string;
+  /** Local No-Intro / Redump DAT files; verification is skipped when unset */
+  datDirectory?: string;
 }
 
 export interface ConfigTemplate {
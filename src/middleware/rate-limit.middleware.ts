@@ -5,10 +5,30 @@
  */
 
 import rateLimit from 'express-rate-limit';
+import type { Request } from 'express';
+
+import {
+  batchUploadConfig,
+  resumableUploadConfig,
+} from '../../config/policy.config.js';
+
+/** PATCH and HEAD on one resumable upload, e.g. /api/roms/uploads/{id} */
+const UPLOAD_CHUNK_PATH = /^\/api\/roms\/uploads\/[^/]+$/;
+
+/**
+ * Whether a request sends or queries a chunk of a resumable upload
+ * A disc image takes hundreds of these, so they have their own limiter
+ */
+export function isUploadChunkRequest(req: Request): boolean {
+  return (
+    (req.method === 'PATCH' || req.method === 'HEAD') &&
+    UPLOAD_CHUNK_PATH.test(req.originalUrl.split('?')[0] ?? '')
+  );
+}
 
 /**
  * Default rate limiter configuration (POL-021)
- * Applied to all API routes
+ * Applied to all API routes but resumable upload chunks
  * Limits: 100 requests per 15 minutes per IP
  */
 export const apiRateLimiter = rateLimit({
@@ -21,7 +41,7 @@ export const apiRateLimiter = rateLimit({
   standardHeaders: true, // Return rate limit info in `RateLimit-*` headers
   legacyHeaders: false, // Disable `X-RateLimit-*` headers
   skipSuccessfulRequests: false, // Count all requests, including successful ones
-  skip: () => false, // Never skip rate limiting
+  skip: isUploadChunkRequest, // Counted by uploadChunkRateLimiter instead
 });
 
 /**
@@ -61,3 +81,38 @@ export const contentRateLimiter = rateLimit({
   skipSuccessfulRequests: false,
   skip: () => false,
 });
+
+/**
+ * Rate limiter for batch uploads (POL-022)
+ * Limits: batchUploadConfig.rateLimitPerMinute requests per minute per IP
+ */
+export const batchUploadRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: batchUploadConfig.rateLimitPerMinute,
+  message: {
+    error: 'Too many requests',
+    message: 'Rate limit exceeded for batch uploads. Please try again later.',
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+  skipSuccessfulRequests: false,
+  skip: () => false,
+});
+
+/**
+ * Rate limiter for resumable upload chunks (POL-021, POL-022)
+ * Applied to PATCH and HEAD on /api/roms/uploads/:uploadId
+ * Limits: resumableUploadConfig.chunkRateLimit requests per 15 minutes per IP
+ */
+export const uploadChunkRateLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: resumableUploadConfig.chunkRateLimit,
+  message: {
+    error: 'Too many requests',
+    message: 'Rate limit exceeded for upload chunks. Please try again later.',
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+  skipSuccessfulRequests: false,
+  skip: () => false,
+});
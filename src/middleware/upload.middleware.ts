@@ -2,14 +2,26 @@
  * File Upload Middleware
  * Handles multipart/form-data file uploads without external dependencies
  * Following POL-018 (YAGNI) - minimal implementation for current needs
+ *
+ * File parts are streamed to disk as they arrive and hashed on the way, so
+ * memory use does not grow with the upload. Size and count limits abort the
+ * request with 413 as soon as they are crossed, and the files of a failed or
+ * disconnected request are removed.
  */
 
-import { writeFile, mkdir } from 'node:fs/promises';
+import { createWriteStream, type WriteStream } from 'node:fs';
+import { mkdir, rm } from 'node:fs/promises';
 import { join, basename } from 'node:path';
-import { existsSync } from 'node:fs';
+import { Writable } from 'node:stream';
+import { finished } from 'node:stream/promises';
+import { once } from 'node:events';
 
 import type { Request, Response, NextFunction } from 'express';
 
+import { batchUploadConfig } from '../../config/policy.config.js';
+import type { RomHashes } from '../interfaces/pipeline.interface.js';
+import { RomHasher } from '../pipeline/rom-hashes.js';
+
 export interface UploadedFile {
   fieldname: string;
   originalname: string;
@@ -17,14 +29,52 @@ export interface UploadedFile {
   path: string;
   size: number;
   mimetype: string;
+  /** Checksums taken while the file was received */
+  hashes: RomHashes;
+}
+
+/**
+ * Limits enforced while an upload is received (POL-022)
+ */
+export interface UploadLimits {
+  /** Largest accepted file, in bytes */
+  maxFileSize: number;
+  /** Most files accepted in one request */
+  maxFiles: number;
 }
 
+/**
+ * Raised when an upload crosses one of its limits
+ */
+export class UploadLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UploadLimitError';
+  }
+}
+
+/** Limits of a batch upload (POL-022) */
+export const BATCH_UPLOAD_LIMITS: UploadLimits = {
+  maxFileSize: batchUploadConfig.maxFileSize,
+  maxFiles: batchUploadConfig.maxBatchSize,
+};
+
+/** A single ROM upload is not limited; CD images run to hundreds of MB */
+export const SINGLE_UPLOAD_LIMITS: UploadLimits = {
+  maxFileSize: Number.POSITIVE_INFINITY,
+  maxFiles: Number.POSITIVE_INFINITY,
+};
+
+const BAD_REQUEST_STATUS = 400;
+const PAYLOAD_TOO_LARGE_STATUS = 413;
+
 /**
  * Simple file upload middleware
- * Saves uploaded files to a temporary directory
+ * Streams uploaded files to a temporary directory
  */
 export function uploadMiddleware(
-  uploadDir: string
+  uploadDir: string,
+  limits: UploadLimits
 ): (req: Request, res: Response, next: NextFunction) => Promise<void> {
   return async (
     req: Request,
@@ -33,9 +83,7 @@ export function uploadMiddleware(
   ): Promise<void> => {
     try {
       // Ensure upload directory exists
-      if (!existsSync(uploadDir)) {
-        await mkdir(uploadDir, { recursive: true });
-      }
+      await mkdir(uploadDir, { recursive: true });
 
       // Check if request has file data
       const contentType = req.headers['content-type'] ?? '';
@@ -47,119 +95,311 @@ export function uploadMiddleware(
         return;
       }
 
-      // Parse multipart data
-      const boundary = contentType.split('boundary=')[1];
-      if (boundary === undefined || boundary.length === 0) {
+      const boundary = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(contentType);
+      const boundaryValue = boundary?.[1] ?? boundary?.[2];
+      if (boundaryValue === undefined || boundaryValue.length === 0) {
         next();
         return;
       }
 
-      let body = Buffer.alloc(0);
+      const parser = new MultipartParser(boundaryValue, uploadDir, limits);
+      const sink = new Writable({
+        // Backpressure: take the next chunk once the files have caught up
+        write: (chunk: Buffer, _encoding, callback): void => {
+          parser.write(chunk).then(() => callback(), callback);
+        },
+        final: (callback): void => {
+          parser.end().then(() => callback(), callback);
+        },
+        destroy: (error, callback): void => {
+          // A failed or abandoned upload leaves no files behind
+          const cleanup = error === null ? Promise.resolve() : parser.discard();
+          void cleanup.finally(() => callback(error));
+        },
+      });
+      let disconnected = false;
 
-      req.on('data', (chunk: Buffer) => {
-        body = Buffer.concat([body, chunk]);
+      req.once('close', () => {
+        if (!req.complete) {
+          disconnected = true;
+          sink.destroy(new Error('Client disconnected during upload'));
+        }
       });
 
-      req.on('end', () => {
-        void (async (): Promise<void> => {
-          try {
-            const files = await parseMultipartData(body, boundary, uploadDir);
-            // Attach files to request
-            // Use a distinct property name to avoid collision with multer's Request.files type
-            (
-              req as Request & { uploadedFiles?: UploadedFile[] }
-            ).uploadedFiles = files;
-            next();
-          } catch (error) {
-            const err = error as Error;
-            const BAD_REQUEST_STATUS = 400;
-            res.status(BAD_REQUEST_STATUS).json({
-              success: false,
-              errors: [`File upload failed: ${err.message}`],
-            });
-          }
-        })();
+      sink.once('error', (error: Error) => {
+        req.unpipe(sink);
+        // Discard the rest of the body
+        req.resume();
+        if (disconnected || res.headersSent) {
+          return;
+        }
+
+        if (error instanceof UploadLimitError) {
+          // Stop the client from sending the rest of a large upload
+          res.set('Connection', 'close');
+          res.status(PAYLOAD_TOO_LARGE_STATUS);
+        } else {
+          res.status(BAD_REQUEST_STATUS);
+        }
+        res.json({
+          success: false,
+          errors: [`File upload failed: ${error.message}`],
+        });
       });
+
+      sink.once('finish', () => {
+        // Use a distinct property name to avoid collision with multer's Request.files type
+        (req as Request & { uploadedFiles?: UploadedFile[] }).uploadedFiles =
+          parser.files;
+        next();
+      });
+
+      req.pipe(sink);
     } catch (error) {
       next(error);
     }
   };
 }
 
+/** Precedes every boundary but the first, which starts the body */
+const CRLF = Buffer.from('\r\n');
+const HEADER_END = Buffer.from('\r\n\r\n');
+const CLOSE_DELIMITER = Buffer.from('--');
+/** Part headers are a few lines; anything longer is not a form upload */
+const MAX_HEADER_BYTES = 16384;
+
+type ParserState = 'preamble' | 'delimiter' | 'headers' | 'body' | 'epilogue';
+
 /**
- * Parse multipart/form-data buffer
+ * File part being written to disk
  */
-async function parseMultipartData(
-  buffer: Buffer,
-  boundary: string,
-  uploadDir: string
-): Promise<UploadedFile[]> {
-  const files: UploadedFile[] = [];
-  const boundaryBuffer = Buffer.from(`--${boundary}`);
-
-  // Split by boundary
-  const parts = [];
-  let start = 0;
-  let pos = buffer.indexOf(boundaryBuffer, start);
-
-  while (pos !== -1) {
-    if (start > 0) {
-      parts.push(buffer.slice(start, pos));
+interface OpenPart {
+  file: Omit<UploadedFile, 'size' | 'hashes'>;
+  stream: WriteStream;
+  hasher: RomHasher;
+  size: number;
+}
+
+/**
+ * Parses a multipart/form-data body as it streams in
+ * Only the bytes that may begin a boundary are held back between chunks,
+ * so the body is never buffered. Parts without a filename are form fields
+ * and are discarded
+ */
+class MultipartParser {
+  /** Completed file parts, in request order */
+  readonly files: UploadedFile[] = [];
+
+  private readonly delimiter: Buffer;
+  private readonly uploadDir: string;
+  private readonly limits: UploadLimits;
+  private state: ParserState = 'preamble';
+  // The body starts with a boundary that has no leading CRLF
+  private pending: Buffer = CRLF;
+  private part: OpenPart | undefined;
+  /** Every file created, so a failed upload can remove them */
+  private readonly paths: string[] = [];
+  private readonly written: Promise<void>[] = [];
+
+  constructor(boundary: string, uploadDir: string, limits: UploadLimits) {
+    this.delimiter = Buffer.from(`\r\n--${boundary}`);
+    this.uploadDir = uploadDir;
+    this.limits = limits;
+  }
+
+  /**
+   * Parses the next chunk of the body
+   * Resolves once the file being written has room for more
+   */
+  async write(chunk: Buffer): Promise<void> {
+    this.pending =
+      this.pending.length === 0 ? chunk : Buffer.concat([this.pending, chunk]);
+    await Promise.all(this.parse());
+  }
+
+  /**
+   * Resolves once every file is on disk
+   * @throws When the body ended before its closing boundary
+   */
+  async end(): Promise<void> {
+    if (this.state !== 'epilogue') {
+      throw new Error('Unexpected end of multipart body');
     }
-    start = pos + boundaryBuffer.length;
-    pos = buffer.indexOf(boundaryBuffer, start);
+    await Promise.all(this.written);
   }
 
-  // Parse each part
-  for (const part of parts) {
-    const HEADER_END_MARKER_LENGTH = 4;
-    const TRAILING_CRLF_LENGTH = 2;
-    const headerEnd = part.indexOf('\r\n\r\n');
-    if (headerEnd === -1) {
-      continue;
+  /**
+   * Stops writing and removes every file created
+   */
+  async discard(): Promise<void> {
+    this.part?.stream.destroy();
+    await Promise.allSettled(this.written);
+    await Promise.all(this.paths.map((path) => rm(path, { force: true })));
+  }
+
+  /**
+   * Consumes as much of the pending bytes as possible
+   * @returns Drain promises of file streams that are over their buffer
+   */
+  private parse(): Promise<unknown>[] {
+    const drained: Promise<unknown>[] = [];
+
+    for (;;) {
+      switch (this.state) {
+        case 'preamble': {
+          const index = this.pending.indexOf(this.delimiter);
+          if (index === -1) {
+            this.pending = this.pending.subarray(this.safeLength());
+            return drained;
+          }
+          this.pending = this.pending.subarray(index + this.delimiter.length);
+          this.state = 'delimiter';
+          break;
+        }
+
+        case 'delimiter': {
+          if (this.pending.length < CRLF.length) {
+            return drained;
+          }
+          if (
+            this.pending
+              .subarray(0, CLOSE_DELIMITER.length)
+              .equals(CLOSE_DELIMITER)
+          ) {
+            this.state = 'epilogue';
+            break;
+          }
+          if (!this.pending.subarray(0, CRLF.length).equals(CRLF)) {
+            throw new Error('Malformed multipart boundary');
+          }
+          this.pending = this.pending.subarray(CRLF.length);
+          this.state = 'headers';
+          break;
+        }
+
+        case 'headers': {
+          const end = this.pending.indexOf(HEADER_END);
+          if (end === -1) {
+            if (this.pending.length > MAX_HEADER_BYTES) {
+              throw new Error('Multipart part headers are too large');
+            }
+            return drained;
+          }
+          this.openPart(this.pending.subarray(0, end).toString('utf-8'));
+          this.pending = this.pending.subarray(end + HEADER_END.length);
+          this.state = 'body';
+          break;
+        }
+
+        case 'body': {
+          const index = this.pending.indexOf(this.delimiter);
+          const end = index === -1 ? this.safeLength() : index;
+          const drain = this.writePart(this.pending.subarray(0, end));
+          if (drain !== undefined) {
+            drained.push(drain);
+          }
+          this.pending = this.pending.subarray(end);
+          if (index === -1) {
+            return drained;
+          }
+          this.closePart();
+          this.pending = this.pending.subarray(this.delimiter.length);
+          this.state = 'delimiter';
+          break;
+        }
+
+        case 'epilogue':
+          this.pending = Buffer.alloc(0);
+          return drained;
+      }
     }
+  }
 
-    const headers = part.slice(0, headerEnd).toString();
-    const fileData = part.slice(
-      headerEnd + HEADER_END_MARKER_LENGTH,
-      part.length - TRAILING_CRLF_LENGTH
-    );
+  /**
+   * Bytes of `pending` that cannot be the start of a boundary
+   */
+  private safeLength(): number {
+    return Math.max(0, this.pending.length - (this.delimiter.length - 1));
+  }
+
+  private openPart(headers: string): void {
+    const originalname = /filename="([^"]+)"/i.exec(headers)?.[1];
+    if (originalname === undefined) {
+      this.part = undefined;
+      return;
+    }
 
-    // Extract filename from Content-Disposition header
-    const filenameMatch = headers.match(/filename="([^"]+)"/);
-    if (filenameMatch === null) {
-      continue;
+    if (this.files.length >= this.limits.maxFiles) {
+      throw new UploadLimitError(
+        `Batch exceeds maximum of ${this.limits.maxFiles} files`
+      );
     }
 
-    const originalname = filenameMatch[1] ?? 'unknown';
     // Sanitize filename to prevent path traversal attacks
     // Remove any path separators and keep only the base filename
     const sanitizedName = basename(originalname).replace(
       /[^a-zA-Z0-9._-]/g,
       '_'
     );
-    const timestamp = Date.now();
-    const filename = `${timestamp}-${sanitizedName}`;
-    const filepath = join(uploadDir, filename);
-
-    // Extract content type
-    const contentTypeMatch = headers.match(/Content-Type: ([^\r\n]+)/);
-    const mimetype = contentTypeMatch
-      ? (contentTypeMatch[1] ?? 'application/octet-stream')
-      : 'application/octet-stream';
-
-    // Write file
-    await writeFile(filepath, fileData);
-
-    files.push({
-      fieldname: 'romFile',
-      originalname,
-      filename,
-      path: filepath,
-      size: fileData.length,
-      mimetype,
-    });
+    const filename = `${Date.now()}-${this.files.length}-${sanitizedName}`;
+    const path = join(this.uploadDir, filename);
+
+    const stream = createWriteStream(path, { flags: 'wx' });
+    this.paths.push(path);
+    const written = finished(stream);
+    // Awaited by end() or discard(); never left unhandled meanwhile
+    written.catch(() => undefined);
+    this.written.push(written);
+
+    this.part = {
+      file: {
+        fieldname: /\bname="([^"]*)"/i.exec(headers)?.[1] ?? 'romFile',
+        originalname,
+        filename,
+        path,
+        mimetype:
+          /Content-Type: ([^\r\n]+)/i.exec(headers)?.[1] ??
+          'application/octet-stream',
+      },
+      stream,
+      hasher: new RomHasher(),
+      size: 0,
+    };
+  }
+
+  /**
+   * Writes body bytes to the open file, if the part is one
+   * @returns A promise for the stream's drain when its buffer is full
+   */
+  private writePart(data: Buffer): Promise<unknown> | undefined {
+    const part = this.part;
+    if (part === undefined || data.length === 0) {
+      return undefined;
+    }
+
+    part.size += data.length;
+    if (part.size > this.limits.maxFileSize) {
+      throw new UploadLimitError(
+        `File ${part.file.originalname} exceeds maximum size of ${this.limits.maxFileSize} bytes`
+      );
+    }
+
+    part.hasher.update(data);
+    return part.stream.write(data) ? undefined : once(part.stream, 'drain');
   }
 
-  return files;
+  private closePart(): void {
+    const part = this.part;
+    if (part === undefined) {
+      return;
+    }
+
+    part.stream.end();
+    this.files.push({
+      ...part.file,
+      size: part.size,
+      hashes: part.hasher.digest(),
+    });
+    this.part = undefined;
+  }
 }
@@ -11,6 +11,7 @@ import {
   type PageConfig,
   type PageComponent,
 } from '../../config/pages.config.js';
+import { resumableUploadConfig } from '../../config/policy.config.js';
 
 export class PageGenerator {
   /**
@@ -248,13 +249,22 @@ ${formScript}
 
   /**
    * Generate JavaScript for form handling
+   * Files above the resumable threshold are sent in chunks that resume
+   * after a dropped connection, or a reload of the page
    */
   private generateFormScript(): string {
+    const { thresholdSize, chunkSize } = resumableUploadConfig;
+
     return `    <script>
       document.addEventListener('DOMContentLoaded', function() {
         const form = document.getElementById('ingest-form');
         if (!form) return;
 
+        const RESUMABLE_THRESHOLD = ${thresholdSize};
+        const CHUNK_SIZE = ${chunkSize};
+        const MAX_CHUNK_RETRIES = 5;
+        const RETRY_DELAY_MS = 2000;
+
         form.addEventListener('submit', async function(e) {
           e.preventDefault();
           
@@ -268,21 +278,16 @@ ${formScript}
           }
 
           const file = fileInput.files[0];
-          const formData = new FormData();
-          formData.append('romFile', file);
 
           submitButton.disabled = true;
           showStatus('processing', 'Processing ' + file.name + '...', 'Please wait while we process your ROM file');
 
           try {
-            const response = await fetch('/api/roms/upload', {
-              method: 'POST',
-              body: formData
-            });
+            const { ok, result } = file.size > RESUMABLE_THRESHOLD
+              ? await uploadResumable(file)
+              : await uploadDirect(file);
 
-            const result = await response.json();
-
-            if (response.ok && result.success) {
+            if (ok && result.success) {
               showStatus('success', 'ROM processed successfully!', 
                 'Platform: ' + result.rom.platform + '\\n' +
                 'Filename: ' + result.rom.filename + '\\n' +
@@ -301,6 +306,104 @@ ${formScript}
           }
         });
 
+        async function uploadDirect(file) {
+          const formData = new FormData();
+          formData.append('romFile', file);
+          const response = await fetch('/api/roms/upload', {
+            method: 'POST',
+            body: formData
+          });
+          return { ok: response.ok, result: await response.json() };
+        }
+
+        // Chunked upload; its URL is kept so a reload resumes it
+        async function uploadResumable(file) {
+          const key = 'upload:' + file.name + ':' + file.size + ':' + file.lastModified;
+          let url = localStorage.getItem(key);
+          let offset = url ? await queryOffset(url) : null;
+
+          if (offset === null) {
+            const created = await fetch('/api/roms/uploads', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ filename: file.name, size: file.size })
+            });
+            const upload = await created.json();
+            if (!created.ok) return { ok: false, result: upload };
+            url = '/api/roms/uploads/' + upload.uploadId;
+            localStorage.setItem(key, url);
+            offset = 0;
+          }
+
+          let retries = 0;
+          while (offset < file.size) {
+            showStatus('processing',
+              'Uploading ' + file.name + '... ' + Math.floor(offset * 100 / file.size) + '%',
+              'Interrupted uploads resume where they stopped'
+            );
+            const chunk = file.slice(offset, offset + CHUNK_SIZE);
+            try {
+              const headers = {
+                'Content-Type': 'application/offset+octet-stream',
+                'Upload-Offset': String(offset)
+              };
+              const checksum = await chunkChecksum(chunk);
+              if (checksum) headers['Upload-Checksum'] = checksum;
+
+              const response = await fetch(url, { method: 'PATCH', headers: headers, body: chunk });
+              if (response.status === 204) {
+                offset = Number(response.headers.get('Upload-Offset'));
+                retries = 0;
+                continue;
+              }
+              // Offset conflicts, corrupted chunks and server errors are retried
+              const retriable = [409, 423, 460].includes(response.status) || response.status >= 500;
+              if (!retriable) {
+                if (response.status === 404) localStorage.removeItem(key);
+                return { ok: false, result: await response.json() };
+              }
+            } catch (error) {
+              // Connection dropped; ask where to resume below
+            }
+
+            retries++;
+            if (retries > MAX_CHUNK_RETRIES) {
+              throw new Error('Connection lost. Select the file again to resume.');
+            }
+            await new Promise(function(resolve) { setTimeout(resolve, RETRY_DELAY_MS * retries); });
+
+            let current;
+            try {
+              current = await queryOffset(url);
+            } catch (error) {
+              continue; // Still offline
+            }
+            if (current === null) {
+              localStorage.removeItem(key);
+              throw new Error('Upload expired. Please upload the file again.');
+            }
+            offset = current;
+          }
+
+          showStatus('processing', 'Processing ' + file.name + '...', 'Please wait while we process your ROM file');
+          const response = await fetch(url + '/finalize', { method: 'POST' });
+          localStorage.removeItem(key);
+          return { ok: response.ok, result: await response.json() };
+        }
+
+        // Offset to resume from, or null for an unknown or expired upload
+        async function queryOffset(url) {
+          const response = await fetch(url, { method: 'HEAD' });
+          return response.ok ? Number(response.headers.get('Upload-Offset')) : null;
+        }
+
+        // crypto.subtle is only available over HTTPS and on localhost
+        async function chunkChecksum(chunk) {
+          if (!window.crypto || !window.crypto.subtle) return null;
+          const digest = await window.crypto.subtle.digest('SHA-256', await chunk.arrayBuffer());
+          return 'sha256 ' + btoa(String.fromCharCode.apply(null, new Uint8Array(digest)));
+        }
+
         function showStatus(type, message, detail) {
           const statusDiv = document.getElementById('upload-status');
           statusDiv.className = type;
@@ -4,9 +4,8 @@
  * Following SRP - single responsibility: archival
  */
 
-import { mkdir, copyFile, readFile, writeFile } from 'node:fs/promises';
+import { mkdir } from 'node:fs/promises';
 import { join, dirname } from 'node:path';
-import { existsSync } from 'node:fs';
 
 import type { PlatformConfig } from '../interfaces/platform-config.interface.js';
 import type {
@@ -15,7 +14,19 @@ import type {
   ROMFile,
   ManifestEntry,
 } from '../interfaces/pipeline.interface.js';
-const JSON_INDENT = 2;
+
+import {
+  serializeJson,
+  updateJsonFile,
+  writeFileAtomic,
+} from './atomic-file.js';
+import { copyFileUnit } from './file-unit.js';
+import { HashIndex } from './hash-index.js';
+import {
+  MANIFEST_SCHEMA_VERSION,
+  mergeManifestEntries,
+  parseManifestDocument,
+} from './manifest-file.js';
 
 export class Archiver implements IArchiver {
   private readonly config: PlatformConfig;
@@ -26,6 +37,7 @@ export class Archiver implements IArchiver {
 
   /**
    * Copies normalized ROM to archive
+   * Companion files (cue sheet and tracks) are copied as one unit
    */
   async archiveROM(rom: ROMFile): Promise<PhaseResult<string>> {
     try {
@@ -35,11 +47,12 @@ export class Archiver implements IArchiver {
         rom.filename
       );
 
-      // Ensure directory exists
-      await mkdir(dirname(archivePath), { recursive: true });
-
-      // Copy file to archive
-      await copyFile(rom.path, archivePath);
+      // Copy file and companions to archive, all or nothing
+      const [, ...companions] = await copyFileUnit(
+        [rom.path, ...(rom.companionFiles ?? [])],
+        dirname(archivePath),
+        rom.filename
+      );
 
       return {
         success: true,
@@ -47,6 +60,7 @@ export class Archiver implements IArchiver {
         metadata: {
           archivedAt: new Date().toISOString(),
           sourcePath: rom.path,
+          ...(companions.length > 0 && { companionFiles: companions }),
         },
       };
     } catch (error) {
@@ -60,12 +74,17 @@ export class Archiver implements IArchiver {
 
   /**
    * Writes manifest entry
+   * The manifest is rewritten atomically under a lock, keeping the previous
+   * version as a backup that a corrupt manifest is recovered from
+   * The hash index is updated too; if that fails the manifest still counts
+   * and the index rebuilds itself on next use
    */
   async writeManifest(entry: ManifestEntry): Promise<PhaseResult<boolean>> {
     try {
+      const manifestFile = `${entry.platform}.json`;
       const manifestPath = join(
         this.config.directories.archive.manifests,
-        `${entry.platform}.json`
+        manifestFile
       );
 
       // Ensure manifests directory exists
@@ -73,31 +92,28 @@ export class Archiver implements IArchiver {
         recursive: true,
       });
 
-      // Read existing manifest or create new one
-      let manifest: ManifestEntry[] = [];
-      if (existsSync(manifestPath)) {
-        const data = await readFile(manifestPath, 'utf-8');
-        manifest = JSON.parse(data) as ManifestEntry[];
-      }
+      // Bring the index up to date before the manifest changes under it
+      const index = await HashIndex.open(
+        this.config.directories.archive.manifests
+      ).catch(() => undefined);
 
-      // Check if entry already exists (by id or hash)
-      const existingIndex = manifest.findIndex(
-        (e) => e.id === entry.id || e.hash === entry.hash
+      // Replace the entry (by id or hash) or add it, under the file lock
+      // Legacy manifests are rewritten in the current schema
+      const manifest = await updateJsonFile(
+        manifestPath,
+        parseManifestDocument,
+        (current) => ({
+          schemaVersion: MANIFEST_SCHEMA_VERSION,
+          platform: entry.platform,
+          entries: mergeManifestEntries(current?.entries ?? [], [entry]),
+        })
       );
 
-      if (existingIndex >= 0) {
-        // Update existing entry
-        manifest[existingIndex] = entry;
-      } else {
-        // Add new entry
-        manifest.push(entry);
-      }
-
-      // Write manifest back
-      await writeFile(
-        manifestPath,
-        JSON.stringify(manifest, null, JSON_INDENT),
-        'utf-8'
+      const indexError = await index?.put(manifestFile, entry).then(
+        () => undefined,
+        // TEST-007: Skip coverage - defensive check for non-Error exception
+        (error: unknown) =>
+          error instanceof Error ? error.message : 'Hash index update failed'
       );
 
       return {
@@ -106,7 +122,8 @@ export class Archiver implements IArchiver {
         metadata: {
           manifestPath,
           writtenAt: new Date().toISOString(),
-          totalEntries: manifest.length,
+          totalEntries: manifest.entries.length,
+          ...(indexError !== undefined && { indexError }),
         },
       };
     } catch (error) {
@@ -145,11 +162,7 @@ export class Archiver implements IArchiver {
         storedAt: new Date().toISOString(),
       };
 
-      await writeFile(
-        metadataPath,
-        JSON.stringify(metadata, null, JSON_INDENT),
-        'utf-8'
-      );
+      await writeFileAtomic(metadataPath, serializeJson(metadata));
 
       return {
         success: true,
@@ -0,0 +1,276 @@
+/**
+ * Atomic File Writes
+ * Locked read-modify-write of manifests, playlists and .m3u files
+ * Following SRP - single responsibility: crash- and concurrency-safe writes
+ *
+ * Current problem: uploads and the ingestion queue update the same JSON
+ * files; unguarded read-modify-writes lose entries, and a crash mid-write
+ * leaves truncated JSON behind.
+ *
+ * Writers of a file are serialized in-process by a promise chain and
+ * across processes by a `{file}.lock` created exclusively. Content is
+ * written to a temporary file and renamed over the target, and the
+ * previous version is kept as `{file}.bak`.
+ */
+
+import { open, readFile, rename, rm, stat, writeFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+
+const LOCK_SUFFIX = '.lock';
+const BACKUP_SUFFIX = '.bak';
+const LOCK_RETRY_MS = 20;
+const LOCK_TIMEOUT_MS = 10_000;
+/** Locks older than this were left behind by a crashed process */
+const LOCK_STALE_MS = 30_000;
+const JSON_INDENT = 2;
+const RADIX_36 = 36;
+const TEMP_ID_START = 2;
+
+/** Tail of the in-process queue of each locked file */
+const fileQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * Turns parsed JSON into a typed value, throwing when it has the wrong shape
+ */
+export type JsonParser<T> = (value: unknown) => T;
+
+/**
+ * A JSON file as read, and whether it was restored from its backup
+ */
+export interface JsonFileContent<T> {
+  data: T;
+  recovered: boolean;
+}
+
+/**
+ * Path of the previous version of `path`
+ */
+export function backupPathOf(path: string): string {
+  return `${path}${BACKUP_SUFFIX}`;
+}
+
+/**
+ * Runs `task` holding the lock of `path`, in-process and across processes
+ * Tasks on the same path run one at a time, in call order
+ */
+export function withFileLock<T>(
+  path: string,
+  task: () => Promise<T>
+): Promise<T> {
+  const previous = fileQueues.get(path) ?? Promise.resolve();
+  const run = previous.then(async () => {
+    const release = await acquireLock(path);
+    try {
+      return await task();
+    } finally {
+      await release();
+    }
+  });
+
+  const settled = run.catch(() => undefined);
+  fileQueues.set(path, settled);
+  void settled.then(() => {
+    if (fileQueues.get(path) === settled) {
+      fileQueues.delete(path);
+    }
+  });
+  return run;
+}
+
+/**
+ * Replaces `path` with `content` in one rename
+ * With `backup` the replaced content is kept as `{path}.bak` first
+ */
+export async function writeFileAtomic(
+  path: string,
+  content: string,
+  backup?: string
+): Promise<void> {
+  if (backup !== undefined) {
+    await replaceFile(backupPathOf(path), backup);
+  }
+  await replaceFile(path, content);
+}
+
+/**
+ * Reads and parses a JSON file, or `undefined` when it does not exist
+ * A file that no longer parses is restored from its backup; without a
+ * usable backup the parse error is thrown
+ */
+export async function readJsonFile<T>(
+  path: string,
+  parse: JsonParser<T>
+): Promise<JsonFileContent<T> | undefined> {
+  const content = await readText(path);
+  if (content === undefined) {
+    return undefined;
+  }
+
+  try {
+    return { data: parseJson(content, parse), recovered: false };
+  } catch (error) {
+    return withFileLock(path, async () => {
+      // Another writer may have repaired it while we waited for the lock
+      const current = await readText(path);
+      if (current === undefined) {
+        return undefined;
+      }
+      const repaired = tryParseJson(current, parse);
+      if (repaired !== undefined) {
+        return { data: repaired, recovered: false };
+      }
+
+      const backup = await readText(backupPathOf(path));
+      const data = tryParseJson(backup, parse);
+      if (backup === undefined || data === undefined) {
+        throw error;
+      }
+      await writeFileAtomic(path, backup);
+      return { data, recovered: true };
+    });
+  }
+}
+
+/**
+ * Locked read-modify-write of a JSON file
+ * `update` receives the current value (recovered from the backup if the
+ * file is corrupt), or `undefined` when the file does not exist yet
+ * @returns The value written
+ */
+export function updateJsonFile<T>(
+  path: string,
+  parse: JsonParser<T>,
+  update: (current: T | undefined) => T
+): Promise<T> {
+  return withFileLock(path, async () => {
+    const content = await readText(path);
+    let current: T | undefined;
+    let backup = content;
+
+    if (content !== undefined) {
+      try {
+        current = parseJson(content, parse);
+      } catch (error) {
+        // Keep the last good backup rather than the corrupt file
+        backup = await readText(backupPathOf(path));
+        current = tryParseJson(backup, parse);
+        if (current === undefined) {
+          throw new Error(
+            `${basename(path)} is corrupt and has no usable backup: ${
+              // TEST-007: Skip coverage - defensive check for non-Error exception
+              error instanceof Error ? error.message : 'Unknown error'
+            }`
+          );
+        }
+      }
+    }
+
+    const next = update(current);
+    await writeFileAtomic(path, serializeJson(next), backup);
+    return next;
+  });
+}
+
+/**
+ * Locked read-modify-write of a text file; `undefined` when missing
+ */
+export function updateTextFile(
+  path: string,
+  update: (current: string | undefined) => string
+): Promise<string> {
+  return withFileLock(path, async () => {
+    const content = await readText(path);
+    const next = update(content);
+    await writeFileAtomic(path, next, content);
+    return next;
+  });
+}
+
+/**
+ * Pretty-printed JSON, as every manifest and playlist is written
+ */
+export function serializeJson(value: unknown): string {
+  return JSON.stringify(value, null, JSON_INDENT);
+}
+
+async function replaceFile(path: string, content: string): Promise<void> {
+  const temporary = `${path}.${process.pid}-${Math.random()
+    .toString(RADIX_36)
+    .substring(TEMP_ID_START)}.tmp`;
+  try {
+    await writeFile(temporary, content, 'utf-8');
+    await rename(temporary, path);
+  } catch (error) {
+    await rm(temporary, { force: true });
+    throw error;
+  }
+}
+
+async function acquireLock(path: string): Promise<() => Promise<void>> {
+  const lockPath = `${path}${LOCK_SUFFIX}`;
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  for (;;) {
+    try {
+      const handle = await open(lockPath, 'wx');
+      await handle.writeFile(`${process.pid}\n`);
+      await handle.close();
+      return () => rm(lockPath, { force: true });
+    } catch (error) {
+      if (!hasCode(error, 'EEXIST')) {
+        throw error;
+      }
+    }
+
+    if (await isStale(lockPath)) {
+      await rm(lockPath, { force: true });
+      continue;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for lock on ${basename(path)}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+}
+
+async function isStale(lockPath: string): Promise<boolean> {
+  try {
+    return Date.now() - (await stat(lockPath)).mtimeMs > LOCK_STALE_MS;
+  } catch {
+    // Released in the meantime
+    return false;
+  }
+}
+
+async function readText(path: string): Promise<string | undefined> {
+  try {
+    return await readFile(path, 'utf-8');
+  } catch (error) {
+    if (hasCode(error, 'ENOENT')) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+function parseJson<T>(content: string, parse: JsonParser<T>): T {
+  return parse(JSON.parse(content));
+}
+
+function tryParseJson<T>(
+  content: string | undefined,
+  parse: JsonParser<T>
+): T | undefined {
+  if (content === undefined) {
+    return undefined;
+  }
+  try {
+    return parseJson(content, parse);
+  } catch {
+    return undefined;
+  }
+}
+
+function hasCode(error: unknown, code: string): boolean {
+  return error instanceof Error && 'code' in error && error.code === code;
+}
@@ -1,11 +1,11 @@
 /**
  * Classifier Phase Implementation
- * Phase 1: Accepts raw ROMs and classifies them by extension
+ * Phase 1: Accepts raw ROMs and classifies them by header, then extension
  * Following SRP - single responsibility: file classification
  */
 
-import { basename, extname, resolve } from 'node:path';
-import { stat } from 'node:fs/promises';
+import { basename, extname, join, resolve } from 'node:path';
+import { readFile, rm, stat } from 'node:fs/promises';
 
 import type {
   IClassifier,
@@ -14,15 +14,33 @@ import type {
 } from '../interfaces/pipeline.interface.js';
 import type { PlatformConfig } from '../interfaces/platform-config.interface.js';
 
+import {
+  detectPlatformFromHeader,
+  type HeaderDetection,
+} from './header-detector.js';
+import { findPatchBase } from './patcher.js';
+import {
+  PlatformResolver,
+  rejectFile,
+  type PlatformResolution,
+} from './platform-resolver.js';
+import { patchFormatOf, readPatchHeader } from './rom-patch.js';
+import { classifyZipContents, isZipArchive } from './zip-contents.js';
+import { extractZipEntry } from './zip-reader.js';
+
 export class Classifier implements IClassifier {
   private readonly config: PlatformConfig;
+  private readonly resolver: PlatformResolver;
 
   constructor(config: PlatformConfig) {
     this.config = config;
+    this.resolver = new PlatformResolver(config.platforms);
   }
 
   /**
-   * Classifies a file by extension and determines platform
+   * Classifies a file by header signature or extension and determines platform
+   * Header/extension conflicts are reported in result metadata warnings;
+   * files with an undecidable shared extension go to workspace.rejected
    */
   async classify(filePath: string): Promise<PhaseResult<ROMFile>> {
     // Defensive: Validate input
@@ -65,34 +83,193 @@ export class Classifier implements IClassifier {
         };
       }
 
-      // Find platform by extension
-      const platform = this.config.platforms.find((p) =>
-        p.extensions.includes(extension)
+      // Patches take the platform of the archived ROM they apply to
+      if (patchFormatOf(resolvedPath) !== null) {
+        return await this.classifyPatch(resolvedPath, filename, stats.size);
+      }
+
+      // Archives are classified per entry
+      if (isZipArchive(resolvedPath)) {
+        return await this.classifySingleROMArchive(resolvedPath);
+      }
+
+      // Content sniffing first, extension lookup as fallback
+      const header = await detectPlatformFromHeader(resolvedPath, stats.size);
+      const resolution = await this.resolver.resolve(
+        resolvedPath,
+        stats.size,
+        header
       );
+      const platform = resolution.platform;
+
+      if (platform === undefined) {
+        if (resolution.candidates.length === 0) {
+          return {
+            success: false,
+            error: resolution.reason ?? `Unknown file extension: ${extension}`,
+          };
+        }
 
-      if (!platform) {
+        // Undecidable shared extension: reject instead of misfiling
+        const reason = resolution.reason ?? 'Ambiguous platform';
+        const rejectedPath = await rejectFile(
+          resolvedPath,
+          this.config.directories.workspace.rejected,
+          reason
+        );
         return {
           success: false,
-          error: `Unknown file extension: ${extension}`,
+          error: reason,
+          metadata: {
+            rejectedPath,
+            candidates: resolution.candidates.map((p) => p.id),
+          },
         };
       }
 
-      const rom: ROMFile = {
-        id: this.generateROMId(filename),
+      const warnings = this.headerWarnings(resolution, header, extension);
+      const rom = this.buildROM(resolution, header, {
         filename,
         path: resolvedPath,
-        platform: platform.id,
         extension,
         size: stats.size,
+      });
+
+      return {
+        success: true,
+        data: rom,
         metadata: {
-          classifiedAt: new Date().toISOString(),
-          platformName: platform.name,
+          detectionMethod: resolution.method,
+          confidence: resolution.confidence,
+          ...(warnings.length > 0 && { warnings }),
         },
       };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Classifies each entry of a zip archive
+   * A single-ROM archive stays intact (RetroArch loads zipped content);
+   * multi-entry archives are extracted to workspace.staging/{archive}/
+   */
+  async classifyArchive(filePath: string): Promise<PhaseResult<ROMFile[]>> {
+    // Defensive: Validate input
+    if (!filePath || filePath.trim() === '') {
+      return {
+        success: false,
+        error: 'Invalid input: file path is required',
+      };
+    }
+
+    if (filePath.includes('..')) {
+      return {
+        success: false,
+        error: 'Invalid file path',
+      };
+    }
+
+    try {
+      const zipPath = resolve(filePath);
+      const archiveName = basename(zipPath);
+      const contents = await classifyZipContents(zipPath, this.resolver);
+
+      if (contents.roms.length === 0) {
+        const [firstUnresolved] = contents.unresolved;
+        if (firstUnresolved === undefined) {
+          return {
+            success: false,
+            error: 'Archive contains no recognized ROM files',
+            metadata: { skipped: contents.skipped },
+          };
+        }
+
+        // Only undecidable entries: reject the whole archive
+        const reason =
+          firstUnresolved.resolution.reason ?? 'Ambiguous platform';
+        const rejectedPath = await rejectFile(
+          zipPath,
+          this.config.directories.workspace.rejected,
+          reason
+        );
+        return {
+          success: false,
+          error: reason,
+          metadata: { rejectedPath },
+        };
+      }
+
+      const intact =
+        contents.roms.length === 1 && contents.unresolved.length === 0;
+      const stagingDir = join(
+        this.config.directories.workspace.staging,
+        basename(archiveName, extname(archiveName))
+      );
+
+      const roms: ROMFile[] = [];
+      const warnings: string[] = [];
+
+      for (const { entry, header, resolution } of contents.roms) {
+        // Flatten entry paths so extraction cannot escape staging
+        const entryFilename = basename(entry.name);
+        const extension = extname(entryFilename).toLowerCase();
+        const path = intact ? zipPath : join(stagingDir, entryFilename);
+
+        if (!intact) {
+          await extractZipEntry(zipPath, entry, path);
+        }
+
+        warnings.push(
+          ...this.headerWarnings(resolution, header, extension).map(
+            (warning) => `${entry.name}: ${warning}`
+          )
+        );
+
+        const rom = this.buildROM(resolution, header, {
+          filename: intact ? archiveName : entryFilename,
+          path,
+          extension,
+          size: entry.uncompressedSize,
+          containerPath: zipPath,
+          entryName: entry.name,
+        });
+        rom.metadata = {
+          ...rom.metadata,
+          archiveMode: intact ? 'intact' : 'extracted',
+        };
+        roms.push(rom);
+      }
+
+      // Undecidable entries of a mixed archive are rejected individually
+      const rejected: string[] = [];
+      for (const { entry, resolution } of contents.unresolved) {
+        const reason = resolution.reason ?? 'Ambiguous platform';
+        const staged = join(stagingDir, basename(entry.name));
+        await extractZipEntry(zipPath, entry, staged);
+        rejected.push(
+          await rejectFile(
+            staged,
+            this.config.directories.workspace.rejected,
+            reason
+          )
+        );
+        await rm(staged, { force: true });
+        warnings.push(`${entry.name}: ${reason}`);
+      }
 
       return {
         success: true,
-        data: rom,
+        data: roms,
+        metadata: {
+          archiveMode: intact ? 'intact' : 'extracted',
+          ...(contents.skipped.length > 0 && { skipped: contents.skipped }),
+          ...(rejected.length > 0 && { rejected }),
+          ...(warnings.length > 0 && { warnings }),
+        },
       };
     } catch (error) {
       return {
@@ -147,6 +324,172 @@ export class Classifier implements IClassifier {
     };
   }
 
+  /**
+   * classify() for zip files: only single-ROM archives yield one ROMFile
+   */
+  private async classifySingleROMArchive(
+    zipPath: string
+  ): Promise<PhaseResult<ROMFile>> {
+    const result = await this.classifyArchive(zipPath);
+    const [rom, ...others] = result.data ?? [];
+
+    if (!result.success || rom === undefined) {
+      return {
+        success: false,
+        error: result.error ?? 'Archive contains no recognized ROM files',
+        ...(result.metadata !== undefined && { metadata: result.metadata }),
+      };
+    }
+
+    if (others.length > 0) {
+      return {
+        success: false,
+        error: `Archive contains ${others.length + 1} ROMs; use classifyArchive`,
+        metadata: { roms: result.data },
+      };
+    }
+
+    return { success: true, data: rom, metadata: result.metadata ?? {} };
+  }
+
+  /**
+   * classify() for .ips / .bps / .ups files
+   * The format comes from the patch magic, the platform from its base ROM
+   */
+  private async classifyPatch(
+    patchPath: string,
+    filename: string,
+    size: number
+  ): Promise<PhaseResult<ROMFile>> {
+    const header = readPatchHeader(await readFile(patchPath));
+    const base = await findPatchBase(
+      this.config.directories.archive.manifests,
+      filename,
+      header
+    );
+
+    if (base === null) {
+      return {
+        success: false,
+        error:
+          header.sourceCrc32 !== undefined
+            ? `No archived ROM matches patch source CRC-32 ${header.sourceCrc32}`
+            : `No archived ROM named like ${filename}`,
+        metadata: { patchFormat: header.format },
+      };
+    }
+
+    const { entry, matchedBy } = base;
+    return {
+      success: true,
+      data: {
+        id: this.generateROMId(filename),
+        filename,
+        path: patchPath,
+        platform: entry.platform,
+        confidence: 1,
+        extension: extname(filename).toLowerCase(),
+        size,
+        patch: {
+          format: header.format,
+          ...(header.sourceCrc32 !== undefined && {
+            sourceCrc32: header.sourceCrc32,
+          }),
+          ...(header.sourceSize !== undefined && {
+            sourceSize: header.sourceSize,
+          }),
+          ...(header.targetCrc32 !== undefined && {
+            targetCrc32: header.targetCrc32,
+          }),
+          ...(header.targetSize !== undefined && {
+            targetSize: header.targetSize,
+          }),
+          base: {
+            id: entry.id,
+            filename: entry.filename,
+            platform: entry.platform,
+            ...(entry.entryName !== undefined && {
+              entryName: entry.entryName,
+            }),
+          },
+          matchedBy,
+        },
+        metadata: {
+          classifiedAt: new Date().toISOString(),
+          detectionMethod: 'patch',
+          patchFormat: header.format,
+        },
+      },
+      metadata: {
+        detectionMethod: 'patch',
+        confidence: 1,
+        base: entry.filename,
+      },
+    };
+  }
+
+  /**
+   * Warns when the header names a platform the extension does not map to
+   */
+  private headerWarnings(
+    resolution: PlatformResolution,
+    header: HeaderDetection | null,
+    extension: string
+  ): string[] {
+    const platform = resolution.platform;
+    if (
+      platform === undefined ||
+      header === null ||
+      resolution.method !== 'header' ||
+      resolution.candidates.includes(platform)
+    ) {
+      return [];
+    }
+
+    const expected =
+      resolution.candidates.length > 0
+        ? resolution.candidates.map((p) => p.id).join(', ')
+        : 'no platform';
+    return [
+      `Header indicates ${platform.id} (${header.signature}) but extension ${extension} maps to ${expected}`,
+    ];
+  }
+
+  /**
+   * Builds a ROMFile from a successful resolution
+   */
+  private buildROM(
+    resolution: PlatformResolution,
+    header: HeaderDetection | null,
+    file: Pick<
+      ROMFile,
+      'filename' | 'path' | 'extension' | 'size' | 'containerPath' | 'entryName'
+    >
+  ): ROMFile {
+    const { confidence, method: detectionMethod } = resolution;
+
+    return {
+      id: this.generateROMId(file.filename),
+      ...file,
+      ...(resolution.platform !== undefined && {
+        platform: resolution.platform.id,
+      }),
+      confidence,
+      metadata: {
+        classifiedAt: new Date().toISOString(),
+        platformName: resolution.platform?.name,
+        detectionMethod,
+        ...(header !== null &&
+          detectionMethod === 'header' && {
+            headerSignature: header.signature,
+          }),
+        ...(this.resolver.isAmbiguous(file.extension) && {
+          ambiguousExtension: true,
+        }),
+      },
+    };
+  }
+
   /**
    * Generates a unique ROM ID
    */
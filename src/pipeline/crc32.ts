@@ -0,0 +1,51 @@
+/**
+ * CRC-32 Checksum
+ * IEEE 802.3 polynomial, as used by ZIP and RetroArch playlists
+ * Following SRP - single responsibility: CRC-32 computation
+ */
+
+const CRC32_POLYNOMIAL = 0xedb88320;
+const CRC32_MASK = 0xffffffff;
+const TABLE_SIZE = 256;
+const BITS_PER_BYTE = 8;
+const BYTE_MASK = 0xff;
+const HEX_RADIX = 16;
+const CRC32_HEX_LENGTH = 8;
+
+const CRC32_TABLE = buildTable();
+
+/**
+ * Computes CRC-32 of a chunk, continuing from a previous result
+ * Chain calls by passing the previous return value
+ */
+export function crc32(chunk: Uint8Array, previous = 0): number {
+  let crc = (previous ^ CRC32_MASK) >>> 0;
+
+  for (const byte of chunk) {
+    crc =
+      (CRC32_TABLE[(crc ^ byte) & BYTE_MASK] ?? 0) ^ (crc >>> BITS_PER_BYTE);
+  }
+
+  return (crc ^ CRC32_MASK) >>> 0;
+}
+
+/**
+ * Formats a CRC-32 value as 8 lowercase hex characters
+ */
+export function formatCrc32(value: number): string {
+  return value.toString(HEX_RADIX).padStart(CRC32_HEX_LENGTH, '0');
+}
+
+function buildTable(): Uint32Array {
+  const table = new Uint32Array(TABLE_SIZE);
+
+  for (let n = 0; n < TABLE_SIZE; n++) {
+    let c = n;
+    for (let k = 0; k < BITS_PER_BYTE; k++) {
+      c = c & 1 ? CRC32_POLYNOMIAL ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+
+  return table;
+}
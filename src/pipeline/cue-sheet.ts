@@ -0,0 +1,247 @@
+/**
+ * CUE Sheet Parser
+ * Resolves FILE / TRACK / INDEX entries and verifies referenced tracks
+ * Following SRP - single responsibility: cue sheet structure
+ *
+ * Current problem: multi-track discs were validated by basename only and
+ * broke on promotion when a track was missing or truncated.
+ */
+
+import { readFile, stat } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+
+export const CUE_EXTENSION = '.cue';
+
+/** CD frames (sectors) per second, for MM:SS:FF timestamps */
+const FRAMES_PER_SECOND = 75;
+const SECONDS_PER_MINUTE = 60;
+const RAW_SECTOR_SIZE = 2352;
+const TRACK_NUMBER_WIDTH = 2;
+
+/**
+ * Bytes per sector for each cue track mode
+ */
+export const TRACK_SECTOR_SIZES: Readonly<Record<string, number>> = {
+  AUDIO: RAW_SECTOR_SIZE,
+  CDG: 2448,
+  'MODE1/2048': 2048,
+  'MODE1/2352': RAW_SECTOR_SIZE,
+  'MODE2/2048': 2048,
+  'MODE2/2324': 2324,
+  'MODE2/2336': 2336,
+  'MODE2/2352': RAW_SECTOR_SIZE,
+  'CDI/2336': 2336,
+  'CDI/2352': RAW_SECTOR_SIZE,
+};
+
+/**
+ * TRACK entry
+ */
+export interface CueTrack {
+  number: number;
+  mode: string;
+  /** INDEX number → start frame within the track's FILE */
+  indexes: Map<number, number>;
+}
+
+/**
+ * FILE entry with the tracks it contains
+ */
+export interface CueFile {
+  filename: string;
+  type: string;
+  tracks: CueTrack[];
+}
+
+/**
+ * Parsed cue sheet
+ */
+export interface CueSheet {
+  files: CueFile[];
+}
+
+/**
+ * Problem found with a referenced track file
+ */
+export interface CueTrackProblem {
+  file: string;
+  track?: number;
+  issue: 'missing' | 'truncated' | 'unknown-mode';
+  message: string;
+}
+
+/**
+ * Result of verifying a cue sheet against the filesystem
+ */
+export interface CueVerification {
+  /** Absolute paths of every referenced file, in cue order */
+  files: string[];
+  problems: CueTrackProblem[];
+}
+
+const FILE_PATTERN = /^FILE\s+(?:"([^"]+)"|(\S+))\s+(\S+)\s*$/i;
+const TRACK_PATTERN = /^TRACK\s+(\d+)\s+(\S+)\s*$/i;
+const INDEX_PATTERN = /^INDEX\s+(\d+)\s+(\d+):(\d+):(\d+)\s*$/i;
+
+/**
+ * Parses cue sheet text
+ * Unknown commands (REM, PREGAP, TITLE, ...) are ignored
+ */
+export function parseCueSheet(text: string): CueSheet {
+  const files: CueFile[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+
+    const fileMatch = FILE_PATTERN.exec(line);
+    if (fileMatch !== null) {
+      files.push({
+        filename: fileMatch[1] ?? fileMatch[2] ?? '',
+        type: (fileMatch[3] ?? '').toUpperCase(),
+        tracks: [],
+      });
+      continue;
+    }
+
+    const currentFile = files[files.length - 1];
+    const trackMatch = TRACK_PATTERN.exec(line);
+    if (trackMatch !== null && currentFile !== undefined) {
+      currentFile.tracks.push({
+        number: Number(trackMatch[1]),
+        mode: (trackMatch[2] ?? '').toUpperCase(),
+        indexes: new Map(),
+      });
+      continue;
+    }
+
+    const currentTrack = currentFile?.tracks[currentFile.tracks.length - 1];
+    const indexMatch = INDEX_PATTERN.exec(line);
+    if (indexMatch !== null && currentTrack !== undefined) {
+      const [, index, minutes, seconds, frames] = indexMatch.map(Number);
+      currentTrack.indexes.set(
+        index ?? 0,
+        ((minutes ?? 0) * SECONDS_PER_MINUTE + (seconds ?? 0)) *
+          FRAMES_PER_SECOND +
+          (frames ?? 0)
+      );
+    }
+  }
+
+  return { files };
+}
+
+/**
+ * Reads and parses a cue sheet from disk
+ */
+export async function readCueSheet(cuePath: string): Promise<CueSheet> {
+  return parseCueSheet(await readFile(cuePath, 'utf-8'));
+}
+
+/**
+ * Verifies every FILE of a cue sheet exists with a size that fits
+ * its tracks: whole sectors for each mode, covering every track start
+ */
+export async function verifyCueSheet(
+  cuePath: string,
+  sheet?: CueSheet
+): Promise<CueVerification> {
+  const parsed = sheet ?? (await readCueSheet(cuePath));
+  const dir = dirname(cuePath);
+  const files: string[] = [];
+  const problems: CueTrackProblem[] = [];
+
+  for (const cueFile of parsed.files) {
+    const filePath = join(dir, cueFile.filename);
+    files.push(filePath);
+
+    let size: number;
+    try {
+      size = (await stat(filePath)).size;
+    } catch {
+      const tracks = cueFile.tracks.map((t) => trackLabel(t)).join(', ');
+      problems.push({
+        file: cueFile.filename,
+        ...(cueFile.tracks[0] !== undefined && {
+          track: cueFile.tracks[0].number,
+        }),
+        issue: 'missing',
+        message: `${cueFile.filename} is missing${tracks !== '' ? ` (${tracks})` : ''}`,
+      });
+      continue;
+    }
+
+    problems.push(...checkTrackSizes(cueFile, size));
+  }
+
+  return { files, problems };
+}
+
+/**
+ * Walks the tracks of one FILE, converting frame offsets to bytes with
+ * each track's own sector size
+ */
+function checkTrackSizes(cueFile: CueFile, size: number): CueTrackProblem[] {
+  let trackStart = 0;
+  let previous: { frame: number; sectorSize: number } | undefined;
+
+  for (const track of cueFile.tracks) {
+    const sectorSize = TRACK_SECTOR_SIZES[track.mode];
+    if (sectorSize === undefined) {
+      return [
+        {
+          file: cueFile.filename,
+          track: track.number,
+          issue: 'unknown-mode',
+          message: `${trackLabel(track)} in ${cueFile.filename} has unsupported mode`,
+        },
+      ];
+    }
+
+    const frame = trackStartFrame(track);
+    if (previous !== undefined) {
+      trackStart += (frame - previous.frame) * previous.sectorSize;
+    }
+    previous = { frame, sectorSize };
+
+    // The track must start inside the file
+    if (size <= trackStart) {
+      return [
+        {
+          file: cueFile.filename,
+          track: track.number,
+          issue: 'truncated',
+          message: `${trackLabel(track)} in ${cueFile.filename} is truncated: file is ${size} bytes, track starts at byte ${trackStart}`,
+        },
+      ];
+    }
+  }
+
+  const last = cueFile.tracks[cueFile.tracks.length - 1];
+  if (
+    last !== undefined &&
+    previous !== undefined &&
+    (size - trackStart) % previous.sectorSize !== 0
+  ) {
+    return [
+      {
+        file: cueFile.filename,
+        track: last.number,
+        issue: 'truncated',
+        message: `${trackLabel(last)} in ${cueFile.filename} is truncated: ${size - trackStart} bytes is not a whole number of ${previous.sectorSize}-byte sectors`,
+      },
+    ];
+  }
+
+  return [];
+}
+
+/**
+ * Start of a track: INDEX 00 (pregap) when present, else INDEX 01
+ */
+function trackStartFrame(track: CueTrack): number {
+  return track.indexes.get(0) ?? track.indexes.get(1) ?? 0;
+}
+
+function trackLabel(track: CueTrack): string {
+  return `Track ${String(track.number).padStart(TRACK_NUMBER_WIDTH, '0')} (${track.mode})`;
+}
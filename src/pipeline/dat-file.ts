@@ -0,0 +1,171 @@
+/**
+ * Logiqx DAT Parser
+ * Reads No-Intro / Redump XML DATs into games and their ROM checksums
+ * Following SRP - single responsibility: DAT file structure
+ *
+ * Current problem: nothing tells us whether an ingested ROM is a known
+ * good dump; the DATs that do are plain Logiqx XML.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { basename, extname } from 'node:path';
+
+export const DAT_EXTENSIONS: readonly string[] = ['.dat', '.xml'];
+
+/**
+ * ROM listed by a DAT game; checksums are lowercase hex
+ */
+export interface DatRom {
+  name: string;
+  size: number;
+  crc32?: string;
+  md5?: string;
+  sha1?: string;
+  /** DAT dump status, e.g. "verified", "baddump", "nodump" */
+  status?: string;
+}
+
+/**
+ * Game (or machine) entry
+ */
+export interface DatGame {
+  name: string;
+  description?: string;
+  /** Parent game name for clones */
+  cloneOf?: string;
+  roms: DatRom[];
+}
+
+/**
+ * Parsed DAT file
+ */
+export interface DatFile {
+  /** Header name, e.g. "Nintendo - Nintendo Entertainment System" */
+  name: string;
+  games: DatGame[];
+}
+
+const HEADER_NAME_PATTERN = /<header>[\s\S]*?<name>([^<]*)<\/name>/;
+const GAME_PATTERN = /<(game|machine)\b([^>]*)>([\s\S]*?)<\/\1>/g;
+const ROM_PATTERN = /<rom\b([^>]*?)\/?>/g;
+const DESCRIPTION_PATTERN = /<description>([^<]*)<\/description>/;
+const ATTRIBUTE_PATTERN = /([\w-]+)\s*=\s*"([^"]*)"/g;
+
+const HEX_RADIX = 16;
+
+const XML_ENTITIES: Readonly<Record<string, string>> = {
+  amp: '&',
+  apos: "'",
+  quot: '"',
+  lt: '<',
+  gt: '>',
+};
+
+/**
+ * Parses Logiqx XML text
+ * @param fallbackName - DAT name when the header has none
+ */
+export function parseDatFile(text: string, fallbackName = ''): DatFile {
+  const headerName = HEADER_NAME_PATTERN.exec(text)?.[1];
+  const games: DatGame[] = [];
+
+  for (const gameMatch of text.matchAll(GAME_PATTERN)) {
+    const attributes = parseAttributes(gameMatch[2] ?? '');
+    const body = gameMatch[3] ?? '';
+    const name = attributes.get('name');
+    if (name === undefined) {
+      continue;
+    }
+
+    const description = DESCRIPTION_PATTERN.exec(body)?.[1];
+    const cloneOf = attributes.get('cloneof');
+    const roms: DatRom[] = [];
+
+    for (const romMatch of body.matchAll(ROM_PATTERN)) {
+      const rom = parseRom(parseAttributes(romMatch[1] ?? ''));
+      if (rom !== null) {
+        roms.push(rom);
+      }
+    }
+
+    games.push({
+      name,
+      ...(description !== undefined && {
+        description: decodeEntities(description),
+      }),
+      ...(cloneOf !== undefined && { cloneOf }),
+      roms,
+    });
+  }
+
+  return {
+    name: headerName !== undefined ? decodeEntities(headerName) : fallbackName,
+    games,
+  };
+}
+
+/**
+ * Reads and parses a DAT file; the file name is the fallback DAT name
+ */
+export async function readDatFile(datPath: string): Promise<DatFile> {
+  return parseDatFile(
+    await readFile(datPath, 'utf-8'),
+    basename(datPath, extname(datPath))
+  );
+}
+
+/**
+ * Whether a file looks like a DAT by extension
+ */
+export function isDatFile(filePath: string): boolean {
+  return DAT_EXTENSIONS.includes(extname(filePath).toLowerCase());
+}
+
+function parseRom(attributes: Map<string, string>): DatRom | null {
+  const name = attributes.get('name');
+  const size = Number(attributes.get('size'));
+  if (name === undefined || !Number.isFinite(size)) {
+    return null;
+  }
+
+  const crc32 = attributes.get('crc')?.toLowerCase();
+  const md5 = attributes.get('md5')?.toLowerCase();
+  const sha1 = attributes.get('sha1')?.toLowerCase();
+  const status = attributes.get('status')?.toLowerCase();
+
+  return {
+    name,
+    size,
+    ...(crc32 !== undefined && { crc32 }),
+    ...(md5 !== undefined && { md5 }),
+    ...(sha1 !== undefined && { sha1 }),
+    ...(status !== undefined && { status }),
+  };
+}
+
+function parseAttributes(source: string): Map<string, string> {
+  const attributes = new Map<string, string>();
+  for (const [, key, value] of source.matchAll(ATTRIBUTE_PATTERN)) {
+    if (key !== undefined && value !== undefined) {
+      attributes.set(key.toLowerCase(), decodeEntities(value));
+    }
+  }
+  return attributes;
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(
+    /&(#x[0-9a-f]+|#\d+|\w+);/gi,
+    (entity: string, code: string) => {
+      if (code.startsWith('#x') || code.startsWith('#X')) {
+        return String.fromCodePoint(
+          parseInt(code.slice('#x'.length), HEX_RADIX)
+        );
+      }
+      if (code.startsWith('#')) {
+        return String.fromCodePoint(Number(code.slice('#'.length)));
+      }
+      return XML_ENTITIES[code.toLowerCase()] ?? entity;
+    }
+  );
+}
@@ -0,0 +1,150 @@
+/**
+ * DAT Index
+ * In-memory lookup of DAT ROMs by SHA-1, CRC-32 + size and file name
+ * Following SRP - single responsibility: DAT matching
+ *
+ * Current problem: a full No-Intro / Redump set is tens of thousands of
+ * entries; scanning them per ROM does not scale.
+ */
+
+import { readdir } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import type { DatMatch, RomHashes } from '../interfaces/pipeline.interface.js';
+
+import {
+  isDatFile,
+  readDatFile,
+  type DatFile,
+  type DatGame,
+  type DatRom,
+} from './dat-file.js';
+
+/** No-Intro region is the first parenthesised tag, e.g. "(USA, Europe)" */
+const REGION_PATTERN = /\(([^)]+)\)/;
+const REVISION_PATTERN = /\(Rev\s*([^)]+)\)/i;
+const BAD_DUMP_STATUS = 'baddump';
+
+/**
+ * ROM listed in a DAT, with the game and DAT it belongs to
+ */
+export interface DatIndexEntry {
+  datName: string;
+  game: DatGame;
+  rom: DatRom;
+}
+
+/**
+ * Index over any number of DAT files
+ */
+export class DatIndex {
+  private readonly bySha1 = new Map<string, DatIndexEntry>();
+  private readonly byCrc32 = new Map<string, DatIndexEntry>();
+  private readonly byName = new Map<string, DatIndexEntry>();
+  private readonly datNames: string[] = [];
+
+  /**
+   * DAT files that could not be read, as "file: reason"
+   */
+  readonly errors: string[] = [];
+
+  /**
+   * Loads every .dat / .xml file in a directory
+   * Unreadable DATs are recorded in `errors` and skipped
+   */
+  static async load(datDirectory: string): Promise<DatIndex> {
+    const index = new DatIndex();
+    const files = (await readdir(datDirectory)).filter(isDatFile).sort();
+
+    for (const file of files) {
+      try {
+        index.add(await readDatFile(join(datDirectory, file)));
+      } catch (error) {
+        index.errors.push(
+          `${file}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+
+    return index;
+  }
+
+  /**
+   * Indexes every ROM of a DAT; the first DAT to list a checksum wins
+   */
+  add(dat: DatFile): void {
+    this.datNames.push(dat.name);
+
+    for (const game of dat.games) {
+      for (const rom of game.roms) {
+        const entry = { datName: dat.name, game, rom };
+        if (rom.sha1 !== undefined && !this.bySha1.has(rom.sha1)) {
+          this.bySha1.set(rom.sha1, entry);
+        }
+        if (rom.crc32 !== undefined) {
+          const key = crcKey(rom.crc32, rom.size);
+          if (!this.byCrc32.has(key)) {
+            this.byCrc32.set(key, entry);
+          }
+        }
+        const nameKey = rom.name.toLowerCase();
+        if (!this.byName.has(nameKey)) {
+          this.byName.set(nameKey, entry);
+        }
+      }
+    }
+  }
+
+  /**
+   * Names of the indexed DATs
+   */
+  get dats(): readonly string[] {
+    return this.datNames;
+  }
+
+  /**
+   * Matches content hashes, falling back to the file name
+   * SHA-1 is tried first, then CRC-32 with size; a name-only match means
+   * the file is known but its content differs from the DAT
+   */
+  lookup(hashes: RomHashes, size: number, filename: string): DatMatch {
+    const bySha1 = this.bySha1.get(hashes.sha1);
+    if (bySha1 !== undefined) {
+      return toMatch(bySha1, 'sha1');
+    }
+
+    const byCrc32 = this.byCrc32.get(crcKey(hashes.crc32, size));
+    if (byCrc32 !== undefined) {
+      return toMatch(byCrc32, 'crc32');
+    }
+
+    const byName = this.byName.get(filename.toLowerCase());
+    if (byName !== undefined) {
+      return { ...toMatch(byName, 'name'), status: 'bad-dump' };
+    }
+
+    return { status: 'unknown' };
+  }
+}
+
+function crcKey(crc32: string, size: number): string {
+  return `${crc32.toLowerCase()}:${size}`;
+}
+
+function toMatch(
+  entry: DatIndexEntry,
+  matchedBy: NonNullable<DatMatch['matchedBy']>
+): DatMatch {
+  const region = REGION_PATTERN.exec(entry.game.name)?.[1];
+  const revision = REVISION_PATTERN.exec(entry.game.name)?.[1];
+
+  return {
+    status: entry.rom.status === BAD_DUMP_STATUS ? 'bad-dump' : 'verified',
+    datName: entry.datName,
+    game: entry.game.name,
+    ...(entry.game.cloneOf !== undefined && { cloneOf: entry.game.cloneOf }),
+    ...(region !== undefined && { region }),
+    ...(revision !== undefined && { revision }),
+    matchedBy,
+  };
+}
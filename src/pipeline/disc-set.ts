@@ -0,0 +1,126 @@
+/**
+ * Multi-Disc Sets
+ * Groups "(Disc N)" dumps by title and maintains their .m3u playlists
+ * Following SRP - single responsibility: disc set membership
+ *
+ * Rule of Three: the Normalizer, Promoter and BatchProcessor all need to
+ * agree on how discs are grouped and listed.
+ */
+
+import { mkdir } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import type { DiscSetMembership } from '../interfaces/pipeline.interface.js';
+
+import { updateTextFile } from './atomic-file.js';
+
+export const M3U_EXTENSION = '.m3u';
+
+/** No-Intro / Redump disc tags: "(Disc 1)", "(Disc 2 of 3)", "(Disk A)" */
+const DISC_TAG_PATTERN =
+  /\s*\((?:Disc|Disk|CD)\s*([0-9]+|[A-Z])(?:\s+of\s+\d+)?\)/i;
+/** Per-track tags of split bin/cue dumps, e.g. "(Track 02)" */
+const TRACK_TAG_PATTERN = /\s*\(Track\s*\d+\)/gi;
+const LETTER_DISC_OFFSET = 'A'.charCodeAt(0) - 1;
+
+/**
+ * Disc tag parsed from a filename
+ */
+export interface DiscTag {
+  /** Filename without extension, disc and track tags */
+  title: string;
+  disc: number;
+}
+
+/**
+ * Parses a disc tag; null when the file is not part of a disc set
+ */
+export function parseDiscTag(filename: string): DiscTag | null {
+  const name = filename.replace(/\.[^.]+$/, '');
+  const match = DISC_TAG_PATTERN.exec(name);
+  const rawDisc = match?.[1];
+  if (match === null || rawDisc === undefined) {
+    return null;
+  }
+
+  const disc = /^\d+$/.test(rawDisc)
+    ? Number(rawDisc)
+    : rawDisc.toUpperCase().charCodeAt(0) - LETTER_DISC_OFFSET;
+  const title = name
+    .replace(DISC_TAG_PATTERN, '')
+    .replace(TRACK_TAG_PATTERN, '')
+    .trim();
+
+  return { title, disc };
+}
+
+/**
+ * Builds disc set membership for a ROM
+ * @param launchFile - File RetroArch loads for this disc
+ */
+export function discSetMembership(
+  filename: string,
+  launchFile: string
+): DiscSetMembership | null {
+  const tag = parseDiscTag(filename);
+  if (tag === null) {
+    return null;
+  }
+
+  return {
+    ...tag,
+    file: launchFile,
+    playlist: `${tag.title}${M3U_EXTENSION}`,
+  };
+}
+
+/**
+ * Renders an .m3u listing, ordered by disc number
+ */
+export function renderM3u(
+  members: ReadonlyArray<Pick<DiscSetMembership, 'disc' | 'file'>>
+): string {
+  return (
+    [...members]
+      .sort((a, b) => a.disc - b.disc)
+      .map((member) => member.file)
+      .join('\n') + '\n'
+  );
+}
+
+/**
+ * Writes (or extends) the .m3u for a disc set in `dir`
+ * Discs already listed are kept; a re-ingested disc replaces its line
+ * @returns Path of the .m3u
+ */
+export async function updateM3u(
+  dir: string,
+  playlist: string,
+  members: ReadonlyArray<Pick<DiscSetMembership, 'disc' | 'file'>>
+): Promise<string> {
+  const m3uPath = join(dir, playlist);
+
+  await mkdir(dir, { recursive: true });
+  await updateTextFile(m3uPath, (existing = '') => {
+    const byDisc = new Map<number, string>();
+
+    for (const line of existing.split(/\r?\n/)) {
+      const file = line.trim();
+      const tag =
+        file !== '' && !file.startsWith('#') ? parseDiscTag(file) : null;
+      if (tag !== null) {
+        byDisc.set(tag.disc, file);
+      }
+    }
+
+    for (const member of members) {
+      byDisc.set(member.disc, member.file);
+    }
+
+    return renderM3u(
+      Array.from(byDisc.entries()).map(([disc, file]) => ({ disc, file }))
+    );
+  });
+
+  return m3uPath;
+}
@@ -0,0 +1,151 @@
+/**
+ * File Linker
+ * Places a file in the library by the cheapest strategy its devices allow
+ * Following SRP - single responsibility: link strategy selection
+ *
+ * Current problem: the BatchProcessor hard-linked every ROM, which fails
+ * with EXDEV when the ROM folder and the RetroArch base path are on
+ * different filesystems (USB drives, NAS mounts), so every file of such a
+ * run was an error. Strategies are tried in order, and one a device pair
+ * does not support is skipped for the rest of the run.
+ */
+
+import { constants } from 'node:fs';
+import { copyFile, link, rm, stat, symlink } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+
+import type { LinkStrategy } from '../interfaces/pipeline.interface.js';
+
+import { hashFile } from './rom-hashes.js';
+
+/** Every strategy, fastest and most space-efficient first */
+export const LINK_STRATEGIES: readonly LinkStrategy[] = [
+  'hardlink',
+  'reflink',
+  'symlink',
+  'copy',
+];
+
+/** Errors meaning the device pair cannot use a strategy at all */
+const UNSUPPORTED_CODES = new Set([
+  'EXDEV',
+  'ENOTSUP',
+  'EOPNOTSUPP',
+  'ENOSYS',
+  'EINVAL',
+]);
+/** Errors meaning this one file cannot use a strategy, e.g. too many links */
+const FALLBACK_CODES = new Set(['EPERM', 'EACCES', 'EMLINK']);
+
+/**
+ * Places files by the first configured strategy that works
+ * The strategies a source and destination device pair does not support
+ * are remembered, so only the first file of each pair probes them
+ */
+export class FileLinker {
+  private readonly strategies: readonly LinkStrategy[];
+  /** Unsupported strategies, by "source device:destination device" */
+  private readonly unsupported = new Map<string, Set<LinkStrategy>>();
+
+  constructor(strategies: readonly LinkStrategy[] = LINK_STRATEGIES) {
+    if (strategies.length === 0) {
+      throw new Error('At least one link strategy is required');
+    }
+    this.strategies = strategies;
+  }
+
+  /**
+   * Places `source` at `destination`, which must not exist
+   * @param durable - False when the source is deleted afterwards, which
+   * rules out symbolic links
+   * @returns The strategy used
+   * @throws The last strategy's error when none works
+   */
+  async link(
+    source: string,
+    destination: string,
+    durable = true
+  ): Promise<LinkStrategy> {
+    const devices = await devicePair(source, destination);
+    let unsupported = this.unsupported.get(devices);
+    if (unsupported === undefined) {
+      unsupported = new Set();
+      this.unsupported.set(devices, unsupported);
+    }
+
+    const candidates = this.strategies.filter(
+      (strategy) =>
+        !unsupported.has(strategy) && (durable || strategy !== 'symlink')
+    );
+    let lastError: unknown = new Error(
+      `No link strategy can place ${source} at ${destination}`
+    );
+    for (const strategy of candidates) {
+      try {
+        await place(strategy, source, destination);
+        return strategy;
+      } catch (error) {
+        const code = errorCode(error);
+        if (code !== undefined && UNSUPPORTED_CODES.has(code)) {
+          unsupported.add(strategy);
+        } else if (code === undefined || !FALLBACK_CODES.has(code)) {
+          throw error;
+        }
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+}
+
+async function place(
+  strategy: LinkStrategy,
+  source: string,
+  destination: string
+): Promise<void> {
+  switch (strategy) {
+    case 'hardlink':
+      return link(source, destination);
+    case 'reflink':
+      return copyFile(source, destination, constants.COPYFILE_FICLONE_FORCE);
+    case 'symlink':
+      return symlink(resolve(source), destination);
+    case 'copy':
+      return verifiedCopy(source, destination);
+  }
+}
+
+/**
+ * Copies a file and checks the copy's SHA-256; a bad copy is removed
+ */
+async function verifiedCopy(
+  source: string,
+  destination: string
+): Promise<void> {
+  await copyFile(source, destination, constants.COPYFILE_EXCL);
+  const [original, copy] = await Promise.all([
+    hashFile(source),
+    hashFile(destination),
+  ]);
+  if (original.sha256 !== copy.sha256) {
+    await rm(destination, { force: true });
+    throw new Error(`Copy of ${source} does not match its source`);
+  }
+}
+
+async function devicePair(
+  source: string,
+  destination: string
+): Promise<string> {
+  const [from, to] = await Promise.all([
+    stat(source),
+    stat(dirname(destination)),
+  ]);
+  return `${from.dev}:${to.dev}`;
+}
+
+function errorCode(error: unknown): string | undefined {
+  return error instanceof Error && 'code' in error
+    ? String(error.code)
+    : undefined;
+}
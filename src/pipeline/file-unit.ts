@@ -0,0 +1,43 @@
+/**
+ * File Unit Copy
+ * Copies a ROM together with its companion files, all or nothing
+ * Following SRP - single responsibility: multi-file copies
+ *
+ * Rule of Three: Archiver and Promoter both move cue sheets with their
+ * tracks; a partial copy leaves an unbootable disc behind.
+ */
+
+import { copyFile, mkdir, rm } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+
+/**
+ * Copies every source into destDir, keeping basenames
+ * On failure, files already copied by this call are removed
+ * @param primaryName - Destination name for the first source
+ * @returns Destination paths, in source order
+ */
+export async function copyFileUnit(
+  sources: string[],
+  destDir: string,
+  primaryName?: string
+): Promise<string[]> {
+  await mkdir(destDir, { recursive: true });
+
+  const copied: string[] = [];
+  try {
+    for (const [index, source] of sources.entries()) {
+      const name =
+        index === 0 && primaryName !== undefined
+          ? primaryName
+          : basename(source);
+      const destination = join(destDir, name);
+      await copyFile(source, destination);
+      copied.push(destination);
+    }
+  } catch (error) {
+    await Promise.all(copied.map((path) => rm(path, { force: true })));
+    throw error;
+  }
+
+  return copied;
+}
@@ -0,0 +1,283 @@
+/**
+ * Filename Tag Parser
+ * Reads No-Intro "(...)" tags and GoodTools "[...]" codes from ROM names
+ * Following SRP - single responsibility: filename metadata
+ *
+ * Rule of Three: naming templates, playlist labels and 1G1R selection all
+ * need regions, languages and dump flags rather than raw filenames.
+ */
+
+import type { ROMFile } from '../interfaces/pipeline.interface.js';
+
+/**
+ * GoodTools / No-Intro dump flags, worst first
+ */
+export type DumpStatus =
+  | 'bad'
+  | 'overdump'
+  | 'hack'
+  | 'translation'
+  | 'trainer'
+  | 'pirate'
+  | 'fixed'
+  | 'alternate'
+  | 'verified'
+  | 'unknown';
+
+/**
+ * Pre-release and promotional builds; `release` when untagged
+ */
+export type DevelopmentStatus =
+  | 'release'
+  | 'alpha'
+  | 'beta'
+  | 'prototype'
+  | 'demo'
+  | 'sample'
+  | 'kiosk'
+  | 'preview'
+  | 'debug';
+
+/**
+ * Typed view of a ROM filename, stored as `ROMFile.metadata.tags`
+ */
+export interface FilenameTags {
+  /** Name without tags or extension */
+  title: string;
+  /** No-Intro region names, e.g. ["USA", "Europe"] */
+  regions: string[];
+  /** ISO 639-1 style codes, e.g. ["En", "Fr"] */
+  languages: string[];
+  /** "(Rev 1)" → "1"; GoodTools "(PRG1)" → "1" */
+  revision?: string;
+  /** "(v1.1)" → "1.1" */
+  version?: string;
+  dumpStatus: DumpStatus;
+  developmentStatus: DevelopmentStatus;
+  /** Tags not recognized above, e.g. "Unl", "T+Eng", "Virtual Console" */
+  flags: string[];
+}
+
+/** No-Intro region names, lowercase → canonical */
+const REGIONS = new Map(
+  [
+    'World',
+    'USA',
+    'Europe',
+    'Japan',
+    'Asia',
+    'Australia',
+    'Brazil',
+    'Canada',
+    'China',
+    'Denmark',
+    'Finland',
+    'France',
+    'Germany',
+    'Greece',
+    'Hong Kong',
+    'India',
+    'Italy',
+    'Korea',
+    'Mexico',
+    'Netherlands',
+    'Norway',
+    'Poland',
+    'Portugal',
+    'Russia',
+    'Scandinavia',
+    'Spain',
+    'Sweden',
+    'Taiwan',
+    'UK',
+    'Unknown',
+  ].map((region) => [region.toLowerCase(), region])
+);
+
+/** GoodTools country codes */
+const GOODTOOLS_REGIONS: Readonly<Record<string, string[]>> = {
+  U: ['USA'],
+  E: ['Europe'],
+  J: ['Japan'],
+  W: ['World'],
+  JU: ['Japan', 'USA'],
+  UE: ['USA', 'Europe'],
+  JE: ['Japan', 'Europe'],
+  JUE: ['Japan', 'USA', 'Europe'],
+  A: ['Australia'],
+  As: ['Asia'],
+  B: ['Brazil'],
+  C: ['China'],
+  Ch: ['China'],
+  F: ['France'],
+  FC: ['Canada'],
+  G: ['Germany'],
+  Gr: ['Greece'],
+  HK: ['Hong Kong'],
+  I: ['Italy'],
+  K: ['Korea'],
+  Nl: ['Netherlands'],
+  No: ['Norway'],
+  R: ['Russia'],
+  S: ['Spain'],
+  Sw: ['Sweden'],
+  UK: ['UK'],
+  Unk: ['Unknown'],
+};
+
+/** GoodTools bracket code letter → dump status */
+const DUMP_CODES: Readonly<Record<string, DumpStatus>> = {
+  '!': 'verified',
+  b: 'bad',
+  o: 'overdump',
+  h: 'hack',
+  t: 'trainer',
+  p: 'pirate',
+  f: 'fixed',
+  a: 'alternate',
+};
+
+const DUMP_SEVERITY: readonly DumpStatus[] = [
+  'bad',
+  'overdump',
+  'hack',
+  'translation',
+  'trainer',
+  'pirate',
+  'fixed',
+  'alternate',
+  'verified',
+  'unknown',
+];
+
+const DEVELOPMENT_TAGS: ReadonlyArray<[RegExp, DevelopmentStatus]> = [
+  [/^alpha(?:\s+\d+)?$/i, 'alpha'],
+  [/^beta(?:\s+\d+)?$/i, 'beta'],
+  [/^proto(?:type)?(?:\s+\d+)?$/i, 'prototype'],
+  [/^demo(?:\s+\d+)?$/i, 'demo'],
+  [/^sample$/i, 'sample'],
+  [/^kiosk(?:\s+demo)?$/i, 'kiosk'],
+  [/^preview$/i, 'preview'],
+  [/^debug$/i, 'debug'],
+];
+
+const TAG_PATTERN = /\(([^)]*)\)|\[([^\]]*)\]/g;
+const LANGUAGES_PATTERN =
+  /^[A-Z][a-z](?:-[A-Z][a-z]+)?(?:[,+][A-Z][a-z](?:-[A-Z][a-z]+)?)*$/;
+const REVISION_PATTERN = /^(?:Rev\s*([\w.]+)|PRG\s*(\d+))$/i;
+const VERSION_PATTERN = /^v(\d+(?:\.\w+)*)$/i;
+const DUMP_CODE_PATTERN = /^([!bohtpfa])(?:\d+[A-Za-z]*)?$/;
+const TRANSLATION_PATTERN = /^T[+-]/;
+/** Disc and track tags belong to disc sets, not metadata flags */
+const MEDIA_TAG_PATTERN = /^(?:Disc|Disk|CD|Track)\s*\w+(?:\s+of\s+\d+)?$/i;
+
+/**
+ * Parses the tags of a ROM filename
+ */
+export function parseFilenameTags(filename: string): FilenameTags {
+  const name = filename.replace(/\.[^.\s]+$/, '');
+  const tags: FilenameTags = {
+    title: name.split(/\s*[([]/)[0]?.trim() ?? name,
+    regions: [],
+    languages: [],
+    dumpStatus: 'unknown',
+    developmentStatus: 'release',
+    flags: [],
+  };
+
+  for (const match of name.matchAll(TAG_PATTERN)) {
+    const paren = match[1];
+    const square = match[2];
+    if (paren !== undefined) {
+      applyParenTag(tags, paren.trim());
+    } else if (square !== undefined) {
+      applySquareTag(tags, square.trim());
+    }
+  }
+
+  return tags;
+}
+
+/**
+ * Tags stored by `Normalizer.generateMetadata`, parsed from the filename
+ * when absent
+ */
+export function filenameTagsOf(
+  rom: Pick<ROMFile, 'filename' | 'originalName' | 'metadata'>
+): FilenameTags {
+  const stored = rom.metadata?.['tags'] as FilenameTags | undefined;
+  return stored ?? parseFilenameTags(rom.originalName ?? rom.filename);
+}
+
+function applyParenTag(tags: FilenameTags, tag: string): void {
+  const regions = parseRegions(tag);
+  if (regions !== null && tags.regions.length === 0) {
+    tags.regions = regions;
+    return;
+  }
+
+  if (LANGUAGES_PATTERN.test(tag) && tags.languages.length === 0) {
+    tags.languages = tag.split(/[,+]/);
+    return;
+  }
+
+  const revision = REVISION_PATTERN.exec(tag);
+  if (revision !== null) {
+    tags.revision = revision[1] ?? revision[2] ?? '';
+    return;
+  }
+
+  const version = VERSION_PATTERN.exec(tag);
+  if (version?.[1] !== undefined) {
+    tags.version = version[1];
+    return;
+  }
+
+  const development = DEVELOPMENT_TAGS.find(([pattern]) => pattern.test(tag));
+  if (development !== undefined) {
+    tags.developmentStatus = development[1];
+    return;
+  }
+
+  if (!MEDIA_TAG_PATTERN.test(tag) && tag !== '') {
+    tags.flags.push(tag);
+  }
+}
+
+function applySquareTag(tags: FilenameTags, tag: string): void {
+  const code = DUMP_CODE_PATTERN.exec(tag)?.[1];
+  const status =
+    code !== undefined
+      ? DUMP_CODES[code]
+      : TRANSLATION_PATTERN.test(tag)
+        ? 'translation'
+        : undefined;
+
+  if (status === undefined) {
+    if (tag !== '') {
+      tags.flags.push(tag);
+    }
+    return;
+  }
+
+  if (status === 'translation') {
+    tags.flags.push(tag);
+  }
+  if (DUMP_SEVERITY.indexOf(status) < DUMP_SEVERITY.indexOf(tags.dumpStatus)) {
+    tags.dumpStatus = status;
+  }
+}
+
+/**
+ * "USA, Europe" or GoodTools "U" / "JU"; null when not a region tag
+ */
+function parseRegions(tag: string): string[] | null {
+  const goodTools = GOODTOOLS_REGIONS[tag];
+  if (goodTools !== undefined) {
+    return [...goodTools];
+  }
+
+  const parts = tag.split(/\s*,\s*/);
+  const regions = parts.map((part) => REGIONS.get(part.toLowerCase()));
+  return regions.every((region) => region !== undefined) ? regions : null;
+}
@@ -0,0 +1,471 @@
+/**
+ * Hash Index
+ * Persistent index of archived ROMs keyed by every checksum
+ * Following SRP - single responsibility: hash lookups over the manifests
+ *
+ * Current problem: duplicate checks read and parse every manifest for
+ * every ingested ROM, which is quadratic in the size of the library.
+ *
+ * The index is an append-only log next to the manifests. Each line is a
+ * CRC-32-prefixed JSON record; manifests are stamped with their size and
+ * modification time. A missing log, a corrupt record or a manifest changed
+ * behind the index's back triggers a rebuild from the manifests.
+ */
+
+import { appendFile, open, readdir, stat } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import type {
+  ManifestEntry,
+  RomHashes,
+} from '../interfaces/pipeline.interface.js';
+
+import { readJsonFile, writeFileAtomic } from './atomic-file.js';
+import { crc32, formatCrc32 } from './crc32.js';
+import { parseManifest } from './manifest-file.js';
+
+/** Log file in `archive.manifests`; manifest readers only see `.json` */
+export const HASH_INDEX_FILENAME = 'hash-index.log';
+
+export type HashAlgorithm = keyof RomHashes;
+
+/**
+ * Indexed manifest entry and the manifest file that holds it
+ */
+export interface IndexedEntry {
+  file: string;
+  entry: ManifestEntry;
+}
+
+/**
+ * Size and modification time of a manifest when it was indexed
+ */
+interface ManifestStamp {
+  size: number;
+  mtimeMs: number;
+  /** Set when the manifest could not be parsed */
+  error?: string;
+}
+
+type HashIndexRecord =
+  | { op: 'version'; version: number }
+  | { op: 'put'; file: string; entry: ManifestEntry }
+  | { op: 'stamp'; file: string; stamp: ManifestStamp };
+
+const HASH_INDEX_VERSION = 1;
+const HASH_ALGORITHMS: HashAlgorithm[] = ['crc32', 'md5', 'sha1', 'sha256'];
+const MANIFEST_EXTENSION = '.json';
+const RECORD_SEPARATOR = '\t';
+const LINE_SEPARATOR = '\n';
+
+/** One index per manifests directory, shared by every phase */
+const openIndexes = new Map<string, HashIndex>();
+
+export class HashIndex {
+  private readonly manifestsDir: string;
+  private readonly logPath: string;
+  /** Indexed entries by "{file}/{id}" */
+  private readonly rows = new Map<string, IndexedEntry>();
+  /** Row keys by "{algorithm}:{hash}" */
+  private readonly keys = new Map<string, Set<string>>();
+  private readonly stamps = new Map<string, ManifestStamp>();
+  /** Bytes of the log applied to the in-memory index */
+  private offset = 0;
+  private queue: Promise<unknown> = Promise.resolve();
+  /** Why the index was last rebuilt, e.g. "corrupt record at byte 120" */
+  lastRebuildReason: string | undefined;
+
+  private constructor(manifestsDir: string) {
+    this.manifestsDir = manifestsDir;
+    this.logPath = join(manifestsDir, HASH_INDEX_FILENAME);
+  }
+
+  /**
+   * Index of a manifests directory, brought up to date with its log and
+   * manifests; a missing directory gives an empty index
+   */
+  static async open(manifestsDir: string): Promise<HashIndex> {
+    let index = openIndexes.get(manifestsDir);
+    if (index === undefined) {
+      index = new HashIndex(manifestsDir);
+      openIndexes.set(manifestsDir, index);
+    }
+    await index.refresh();
+    return index;
+  }
+
+  /**
+   * Manifests skipped because they could not be parsed
+   */
+  get errors(): string[] {
+    return [...this.stamps]
+      .filter(([, stamp]) => stamp.error !== undefined)
+      .map(([file, stamp]) => `${file}: ${stamp.error}`);
+  }
+
+  /**
+   * Entries whose full or headerless checksum matches
+   */
+  find(algorithm: HashAlgorithm, value: string): ManifestEntry[] {
+    return this.lookup(algorithm, value).map((row) => row.entry);
+  }
+
+  /**
+   * First entry sharing either SHA-256 with the ROM
+   */
+  findDuplicate(
+    hash: string,
+    headerlessHash?: string
+  ): IndexedEntry | undefined {
+    return [
+      ...this.lookup('sha256', hash),
+      ...(headerlessHash !== undefined
+        ? this.lookup('sha256', headerlessHash)
+        : []),
+    ][0];
+  }
+
+  /**
+   * Every indexed entry, or those of one manifest file, in manifest order
+   */
+  entries(file?: string): ManifestEntry[] {
+    return [...this.rows.values()]
+      .filter((row) => file === undefined || row.file === file)
+      .map((row) => row.entry);
+  }
+
+  /**
+   * Records an entry the Archiver just wrote to `file`
+   * Replaces an entry of the same file with the same id or hash, as the
+   * Archiver does
+   */
+  async put(file: string, entry: ManifestEntry): Promise<void> {
+    return this.serialize(async () => {
+      const records: HashIndexRecord[] = [
+        { op: 'put', file, entry },
+        {
+          op: 'stamp',
+          file,
+          stamp: await this.stampOf(join(this.manifestsDir, file)),
+        },
+      ];
+      // One write, so a crash cannot split the entry from its stamp
+      await appendFile(this.logPath, records.map(encodeRecord).join(''));
+      // The offset stays put: replaying these records is harmless
+      records.forEach((record) => this.apply(record));
+    });
+  }
+
+  /**
+   * Rebuilds the index from the manifests
+   */
+  async rebuild(reason = 'rebuild requested'): Promise<void> {
+    return this.serialize(async () => {
+      const manifests = await this.statManifests();
+      if (manifests === null) {
+        this.reset();
+        return;
+      }
+      await this.writeIndex(manifests, reason);
+    });
+  }
+
+  /**
+   * Applies records appended since the last refresh; rebuilds when the log
+   * is missing or corrupt, or a manifest changed outside the index
+   */
+  async refresh(): Promise<void> {
+    return this.serialize(async () => {
+      const manifests = await this.statManifests();
+      if (manifests === null) {
+        this.reset();
+        return;
+      }
+
+      const reason =
+        (await this.readLog()) ?? this.staleManifestReason(manifests);
+      if (reason !== undefined) {
+        await this.writeIndex(manifests, reason);
+      }
+    });
+  }
+
+  private lookup(algorithm: HashAlgorithm, value: string): IndexedEntry[] {
+    const rowKeys = this.keys.get(hashKey(algorithm, value)) ?? new Set();
+    return [...rowKeys]
+      .map((rowKey) => this.rows.get(rowKey))
+      .filter((row): row is IndexedEntry => row !== undefined);
+  }
+
+  /**
+   * Reads the log from the last applied byte
+   * Returns why the index must be rebuilt, if it must
+   */
+  private async readLog(): Promise<string | undefined> {
+    let size: number;
+    try {
+      size = (await stat(this.logPath)).size;
+    } catch {
+      return 'index missing';
+    }
+
+    if (size < this.offset) {
+      // Replaced by another rebuild: start over
+      this.reset();
+    }
+    if (size === this.offset) {
+      return undefined;
+    }
+
+    const start = this.offset;
+    const buffer = Buffer.alloc(size - start);
+    const handle = await open(this.logPath, 'r');
+    try {
+      await handle.read(buffer, 0, buffer.length, start);
+    } finally {
+      await handle.close();
+    }
+
+    const text = buffer.toString('utf-8');
+    if (!text.endsWith(LINE_SEPARATOR)) {
+      return 'truncated record';
+    }
+
+    let position = start;
+    for (const line of text.slice(0, -LINE_SEPARATOR.length).split('\n')) {
+      const record = decodeRecord(line);
+      if (
+        record === null ||
+        (position === 0 &&
+          (record.op !== 'version' || record.version !== HASH_INDEX_VERSION))
+      ) {
+        return `corrupt record at byte ${position}`;
+      }
+      this.apply(record);
+      position += Buffer.byteLength(line) + LINE_SEPARATOR.length;
+    }
+
+    this.offset = size;
+    return undefined;
+  }
+
+  private staleManifestReason(
+    manifests: Map<string, ManifestStamp>
+  ): string | undefined {
+    for (const [file, current] of manifests) {
+      const known = this.stamps.get(file);
+      if (
+        known === undefined ||
+        known.size !== current.size ||
+        known.mtimeMs !== current.mtimeMs
+      ) {
+        return `${file} changed since it was indexed`;
+      }
+    }
+
+    const removed = [...this.stamps.keys()].find(
+      (file) => !manifests.has(file)
+    );
+    return removed !== undefined ? `${removed} was removed` : undefined;
+  }
+
+  /**
+   * Indexes every manifest and replaces the log
+   * A read-only archive keeps the in-memory index and retries next time
+   */
+  private async writeIndex(
+    manifests: Map<string, ManifestStamp>,
+    reason: string
+  ): Promise<void> {
+    this.reset();
+    const records: HashIndexRecord[] = [
+      { op: 'version', version: HASH_INDEX_VERSION },
+    ];
+
+    for (const [file, stamp] of [...manifests].sort(([a], [b]) =>
+      a.localeCompare(b)
+    )) {
+      const path = join(this.manifestsDir, file);
+      try {
+        const manifest = await readJsonFile(path, parseManifest);
+        for (const entry of manifest?.data ?? []) {
+          records.push({ op: 'put', file, entry });
+        }
+        records.push({
+          op: 'stamp',
+          file,
+          // A manifest restored from its backup has changed on disk
+          stamp:
+            manifest?.recovered === true ? await this.stampOf(path) : stamp,
+        });
+      } catch (error) {
+        records.push({
+          op: 'stamp',
+          file,
+          stamp: {
+            ...stamp,
+            // TEST-007: Skip coverage - defensive check for non-Error exception
+            error: error instanceof Error ? error.message : 'Unreadable',
+          },
+        });
+      }
+    }
+
+    records.forEach((record) => this.apply(record));
+    this.lastRebuildReason = reason;
+
+    const content = records.map(encodeRecord).join('');
+    try {
+      await writeFileAtomic(this.logPath, content);
+      this.offset = Buffer.byteLength(content);
+    } catch {
+      // Not persisted: the next refresh finds no log and rebuilds again
+      this.offset = 0;
+    }
+  }
+
+  private apply(record: HashIndexRecord): void {
+    if (record.op === 'stamp') {
+      this.stamps.set(record.file, record.stamp);
+    } else if (record.op === 'put') {
+      const { file, entry } = record;
+      const key = hashKeyOf(entry);
+      const sameHash = [
+        ...((key !== undefined ? this.keys.get(key) : undefined) ?? []),
+      ].filter((rowKey) => {
+        const row = this.rows.get(rowKey);
+        return row?.file === file && row.entry.hash === entry.hash;
+      });
+      [`${file}/${entry.id}`, ...sameHash].forEach((rowKey) =>
+        this.remove(rowKey)
+      );
+      this.add(`${file}/${entry.id}`, { file, entry });
+    }
+  }
+
+  private add(rowKey: string, row: IndexedEntry): void {
+    this.rows.set(rowKey, row);
+    for (const key of hashKeysOf(row.entry)) {
+      const rowKeys = this.keys.get(key) ?? new Set<string>();
+      rowKeys.add(rowKey);
+      this.keys.set(key, rowKeys);
+    }
+  }
+
+  private remove(rowKey: string): void {
+    const row = this.rows.get(rowKey);
+    if (row === undefined) {
+      return;
+    }
+    this.rows.delete(rowKey);
+    for (const key of hashKeysOf(row.entry)) {
+      this.keys.get(key)?.delete(rowKey);
+    }
+  }
+
+  private reset(): void {
+    this.rows.clear();
+    this.keys.clear();
+    this.stamps.clear();
+    this.offset = 0;
+  }
+
+  /**
+   * Stamps of the `.json` manifests, or null without a manifests directory
+   */
+  private async statManifests(): Promise<Map<string, ManifestStamp> | null> {
+    let files: string[];
+    try {
+      files = await readdir(this.manifestsDir);
+    } catch {
+      return null;
+    }
+
+    const manifests = new Map<string, ManifestStamp>();
+    for (const file of files.filter((name) =>
+      name.endsWith(MANIFEST_EXTENSION)
+    )) {
+      try {
+        manifests.set(file, await this.stampOf(join(this.manifestsDir, file)));
+      } catch {
+        // Removed since the directory was listed
+      }
+    }
+    return manifests;
+  }
+
+  private async stampOf(path: string): Promise<ManifestStamp> {
+    const stats = await stat(path);
+    return { size: stats.size, mtimeMs: stats.mtimeMs };
+  }
+
+  /**
+   * Runs index operations one at a time
+   */
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
+
+function hashKey(algorithm: HashAlgorithm, value: string): string {
+  return `${algorithm}:${value.toLowerCase()}`;
+}
+
+/**
+ * Lookup key of an entry's SHA-256 `hash`
+ * Hand-edited manifests may lack it
+ */
+function hashKeyOf(entry: ManifestEntry): string | undefined {
+  const hash: unknown = entry.hash;
+  return typeof hash === 'string' && hash !== ''
+    ? hashKey('sha256', hash)
+    : undefined;
+}
+
+/**
+ * Lookup keys of an entry: its `hash` and every full and headerless
+ * checksum
+ */
+function hashKeysOf(entry: ManifestEntry): string[] {
+  const keys: string[] = [];
+  const key = hashKeyOf(entry);
+  if (key !== undefined) {
+    keys.push(key);
+  }
+  for (const hashes of [entry.hashes, entry.headerless?.hashes]) {
+    if (hashes !== undefined) {
+      keys.push(
+        ...HASH_ALGORITHMS.map((algorithm) =>
+          hashKey(algorithm, hashes[algorithm])
+        )
+      );
+    }
+  }
+  return [...new Set(keys)];
+}
+
+function encodeRecord(record: HashIndexRecord): string {
+  const json = JSON.stringify(record);
+  return `${formatCrc32(crc32(Buffer.from(json)))}${RECORD_SEPARATOR}${json}${LINE_SEPARATOR}`;
+}
+
+/**
+ * Parses a log line; null when its checksum or JSON is broken
+ */
+function decodeRecord(line: string): HashIndexRecord | null {
+  const separator = line.indexOf(RECORD_SEPARATOR);
+  if (separator < 0) {
+    return null;
+  }
+  const json = line.slice(separator + RECORD_SEPARATOR.length);
+  if (formatCrc32(crc32(Buffer.from(json))) !== line.slice(0, separator)) {
+    return null;
+  }
+  try {
+    return JSON.parse(json) as HashIndexRecord;
+  } catch {
+    return null;
+  }
+}
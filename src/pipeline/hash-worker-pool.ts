@@ -0,0 +1,196 @@
+/**
+ * Hash Worker Pool
+ * Hashes ROM content on worker threads
+ * Following SRP - single responsibility: CPU-parallel checksums
+ *
+ * Current problem: MD5, SHA-1 and SHA-256 of every ROM ran on the main
+ * thread, so validated batch ingestion was bound to one core. Tasks are
+ * spread over up to `size` workers; when a worker cannot start or
+ * crashes, the pool hashes its task and all later ones in-thread.
+ */
+
+import { createReadStream } from 'node:fs';
+import { cpus } from 'node:os';
+import { extname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { Worker } from 'node:worker_threads';
+
+import type {
+  HeaderlessHashes,
+  RomHashes,
+} from '../interfaces/pipeline.interface.js';
+
+import { romHeaderSize } from './header-detector.js';
+import { hashStreamHeaderless } from './rom-hashes.js';
+import { openZipEntryStream, type ZipEntry } from './zip-reader.js';
+
+const WORKER_SCRIPT = 'hash-worker';
+const COMPILED_EXTENSION = '.js';
+
+/**
+ * Content to hash: a file, or one entry of a zip archive
+ */
+export interface HashTask {
+  /** File, or zip archive holding `entry` */
+  path: string;
+  /** Platform id; NES and SNES dumps are also hashed without their header */
+  platform?: string;
+  /** Size of the content, decompressed for zip entries */
+  size: number;
+  entry?: ZipEntry;
+}
+
+/**
+ * Checksums of the full content, and without its header when it has one
+ */
+export interface ContentHashes {
+  hashes: RomHashes;
+  headerless?: HeaderlessHashes;
+}
+
+/**
+ * Reply of a worker to one task
+ */
+export type HashReply = { result: ContentHashes } | { error: string };
+
+/**
+ * Task waiting for, or running on, a worker
+ */
+interface PendingTask {
+  task: HashTask;
+  resolve: (result: ContentHashes) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Hashes a task on the calling thread, as each worker does
+ */
+export async function hashContent(task: HashTask): Promise<ContentHashes> {
+  const stream =
+    task.entry !== undefined
+      ? await openZipEntryStream(task.path, task.entry)
+      : createReadStream(task.path);
+  return hashStreamHeaderless(stream, (start) =>
+    romHeaderSize(task.platform, start, task.size)
+  );
+}
+
+/**
+ * Fixed-size pool of hashing workers, started on demand
+ * Each worker runs one task at a time; `close` must be called once the
+ * pool is no longer needed, or its workers keep the process alive
+ */
+export class HashWorkerPool {
+  readonly size: number;
+  private readonly idle: Worker[] = [];
+  private readonly running = new Map<Worker, PendingTask>();
+  private readonly waiting: PendingTask[] = [];
+  private started = 0;
+  /** Set once a worker failed; tasks then hash on the calling thread */
+  private inThread = false;
+
+  constructor(size = cpus().length) {
+    this.size = Math.max(1, size);
+  }
+
+  /**
+   * Hashes a task on the next free worker
+   */
+  hash(task: HashTask): Promise<ContentHashes> {
+    if (this.inThread) {
+      return hashContent(task);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting.push({ task, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Stops every worker; tasks still running are rejected
+   */
+  async close(): Promise<void> {
+    const workers = [...this.idle, ...this.running.keys()];
+    for (const pending of this.running.values()) {
+      pending.reject(new Error('Hash worker pool closed'));
+    }
+    this.idle.length = 0;
+    this.running.clear();
+    this.started = 0;
+    await Promise.all(workers.map((worker) => worker.terminate()));
+  }
+
+  private dispatch(): void {
+    for (;;) {
+      const pending = this.waiting[0];
+      const worker = pending !== undefined ? this.nextWorker() : undefined;
+      if (pending === undefined || worker === undefined) {
+        return;
+      }
+      this.waiting.shift();
+      this.running.set(worker, pending);
+      worker.postMessage(pending.task);
+    }
+  }
+
+  private nextWorker(): Worker | undefined {
+    const idle = this.idle.pop();
+    if (idle !== undefined || this.started >= this.size) {
+      return idle;
+    }
+
+    this.started++;
+    const worker = startWorker();
+    worker.on('message', (reply: HashReply) => this.settle(worker, reply));
+    worker.on('error', () => this.fallBack(worker));
+    return worker;
+  }
+
+  private settle(worker: Worker, reply: HashReply): void {
+    const pending = this.running.get(worker);
+    this.running.delete(worker);
+    this.idle.push(worker);
+
+    if ('error' in reply) {
+      pending?.reject(new Error(reply.error));
+    } else {
+      pending?.resolve(reply.result);
+    }
+    this.dispatch();
+  }
+
+  private fallBack(worker: Worker): void {
+    this.inThread = true;
+    const failed = this.running.get(worker);
+    this.running.delete(worker);
+    void worker.terminate();
+
+    const tasks = this.waiting.splice(0);
+    if (failed !== undefined) {
+      tasks.unshift(failed);
+    }
+    for (const { task, resolve, reject } of tasks) {
+      void hashContent(task).then(resolve, reject);
+    }
+  }
+}
+
+/**
+ * Starts a worker on the compiled script, or on the TypeScript source
+ * through tsx when running from source (workers do not inherit the
+ * loader of the thread that starts them)
+ */
+function startWorker(): Worker {
+  const extension = extname(fileURLToPath(import.meta.url));
+  const script = new URL(`./${WORKER_SCRIPT}${extension}`, import.meta.url);
+  if (extension === COMPILED_EXTENSION) {
+    return new Worker(script);
+  }
+  return new Worker(
+    `import('tsx/esm/api').then((tsx) => {
+      tsx.register();
+      return import(${JSON.stringify(script.href)});
+    });`,
+    { eval: true }
+  );
+}
@@ -0,0 +1,25 @@
+/**
+ * Hash Worker
+ * Worker thread started by the HashWorkerPool
+ * Following SRP - single responsibility: hashing the tasks it is sent
+ */
+
+import { parentPort } from 'node:worker_threads';
+
+import {
+  hashContent,
+  type HashReply,
+  type HashTask,
+} from './hash-worker-pool.js';
+
+parentPort?.on('message', (task: HashTask) => {
+  void hashContent(task)
+    .then(
+      (result): HashReply => ({ result }),
+      (error: unknown): HashReply => ({
+        // TEST-007: Skip coverage - defensive check for non-Error exception
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    )
+    .then((reply) => parentPort?.postMessage(reply));
+});
@@ -0,0 +1,330 @@
+/**
+ * ROM Header Detector
+ * Identifies platforms from magic bytes and internal headers
+ * Following SRP - single responsibility: content sniffing
+ *
+ * Current problem: extension lookup cannot tell a Genesis .bin from a
+ * PlayStation track, and trusts mis-named files blindly.
+ */
+
+import { open } from 'node:fs/promises';
+
+import type { N64ByteOrder } from '../interfaces/pipeline.interface.js';
+
+export type { N64ByteOrder };
+
+/**
+ * Bytes read from the start of a file for probing.
+ * Large enough for the SNES HiROM header behind a 512-byte copier header
+ * and the ISO 9660 volume descriptor of a raw CD image.
+ */
+export const HEADER_PROBE_SIZE = 0x10200;
+
+/**
+ * Result of a successful header probe
+ */
+export interface HeaderDetection {
+  /** Platform id as used in PlatformDefinition.id */
+  platform: string;
+  /** Confidence in the match, 0..1 */
+  confidence: number;
+  /** Human-readable name of the signature that matched */
+  signature: string;
+}
+
+const FULL_CONFIDENCE = 1;
+const HIGH_CONFIDENCE = 0.95;
+const SNES_CONFIDENCE = 0.9;
+const CD_SYNC_CONFIDENCE = 0.5;
+
+// iNES / NES 2.0
+const INES_MAGIC = Buffer.from('4e45531a', 'hex');
+const INES_HEADER_SIZE = 16;
+const INES_FLAGS7_OFFSET = 7;
+const NES2_FLAG_MASK = 0x0c;
+const NES2_FLAG_VALUE = 0x08;
+
+// SNES internal header
+const SNES_COPIER_HEADER_SIZE = 512;
+const SNES_COPIER_BLOCK = 1024;
+const SNES_LOROM_HEADER = 0x7fc0;
+const SNES_HIROM_HEADER = 0xffc0;
+const SNES_TITLE_LENGTH = 21;
+const SNES_MAP_MODE_OFFSET = 0x15;
+const SNES_MAP_MODE_MASK = 0xe0;
+const SNES_MAP_MODE_BASE = 0x20;
+const SNES_COMPLEMENT_OFFSET = 0x1c;
+const SNES_CHECKSUM_OFFSET = 0x1e;
+const SNES_HEADER_LENGTH = 0x20;
+const UINT16_MAX = 0xffff;
+const PRINTABLE_MIN = 0x20;
+const PRINTABLE_MAX = 0x7e;
+
+// Mega Drive / Genesis
+const SEGA_MAGIC = 'SEGA';
+const SEGA_OFFSET = 0x100;
+
+// N64 first word in each byte order
+const N64_SIGNATURE_LENGTH = 4;
+const N64_SIGNATURES: Record<N64ByteOrder, number> = {
+  z64: 0x80371240,
+  v64: 0x37804012,
+  n64: 0x40123780,
+};
+const N64_LABELS: Record<N64ByteOrder, string> = {
+  z64: 'N64 big-endian (.z64)',
+  v64: 'N64 byte-swapped (.v64)',
+  n64: 'N64 little-endian (.n64)',
+};
+
+// Game Boy Advance
+const GBA_LOGO_OFFSET = 0x04;
+const GBA_LOGO_PREFIX = Buffer.from('24ffae51699aa2213d84820a84e409ad', 'hex');
+const GBA_FIXED_OFFSET = 0xb2;
+const GBA_FIXED_VALUE = 0x96;
+
+// Raw CD (2352-byte sectors)
+const CD_SYNC_PATTERN = Buffer.from('00ffffffffffffffffffff00', 'hex');
+const CD_RAW_SECTOR_SIZE = 2352;
+const CD_PVD_SECTOR = 16;
+const CD_MODE_OFFSET = 15;
+const CD_MODE1_DATA_OFFSET = 16;
+const CD_MODE2_DATA_OFFSET = 24;
+const CD_MODE2 = 2;
+const ISO_IDENTIFIER = 'CD001';
+const ISO_SYSTEM_ID_OFFSET = 8;
+const ISO_SYSTEM_ID_LENGTH = 32;
+const PSX_SYSTEM_ID = 'PLAYSTATION';
+
+/**
+ * Reads the probe window from the start of a file
+ */
+export async function readHeader(
+  filePath: string,
+  length: number = HEADER_PROBE_SIZE
+): Promise<Buffer> {
+  const handle = await open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Detects the platform of a file by reading its header
+ * Returns null when no known signature matches
+ */
+export async function detectPlatformFromHeader(
+  filePath: string,
+  fileSize: number
+): Promise<HeaderDetection | null> {
+  const header = await readHeader(filePath);
+  return detectPlatformFromBuffer(header, fileSize);
+}
+
+/**
+ * Detects the platform from an in-memory header buffer
+ * Probes run from most to least specific signature
+ */
+export function detectPlatformFromBuffer(
+  header: Buffer,
+  fileSize: number
+): HeaderDetection | null {
+  return (
+    detectNES(header) ??
+    detectN64(header) ??
+    detectGBA(header) ??
+    detectMegaDrive(header) ??
+    detectPlayStation(header) ??
+    detectSNES(header, fileSize)
+  );
+}
+
+/**
+ * Returns the N64 byte order from the first word, or null if not an N64 image
+ */
+export function detectN64ByteOrder(header: Buffer): N64ByteOrder | null {
+  if (header.length < N64_SIGNATURE_LENGTH) {
+    return null;
+  }
+
+  const word = header.readUInt32BE(0);
+  const match = (Object.keys(N64_SIGNATURES) as N64ByteOrder[]).find(
+    (order) => N64_SIGNATURES[order] === word
+  );
+  return match ?? null;
+}
+
+/**
+ * Returns the size of the header that precedes the ROM data, 0 if none
+ * NES dumps carry a 16-byte iNES header, SNES dumps may carry a 512-byte
+ * copier header; neither is part of the DAT checksums
+ */
+export function romHeaderSize(
+  platform: string | undefined,
+  start: Buffer,
+  fileSize: number
+): number {
+  if (platform === 'nes') {
+    return startsWith(start, INES_MAGIC, 0) ? INES_HEADER_SIZE : 0;
+  }
+  if (platform === 'snes') {
+    return snesCopierHeaderSize(fileSize);
+  }
+  return 0;
+}
+
+/**
+ * Returns the size of a leading SNES copier (SMC) header, 0 if none
+ */
+export function snesCopierHeaderSize(fileSize: number): number {
+  return fileSize % SNES_COPIER_BLOCK === SNES_COPIER_HEADER_SIZE
+    ? SNES_COPIER_HEADER_SIZE
+    : 0;
+}
+
+function detectNES(header: Buffer): HeaderDetection | null {
+  if (!startsWith(header, INES_MAGIC, 0)) {
+    return null;
+  }
+
+  const flags7 = header[INES_FLAGS7_OFFSET] ?? 0;
+  const isNes2 = (flags7 & NES2_FLAG_MASK) === NES2_FLAG_VALUE;
+
+  return {
+    platform: 'nes',
+    confidence: FULL_CONFIDENCE,
+    signature: isNes2 ? 'NES 2.0' : 'iNES',
+  };
+}
+
+function detectN64(header: Buffer): HeaderDetection | null {
+  const order = detectN64ByteOrder(header);
+  if (order === null) {
+    return null;
+  }
+
+  return {
+    platform: 'n64',
+    confidence: FULL_CONFIDENCE,
+    signature: N64_LABELS[order],
+  };
+}
+
+function detectGBA(header: Buffer): HeaderDetection | null {
+  if (
+    !startsWith(header, GBA_LOGO_PREFIX, GBA_LOGO_OFFSET) ||
+    header[GBA_FIXED_OFFSET] !== GBA_FIXED_VALUE
+  ) {
+    return null;
+  }
+
+  return {
+    platform: 'gba',
+    confidence: HIGH_CONFIDENCE,
+    signature: 'GBA Nintendo logo',
+  };
+}
+
+function detectMegaDrive(header: Buffer): HeaderDetection | null {
+  if (
+    header.length < SEGA_OFFSET + SEGA_MAGIC.length ||
+    header.toString('ascii', SEGA_OFFSET, SEGA_OFFSET + SEGA_MAGIC.length) !==
+      SEGA_MAGIC
+  ) {
+    return null;
+  }
+
+  return {
+    platform: 'genesis',
+    confidence: HIGH_CONFIDENCE,
+    signature: 'SEGA header at 0x100',
+  };
+}
+
+function detectPlayStation(header: Buffer): HeaderDetection | null {
+  if (!startsWith(header, CD_SYNC_PATTERN, 0)) {
+    return null;
+  }
+
+  // Locate the primary volume descriptor in sector 16
+  const sectorStart = CD_PVD_SECTOR * CD_RAW_SECTOR_SIZE;
+  const mode = header[sectorStart + CD_MODE_OFFSET];
+  const dataStart =
+    sectorStart +
+    (mode === CD_MODE2 ? CD_MODE2_DATA_OFFSET : CD_MODE1_DATA_OFFSET);
+  const isoId = header.toString(
+    'ascii',
+    dataStart + 1,
+    dataStart + 1 + ISO_IDENTIFIER.length
+  );
+  const systemId = header.toString(
+    'ascii',
+    dataStart + ISO_SYSTEM_ID_OFFSET,
+    dataStart + ISO_SYSTEM_ID_OFFSET + ISO_SYSTEM_ID_LENGTH
+  );
+
+  if (isoId === ISO_IDENTIFIER && systemId.startsWith(PSX_SYSTEM_ID)) {
+    return {
+      platform: 'psx',
+      confidence: HIGH_CONFIDENCE,
+      signature: 'CD sync + PLAYSTATION volume',
+    };
+  }
+
+  return {
+    platform: 'psx',
+    confidence: CD_SYNC_CONFIDENCE,
+    signature: 'CD sync pattern',
+  };
+}
+
+function detectSNES(header: Buffer, fileSize: number): HeaderDetection | null {
+  const skip = snesCopierHeaderSize(fileSize);
+  const candidates: Array<[number, string]> = [
+    [SNES_LOROM_HEADER, 'SNES LoROM header'],
+    [SNES_HIROM_HEADER, 'SNES HiROM header'],
+  ];
+
+  for (const [offset, label] of candidates) {
+    if (isValidSNESHeader(header, skip + offset)) {
+      return {
+        platform: 'snes',
+        confidence: SNES_CONFIDENCE,
+        signature: skip > 0 ? `${label} (copier header)` : label,
+      };
+    }
+  }
+
+  return null;
+}
+
+function isValidSNESHeader(header: Buffer, base: number): boolean {
+  if (header.length < base + SNES_HEADER_LENGTH) {
+    return false;
+  }
+
+  const mapMode = header[base + SNES_MAP_MODE_OFFSET] ?? 0;
+  if ((mapMode & SNES_MAP_MODE_MASK) !== SNES_MAP_MODE_BASE) {
+    return false;
+  }
+
+  const complement = header.readUInt16LE(base + SNES_COMPLEMENT_OFFSET);
+  const checksum = header.readUInt16LE(base + SNES_CHECKSUM_OFFSET);
+  if ((complement ^ checksum) !== UINT16_MAX) {
+    return false;
+  }
+
+  const title = header.subarray(base, base + SNES_TITLE_LENGTH);
+  return title.every((byte) => byte >= PRINTABLE_MIN && byte <= PRINTABLE_MAX);
+}
+
+function startsWith(header: Buffer, magic: Buffer, offset: number): boolean {
+  return (
+    header.length >= offset + magic.length &&
+    header.subarray(offset, offset + magic.length).equals(magic)
+  );
+}
@@ -4,9 +4,32 @@
  * Following SRP - each file has one clear purpose
  */
 
+export * from './header-detector.js';
+export * from './platform-resolver.js';
+export * from './crc32.js';
+export * from './rom-hashes.js';
+export * from './zip-reader.js';
+export * from './zip-contents.js';
+export * from './cue-sheet.js';
+export * from './atomic-file.js';
+export * from './file-unit.js';
+export * from './disc-set.js';
+export * from './playlist-file.js';
+export * from './dat-file.js';
+export * from './dat-index.js';
+export * from './manifest-file.js';
+export * from './hash-index.js';
+export * from './hash-worker-pool.js';
+export * from './file-linker.js';
+export * from './filename-tags.js';
+export * from './naming.js';
+export * from './n64-byte-order.js';
+export * from './rom-patch.js';
+export * from './patcher.js';
 export * from './classifier.js';
 export * from './validator.js';
 export * from './normalizer.js';
 export * from './archiver.js';
 export * from './promoter.js';
 export * from './pipeline-orchestrator.js';
+export * from './one-game-one-rom.js';
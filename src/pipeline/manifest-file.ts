@@ -0,0 +1,466 @@
+/**
+ * Manifest File
+ * Versioned schema of the per-platform manifests in `archive.manifests`
+ * Following SRP - single responsibility: manifest parsing and migration
+ *
+ * Current problem: the Archiver wrote a bare array of entries per
+ * platform id and the BatchProcessor a `{version, platform, files}` object
+ * per platform name, so a library built by `npm run ingest` was invisible
+ * to the duplicate checker. Both legacy shapes are read as version 2
+ * documents, and `migrateManifests` rewrites them in place.
+ */
+
+import { createHash } from 'node:crypto';
+import { readdir, rm } from 'node:fs/promises';
+import { basename, extname, join } from 'node:path';
+
+import { z } from 'zod';
+
+import type {
+  DatMatch,
+  DiscSetMembership,
+  HeaderlessHashes,
+  LinkStrategy,
+  ManifestDocument,
+  ManifestEntry,
+  RomHashes,
+  SourceFingerprint,
+} from '../interfaces/pipeline.interface.js';
+import type { PlatformDefinition } from '../interfaces/platform-config.interface.js';
+
+import { backupPathOf, readJsonFile, updateJsonFile } from './atomic-file.js';
+import { hashFile } from './rom-hashes.js';
+
+/** Version written by the Archiver and BatchProcessor */
+export const MANIFEST_SCHEMA_VERSION = 2;
+
+const MANIFEST_EXTENSION = '.json';
+/** Hex digits of the SHA-256 in a batch-ingested entry's id */
+const BATCH_ID_HASH_LENGTH = 16;
+
+/** Shape of `RomHashes` */
+export const romHashesSchema = z.object({
+  crc32: z.string(),
+  md5: z.string(),
+  sha1: z.string(),
+  sha256: z.string(),
+});
+
+const discSetSchema = z.object({
+  title: z.string(),
+  disc: z.number().int().positive(),
+  file: z.string(),
+  playlist: z.string(),
+});
+
+/**
+ * One archived ROM; unknown fields are kept for newer writers
+ */
+export const manifestEntrySchema = z.looseObject({
+  id: z.string().min(1),
+  filename: z.string().min(1),
+  platform: z.string(),
+  originalName: z.string().optional(),
+  hash: z.string(),
+  hashes: romHashesSchema.optional(),
+  headerless: z
+    .object({
+      headerSize: z.number().int().positive(),
+      hashes: romHashesSchema,
+    })
+    .optional(),
+  size: z.number().int().nonnegative(),
+  extension: z.string(),
+  containerPath: z.string().optional(),
+  entryName: z.string().optional(),
+  companionFiles: z.array(z.string()).optional(),
+  discSet: discSetSchema.optional(),
+  dat: z
+    .looseObject({ status: z.enum(['verified', 'bad-dump', 'unknown']) })
+    .optional(),
+  patchedFrom: z
+    .looseObject({
+      id: z.string(),
+      filename: z.string(),
+      patch: z.string(),
+      format: z.enum(['ips', 'bps', 'ups']),
+    })
+    .optional(),
+  originalFormat: z.looseObject({ extension: z.string() }).optional(),
+  ingestedFrom: z
+    .object({
+      path: z.string(),
+      size: z.number().int().nonnegative(),
+      mtimeMs: z.number(),
+      // 64-bit inode numbers are not always safe integers
+      inode: z.number().nonnegative(),
+    })
+    .optional(),
+  linkStrategy: z.enum(['hardlink', 'reflink', 'symlink', 'copy']).optional(),
+  archivedAt: z.string(),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+});
+
+/**
+ * Version 2 manifest document
+ */
+export const manifestDocumentSchema = z.object({
+  schemaVersion: z.literal(MANIFEST_SCHEMA_VERSION),
+  platform: z.string().min(1),
+  entries: z.array(manifestEntrySchema),
+});
+
+/** Version 1 Archiver manifest: a bare array of entries */
+const legacyPipelineManifestSchema = z.array(z.looseObject({ id: z.string() }));
+
+/** Version 1 BatchProcessor manifest, named after the platform's name */
+const legacyBatchManifestSchema = z.object({
+  platform: z.string(),
+  files: z.array(
+    z.looseObject({
+      filename: z.string(),
+      size: z.number(),
+      // Only written once files were hashed during ingestion
+      hashes: romHashesSchema.optional(),
+      source: z.string().optional(),
+      destination: z.string().optional(),
+      entryName: z.string().optional(),
+      discSet: discSetSchema.omit({ file: true }).optional(),
+      processedAt: z.string().optional(),
+    })
+  ),
+});
+
+/**
+ * Layout a manifest was stored in
+ */
+export type ManifestFormat = 'current' | 'legacy-pipeline' | 'legacy-batch';
+
+/**
+ * File ingested by the BatchProcessor, as recorded in its manifest
+ */
+export interface BatchManifestFile {
+  filename: string;
+  size: number;
+  /** Not known for files linked without hashing */
+  hashes?: RomHashes;
+  source?: string;
+  destination?: string;
+  containerPath?: string;
+  entryName?: string;
+  headerless?: HeaderlessHashes;
+  companionFiles?: string[];
+  discSet?: Omit<DiscSetMembership, 'file'>;
+  dat?: DatMatch;
+  ingestedFrom?: SourceFingerprint;
+  linkStrategy?: LinkStrategy;
+  processedAt?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Result of `migrateManifests`
+ */
+export interface ManifestMigrationReport {
+  /** Rewritten manifests, "old.json -> new.json" when renamed */
+  migrated: string[];
+  /** Manifests already in the current format */
+  current: string[];
+  /** "file: reason" for manifests that could not be migrated */
+  errors: string[];
+}
+
+/**
+ * Parsed manifest JSON in any supported layout, as a version 2 document
+ * Throws for other JSON documents and invalid version 2 manifests
+ */
+export function parseManifestDocument(value: unknown): ManifestDocument {
+  return decodeManifest(value).document;
+}
+
+/**
+ * Entries of parsed manifest JSON in any supported layout
+ */
+export function parseManifest(value: unknown): ManifestEntry[] {
+  return parseManifestDocument(value).entries;
+}
+
+/**
+ * Entries of a manifest, empty when it does not exist
+ * A corrupt manifest is restored from its backup; without one the parse
+ * error is thrown
+ */
+export async function readManifest(path: string): Promise<ManifestEntry[]> {
+  return (await readJsonFile(path, parseManifest))?.data ?? [];
+}
+
+/**
+ * Replaces entries sharing an id or hash with their update, appends others
+ * An empty `hash` is unknown content and matches nothing
+ */
+export function mergeManifestEntries(
+  current: ManifestEntry[],
+  updates: ManifestEntry[]
+): ManifestEntry[] {
+  const merged = [...current];
+  for (const update of updates) {
+    const existingIndex = merged.findIndex(
+      (e) =>
+        e.id === update.id || (update.hash !== '' && e.hash === update.hash)
+    );
+    if (existingIndex >= 0) {
+      merged[existingIndex] = update;
+    } else {
+      merged.push(update);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Manifest entry of a batch-ingested file
+ * The id derives from the content, so re-ingesting replaces the entry;
+ * a file that was not hashed is keyed by its library path instead, and
+ * its `hash` is left empty
+ */
+export function batchManifestEntry(
+  platform: string,
+  file: BatchManifestFile
+): ManifestEntry {
+  return {
+    id:
+      file.hashes !== undefined ? contentIdOf(file.hashes) : locationIdOf(file),
+    filename: file.filename,
+    platform,
+    hash: file.hashes?.sha256 ?? '',
+    ...(file.hashes !== undefined && { hashes: file.hashes }),
+    ...(file.headerless !== undefined && { headerless: file.headerless }),
+    size: file.size,
+    extension: extname(file.filename).toLowerCase(),
+    ...(file.containerPath !== undefined && {
+      containerPath: file.containerPath,
+    }),
+    ...(file.entryName !== undefined && { entryName: file.entryName }),
+    ...(file.companionFiles !== undefined && {
+      companionFiles: file.companionFiles,
+    }),
+    ...(file.discSet !== undefined && {
+      discSet: { ...file.discSet, file: file.filename },
+    }),
+    ...(file.dat !== undefined && { dat: file.dat }),
+    ...(file.ingestedFrom !== undefined && {
+      ingestedFrom: file.ingestedFrom,
+    }),
+    ...(file.linkStrategy !== undefined && {
+      linkStrategy: file.linkStrategy,
+    }),
+    archivedAt: file.processedAt ?? new Date().toISOString(),
+    metadata: {
+      ...file.metadata,
+      ...(file.source !== undefined && { source: file.source }),
+      ...(file.destination !== undefined && {
+        destination: file.destination,
+      }),
+    },
+  };
+}
+
+/**
+ * Rewrites every legacy manifest in `manifestsDir` as a version 2
+ * document named after its platform id
+ * Batch manifests named after a platform's name are merged into the
+ * platform id's manifest; `platforms` maps names to ids
+ */
+export async function migrateManifests(
+  manifestsDir: string,
+  platforms: ReadonlyArray<Pick<PlatformDefinition, 'id' | 'name'>> = []
+): Promise<ManifestMigrationReport> {
+  const report: ManifestMigrationReport = {
+    migrated: [],
+    current: [],
+    errors: [],
+  };
+  const files = (await readdir(manifestsDir))
+    .filter((file) => extname(file) === MANIFEST_EXTENSION)
+    .sort();
+
+  for (const file of files) {
+    const path = join(manifestsDir, file);
+    try {
+      const manifest = await readJsonFile(path, decodeManifest);
+      if (manifest === undefined) {
+        continue;
+      }
+      const { format, document } = manifest.data;
+      const platform = platformIdOf(
+        document.platform !== ''
+          ? document.platform
+          : basename(file, MANIFEST_EXTENSION),
+        platforms
+      );
+      const target = `${platform}${MANIFEST_EXTENSION}`;
+
+      if (format === 'current' && target === file) {
+        report.current.push(file);
+        continue;
+      }
+
+      const entries =
+        format === 'legacy-batch'
+          ? await Promise.all(
+              document.entries.map(async (entry) => ({
+                ...(await withContentHashes(entry)),
+                platform,
+              }))
+            )
+          : document.entries;
+      await updateJsonFile(
+        join(manifestsDir, target),
+        parseManifestDocument,
+        (current) => ({
+          schemaVersion: MANIFEST_SCHEMA_VERSION,
+          platform,
+          entries: mergeManifestEntries(
+            target === file ? [] : (current?.entries ?? []),
+            entries
+          ),
+        })
+      );
+
+      if (target !== file) {
+        await rm(path, { force: true });
+        await rm(backupPathOf(path), { force: true });
+      }
+      report.migrated.push(target === file ? file : `${file} -> ${target}`);
+    } catch (error) {
+      report.errors.push(
+        // TEST-007: Skip coverage - defensive check for non-Error exception
+        `${file}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  return report;
+}
+
+function decodeManifest(value: unknown): {
+  format: ManifestFormat;
+  document: ManifestDocument;
+} {
+  if (Array.isArray(value)) {
+    const result = legacyPipelineManifestSchema.safeParse(value);
+    if (!result.success) {
+      throw new Error(`invalid manifest: ${describeIssue(result.error)}`);
+    }
+    const entries = value as ManifestEntry[];
+    return {
+      format: 'legacy-pipeline',
+      document: {
+        schemaVersion: MANIFEST_SCHEMA_VERSION,
+        platform:
+          entries.find((e) => typeof e.platform === 'string')?.platform ?? '',
+        entries,
+      },
+    };
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    if ('schemaVersion' in value) {
+      const result = manifestDocumentSchema.safeParse(value);
+      if (!result.success) {
+        throw new Error(`invalid manifest: ${describeIssue(result.error)}`);
+      }
+      return {
+        format: 'current',
+        document: result.data as ManifestDocument,
+      };
+    }
+
+    const batch = legacyBatchManifestSchema.safeParse(value);
+    if (batch.success) {
+      const { platform, files } = batch.data;
+      return {
+        format: 'legacy-batch',
+        document: {
+          schemaVersion: MANIFEST_SCHEMA_VERSION,
+          platform,
+          entries: files.map((file) =>
+            batchManifestEntry(platform, file as BatchManifestFile)
+          ),
+        },
+      };
+    }
+  }
+
+  throw new Error('not a pipeline manifest');
+}
+
+/**
+ * Id of a batch entry, from its content
+ */
+function contentIdOf(hashes: RomHashes): string {
+  return `batch-${hashes.sha256.slice(0, BATCH_ID_HASH_LENGTH)}`;
+}
+
+/**
+ * Id of a batch entry without checksums, from where it was placed
+ */
+function locationIdOf(file: BatchManifestFile): string {
+  const location = file.destination ?? file.source ?? file.filename;
+  const key =
+    file.entryName !== undefined ? `${location}#${file.entryName}` : location;
+  return `batch-path-${createHash('sha256')
+    .update(key)
+    .digest('hex')
+    .slice(0, BATCH_ID_HASH_LENGTH)}`;
+}
+
+/**
+ * A legacy batch entry written before files were hashed, with the
+ * checksums of the file at its destination, or else its source, so the
+ * duplicate checker can see it; unchanged when neither can be read
+ */
+async function withContentHashes(entry: ManifestEntry): Promise<ManifestEntry> {
+  if (entry.hashes !== undefined || entry.entryName !== undefined) {
+    return entry;
+  }
+
+  for (const path of [
+    entry.metadata?.['destination'],
+    entry.metadata?.['source'],
+  ]) {
+    if (typeof path !== 'string') {
+      continue;
+    }
+    try {
+      const hashes = await hashFile(path);
+      return { ...entry, id: contentIdOf(hashes), hash: hashes.sha256, hashes };
+    } catch {
+      // Moved or deleted since it was ingested; try the next location
+    }
+  }
+  return entry;
+}
+
+function describeIssue(error: z.ZodError): string {
+  const issue = error.issues[0];
+  // TEST-007: Skip coverage - a failed parse always has an issue
+  if (issue === undefined) {
+    return 'unknown error';
+  }
+  return issue.path.length > 0
+    ? `${issue.path.join('.')}: ${issue.message}`
+    : issue.message;
+}
+
+function platformIdOf(
+  platform: string,
+  platforms: ReadonlyArray<Pick<PlatformDefinition, 'id' | 'name'>>
+): string {
+  return (
+    platforms.find(
+      (p) =>
+        p.id === platform || p.name.toLowerCase() === platform.toLowerCase()
+    )?.id ?? platform
+  );
+}
@@ -0,0 +1,32 @@
+/**
+ * N64 Byte Order
+ * Converts byte-swapped (.v64) and little-endian (.n64) images to the
+ * canonical big-endian (.z64) layout
+ * Following SRP - single responsibility: N64 image byte order
+ *
+ * Current problem: the three byte orders hold the same game, but hash as
+ * three different ROMs, so duplicates and DAT matches are missed.
+ */
+
+import type { N64ByteOrder } from '../interfaces/pipeline.interface.js';
+
+/** Extension of the canonical, big-endian N64 image */
+export const N64_CANONICAL_EXTENSION = '.z64';
+
+const WORD_BYTES = 4;
+
+/**
+ * Returns the image in big-endian order, swapping `image` in place
+ * .v64 swaps each 16-bit half word, .n64 reverses each 32-bit word
+ */
+export function toBigEndian(image: Buffer, order: N64ByteOrder): Buffer {
+  if (order === 'z64') {
+    return image;
+  }
+  if (image.length % WORD_BYTES !== 0) {
+    throw new Error(
+      `N64 image size must be a multiple of ${WORD_BYTES} bytes (${image.length})`
+    );
+  }
+  return order === 'v64' ? image.swap16() : image.swap32();
+}
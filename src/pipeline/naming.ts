@@ -0,0 +1,127 @@
+/**
+ * Naming Templates
+ * Renders canonical filenames from DAT matches or filename tags
+ * Following SRP - single responsibility: filename rendering
+ *
+ * Current problem: the same game arrives as "mario.nes", "Mario (U).nes"
+ * and "Super Mario Bros. (World).nes", so sync directories differ per device.
+ */
+
+import { extname } from 'node:path';
+
+import type { ROMFile } from '../interfaces/pipeline.interface.js';
+
+import { parseDiscTag } from './disc-set.js';
+import { filenameTagsOf, parseFilenameTags } from './filename-tags.js';
+
+/**
+ * No-Intro style default: "Super Mario Bros. (World) (Rev 1) (Disc 1)"
+ */
+export const DEFAULT_NAMING_TEMPLATE =
+  '{title} ({region}) ({revision}) ({disc})';
+
+/**
+ * Values available to a template; empty strings drop their group
+ */
+export interface NamingFields {
+  title: string;
+  /** e.g. "USA, Europe" */
+  region: string;
+  /** e.g. "Rev 1" */
+  revision: string;
+  /** e.g. "Disc 2" */
+  disc: string;
+}
+
+const NAMING_TOKENS: ReadonlyArray<keyof NamingFields> = [
+  'title',
+  'region',
+  'revision',
+  'disc',
+];
+
+const TOKEN_PATTERN = /\{(\w+)\}/g;
+/** A token alone in brackets, e.g. "({region})" or "[{revision}]" */
+const GROUP_PATTERN = /\(\{(\w+)\}\)|\[\{(\w+)\}\]/g;
+
+/** Characters illegal on Windows (FAT/NTFS) and Android shared storage */
+const ILLEGAL_CHARACTERS = /[<>"/\\|?*\p{Cc}]/gu;
+const RESERVED_NAMES = /^(?:CON|PRN|AUX|NUL|COM[1-9]|LPT[1-9])(?:\.|$)/i;
+
+/**
+ * Tokens in a template that are not naming fields
+ */
+export function unknownNamingTokens(template: string): string[] {
+  return Array.from(template.matchAll(TOKEN_PATTERN))
+    .map((match) => match[1] ?? '')
+    .filter((token) => !NAMING_TOKENS.includes(token as keyof NamingFields));
+}
+
+/**
+ * Naming fields for a ROM: the DAT match wins, filename tags fill the rest
+ * Disc numbers always come from the filename so disc sets stay grouped
+ */
+export function namingFields(rom: ROMFile): NamingFields {
+  const tags =
+    rom.dat?.game !== undefined
+      ? parseFilenameTags(rom.dat.game)
+      : filenameTagsOf(rom);
+  const discTag = parseDiscTag(rom.filename);
+
+  return {
+    title: tags.title,
+    region: rom.dat?.region ?? tags.regions.join(', '),
+    revision: formatRevision(rom.dat?.revision ?? tags.revision),
+    disc: discTag !== null ? `Disc ${discTag.disc}` : '',
+  };
+}
+
+/**
+ * Renders a template, dropping bracketed groups whose token is empty
+ */
+export function renderNamingTemplate(
+  template: string,
+  fields: NamingFields
+): string {
+  const value = (token: string): string =>
+    fields[token as keyof NamingFields] ?? '';
+
+  return template
+    .replace(
+      GROUP_PATTERN,
+      (_group: string, paren?: string, square?: string) => {
+        const token = paren ?? square ?? '';
+        const text = value(token);
+        if (text === '') {
+          return '';
+        }
+        return paren !== undefined ? `(${text})` : `[${text}]`;
+      }
+    )
+    .replace(TOKEN_PATTERN, (_match: string, token: string) => value(token))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Makes a filename safe on Windows and Android filesystems
+ * "Title: Subtitle" becomes "Title - Subtitle"; reserved device names and
+ * trailing dots or spaces are avoided
+ */
+export function sanitizeFilename(filename: string): string {
+  const extension = extname(filename);
+  const stem = filename
+    .slice(0, filename.length - extension.length)
+    .replace(/\s*:\s*/g, ' - ')
+    .replace(ILLEGAL_CHARACTERS, '_')
+    .replace(/\s+/g, ' ')
+    .replace(/[. ]+$/, '')
+    .trim();
+  const safeStem = RESERVED_NAMES.test(stem) ? `${stem}_` : stem;
+
+  return `${safeStem !== '' ? safeStem : '_'}${extension.replace(ILLEGAL_CHARACTERS, '_')}`;
+}
+
+function formatRevision(revision: string | undefined): string {
+  return revision !== undefined && revision !== '' ? `Rev ${revision}` : '';
+}
@@ -4,6 +4,11 @@
  * Following SRP - single responsibility: normalization
  */
 
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { basename, extname, join } from 'node:path';
+import { Readable } from 'node:stream';
+
 import type {
   INormalizer,
   PhaseResult,
@@ -11,6 +16,20 @@ import type {
 } from '../interfaces/pipeline.interface.js';
 import type { PlatformConfig } from '../interfaces/platform-config.interface.js';
 
+import { CUE_EXTENSION } from './cue-sheet.js';
+import { discSetMembership } from './disc-set.js';
+import { parseFilenameTags } from './filename-tags.js';
+import { detectN64ByteOrder } from './header-detector.js';
+import { N64_CANONICAL_EXTENSION, toBigEndian } from './n64-byte-order.js';
+import {
+  namingFields,
+  renderNamingTemplate,
+  sanitizeFilename,
+  unknownNamingTokens,
+} from './naming.js';
+import { hashStream } from './rom-hashes.js';
+import { isIntactArchive } from './zip-contents.js';
+
 export class Normalizer implements INormalizer {
   private readonly config: PlatformConfig;
 
@@ -18,8 +37,161 @@ export class Normalizer implements INormalizer {
     this.config = config;
   }
 
+  /**
+   * Converts N64 images to big-endian .z64 in workspace.staging/canonical
+   * The hashes are recomputed from the canonical bytes, so a .v64 and a
+   * .z64 of the same game share a SHA-256; intact zips are left as they are
+   */
+  async normalizeByteOrder(rom: ROMFile): Promise<PhaseResult<ROMFile>> {
+    // Defensive: Validate input
+    if (rom === undefined || rom === null) {
+      return {
+        success: false,
+        error: 'Invalid input: ROM object is null or undefined',
+      };
+    }
+
+    if (rom.platform !== 'n64' || isIntactArchive(rom)) {
+      return {
+        success: true,
+        data: rom,
+        metadata: { converted: false },
+      };
+    }
+
+    try {
+      const image = await readFile(rom.path);
+      const byteOrder = detectN64ByteOrder(image);
+      const extension = rom.extension.toLowerCase();
+      if (
+        byteOrder === null ||
+        (byteOrder === 'z64' && extension === N64_CANONICAL_EXTENSION)
+      ) {
+        return {
+          success: true,
+          data: rom,
+          metadata: {
+            converted: false,
+            ...(byteOrder === null && { reason: 'No N64 signature' }),
+          },
+        };
+      }
+
+      const canonical = toBigEndian(image, byteOrder);
+      const hashes = await hashStream(Readable.from([canonical]));
+      const filename = `${basename(rom.filename, extname(rom.filename))}${N64_CANONICAL_EXTENSION}`;
+      const stagingDir = join(
+        this.config.directories.workspace.staging,
+        'canonical'
+      );
+      const path = join(stagingDir, filename);
+
+      await mkdir(stagingDir, { recursive: true });
+      await writeFile(path, canonical);
+
+      return {
+        success: true,
+        data: {
+          ...rom,
+          filename,
+          path,
+          extension: N64_CANONICAL_EXTENSION,
+          originalName: rom.originalName ?? rom.filename,
+          hash: hashes.sha256,
+          hashes,
+          originalFormat: { extension, byteOrder },
+        },
+        metadata: {
+          converted: true,
+          byteOrder,
+          stagedPath: path,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        // TEST-007: Skip coverage - defensive check for non-Error exception
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Byte order conversion failed',
+      };
+    }
+  }
+
+  /**
+   * Strips the 512-byte copier header of SNES dumps into
+   * workspace.staging/headerless when `copierHeaders.strip` is set
+   * The Validator's headerless hashes become the ROM's hashes
+   */
+  async stripCopierHeader(rom: ROMFile): Promise<PhaseResult<ROMFile>> {
+    // Defensive: Validate input
+    if (rom === undefined || rom === null) {
+      return {
+        success: false,
+        error: 'Invalid input: ROM object is null or undefined',
+      };
+    }
+
+    const { headerless, ...headered } = rom;
+    if (
+      this.config.copierHeaders?.strip !== true ||
+      rom.platform !== 'snes' ||
+      headerless === undefined ||
+      isIntactArchive(rom)
+    ) {
+      return {
+        success: true,
+        data: rom,
+        metadata: { stripped: false },
+      };
+    }
+
+    try {
+      const stagingDir = join(
+        this.config.directories.workspace.staging,
+        'headerless'
+      );
+      const path = join(stagingDir, rom.filename);
+      const image = await readFile(rom.path);
+
+      await mkdir(stagingDir, { recursive: true });
+      await writeFile(path, image.subarray(headerless.headerSize));
+
+      return {
+        success: true,
+        data: {
+          ...headered,
+          path,
+          size: rom.size - headerless.headerSize,
+          hash: headerless.hashes.sha256,
+          hashes: headerless.hashes,
+          originalFormat: {
+            ...rom.originalFormat,
+            extension: rom.originalFormat?.extension ?? rom.extension,
+            headerSize: headerless.headerSize,
+          },
+        },
+        metadata: {
+          stripped: true,
+          headerSize: headerless.headerSize,
+          stagedPath: path,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        // TEST-007: Skip coverage - defensive check for non-Error exception
+        error:
+          error instanceof Error ? error.message : 'Copier header strip failed',
+      };
+    }
+  }
+
   /**
    * Applies naming patterns to ROM
+   * With `naming.template` configured the ROM is renamed from its DAT match
+   * or filename tags; tracks referenced by a cue sheet keep their names
    */
   async applyNamingPattern(rom: ROMFile): Promise<PhaseResult<ROMFile>> {
     // Defensive: Validate input
@@ -54,17 +226,100 @@ export class Normalizer implements INormalizer {
       });
     }
 
-    // TODO: Implement in Phase D
+    const template = this.config.naming?.template;
+    const unknownTokens =
+      template !== undefined ? unknownNamingTokens(template) : [];
+    if (unknownTokens.length > 0) {
+      return Promise.resolve({
+        success: false,
+        error: `Invalid naming template: unknown token(s) ${unknownTokens
+          .map((token) => `{${token}}`)
+          .join(', ')}`,
+      });
+    }
+
+    // Group "(Disc N)" dumps by title; bin/cue discs launch from the cue
+    const cueSheet = rom.companionFiles?.find(
+      (file) => extname(file).toLowerCase() === CUE_EXTENSION
+    );
+    const filename =
+      template !== undefined && cueSheet === undefined
+        ? this.resolveCollision(rom, this.renderFilename(rom, template))
+        : rom.filename;
+    const discSet = discSetMembership(
+      filename,
+      cueSheet !== undefined ? basename(cueSheet) : filename
+    );
+
     return Promise.resolve({
       success: true,
-      data: rom,
+      data: {
+        ...rom,
+        filename,
+        ...(filename !== rom.filename && {
+          originalName: rom.originalName ?? rom.filename,
+        }),
+        ...(discSet !== null && { discSet }),
+      },
       metadata: {
         normalizedAt: new Date().toISOString(),
         originalName: rom.filename,
+        renamed: filename !== rom.filename,
+        ...(template !== undefined &&
+          cueSheet !== undefined && {
+            reason: 'Tracks referenced by a cue sheet keep their names',
+          }),
       },
     });
   }
 
+  /**
+   * Renders the template, keeping the file's own extension (".zip" for
+   * intact archives); discs keep their "(Disc N)" tag even when the
+   * template has no {disc}
+   */
+  private renderFilename(rom: ROMFile, template: string): string {
+    const fields = namingFields(rom);
+    const discTemplate =
+      fields.disc !== '' && !template.includes('{disc}')
+        ? `${template} ({disc})`
+        : template;
+    const name = renderNamingTemplate(discTemplate, fields);
+    return sanitizeFilename(
+      `${name !== '' ? name : basename(rom.filename, extname(rom.filename))}${extname(rom.filename)}`
+    );
+  }
+
+  /**
+   * Avoids overwriting another ROM in the archive
+   * The first fallback appends the CRC-32, so the result does not depend
+   * on ingestion order; a counter is the last resort
+   */
+  private resolveCollision(rom: ROMFile, filename: string): string {
+    const dir = join(
+      this.config.directories.archive.roms,
+      rom.platform ?? 'unknown'
+    );
+    const extension = extname(filename);
+    const stem = basename(filename, extension);
+    const crc = rom.hashes?.crc32.toUpperCase();
+
+    const candidates = [
+      filename,
+      ...(crc !== undefined ? [`${stem} [${crc}]${extension}`] : []),
+    ];
+    const free = candidates.find((name) => !existsSync(join(dir, name)));
+    if (free !== undefined) {
+      return free;
+    }
+
+    let counter = 1;
+    while (existsSync(join(dir, `${stem} (${counter})${extension}`))) {
+      counter++;
+    }
+    return `${stem} (${counter})${extension}`;
+  }
+
   /**
    * Converts to CHD format (optional)
    */
@@ -108,6 +363,8 @@ export class Normalizer implements INormalizer {
 
   /**
    * Generates metadata for ROM
+   * `tags` holds the typed filename tags (regions, languages, revision,
+   * dump and development status)
    */
   async generateMetadata(
     rom: ROMFile
@@ -152,12 +409,13 @@ export class Normalizer implements INormalizer {
       });
     }
 
-    // TODO: Implement in Phase D
+    // Tags come from the ingested name; normalizing may drop some
     const metadata = {
       platform: rom.platform,
       filename: rom.filename,
       size: rom.size,
       extension: rom.extension,
+      tags: parseFilenameTags(rom.originalName ?? rom.filename),
       generatedAt: new Date().toISOString(),
     };
 
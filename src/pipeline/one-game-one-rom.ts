@@ -0,0 +1,413 @@
+/**
+ * 1G1R (One Game, One ROM) Curated Sets
+ * Promotes only the best version of each game from the archive manifests
+ * Following SRP - single responsibility: clone selection
+ *
+ * Current problem: the archive keeps every region, revision and dump of a
+ * game, so the sync directory and playlists list the same game many times.
+ */
+
+import { readdir } from 'node:fs/promises';
+import { basename, extname, join } from 'node:path';
+
+import type {
+  OneGameOneRomConfig,
+  PlatformConfig,
+} from '../interfaces/platform-config.interface.js';
+import type {
+  IPromoter,
+  ManifestEntry,
+  PhaseResult,
+  ROMFile,
+} from '../interfaces/pipeline.interface.js';
+
+import {
+  filenameTagsOf,
+  parseFilenameTags,
+  type FilenameTags,
+} from './filename-tags.js';
+import { readManifest } from './manifest-file.js';
+import { Promoter } from './promoter.js';
+
+/**
+ * Used when neither the caller nor the platform config sets priorities
+ */
+export const DEFAULT_ONE_GAME_ONE_ROM: OneGameOneRomConfig = {
+  regions: ['World', 'USA', 'Europe', 'Japan'],
+  languages: ['En'],
+};
+
+/**
+ * One ROM or one whole disc set competing for its game
+ */
+export interface OneGameOneRomCandidate {
+  /** One entry, or every disc of a set */
+  entries: ManifestEntry[];
+  /** Tags of the DAT game when matched, of the filename otherwise */
+  tags: FilenameTags;
+}
+
+/**
+ * Clones of one game, best candidate first
+ */
+export interface OneGameOneRomGroup {
+  /** Lowercase title of the game, or of its DAT parent */
+  key: string;
+  winner: OneGameOneRomCandidate;
+  losers: OneGameOneRomCandidate[];
+}
+
+/**
+ * Outcome of a curated set rebuild
+ */
+export interface OneGameOneRomReport {
+  platforms: string[];
+  games: number;
+  /** Sync paths of promoted winners */
+  promoted: string[];
+  /** Sync paths removed for losers */
+  removed: string[];
+  /** Per-platform or per-ROM failures; the rebuild carries on */
+  errors: string[];
+}
+
+type CandidateTier = 'clean' | 'pre-release' | 'modified' | 'bad';
+
+/** Best first; compared before regions so a bad USA dump loses */
+const TIER_ORDER: readonly CandidateTier[] = [
+  'clean',
+  'pre-release',
+  'modified',
+  'bad',
+];
+
+const MODIFIED_DUMPS: ReadonlySet<FilenameTags['dumpStatus']> = new Set([
+  'hack',
+  'translation',
+  'trainer',
+  'pirate',
+]);
+const BAD_DUMPS: ReadonlySet<FilenameTags['dumpStatus']> = new Set([
+  'bad',
+  'overdump',
+]);
+
+/**
+ * Groups manifest entries into clones of the same game and ranks them
+ * DAT parent/clone data groups regional titles; filename titles otherwise
+ */
+export function selectOneGameOneRom(
+  entries: ManifestEntry[],
+  priorities: OneGameOneRomConfig
+): OneGameOneRomGroup[] {
+  const groups = new Map<string, OneGameOneRomCandidate[]>();
+
+  for (const candidate of toCandidates(entries)) {
+    const key = cloneKey(candidate);
+    groups.set(key, [...(groups.get(key) ?? []), candidate]);
+  }
+
+  return Array.from(groups.entries()).map(([key, candidates]) => {
+    const [winner, ...losers] = [...candidates].sort((a, b) =>
+      compareCandidates(a, b, priorities)
+    );
+    return {
+      key,
+      // Every group holds at least the candidate that created it
+      winner: winner as OneGameOneRomCandidate,
+      losers,
+    };
+  });
+}
+
+/**
+ * Negative when `a` is the better candidate
+ * Order: dump quality, region, language, DAT verification, revision,
+ * version, then filename for a stable result
+ */
+export function compareCandidates(
+  a: OneGameOneRomCandidate,
+  b: OneGameOneRomCandidate,
+  priorities: OneGameOneRomConfig
+): number {
+  return (
+    TIER_ORDER.indexOf(tierOf(a)) - TIER_ORDER.indexOf(tierOf(b)) ||
+    priorityOf(a.tags.regions, priorities.regions) -
+      priorityOf(b.tags.regions, priorities.regions) ||
+    priorityOf(a.tags.languages, priorities.languages ?? []) -
+      priorityOf(b.tags.languages, priorities.languages ?? []) ||
+    Number(!isVerified(a)) - Number(!isVerified(b)) ||
+    compareVersions(b.tags.revision, a.tags.revision) ||
+    compareVersions(b.tags.version, a.tags.version) ||
+    firstEntry(a).filename.localeCompare(firstEntry(b).filename)
+  );
+}
+
+/**
+ * Rebuilds the sync directory as a 1G1R set over an existing library
+ * Winners are promoted through the Promoter; losers are removed from the
+ * sync directory and playlists. The archive is never modified.
+ */
+export class OneGameOneRomBuilder {
+  private readonly config: PlatformConfig;
+  private readonly promoter: IPromoter;
+
+  constructor(config: PlatformConfig, promoter?: IPromoter) {
+    this.config = config;
+    this.promoter = promoter ?? new Promoter(config);
+  }
+
+  /**
+   * Rebuilds the given platforms, or every platform with a manifest
+   * @param priorities - Overrides `config.oneGameOneRom`
+   */
+  async rebuild(
+    platforms?: string[],
+    priorities?: OneGameOneRomConfig
+  ): Promise<PhaseResult<OneGameOneRomReport>> {
+    try {
+      const manifestsDir = this.config.directories.archive.manifests;
+      const targets =
+        platforms ??
+        (await readdir(manifestsDir))
+          .filter((file) => extname(file) === '.json')
+          .map((file) => basename(file, '.json'))
+          .sort();
+      const ranking =
+        priorities ?? this.config.oneGameOneRom ?? DEFAULT_ONE_GAME_ONE_ROM;
+
+      const report: OneGameOneRomReport = {
+        platforms: targets,
+        games: 0,
+        promoted: [],
+        removed: [],
+        errors: [],
+      };
+
+      for (const platform of targets) {
+        await this.rebuildPlatform(platform, ranking, report);
+      }
+
+      return {
+        success: true,
+        data: report,
+        metadata: {
+          rebuiltAt: new Date().toISOString(),
+          priorities: ranking,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        // TEST-007: Skip coverage - defensive check for non-Error exception
+        error: error instanceof Error ? error.message : '1G1R rebuild failed',
+      };
+    }
+  }
+
+  private async rebuildPlatform(
+    platform: string,
+    priorities: OneGameOneRomConfig,
+    report: OneGameOneRomReport
+  ): Promise<void> {
+    const entries = await this.readPlatformManifest(platform, report);
+    const groups = selectOneGameOneRom(entries, priorities);
+    report.games += groups.length;
+
+    // Losers first so their playlist items never shadow a winner
+    for (const loser of groups.flatMap((group) => group.losers)) {
+      for (const entry of loser.entries) {
+        const result = await this.promoter.demoteROM(this.toROM(entry));
+        if (result.success) {
+          report.removed.push(...(result.data ?? []));
+        } else {
+          report.errors.push(
+            `${entry.filename}: ${result.error ?? 'Demotion failed'}`
+          );
+        }
+      }
+    }
+
+    for (const { winner } of groups) {
+      for (const entry of winner.entries) {
+        const rom = this.toROM(entry);
+        const promoted = await this.promoter.promoteROM(rom);
+        if (!promoted.success) {
+          report.errors.push(
+            `${entry.filename}: ${promoted.error ?? 'Promotion failed'}`
+          );
+          continue;
+        }
+        report.promoted.push(promoted.data ?? entry.filename);
+
+        const playlist = await this.promoter.updatePlaylist(rom);
+        if (!playlist.success) {
+          report.errors.push(
+            `${entry.filename}: ${playlist.error ?? 'Playlist update failed'}`
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Pipeline manifest entries; other manifest formats are reported
+   */
+  private async readPlatformManifest(
+    platform: string,
+    report: OneGameOneRomReport
+  ): Promise<ManifestEntry[]> {
+    const manifestPath = join(
+      this.config.directories.archive.manifests,
+      `${platform}.json`
+    );
+
+    try {
+      return await readManifest(manifestPath);
+    } catch (error) {
+      report.errors.push(
+        `${platform}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+    return [];
+  }
+
+  /**
+   * ROM as archived: the archive copy is the source, and intact zips are
+   * addressed through their archived container
+   */
+  private toROM(entry: ManifestEntry): ROMFile {
+    const archivePath = join(
+      this.config.directories.archive.roms,
+      entry.platform,
+      entry.filename
+    );
+    const intact =
+      entry.containerPath !== undefined &&
+      entry.entryName !== undefined &&
+      basename(entry.containerPath) === entry.filename;
+
+    return {
+      id: entry.id,
+      filename: entry.filename,
+      path: archivePath,
+      platform: entry.platform,
+      extension: entry.extension,
+      size: entry.size,
+      hash: entry.hash,
+      ...(entry.originalName !== undefined && {
+        originalName: entry.originalName,
+      }),
+      ...(entry.hashes !== undefined && { hashes: entry.hashes }),
+      ...(intact && { containerPath: archivePath }),
+      ...(entry.entryName !== undefined && { entryName: entry.entryName }),
+      ...(entry.companionFiles !== undefined && {
+        companionFiles: entry.companionFiles,
+      }),
+      ...(entry.discSet !== undefined && { discSet: entry.discSet }),
+      ...(entry.dat !== undefined && { dat: entry.dat }),
+      ...(entry.metadata !== undefined && { metadata: entry.metadata }),
+    };
+  }
+}
+
+/**
+ * Single ROMs stand alone; discs of a set compete together
+ */
+function toCandidates(entries: ManifestEntry[]): OneGameOneRomCandidate[] {
+  const discSets = new Map<string, ManifestEntry[]>();
+  const candidates: OneGameOneRomCandidate[] = [];
+
+  for (const entry of entries) {
+    if (entry.discSet === undefined) {
+      candidates.push({ entries: [entry], tags: tagsOf(entry) });
+      continue;
+    }
+    const discs = discSets.get(entry.discSet.playlist);
+    if (discs !== undefined) {
+      discs.push(entry);
+    } else {
+      discSets.set(entry.discSet.playlist, [entry]);
+    }
+  }
+
+  for (const discs of discSets.values()) {
+    discs.sort((a, b) => (a.discSet?.disc ?? 0) - (b.discSet?.disc ?? 0));
+    candidates.push({
+      entries: discs,
+      tags: tagsOf(firstEntry({ entries: discs })),
+    });
+  }
+
+  return candidates;
+}
+
+function tagsOf(entry: ManifestEntry): FilenameTags {
+  return entry.dat?.game !== undefined
+    ? parseFilenameTags(entry.dat.game)
+    : filenameTagsOf(entry);
+}
+
+function cloneKey(candidate: OneGameOneRomCandidate): string {
+  const parent = firstEntry(candidate).dat?.cloneOf;
+  const title =
+    parent !== undefined
+      ? parseFilenameTags(parent).title
+      : candidate.tags.title;
+  return title.toLowerCase();
+}
+
+function firstEntry(
+  candidate: Pick<OneGameOneRomCandidate, 'entries'>
+): ManifestEntry {
+  // Candidates are never built without entries
+  return candidate.entries[0] as ManifestEntry;
+}
+
+function tierOf(candidate: OneGameOneRomCandidate): CandidateTier {
+  const { dumpStatus, developmentStatus } = candidate.tags;
+  if (
+    BAD_DUMPS.has(dumpStatus) ||
+    candidate.entries.some((entry) => entry.dat?.status === 'bad-dump')
+  ) {
+    return 'bad';
+  }
+  if (MODIFIED_DUMPS.has(dumpStatus)) {
+    return 'modified';
+  }
+  return developmentStatus === 'release' ? 'clean' : 'pre-release';
+}
+
+function isVerified(candidate: OneGameOneRomCandidate): boolean {
+  return candidate.entries.every((entry) => entry.dat?.status === 'verified');
+}
+
+/**
+ * Index of the most preferred value present; unlisted values rank last
+ */
+function priorityOf(values: string[], priority: string[]): number {
+  const ranks = values
+    .map((value) =>
+      priority.findIndex(
+        (preferred) => preferred.toLowerCase() === value.toLowerCase()
+      )
+    )
+    .filter((rank) => rank >= 0);
+  return ranks.length > 0 ? Math.min(...ranks) : priority.length;
+}
+
+/**
+ * "Rev A" < "Rev B", "1" < "2", "1.1" < "1.10"; absent sorts first
+ */
+function compareVersions(a?: string, b?: string): number {
+  if (a === b) {
+    return 0;
+  }
+  if (a === undefined) {
+    return -1;
+  }
+  if (b === undefined) {
+    return 1;
+  }
+  return a.localeCompare(b, undefined, { numeric: true });
+}
@@ -0,0 +1,214 @@
+/**
+ * Patcher
+ * Applies IPS / BPS / UPS patches to archived ROMs, or places them for
+ * RetroArch soft-patching
+ * Following SRP - single responsibility: patch ingestion
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { basename, extname, join } from 'node:path';
+
+import type { PlatformConfig } from '../interfaces/platform-config.interface.js';
+import type {
+  IPatcher,
+  ManifestEntry,
+  PatchInfo,
+  PhaseResult,
+  ROMFile,
+} from '../interfaces/pipeline.interface.js';
+
+import { copyFileUnit } from './file-unit.js';
+import { HashIndex } from './hash-index.js';
+import { applyPatch, type PatchHeader } from './rom-patch.js';
+import { isZipArchive } from './zip-contents.js';
+import { listZipEntries, openZipEntryStream } from './zip-reader.js';
+
+/**
+ * Archived ROM a patch applies to
+ */
+export interface PatchBase {
+  entry: ManifestEntry;
+  matchedBy: 'crc32' | 'name';
+}
+
+/**
+ * Finds the archived ROM a patch applies to
+ * BPS / UPS match by embedded source CRC-32 and size in the hash index;
+ * IPS carries no checksum, so its file name must match the ROM's
+ * (RetroArch's convention)
+ */
+export async function findPatchBase(
+  manifestsDir: string,
+  patchFilename: string,
+  header: PatchHeader
+): Promise<PatchBase | null> {
+  const index = await HashIndex.open(manifestsDir);
+
+  const { sourceCrc32, sourceSize } = header;
+  if (sourceCrc32 !== undefined) {
+    const entry = index
+      .find('crc32', sourceCrc32)
+      .find(
+        (candidate) =>
+          candidate.hashes?.crc32 === sourceCrc32 &&
+          candidate.size === sourceSize
+      );
+    return entry !== undefined ? { entry, matchedBy: 'crc32' } : null;
+  }
+
+  const patchStem = stemOf(patchFilename).toLowerCase();
+  const entry = index
+    .entries()
+    .find((candidate) =>
+      [candidate.filename, candidate.originalName, candidate.entryName].some(
+        (name) => name !== undefined && stemOf(name).toLowerCase() === patchStem
+      )
+    );
+  return entry !== undefined ? { entry, matchedBy: 'name' } : null;
+}
+
+export class Patcher implements IPatcher {
+  private readonly config: PlatformConfig;
+
+  constructor(config: PlatformConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Applies the patch to its archived base ROM
+   * The patched ROM is staged as "{patch name}{base extension}"
+   */
+  async applyPatch(patch: ROMFile): Promise<PhaseResult<ROMFile>> {
+    const info = patch.patch;
+    if (info === undefined) {
+      return { success: false, error: 'Not a patch: classify it first' };
+    }
+
+    try {
+      const source = await this.readBase(info.base);
+      const target = applyPatch(source, await readFile(patch.path));
+
+      const extension = extname(
+        info.base.entryName ?? info.base.filename
+      ).toLowerCase();
+      const filename = `${stemOf(patch.filename)}${extension}`;
+      const stagingDir = join(
+        this.config.directories.workspace.staging,
+        'patched'
+      );
+      const path = join(stagingDir, filename);
+
+      await mkdir(stagingDir, { recursive: true });
+      await writeFile(path, target);
+
+      return {
+        success: true,
+        data: {
+          id: patch.id,
+          filename,
+          path,
+          platform: info.base.platform,
+          extension,
+          size: target.length,
+          patchedFrom: {
+            id: info.base.id,
+            filename: info.base.filename,
+            patch: patch.filename,
+            format: info.format,
+          },
+          metadata: {
+            ...patch.metadata,
+            patchedAt: new Date().toISOString(),
+          },
+        },
+        metadata: {
+          stagedPath: path,
+          verified: info.targetCrc32 !== undefined,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        // TEST-007: Skip coverage - defensive check for non-Error exception
+        error: error instanceof Error ? error.message : 'Patch failed',
+      };
+    }
+  }
+
+  /**
+   * Copies the patch next to the base ROM in the archive and sync
+   * directories as "{base name}.{ips|bps|ups}"
+   */
+  async placeSoftPatch(patch: ROMFile): Promise<PhaseResult<string[]>> {
+    const info = patch.patch;
+    if (info === undefined) {
+      return { success: false, error: 'Not a patch: classify it first' };
+    }
+
+    try {
+      const name = `${stemOf(info.base.filename)}.${info.format}`;
+      const placed = [
+        ...(await copyFileUnit(
+          [patch.path],
+          join(this.config.directories.archive.roms, info.base.platform),
+          name
+        )),
+        ...(await copyFileUnit(
+          [patch.path],
+          join(this.config.directories.sync.content.roms, info.base.platform),
+          name
+        )),
+      ];
+
+      return {
+        success: true,
+        data: placed,
+        metadata: {
+          placedAt: new Date().toISOString(),
+          base: info.base.filename,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        // TEST-007: Skip coverage - defensive check for non-Error exception
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Soft patch placement failed',
+      };
+    }
+  }
+
+  /**
+   * Archived content of the base ROM; intact zips are read by entry
+   */
+  private async readBase(base: PatchInfo['base']): Promise<Buffer> {
+    const archivePath = join(
+      this.config.directories.archive.roms,
+      base.platform,
+      base.filename
+    );
+
+    if (!isZipArchive(archivePath) || base.entryName === undefined) {
+      return readFile(archivePath);
+    }
+
+    const entry = (await listZipEntries(archivePath)).find(
+      (candidate) => candidate.name === base.entryName
+    );
+    if (entry === undefined) {
+      throw new Error(`${base.entryName} not found in ${base.filename}`);
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of await openZipEntryStream(archivePath, entry)) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  }
+}
+
+function stemOf(filename: string): string {
+  return basename(filename, extname(filename));
+}
@@ -4,7 +4,7 @@
  * Following DIP (Dependency Inversion Principle) - depends on abstractions
  */
 
-import { join } from 'node:path';
+import { basename, join } from 'node:path';
 
 import type {
   IClassifier,
@@ -12,14 +12,25 @@ import type {
   INormalizer,
   IArchiver,
   IPromoter,
+  IPatcher,
   ROMFile,
+  RomHashes,
+  HeaderlessHashes,
+  DatMatch,
 } from '../interfaces/pipeline.interface.js';
 import type { PlatformConfig } from '../interfaces/platform-config.interface.js';
 import type { UserConfig } from '../interfaces/user-config.interface.js';
 
+import { Patcher } from './patcher.js';
+import { isZipArchive } from './zip-contents.js';
+
 export interface PipelineResult {
   success: boolean;
   rom?: ROMFile;
+  /** Every ROM processed from a zip archive; `rom` is the first */
+  roms?: ROMFile[];
+  /** DAT verification of `rom`, when the validator ran */
+  dat?: DatMatch;
   errors: string[];
   phase?: string;
 }
@@ -37,6 +48,9 @@ function userConfigToDirectoryStructure(
       bios: config.archive.bios.path,
       manifests: config.archive.manifests.path,
       roms: config.archive.roms.path,
+      ...(config.datDirectory !== undefined && {
+        dats: config.datDirectory,
+      }),
     },
     sync: {
       root: config.sync.root.path,
@@ -72,6 +86,7 @@ export class PipelineOrchestrator {
   private readonly normalizer: INormalizer;
   private readonly archiver: IArchiver;
   private readonly promoter: IPromoter;
+  private readonly patcher: IPatcher;
 
   /**
    * Creates a new PipelineOrchestrator
@@ -81,6 +96,7 @@ export class PipelineOrchestrator {
    * @param normalizer - Normalizer implementation
    * @param archiver - Archiver implementation
    * @param promoter - Promoter implementation
+   * @param patcher - Patcher implementation; defaults to `Patcher`
    */
   constructor(
     config: PlatformConfig,
@@ -88,7 +104,8 @@ export class PipelineOrchestrator {
     validator: IValidator,
     normalizer: INormalizer,
     archiver: IArchiver,
-    promoter: IPromoter
+    promoter: IPromoter,
+    patcher?: IPatcher
   ) {
     this.config = config;
     this.classifier = classifier;
@@ -96,6 +113,7 @@ export class PipelineOrchestrator {
     this.normalizer = normalizer;
     this.archiver = archiver;
     this.promoter = promoter;
+    this.patcher = patcher ?? new Patcher(config);
   }
 
   /**
@@ -148,8 +166,14 @@ export class PipelineOrchestrator {
 
   /**
    * Runs the complete pipeline for a file
+   * Zip archives run phases 2-5 once per classified entry
+   * @param knownHashes - Checksums of the file taken as it was received,
+   * which spare the Validator a second read of a plain ROM file
    */
-  async process(filePath: string): Promise<PipelineResult> {
+  async process(
+    filePath: string,
+    knownHashes?: RomHashes
+  ): Promise<PipelineResult> {
     // Phase 1: Classification
     if (!this.config.pipeline.enableClassifier) {
       return {
@@ -159,6 +183,10 @@ export class PipelineOrchestrator {
       };
     }
 
+    if (isZipArchive(filePath)) {
+      return this.processArchive(filePath);
+    }
+
     const classifyResult = await this.classifier.classify(filePath);
     if (!classifyResult.success || !classifyResult.data) {
       return {
@@ -168,7 +196,89 @@ export class PipelineOrchestrator {
       };
     }
 
-    let rom = classifyResult.data;
+    if (classifyResult.data.patch !== undefined) {
+      return this.processPatch(classifyResult.data);
+    }
+
+    if (knownHashes !== undefined) {
+      classifyResult.data.hashes = knownHashes;
+    }
+    return this.processROM(classifyResult.data);
+  }
+
+  /**
+   * Applies a classified patch, or places it for soft-patching
+   * An applied patch runs phases 2-5 as a new ROM linked to its base
+   */
+  private async processPatch(patch: ROMFile): Promise<PipelineResult> {
+    if (this.config.patching?.mode === 'soft') {
+      const placed = await this.patcher.placeSoftPatch(patch);
+      return placed.success
+        ? { success: true, rom: patch, errors: [] }
+        : {
+            success: false,
+            rom: patch,
+            errors: [placed.error ?? 'Soft patch placement failed'],
+            phase: 'patcher',
+          };
+    }
+
+    const applied = await this.patcher.applyPatch(patch);
+    if (!applied.success || !applied.data) {
+      return {
+        success: false,
+        rom: patch,
+        errors: [applied.error ?? 'Patch application failed'],
+        phase: 'patcher',
+      };
+    }
+
+    return this.processROM(applied.data);
+  }
+
+  /**
+   * Runs the pipeline for every ROM in a zip archive
+   * Entry failures are prefixed with the entry name; other entries continue
+   */
+  private async processArchive(filePath: string): Promise<PipelineResult> {
+    const classifyResult = await this.classifier.classifyArchive(filePath);
+    if (!classifyResult.success || !classifyResult.data) {
+      return {
+        success: false,
+        errors: [classifyResult.error ?? 'Classification failed'],
+        phase: 'classifier',
+      };
+    }
+
+    const roms: ROMFile[] = [];
+    const errors: string[] = [];
+    let failedPhase: string | undefined;
+
+    for (const entryRom of classifyResult.data) {
+      const result = await this.processROM(entryRom);
+      roms.push(result.rom ?? entryRom);
+
+      if (!result.success) {
+        failedPhase ??= result.phase;
+        const entryName = entryRom.entryName ?? entryRom.filename;
+        errors.push(...result.errors.map((error) => `${entryName}: ${error}`));
+      }
+    }
+
+    return {
+      success: errors.length === 0,
+      ...(roms[0] !== undefined && { rom: roms[0] }),
+      roms,
+      errors,
+      ...(failedPhase !== undefined && { phase: failedPhase }),
+    };
+  }
+
+  /**
+   * Runs phases 2-5 for a classified ROM
+   */
+  private async processROM(classified: ROMFile): Promise<PipelineResult> {
+    let rom = classified;
 
     // Phase 2: Validation
     if (this.config.pipeline.enableValidator) {
@@ -177,6 +287,7 @@ export class PipelineOrchestrator {
         return {
           success: false,
           rom,
+          ...(rom.dat !== undefined && { dat: rom.dat }),
           errors: validationResults.errors,
           phase: 'validator',
         };
@@ -191,6 +302,7 @@ export class PipelineOrchestrator {
         return {
           success: false,
           rom,
+          ...(rom.dat !== undefined && { dat: rom.dat }),
           errors: normalizationResult.errors,
           phase: 'normalizer',
         };
@@ -205,6 +317,7 @@ export class PipelineOrchestrator {
         return {
           success: false,
           rom,
+          ...(rom.dat !== undefined && { dat: rom.dat }),
           errors: archivalResult.errors,
           phase: 'archiver',
         };
@@ -218,6 +331,7 @@ export class PipelineOrchestrator {
         return {
           success: false,
           rom,
+          ...(rom.dat !== undefined && { dat: rom.dat }),
           errors: promotionResult.errors,
           phase: 'promoter',
         };
@@ -227,6 +341,7 @@ export class PipelineOrchestrator {
     return {
       success: true,
       rom,
+      ...(rom.dat !== undefined && { dat: rom.dat }),
       errors: [],
     };
   }
@@ -245,22 +360,56 @@ export class PipelineOrchestrator {
       errors.push(integrityResult.error ?? 'Integrity validation failed');
     }
 
+    // Resolve companion files; cue sheets must reference intact tracks
+    const companionResult = await this.validator.checkCompanionFiles(rom);
+    if (!companionResult.success) {
+      errors.push(companionResult.error ?? 'Companion file check failed');
+    } else if (
+      companionResult.data !== undefined &&
+      companionResult.data.length > 0
+    ) {
+      rom.companionFiles = companionResult.data;
+    }
+
     // Generate hash
     const hashResult = await this.validator.generateHash(rom);
     if (hashResult.success && hashResult.data !== undefined) {
       rom.hash = hashResult.data;
+      const hashes = hashResult.metadata?.['hashes'] as RomHashes | undefined;
+      if (hashes !== undefined) {
+        rom.hashes = hashes;
+      }
+      const headerless = hashResult.metadata?.['headerless'] as
+        | HeaderlessHashes
+        | undefined;
+      if (headerless !== undefined) {
+        rom.headerless = headerless;
+      }
     } else {
       errors.push(hashResult.error ?? 'Hash generation failed');
     }
 
-    // Check for duplicates
+    // Check for duplicates, ignoring NES / SNES headers
     if (rom.hash !== undefined && rom.hash !== '') {
-      const duplicateResult = await this.validator.checkDuplicate(rom.hash);
+      const duplicateResult = await this.validator.checkDuplicate(
+        rom.hash,
+        rom.headerless?.hashes.sha256
+      );
       if (duplicateResult.data === true) {
         errors.push('Duplicate ROM detected');
       }
     }
 
+    // Verify against DATs; unknown and bad dumps are tagged, not rejected
+    if (rom.hashes !== undefined) {
+      const datResult = await this.validator.verifyAgainstDat(rom);
+      if (datResult.success && datResult.data !== undefined) {
+        rom.dat = datResult.data;
+      } else {
+        errors.push(datResult.error ?? 'DAT verification failed');
+      }
+    }
+
     // Validate BIOS dependencies
     const biosResult = await this.validator.validateBIOSDependencies(rom);
     if (!biosResult.success) {
@@ -282,6 +431,28 @@ export class PipelineOrchestrator {
   ): Promise<{ success: boolean; rom: ROMFile; errors: string[] }> {
     const errors: string[] = [];
 
+    // Canonical byte order first, so naming sees the converted extension
+    const byteOrderResult = await this.normalizer.normalizeByteOrder(rom);
+    if (byteOrderResult.success && byteOrderResult.data) {
+      rom = byteOrderResult.data;
+      if (
+        byteOrderResult.metadata?.['converted'] === true &&
+        this.config.pipeline.enableValidator
+      ) {
+        errors.push(...(await this.revalidateCanonical(rom)));
+      }
+    } else {
+      errors.push(byteOrderResult.error ?? 'Byte order normalization failed');
+    }
+
+    // Strip SNES copier headers when configured
+    const headerResult = await this.normalizer.stripCopierHeader(rom);
+    if (headerResult.success && headerResult.data) {
+      rom = headerResult.data;
+    } else {
+      errors.push(headerResult.error ?? 'Copier header strip failed');
+    }
+
     // Apply naming pattern
     const namingResult = await this.normalizer.applyNamingPattern(rom);
     if (namingResult.success && namingResult.data) {
@@ -306,6 +477,30 @@ export class PipelineOrchestrator {
     };
   }
 
+  /**
+   * Repeats the duplicate check and DAT verification on converted content
+   * The validator saw the ingested byte order; DATs list the canonical one
+   */
+  private async revalidateCanonical(rom: ROMFile): Promise<string[]> {
+    const errors: string[] = [];
+
+    if (rom.hash !== undefined && rom.hash !== '') {
+      const duplicateResult = await this.validator.checkDuplicate(rom.hash);
+      if (duplicateResult.data === true) {
+        errors.push('Duplicate ROM detected');
+      }
+    }
+
+    const datResult = await this.validator.verifyAgainstDat(rom);
+    if (datResult.success && datResult.data !== undefined) {
+      rom.dat = datResult.data;
+    } else {
+      errors.push(datResult.error ?? 'DAT verification failed');
+    }
+
+    return errors;
+  }
+
   /**
    * Runs the archival phase
    */
@@ -330,10 +525,28 @@ export class PipelineOrchestrator {
     const manifestEntry = {
       id: rom.id,
       filename: rom.filename,
+      ...(rom.originalName !== undefined && {
+        originalName: rom.originalName,
+      }),
       platform: rom.platform ?? 'unknown',
       hash: rom.hash ?? '',
+      ...(rom.hashes !== undefined && { hashes: rom.hashes }),
+      ...(rom.headerless !== undefined && { headerless: rom.headerless }),
       size: rom.size,
       extension: rom.extension,
+      ...(rom.containerPath !== undefined && {
+        containerPath: rom.containerPath,
+      }),
+      ...(rom.entryName !== undefined && { entryName: rom.entryName }),
+      ...(rom.companionFiles !== undefined && {
+        companionFiles: rom.companionFiles.map((file) => basename(file)),
+      }),
+      ...(rom.discSet !== undefined && { discSet: rom.discSet }),
+      ...(rom.dat !== undefined && { dat: rom.dat }),
+      ...(rom.patchedFrom !== undefined && { patchedFrom: rom.patchedFrom }),
+      ...(rom.originalFormat !== undefined && {
+        originalFormat: rom.originalFormat,
+      }),
       archivedAt: new Date().toISOString(),
       metadata: rom.metadata ?? {},
     };
@@ -0,0 +1,350 @@
+/**
+ * Platform Ambiguity Resolver
+ * Decides the platform for extensions shared by several platforms
+ * Following SRP - single responsibility: platform disambiguation
+ *
+ * Rule of Three: shared by Classifier and BatchProcessor, which both
+ * previously let the first or last matching definition win silently.
+ */
+
+import {
+  copyFile,
+  link,
+  mkdir,
+  readdir,
+  readFile,
+  rm,
+  writeFile,
+} from 'node:fs/promises';
+import { basename, dirname, extname, join, sep } from 'node:path';
+
+import type { PlatformDefinition } from '../interfaces/platform-config.interface.js';
+
+import {
+  detectPlatformFromHeader,
+  type HeaderDetection,
+} from './header-detector.js';
+
+/** Confidence when a sibling file (e.g. a .cue) identifies the platform */
+const SIBLING_CONFIDENCE = 0.8;
+/** Confidence when a parent folder name identifies the platform */
+const FOLDER_CONFIDENCE = 0.6;
+/** Confidence when only the extension identifies a single platform */
+const EXTENSION_CONFIDENCE = 0.5;
+const JSON_INDENT = 2;
+const CUE_EXTENSION = '.cue';
+
+/**
+ * How a platform was decided
+ */
+export type ResolutionMethod =
+  | 'header'
+  | 'extension'
+  | 'sibling'
+  | 'folder'
+  | 'unresolved';
+
+/**
+ * Outcome of resolving a file to a platform
+ */
+export interface PlatformResolution {
+  /** Decided platform, undefined when unresolved */
+  platform?: PlatformDefinition;
+  method: ResolutionMethod;
+  confidence: number;
+  /** Platforms claiming the file's extension */
+  candidates: PlatformDefinition[];
+  /** Why the file could not be resolved */
+  reason?: string;
+}
+
+/**
+ * Files next to the one being resolved, e.g. other entries of a zip
+ * Defaults to the file's directory listing
+ */
+export interface SiblingSource {
+  names: string[];
+  read(name: string): Promise<string>;
+}
+
+/**
+ * Resolves shared-extension ambiguity using content probes,
+ * sibling files and folder names
+ */
+export class PlatformResolver {
+  private readonly platforms: PlatformDefinition[];
+  private readonly extensionMap: Map<string, PlatformDefinition[]>;
+
+  /**
+   * Extensions claimed by more than one platform, detected at config load
+   */
+  readonly sharedExtensions: Map<string, PlatformDefinition[]>;
+
+  constructor(platforms: PlatformDefinition[]) {
+    this.platforms = platforms;
+    this.extensionMap = new Map();
+
+    for (const platform of platforms) {
+      for (const ext of platform.extensions) {
+        const key = ext.toLowerCase();
+        const existing = this.extensionMap.get(key) ?? [];
+        existing.push(platform);
+        this.extensionMap.set(key, existing);
+      }
+    }
+
+    this.sharedExtensions = new Map(
+      Array.from(this.extensionMap.entries()).filter(
+        ([, owners]) => owners.length > 1
+      )
+    );
+  }
+
+  /**
+   * Platforms registered for an extension
+   */
+  candidatesFor(extension: string): PlatformDefinition[] {
+    return this.extensionMap.get(extension.toLowerCase()) ?? [];
+  }
+
+  /**
+   * Whether an extension is claimed by several platforms
+   */
+  isAmbiguous(extension: string): boolean {
+    return this.sharedExtensions.has(extension.toLowerCase());
+  }
+
+  /**
+   * Resolves the platform for a file
+   * Order: header probe, unique extension, sibling files, folder names
+   * @param header - Pre-computed header probe; probed from disk when omitted
+   * @param siblings - Companion candidates; the file's directory when omitted
+   */
+  async resolve(
+    filePath: string,
+    fileSize: number,
+    header?: HeaderDetection | null,
+    siblings?: SiblingSource
+  ): Promise<PlatformResolution> {
+    const extension = extname(filePath).toLowerCase();
+    const candidates = this.candidatesFor(extension);
+
+    const probe =
+      header !== undefined
+        ? header
+        : await detectPlatformFromHeader(filePath, fileSize).catch(() => null);
+    const headerPlatform =
+      probe !== null
+        ? this.platforms.find((p) => p.id === probe.platform)
+        : undefined;
+
+    if (probe !== null && headerPlatform !== undefined) {
+      return {
+        platform: headerPlatform,
+        method: 'header',
+        confidence: probe.confidence,
+        candidates,
+      };
+    }
+
+    if (candidates.length === 0) {
+      return {
+        method: 'unresolved',
+        confidence: 0,
+        candidates,
+        reason: `Unknown file extension: ${extension}`,
+      };
+    }
+
+    const [onlyCandidate] = candidates;
+    if (candidates.length === 1 && onlyCandidate !== undefined) {
+      return {
+        platform: onlyCandidate,
+        method: 'extension',
+        confidence: EXTENSION_CONFIDENCE,
+        candidates,
+      };
+    }
+
+    const bySibling = await this.resolveBySibling(
+      filePath,
+      candidates,
+      siblings ?? (await directorySiblings(dirname(filePath)))
+    );
+    if (bySibling !== undefined) {
+      return {
+        platform: bySibling,
+        method: 'sibling',
+        confidence: SIBLING_CONFIDENCE,
+        candidates,
+      };
+    }
+
+    const byFolder = this.resolveByFolder(filePath, candidates);
+    if (byFolder !== undefined) {
+      return {
+        platform: byFolder,
+        method: 'folder',
+        confidence: FOLDER_CONFIDENCE,
+        candidates,
+      };
+    }
+
+    const ids = candidates.map((p) => p.id).join(', ');
+    return {
+      method: 'unresolved',
+      confidence: 0,
+      candidates,
+      reason: `Ambiguous extension ${extension} (${ids}): no header signature, companion file or platform folder found`,
+    };
+  }
+
+  /**
+   * Looks for sibling files that only one candidate understands:
+   * same-basename companions and cue sheets referencing the file
+   */
+  private async resolveBySibling(
+    filePath: string,
+    candidates: PlatformDefinition[],
+    siblings: SiblingSource
+  ): Promise<PlatformDefinition | undefined> {
+    const filename = basename(filePath);
+    const ownExt = extname(filename).toLowerCase();
+    const baseName = basename(filename, extname(filename));
+
+    const matches = new Set<PlatformDefinition>();
+
+    for (const entry of siblings.names) {
+      const entryExt = extname(entry).toLowerCase();
+      if (entry === filename || entryExt === ownExt) {
+        continue;
+      }
+
+      const owners = candidates.filter(
+        (p) =>
+          p.supportedCompanionFiles?.includes(entryExt) === true ||
+          p.extensions.includes(entryExt)
+      );
+      if (owners.length !== 1) {
+        continue;
+      }
+
+      const sameBase = basename(entry, extname(entry)) === baseName;
+      const referenced =
+        !sameBase &&
+        entryExt === CUE_EXTENSION &&
+        (await cueReferences(siblings, entry, filename));
+
+      if (sameBase || referenced) {
+        owners.forEach((owner) => matches.add(owner));
+      }
+    }
+
+    return matches.size === 1 ? Array.from(matches)[0] : undefined;
+  }
+
+  /**
+   * Matches parent folder names against platform ids and name segments
+   * e.g. "psx", "Sony - PlayStation", "Mega Drive"
+   */
+  private resolveByFolder(
+    filePath: string,
+    candidates: PlatformDefinition[]
+  ): PlatformDefinition | undefined {
+    const folders = dirname(filePath)
+      .split(sep)
+      .filter((segment) => segment !== '')
+      .map((segment) => segment.toLowerCase())
+      .reverse();
+
+    for (const folder of folders) {
+      const matches = candidates.filter((platform) =>
+        folderAliases(platform).includes(folder)
+      );
+      if (matches.length === 1) {
+        return matches[0];
+      }
+    }
+
+    return undefined;
+  }
+}
+
+/**
+ * Sibling source backed by a directory listing
+ */
+async function directorySiblings(dir: string): Promise<SiblingSource> {
+  let names: string[];
+  try {
+    names = await readdir(dir);
+  } catch {
+    names = [];
+  }
+
+  return {
+    names,
+    read: (name) => readFile(join(dir, name), 'utf-8'),
+  };
+}
+
+async function cueReferences(
+  siblings: SiblingSource,
+  cueName: string,
+  filename: string
+): Promise<boolean> {
+  try {
+    const sheet = await siblings.read(cueName);
+    return sheet.includes(`"${filename}"`);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Folder names accepted for a platform: id, full name and its segments
+ */
+function folderAliases(platform: PlatformDefinition): string[] {
+  const name = platform.name.toLowerCase();
+  return [
+    platform.id.toLowerCase(),
+    name,
+    ...name.split(' - ').map((segment) => segment.trim()),
+  ];
+}
+
+/**
+ * Places an undecidable file in the rejected directory with a reason sidecar
+ * The source is linked (or copied) so the original is left untouched
+ * @returns Path of the rejected copy
+ */
+export async function rejectFile(
+  filePath: string,
+  rejectedDir: string,
+  reason: string
+): Promise<string> {
+  await mkdir(rejectedDir, { recursive: true });
+
+  const rejectedPath = join(rejectedDir, basename(filePath));
+  await rm(rejectedPath, { force: true });
+  try {
+    await link(filePath, rejectedPath);
+  } catch {
+    await copyFile(filePath, rejectedPath);
+  }
+
+  await writeFile(
+    `${rejectedPath}.rejection.json`,
+    JSON.stringify(
+      {
+        source: filePath,
+        reason,
+        rejectedAt: new Date().toISOString(),
+      },
+      null,
+      JSON_INDENT
+    ),
+    'utf-8'
+  );
+
+  return rejectedPath;
+}
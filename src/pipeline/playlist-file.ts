@@ -0,0 +1,66 @@
+/**
+ * Playlist File
+ * RetroArch .lpl playlists as read and written by the pipeline
+ * Following SRP - single responsibility: playlist parsing and merging
+ *
+ * Current problem: the Promoter added entries to existing playlists, but
+ * the BatchProcessor replaced each platform's playlist with the items of
+ * its own run, so a partial re-ingestion dropped every other game.
+ */
+
+import type { PlaylistEntry } from '../interfaces/pipeline.interface.js';
+
+/**
+ * RetroArch .lpl playlist file
+ */
+export interface PlaylistFile {
+  version: string;
+  default_core_path: string;
+  default_core_name: string;
+  label_display_mode: number;
+  right_thumbnail_mode: number;
+  left_thumbnail_mode: number;
+  sort_mode: number;
+  items: PlaylistEntry[];
+}
+
+/**
+ * Playlist without items, with RetroArch's defaults
+ */
+export function emptyPlaylist(): PlaylistFile {
+  return {
+    version: '1.5',
+    default_core_path: '',
+    default_core_name: '',
+    label_display_mode: 0,
+    right_thumbnail_mode: 0,
+    left_thumbnail_mode: 0,
+    sort_mode: 0,
+    items: [],
+  };
+}
+
+/**
+ * Parsed playlist JSON; throws for other documents
+ */
+export function parsePlaylist(value: unknown): PlaylistFile {
+  if (
+    typeof value !== 'object' ||
+    value === null ||
+    !Array.isArray((value as Partial<PlaylistFile>).items)
+  ) {
+    throw new Error('not a RetroArch playlist');
+  }
+  return value as PlaylistFile;
+}
+
+/**
+ * Replaces items sharing a path with their update, appends others
+ */
+export function mergePlaylistItems(
+  current: PlaylistEntry[],
+  updates: PlaylistEntry[]
+): PlaylistEntry[] {
+  const updated = new Set(updates.map((item) => item.path));
+  return [...current.filter((item) => !updated.has(item.path)), ...updates];
+}
@@ -4,8 +4,8 @@
  * Following SRP - single responsibility: promotion
  */
 
-import { mkdir, copyFile, readFile, writeFile } from 'node:fs/promises';
-import { join, dirname } from 'node:path';
+import { mkdir, rm } from 'node:fs/promises';
+import { basename, join, dirname, extname } from 'node:path';
 import { existsSync } from 'node:fs';
 
 import type { PlatformConfig } from '../interfaces/platform-config.interface.js';
@@ -14,9 +14,18 @@ import type {
   PhaseResult,
   ROMFile,
   PlaylistEntry,
+  ManifestEntry,
+  DiscSetMembership,
 } from '../interfaces/pipeline.interface.js';
-const CRC32_LENGTH = 8;
-const JSON_INDENT = 2;
+
+import { updateJsonFile } from './atomic-file.js';
+import { CUE_EXTENSION } from './cue-sheet.js';
+import { parseDiscTag, updateM3u } from './disc-set.js';
+import { copyFileUnit } from './file-unit.js';
+import { HashIndex } from './hash-index.js';
+import { emptyPlaylist, parsePlaylist } from './playlist-file.js';
+import { playlistCrc32 } from './rom-hashes.js';
+import { archiveReference, isIntactArchive } from './zip-contents.js';
 
 export class Promoter implements IPromoter {
   private readonly config: PlatformConfig;
@@ -30,26 +39,37 @@ export class Promoter implements IPromoter {
    */
   async promoteROM(rom: ROMFile): Promise<PhaseResult<string>> {
     try {
-      const syncPath = join(
-        this.config.directories.sync.content.roms,
-        rom.platform ?? 'unknown',
-        rom.filename
-      );
+      const syncPath = this.syncPathOf(rom);
 
-      // Ensure directory exists
-      await mkdir(dirname(syncPath), { recursive: true });
-
-      // Find the source file (check Archive first)
-      const archivePath = join(
+      // Find the source files (check Archive first)
+      const archiveDir = join(
         this.config.directories.archive.roms,
-        rom.platform ?? 'unknown',
-        rom.filename
+        rom.platform ?? 'unknown'
       );
+      const archivePath = join(archiveDir, rom.filename);
 
       const sourcePath = existsSync(archivePath) ? archivePath : rom.path;
+      const companionSources = (rom.companionFiles ?? []).map((file) => {
+        const archived = join(archiveDir, basename(file));
+        return existsSync(archived) ? archived : file;
+      });
 
-      // Copy file to sync directory
-      await copyFile(sourcePath, syncPath);
+      // Copy file and companions to sync directory as one unit
+      await copyFileUnit(
+        [sourcePath, ...companionSources],
+        dirname(syncPath),
+        rom.filename
+      );
+
+      // Disc sets get an .m3u next to the discs for disc swapping
+      const m3uPath =
+        rom.discSet !== undefined
+          ? await updateM3u(
+              dirname(syncPath),
+              rom.discSet.playlist,
+              await this.discSetMembers(rom.platform, rom.discSet)
+            )
+          : undefined;
 
       return {
         success: true,
@@ -57,6 +77,8 @@ export class Promoter implements IPromoter {
         metadata: {
           promotedAt: new Date().toISOString(),
           sourcePath,
+          ...(companionSources.length > 0 && { companionSources }),
+          ...(m3uPath !== undefined && { m3uPath }),
         },
       };
     } catch (error) {
@@ -78,72 +100,58 @@ export class Promoter implements IPromoter {
         `${rom.platform}.lpl`
       );
 
-      const syncPath = join(
-        this.config.directories.sync.content.roms,
-        rom.platform ?? 'unknown',
-        rom.filename
-      );
+      const syncPath = this.syncPathOf(rom);
+
+      // Disc sets are listed once, through their .m3u
+      const discSet = rom.discSet;
+      const setPath =
+        discSet !== undefined
+          ? join(dirname(syncPath), discSet.playlist)
+          : undefined;
 
       const playlistEntry: PlaylistEntry = {
-        path: syncPath,
-        label: rom.filename.replace(/\.[^.]+$/, ''),
+        path: this.playlistItemPath(rom),
+        label: discSet?.title ?? rom.filename.replace(/\.[^.]+$/, ''),
         core_path: 'DETECT',
         core_name: 'DETECT',
-        crc32: rom.hash?.substring(0, CRC32_LENGTH) ?? '00000000',
+        crc32: playlistCrc32(rom.hashes?.crc32),
         db_name: rom.platform ?? 'Unknown',
       };
 
       // Ensure playlists directory exists
       await mkdir(this.config.directories.sync.playlists, { recursive: true });
 
-      // Read existing playlist or create new one
-      interface PlaylistFile {
-        version: string;
-        default_core_path: string;
-        default_core_name: string;
-        label_display_mode: number;
-        right_thumbnail_mode: number;
-        left_thumbnail_mode: number;
-        sort_mode: number;
-        items: PlaylistEntry[];
-      }
-
-      let playlist: PlaylistFile;
-
-      if (existsSync(playlistPath)) {
-        const data = await readFile(playlistPath, 'utf-8');
-        playlist = JSON.parse(data) as PlaylistFile;
-      } else {
-        playlist = {
-          version: '1.5',
-          default_core_path: '',
-          default_core_name: '',
-          label_display_mode: 0,
-          right_thumbnail_mode: 0,
-          left_thumbnail_mode: 0,
-          sort_mode: 0,
-          items: [],
-        };
-      }
-
-      // Check if entry already exists
-      const existingIndex = playlist.items.findIndex(
-        (e) => e.path === playlistEntry.path || e.crc32 === playlistEntry.crc32
-      );
+      // Add or replace the entry under the playlist's file lock
+      const playlist = await updateJsonFile(
+        playlistPath,
+        parsePlaylist,
+        (current = emptyPlaylist()) => {
+          // Drop per-disc entries superseded by the set's .m3u
+          const items =
+            discSet !== undefined
+              ? current.items.filter(
+                  (e) =>
+                    e.path === setPath ||
+                    dirname(e.path) !== dirname(syncPath) ||
+                    parseDiscTag(basename(e.path))?.title !== discSet.title
+                )
+              : current.items;
 
-      if (existingIndex >= 0) {
-        // Update existing entry
-        playlist.items[existingIndex] = playlistEntry;
-      } else {
-        // Add new entry
-        playlist.items.push(playlistEntry);
-      }
+          // Check if entry already exists; unknown CRCs never match
+          const existingIndex = items.findIndex(
+            (e) =>
+              e.path === playlistEntry.path ||
+              (rom.hashes !== undefined && e.crc32 === playlistEntry.crc32)
+          );
 
-      // Write playlist back
-      await writeFile(
-        playlistPath,
-        JSON.stringify(playlist, null, JSON_INDENT),
-        'utf-8'
+          return {
+            ...current,
+            items:
+              existingIndex >= 0
+                ? items.map((e, i) => (i === existingIndex ? playlistEntry : e))
+                : [...items, playlistEntry],
+          };
+        }
       );
 
       return {
@@ -165,6 +173,132 @@ export class Promoter implements IPromoter {
     }
   }
 
+  /**
+   * Removes a promoted ROM from the sync directory and its playlist
+   * Disc sets lose their .m3u; files that were never promoted are skipped
+   */
+  async demoteROM(rom: ROMFile): Promise<PhaseResult<string[]>> {
+    try {
+      const syncPath = this.syncPathOf(rom);
+      const syncDir = dirname(syncPath);
+      const candidates = [
+        syncPath,
+        ...(rom.companionFiles ?? []).map((file) =>
+          join(syncDir, basename(file))
+        ),
+        ...(rom.discSet !== undefined
+          ? [join(syncDir, rom.discSet.playlist)]
+          : []),
+      ];
+
+      const removed: string[] = [];
+      for (const path of candidates) {
+        if (existsSync(path)) {
+          await rm(path, { force: true });
+          removed.push(path);
+        }
+      }
+
+      const playlistPath = join(
+        this.config.directories.sync.playlists,
+        `${rom.platform}.lpl`
+      );
+      let removedFromPlaylist = false;
+
+      if (existsSync(playlistPath)) {
+        const itemPath = this.playlistItemPath(rom);
+        await updateJsonFile(playlistPath, parsePlaylist, (current) => {
+          // Removed between the existence check and the lock
+          const playlist = current ?? emptyPlaylist();
+          const items = playlist.items.filter((e) => e.path !== itemPath);
+          removedFromPlaylist = items.length !== playlist.items.length;
+          return { ...playlist, items };
+        });
+      }
+
+      return {
+        success: true,
+        data: removed,
+        metadata: {
+          demotedAt: new Date().toISOString(),
+          playlistPath,
+          removedFromPlaylist,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        // TEST-007: Skip coverage - defensive check for non-Error exception
+        error: error instanceof Error ? error.message : 'Demotion failed',
+      };
+    }
+  }
+
+  /**
+   * Sync directory path of a promoted ROM
+   */
+  private syncPathOf(rom: ROMFile): string {
+    return join(
+      this.config.directories.sync.content.roms,
+      rom.platform ?? 'unknown',
+      rom.filename
+    );
+  }
+
+  /**
+   * Path a ROM is launched from in its playlist
+   * Disc sets use their .m3u, multi-track discs their cue sheet and zipped
+   * content archive.zip#entry
+   */
+  private playlistItemPath(rom: ROMFile): string {
+    const syncPath = this.syncPathOf(rom);
+
+    if (rom.discSet !== undefined) {
+      return join(dirname(syncPath), rom.discSet.playlist);
+    }
+
+    if (isIntactArchive(rom) && rom.entryName !== undefined) {
+      return archiveReference(syncPath, rom.entryName);
+    }
+
+    const cueSheet = rom.companionFiles?.find(
+      (file) => extname(file).toLowerCase() === CUE_EXTENSION
+    );
+    return cueSheet !== undefined
+      ? join(dirname(syncPath), basename(cueSheet))
+      : syncPath;
+  }
+
+  /**
+   * Discs of a set known to the platform manifest, plus the current one
+   * Lets a re-ingested disc rebuild an .m3u that lost entries
+   */
+  private async discSetMembers(
+    platform: string | undefined,
+    discSet: DiscSetMembership
+  ): Promise<DiscSetMembership[]> {
+    let entries: ManifestEntry[] = [];
+    try {
+      const index = await HashIndex.open(
+        this.config.directories.archive.manifests
+      );
+      entries = index.entries(`${platform ?? 'unknown'}.json`);
+    } catch {
+      // No readable manifests: only the current disc is known
+    }
+
+    const members = entries
+      .map((entry) => entry.discSet)
+      .filter(
+        (member): member is DiscSetMembership =>
+          member !== undefined &&
+          member.playlist === discSet.playlist &&
+          member.disc !== discSet.disc
+      );
+
+    return [...members, discSet];
+  }
+
   /**
    * Syncs thumbnails (optional)
    */
@@ -0,0 +1,110 @@
+/**
+ * ROM Hashes
+ * Computes CRC-32, MD5, SHA-1 and SHA-256 in a single streaming pass
+ * Following SRP - single responsibility: content checksums
+ *
+ * Rule of Three: the Validator, the Promoter's playlist entries and the
+ * BatchProcessor's playlists all need the same checksums of one read.
+ */
+
+import { createHash } from 'node:crypto';
+import { createReadStream } from 'node:fs';
+
+import type {
+  HeaderlessHashes,
+  RomHashes,
+} from '../interfaces/pipeline.interface.js';
+
+import { crc32, formatCrc32 } from './crc32.js';
+
+/** RetroArch playlist value when the CRC-32 is not known */
+const UNKNOWN_CRC32 = '00000000';
+/** RetroArch marks checksum values with their type, e.g. "1A2B3C4D|crc" */
+const PLAYLIST_CRC32_SUFFIX = '|crc';
+
+/**
+ * Hashes every chunk of a stream with all supported algorithms
+ */
+export async function hashStream(
+  stream: AsyncIterable<Buffer>
+): Promise<RomHashes> {
+  const hasher = new RomHasher();
+  for await (const chunk of stream) {
+    hasher.update(chunk);
+  }
+  return hasher.digest();
+}
+
+/**
+ * Hashes a stream in full and without its leading header in one pass
+ * `headerSizeOf` sees the first chunk; `headerless` is omitted when it
+ * returns 0
+ */
+export async function hashStreamHeaderless(
+  stream: AsyncIterable<Buffer>,
+  headerSizeOf: (start: Buffer) => number
+): Promise<{ hashes: RomHashes; headerless?: HeaderlessHashes }> {
+  const full = new RomHasher();
+  const headerless = new RomHasher();
+  let headerSize: number | undefined;
+  let skipped = 0;
+
+  for await (const chunk of stream) {
+    headerSize ??= headerSizeOf(chunk);
+    full.update(chunk);
+    if (headerSize > 0) {
+      const skip = Math.min(headerSize - skipped, chunk.length);
+      skipped += skip;
+      headerless.update(chunk.subarray(skip));
+    }
+  }
+
+  return {
+    hashes: full.digest(),
+    ...(headerSize !== undefined &&
+      headerSize > 0 && {
+        headerless: { headerSize, hashes: headerless.digest() },
+      }),
+  };
+}
+
+/**
+ * Hashes a file on disk
+ */
+export async function hashFile(filePath: string): Promise<RomHashes> {
+  return hashStream(createReadStream(filePath));
+}
+
+/**
+ * Formats a CRC-32 for a RetroArch playlist entry: uppercase hex + "|crc"
+ */
+export function playlistCrc32(crc?: string): string {
+  return `${(crc ?? UNKNOWN_CRC32).toUpperCase()}${PLAYLIST_CRC32_SUFFIX}`;
+}
+
+/**
+ * CRC-32, MD5, SHA-1 and SHA-256 fed from the same chunks
+ * Exported for callers that see the chunks as they arrive, e.g. uploads
+ */
+export class RomHasher {
+  private readonly md5 = createHash('md5');
+  private readonly sha1 = createHash('sha1');
+  private readonly sha256 = createHash('sha256');
+  private crc = 0;
+
+  update(chunk: Buffer): void {
+    this.crc = crc32(chunk, this.crc);
+    this.md5.update(chunk);
+    this.sha1.update(chunk);
+    this.sha256.update(chunk);
+  }
+
+  digest(): RomHashes {
+    return {
+      crc32: formatCrc32(this.crc),
+      md5: this.md5.digest('hex'),
+      sha1: this.sha1.digest('hex'),
+      sha256: this.sha256.digest('hex'),
+    };
+  }
+}
@@ -0,0 +1,305 @@
+/**
+ * ROM Patch Formats
+ * Parses and applies IPS, BPS and UPS patches
+ * Following SRP - single responsibility: patch file formats
+ *
+ * Current problem: translations and romhacks ship as patches against a
+ * specific dump; applying one to the wrong ROM silently produces garbage.
+ */
+
+import { extname } from 'node:path';
+
+import type { PatchFormat } from '../interfaces/pipeline.interface.js';
+
+import { crc32, formatCrc32 } from './crc32.js';
+
+export const PATCH_EXTENSIONS: Readonly<Record<string, PatchFormat>> = {
+  '.ips': 'ips',
+  '.bps': 'bps',
+  '.ups': 'ups',
+};
+
+/**
+ * What a patch declares about its input and output
+ * BPS and UPS embed sizes and CRC-32s; IPS embeds nothing
+ */
+export interface PatchHeader {
+  format: PatchFormat;
+  sourceSize?: number;
+  targetSize?: number;
+  /** Lowercase hex, like `RomHashes.crc32` */
+  sourceCrc32?: string;
+  targetCrc32?: string;
+}
+
+const IPS_MAGIC = 'PATCH';
+const IPS_EOF = 0x454f46; // "EOF"
+const BPS_MAGIC = 'BPS1';
+const UPS_MAGIC = 'UPS1';
+const MAGIC_LENGTH = 4;
+/** Source, target and patch CRC-32 */
+const FOOTER_LENGTH = 12;
+const CRC32_BYTES = 4;
+
+const IPS_OFFSET_BYTES = 3;
+const IPS_SIZE_BYTES = 2;
+
+const VARINT_DATA_MASK = 0x7f;
+const VARINT_END_BIT = 0x80;
+const VARINT_SHIFT = 7;
+
+/** Low two bits of an action word; arithmetic keeps lengths above 2^31 */
+const BPS_ACTION_COUNT = 4;
+const BPS_SOURCE_READ = 0;
+const BPS_TARGET_READ = 1;
+const BPS_SOURCE_COPY = 2;
+/** Signed numbers keep the sign in the lowest bit */
+const SIGN_DIVISOR = 2;
+
+/**
+ * Patch format by file extension, or null for other files
+ */
+export function patchFormatOf(filePath: string): PatchFormat | null {
+  return PATCH_EXTENSIONS[extname(filePath).toLowerCase()] ?? null;
+}
+
+/**
+ * Reads the header of a patch; throws when the magic does not match
+ */
+export function readPatchHeader(patch: Buffer): PatchHeader {
+  if (patch.toString('latin1', 0, IPS_MAGIC.length) === IPS_MAGIC) {
+    return { format: 'ips' };
+  }
+
+  const magic = patch.toString('latin1', 0, MAGIC_LENGTH);
+  if (magic !== BPS_MAGIC && magic !== UPS_MAGIC) {
+    throw new Error('Not an IPS, BPS or UPS patch');
+  }
+  if (patch.length < MAGIC_LENGTH + FOOTER_LENGTH) {
+    throw new Error(`Truncated ${magic} patch`);
+  }
+
+  const reader = new PatchReader(patch, MAGIC_LENGTH);
+  const sourceSize = reader.varint();
+  const targetSize = reader.varint();
+  const footer = patch.length - FOOTER_LENGTH;
+
+  return {
+    format: magic === BPS_MAGIC ? 'bps' : 'ups',
+    sourceSize,
+    targetSize,
+    sourceCrc32: formatCrc32(patch.readUInt32LE(footer)),
+    targetCrc32: formatCrc32(patch.readUInt32LE(footer + CRC32_BYTES)),
+  };
+}
+
+/**
+ * Applies a patch, verifying the embedded checksums of BPS and UPS
+ * The patch CRC-32 is checked first, then the source, then the result
+ */
+export function applyPatch(source: Buffer, patch: Buffer): Buffer {
+  const header = readPatchHeader(patch);
+  if (header.format === 'ips') {
+    return applyIps(source, patch);
+  }
+
+  const patchCrc = patch.readUInt32LE(patch.length - CRC32_BYTES);
+  if (crc32(patch.subarray(0, patch.length - CRC32_BYTES)) !== patchCrc) {
+    throw new Error('Patch is corrupt: patch CRC-32 mismatch');
+  }
+  if (
+    source.length !== header.sourceSize ||
+    formatCrc32(crc32(source)) !== header.sourceCrc32
+  ) {
+    throw new Error(
+      `Base ROM does not match patch source (expected CRC-32 ${header.sourceCrc32}, ${header.sourceSize} bytes)`
+    );
+  }
+
+  const target =
+    header.format === 'bps'
+      ? applyBps(source, patch, header.targetSize ?? 0)
+      : applyUps(source, patch, header.targetSize ?? 0);
+
+  if (formatCrc32(crc32(target)) !== header.targetCrc32) {
+    throw new Error(
+      `Patched ROM does not match patch target CRC-32 ${header.targetCrc32}`
+    );
+  }
+  return target;
+}
+
+/**
+ * IPS: 24-bit offset, 16-bit length, data (or RLE when length is 0),
+ * terminated by "EOF" and an optional 24-bit truncation size
+ */
+function applyIps(source: Buffer, patch: Buffer): Buffer {
+  const chunks: Array<{ offset: number; data: Buffer }> = [];
+  let position = IPS_MAGIC.length;
+  let size = source.length;
+  let truncate: number | undefined;
+
+  for (;;) {
+    if (position + IPS_OFFSET_BYTES > patch.length) {
+      throw new Error('Truncated IPS patch: missing EOF marker');
+    }
+    const offset = patch.readUIntBE(position, IPS_OFFSET_BYTES);
+    position += IPS_OFFSET_BYTES;
+
+    if (offset === IPS_EOF) {
+      if (position + IPS_OFFSET_BYTES <= patch.length) {
+        truncate = patch.readUIntBE(position, IPS_OFFSET_BYTES);
+      }
+      break;
+    }
+
+    let length = patch.readUInt16BE(position);
+    position += IPS_SIZE_BYTES;
+    let data: Buffer;
+
+    if (length === 0) {
+      length = patch.readUInt16BE(position);
+      data = Buffer.alloc(length, patch[position + IPS_SIZE_BYTES] ?? 0);
+      position += IPS_SIZE_BYTES + 1;
+    } else {
+      data = patch.subarray(position, position + length);
+      position += length;
+    }
+
+    chunks.push({ offset, data });
+    size = Math.max(size, offset + length);
+  }
+
+  const target = Buffer.alloc(size);
+  source.copy(target);
+  for (const { offset, data } of chunks) {
+    data.copy(target, offset);
+  }
+  return truncate !== undefined ? target.subarray(0, truncate) : target;
+}
+
+/**
+ * BPS: actions copy from the source, the patch or earlier target bytes
+ */
+function applyBps(source: Buffer, patch: Buffer, targetSize: number): Buffer {
+  const reader = new PatchReader(patch, MAGIC_LENGTH);
+  reader.varint(); // source size
+  reader.varint(); // target size
+  reader.skip(reader.varint()); // metadata
+
+  const target = Buffer.alloc(targetSize);
+  const end = patch.length - FOOTER_LENGTH;
+  let output = 0;
+  let sourceRelative = 0;
+  let targetRelative = 0;
+
+  while (reader.position < end) {
+    const data = reader.varint();
+    const action = data % BPS_ACTION_COUNT;
+    const length = Math.floor(data / BPS_ACTION_COUNT) + 1;
+
+    if (output + length > targetSize) {
+      throw new Error('BPS patch writes past the target size');
+    }
+
+    if (action === BPS_SOURCE_READ) {
+      source.copy(target, output, output, output + length);
+      output += length;
+    } else if (action === BPS_TARGET_READ) {
+      reader.bytes(length).copy(target, output);
+      output += length;
+    } else if (action === BPS_SOURCE_COPY) {
+      sourceRelative += reader.signedVarint();
+      source.copy(target, output, sourceRelative, sourceRelative + length);
+      sourceRelative += length;
+      output += length;
+    } else {
+      // Target copy: byte by byte, the ranges may overlap
+      targetRelative += reader.signedVarint();
+      for (let i = 0; i < length; i++) {
+        target[output++] = target[targetRelative++] ?? 0;
+      }
+    }
+  }
+
+  return target;
+}
+
+/**
+ * UPS: skip counts followed by zero-terminated XOR runs
+ */
+function applyUps(source: Buffer, patch: Buffer, targetSize: number): Buffer {
+  const reader = new PatchReader(patch, MAGIC_LENGTH);
+  reader.varint(); // source size
+  reader.varint(); // target size
+
+  const target = Buffer.alloc(targetSize);
+  source.copy(target, 0, 0, Math.min(source.length, targetSize));
+  const end = patch.length - FOOTER_LENGTH;
+  let output = 0;
+
+  while (reader.position < end) {
+    output += reader.varint();
+    for (;;) {
+      const xor = reader.bytes(1)[0] ?? 0;
+      if (output < targetSize) {
+        target[output] = (target[output] ?? 0) ^ xor;
+      }
+      output++;
+      if (xor === 0) {
+        break;
+      }
+    }
+  }
+
+  return target;
+}
+
+/**
+ * Sequential reader for the varint encoding shared by BPS and UPS
+ */
+class PatchReader {
+  private readonly patch: Buffer;
+  position: number;
+
+  constructor(patch: Buffer, start: number) {
+    this.patch = patch;
+    this.position = start;
+  }
+
+  varint(): number {
+    let value = 0;
+    let shift = 1;
+    for (;;) {
+      const byte = this.patch[this.position++];
+      if (byte === undefined) {
+        throw new Error('Truncated patch: unterminated number');
+      }
+      value += (byte & VARINT_DATA_MASK) * shift;
+      if ((byte & VARINT_END_BIT) !== 0) {
+        return value;
+      }
+      shift *= 1 << VARINT_SHIFT;
+      value += shift;
+    }
+  }
+
+  signedVarint(): number {
+    const value = this.varint();
+    const magnitude = Math.floor(value / SIGN_DIVISOR);
+    return value % SIGN_DIVISOR === 1 ? -magnitude : magnitude;
+  }
+
+  bytes(length: number): Buffer {
+    if (this.position + length > this.patch.length) {
+      throw new Error('Truncated patch: data runs past the end');
+    }
+    const data = this.patch.subarray(this.position, this.position + length);
+    this.position += length;
+    return data;
+  }
+
+  skip(length: number): void {
+    this.bytes(length);
+  }
+}
@@ -4,22 +4,32 @@
  * Following SRP - single responsibility: validation
  */
 
-import { createHash } from 'node:crypto';
 import { createReadStream, access } from 'node:fs';
-import { readdir, readFile } from 'node:fs/promises';
+import { readdir } from 'node:fs/promises';
 import { constants } from 'node:fs';
 import { dirname, basename, extname, join } from 'node:path';
+import type { Readable } from 'node:stream';
 
 import type { PlatformConfig } from '../interfaces/platform-config.interface.js';
 import type {
   IValidator,
   PhaseResult,
   ROMFile,
-  ManifestEntry,
+  DatMatch,
 } from '../interfaces/pipeline.interface.js';
 
+import { CUE_EXTENSION, verifyCueSheet } from './cue-sheet.js';
+import { DatIndex } from './dat-index.js';
+import { HashIndex } from './hash-index.js';
+import { readHeader, romHeaderSize } from './header-detector.js';
+import { hashStreamHeaderless } from './rom-hashes.js';
+import { isIntactArchive } from './zip-contents.js';
+import { listZipEntries, openZipEntryStream } from './zip-reader.js';
+
 export class Validator implements IValidator {
   private readonly config: PlatformConfig;
+  /** Loaded once, on the first DAT verification */
+  private datIndex: Promise<DatIndex> | undefined;
 
   constructor(config: PlatformConfig) {
     this.config = config;
@@ -59,9 +69,15 @@ export class Validator implements IValidator {
 
   /**
    * Checks for companion files (cue sheets, etc.)
+   * Cue sheets are parsed: every referenced track becomes a companion and
+   * missing or truncated tracks fail the check
    */
   async checkCompanionFiles(rom: ROMFile): Promise<PhaseResult<string[]>> {
     try {
+      if (extname(rom.path).toLowerCase() === CUE_EXTENSION) {
+        return await this.checkCueTracks(rom.path, rom.path);
+      }
+
       const platform = this.config.platforms.find((p) => p.id === rom.platform);
       if (!platform?.supportedCompanionFiles) {
         return {
@@ -88,6 +104,14 @@ export class Validator implements IValidator {
         );
       });
 
+      // A track with a matching cue sheet travels with the whole disc
+      const cueFile = companionFiles.find(
+        (file) => extname(file).toLowerCase() === CUE_EXTENSION
+      );
+      if (cueFile !== undefined) {
+        return await this.checkCueTracks(join(dir, cueFile), rom.path);
+      }
+
       return {
         success: true,
         data: companionFiles.map((file) => join(dir, file)),
@@ -105,116 +129,210 @@ export class Validator implements IValidator {
     }
   }
 
+  /**
+   * Verifies a cue sheet's tracks and lists the disc's other files
+   */
+  private async checkCueTracks(
+    cuePath: string,
+    romPath: string
+  ): Promise<PhaseResult<string[]>> {
+    const verification = await verifyCueSheet(cuePath);
+    const companions = [cuePath, ...verification.files].filter(
+      (file) => file !== romPath
+    );
+
+    if (verification.problems.length > 0) {
+      const filesWith = (issue: string): string[] =>
+        verification.problems
+          .filter((problem) => problem.issue === issue)
+          .map((problem) => problem.file);
+
+      return {
+        success: false,
+        error: `Invalid cue sheet ${basename(cuePath)}: ${verification.problems
+          .map((problem) => problem.message)
+          .join('; ')}`,
+        data: companions,
+        metadata: {
+          checkedAt: new Date().toISOString(),
+          cueSheet: cuePath,
+          missingTracks: filesWith('missing'),
+          truncatedTracks: filesWith('truncated'),
+          problems: verification.problems,
+        },
+      };
+    }
+
+    return {
+      success: true,
+      data: companions,
+      metadata: {
+        checkedAt: new Date().toISOString(),
+        companionFilesFound: companions.length,
+        cueSheet: cuePath,
+      },
+    };
+  }
+
   /**
    * Generates hash for file
+   * CRC-32, MD5, SHA-1 and SHA-256 are computed in one pass; `data` is the
+   * SHA-256 and `metadata.hashes` carries all of them
+   * NES and SNES dumps with a header are also hashed without it
+   * (`metadata.headerless`)
+   * ROMs kept inside a zip are hashed on the decompressed entry
    */
   async generateHash(rom: ROMFile): Promise<PhaseResult<string>> {
-    return new Promise((resolve) => {
-      try {
-        const hash = createHash('sha256');
-        const stream = createReadStream(rom.path);
-
-        stream.on('data', (chunk) => hash.update(chunk));
-
-        stream.on('end', () => {
-          const digest = hash.digest('hex');
-          resolve({
-            success: true,
-            data: digest,
-            metadata: {
-              algorithm: 'sha256',
-              generatedAt: new Date().toISOString(),
-              fileSize: rom.size,
-            },
-          });
-        });
+    try {
+      const { hashes, headerless } = await this.hashContent(rom);
 
-        stream.on('error', (error) => {
-          resolve({
-            success: false,
-            error: error.message,
-          });
-        });
-      } catch (error) {
-        resolve({
-          success: false,
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
+      return {
+        success: true,
+        data: hashes.sha256,
+        metadata: {
+          algorithm: 'sha256',
+          hashes,
+          ...(headerless !== undefined && { headerless }),
+          generatedAt: new Date().toISOString(),
+          fileSize: rom.size,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Hashes the ROM's content in full and without any header
+   * Checksums already on the ROM, taken while it was uploaded, are reused
+   * when it has no header to strip, so only its first bytes are read
+   */
+  private async hashContent(
+    rom: ROMFile
+  ): ReturnType<typeof hashStreamHeaderless> {
+    if (rom.hashes !== undefined && !isIntactArchive(rom)) {
+      const start = await readHeader(rom.path);
+      if (romHeaderSize(rom.platform, start, rom.size) === 0) {
+        return { hashes: rom.hashes };
       }
-    });
+    }
+
+    return hashStreamHeaderless(await this.openContentStream(rom), (start) =>
+      romHeaderSize(rom.platform, start, rom.size)
+    );
   }
 
   /**
-   * Checks for duplicates by searching all platform manifests
+   * Opens the ROM's content, reading through an intact zip container
    */
-  async checkDuplicate(hash: string): Promise<PhaseResult<boolean>> {
-    try {
-      const manifestsDir = this.config.directories.archive.manifests;
-      const manifestErrors: string[] = [];
+  private async openContentStream(rom: ROMFile): Promise<Readable> {
+    if (!isIntactArchive(rom)) {
+      return createReadStream(rom.path);
+    }
 
-      // Read all manifest files in the manifests directory
-      let manifestFiles: string[] = [];
-      try {
-        manifestFiles = await readdir(manifestsDir);
-      } catch {
-        // Directory doesn't exist or can't be read - no duplicates
-        return {
-          success: true,
-          data: false,
-          metadata: {
-            checkedAt: new Date().toISOString(),
-          },
-        };
-      }
+    const entries = await listZipEntries(rom.path);
+    const entry = entries.find((e) => e.name === rom.entryName);
+    if (entry === undefined) {
+      throw new Error(`Archive entry not found: ${rom.entryName}`);
+    }
+    return openZipEntryStream(rom.path, entry);
+  }
 
-      // Filter to only .json files
-      const jsonFiles = manifestFiles.filter((file) => file.endsWith('.json'));
-
-      // Search each manifest for the hash
-      for (const manifestFile of jsonFiles) {
-        try {
-          const manifestPath = join(manifestsDir, manifestFile);
-          const data = await readFile(manifestPath, 'utf-8');
-          const manifest = JSON.parse(data) as ManifestEntry[];
-
-          // Search for hash in this manifest
-          const duplicate = manifest.find((entry) => entry.hash === hash);
-          if (duplicate) {
-            return {
-              success: true,
-              data: true,
-              metadata: {
-                checkedAt: new Date().toISOString(),
-                foundInManifest: manifestFile,
-                duplicateOf: duplicate.filename,
-              },
-            };
-          }
-        } catch (error) {
-          // Track malformed manifests but continue searching
-          manifestErrors.push(
-            `${manifestFile}: ${error instanceof Error ? error.message : 'Unknown error'}`
-          );
-        }
-      }
+  /**
+   * Verifies hashed content against the DATs in `archive.dats`
+   * Zipped ROMs match on their entry name; without DATs every ROM is
+   * `unknown`
+   */
+  async verifyAgainstDat(rom: ROMFile): Promise<PhaseResult<DatMatch>> {
+    if (rom.hashes === undefined) {
+      return {
+        success: false,
+        error: 'ROM must be hashed before DAT verification',
+      };
+    }
 
-      // No duplicate found
-      const result: PhaseResult<boolean> = {
+    const datDirectory = this.config.directories.archive.dats;
+    if (datDirectory === undefined) {
+      return {
         success: true,
-        data: false,
+        data: { status: 'unknown' },
         metadata: {
           checkedAt: new Date().toISOString(),
+          datsConfigured: false,
         },
       };
+    }
 
-      if (manifestErrors.length > 0) {
-        result.metadata = {
-          ...result.metadata,
-          manifestErrors,
-        };
-      }
+    try {
+      this.datIndex ??= DatIndex.load(datDirectory);
+      const index = await this.datIndex;
+      const filename = basename(rom.entryName ?? rom.filename);
+      // DATs list headerless data; a name-only match waits for the full file
+      const headerlessMatch =
+        rom.headerless !== undefined
+          ? index.lookup(
+              rom.headerless.hashes,
+              rom.size - rom.headerless.headerSize,
+              filename
+            )
+          : undefined;
+      const match =
+        headerlessMatch?.matchedBy === 'sha1' ||
+        headerlessMatch?.matchedBy === 'crc32'
+          ? headerlessMatch
+          : index.lookup(rom.hashes, rom.size, filename);
 
-      return result;
+      return {
+        success: true,
+        data: match,
+        metadata: {
+          checkedAt: new Date().toISOString(),
+          dats: index.dats,
+          ...(index.errors.length > 0 && { datErrors: index.errors }),
+        },
+      };
+    } catch (error) {
+      this.datIndex = undefined;
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Checks for duplicates in the archive's hash index
+   * With `headerlessHash`, dumps differing only in their header match too;
+   * either hash may equal either hash of an archived entry, so a stripped
+   * ROM matches its headered original
+   */
+  async checkDuplicate(
+    hash: string,
+    headerlessHash?: string
+  ): Promise<PhaseResult<boolean>> {
+    try {
+      const index = await HashIndex.open(
+        this.config.directories.archive.manifests
+      );
+      const duplicate = index.findDuplicate(hash, headerlessHash);
+      const manifestErrors = index.errors;
+
+      return {
+        success: true,
+        data: duplicate !== undefined,
+        metadata: {
+          checkedAt: new Date().toISOString(),
+          ...(duplicate !== undefined && {
+            foundInManifest: duplicate.file,
+            duplicateOf: duplicate.entry.filename,
+          }),
+          // Malformed manifests are reported, not fatal
+          ...(manifestErrors.length > 0 && { manifestErrors }),
+        },
+      };
     } catch (error) {
       return {
         success: false,
@@ -0,0 +1,136 @@
+/**
+ * ZIP Contents Classification
+ * Classifies each entry of a zip archive without extracting it
+ * Following SRP - single responsibility: per-entry platform resolution
+ */
+
+import { basename, dirname, extname, join } from 'node:path';
+
+import type { ROMFile } from '../interfaces/pipeline.interface.js';
+
+import {
+  detectPlatformFromBuffer,
+  HEADER_PROBE_SIZE,
+  type HeaderDetection,
+} from './header-detector.js';
+import type {
+  PlatformResolution,
+  PlatformResolver,
+  SiblingSource,
+} from './platform-resolver.js';
+import {
+  listZipEntries,
+  readZipEntryHead,
+  ZIP_EXTENSION,
+  type ZipEntry,
+} from './zip-reader.js';
+
+/** Entries larger than this are not read as text for cue lookups */
+const MAX_SIBLING_TEXT_SIZE = 0x10000;
+
+/**
+ * Zip entry together with its platform resolution
+ */
+export interface ClassifiedEntry {
+  entry: ZipEntry;
+  header: HeaderDetection | null;
+  resolution: PlatformResolution;
+}
+
+/**
+ * Outcome of classifying an archive
+ */
+export interface ZipContents {
+  /** Entries resolved to a platform */
+  roms: ClassifiedEntry[];
+  /** Entries with a ROM extension but undecidable platform */
+  unresolved: ClassifiedEntry[];
+  /** Entry names that are not ROMs (readme, nfo, ...) */
+  skipped: string[];
+}
+
+/**
+ * Whether a path is a zip archive, by extension
+ */
+export function isZipArchive(filePath: string): boolean {
+  return extname(filePath).toLowerCase() === ZIP_EXTENSION;
+}
+
+/**
+ * Reference to an entry inside an archive, e.g. `archive.zip#game.nes`
+ */
+export function archiveReference(path: string, entryName: string): string {
+  return `${path}#${entryName}`;
+}
+
+/**
+ * Whether a ROM still lives inside its (unextracted) zip container
+ */
+export function isIntactArchive(rom: ROMFile): boolean {
+  return (
+    rom.containerPath !== undefined &&
+    rom.entryName !== undefined &&
+    rom.path === rom.containerPath
+  );
+}
+
+/**
+ * Classifies every file entry of a zip archive
+ * Headers are probed on decompressed entry data; companion entries in
+ * the same archive take part in sibling resolution
+ */
+export async function classifyZipContents(
+  zipPath: string,
+  resolver: PlatformResolver
+): Promise<ZipContents> {
+  const entries = await listZipEntries(zipPath);
+  const siblings = archiveSiblings(zipPath, entries);
+  const contents: ZipContents = { roms: [], unresolved: [], skipped: [] };
+
+  for (const entry of entries) {
+    const head = await readZipEntryHead(zipPath, entry, HEADER_PROBE_SIZE);
+    const header = detectPlatformFromBuffer(head, entry.uncompressedSize);
+
+    // Inner folders count for folder resolution alongside the zip's own
+    const resolution = await resolver.resolve(
+      join(dirname(zipPath), entry.name),
+      entry.uncompressedSize,
+      header,
+      siblings
+    );
+
+    if (resolution.platform !== undefined) {
+      contents.roms.push({ entry, header, resolution });
+    } else if (resolution.candidates.length > 0) {
+      contents.unresolved.push({ entry, header, resolution });
+    } else {
+      contents.skipped.push(entry.name);
+    }
+  }
+
+  return contents;
+}
+
+/**
+ * Sibling source over the other entries of the same archive
+ */
+function archiveSiblings(zipPath: string, entries: ZipEntry[]): SiblingSource {
+  return {
+    names: entries.map((entry) => basename(entry.name)),
+    read: async (name): Promise<string> => {
+      const entry = entries.find((e) => basename(e.name) === name);
+      if (
+        entry === undefined ||
+        entry.uncompressedSize > MAX_SIBLING_TEXT_SIZE
+      ) {
+        return '';
+      }
+      const data = await readZipEntryHead(
+        zipPath,
+        entry,
+        entry.uncompressedSize
+      );
+      return data.toString('utf-8');
+    },
+  };
+}
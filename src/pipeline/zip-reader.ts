@@ -0,0 +1,275 @@
+/**
+ * ZIP Archive Reader
+ * Lists and streams stored/deflate entries using Node's zlib only
+ * Following SRP - single responsibility: ZIP container format
+ *
+ * Current problem: most dumps arrive zipped and nothing could open them;
+ * no external unzip tool is available on target devices.
+ */
+
+import { createReadStream, createWriteStream } from 'node:fs';
+import { open, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { Readable, Transform } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { createInflateRaw } from 'node:zlib';
+
+import { crc32 } from './crc32.js';
+
+export const ZIP_EXTENSION = '.zip';
+
+/**
+ * Compression methods this reader understands
+ */
+export type ZipMethod = 'stored' | 'deflate';
+
+/**
+ * Central directory entry
+ */
+export interface ZipEntry {
+  name: string;
+  method: ZipMethod;
+  crc32: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+// End of central directory record
+const EOCD_SIGNATURE = 0x06054b50;
+const EOCD_MIN_SIZE = 22;
+const EOCD_MAX_COMMENT = 0xffff;
+const EOCD_ENTRY_COUNT_OFFSET = 10;
+const EOCD_CD_SIZE_OFFSET = 12;
+const EOCD_CD_OFFSET_OFFSET = 16;
+const ZIP64_MARKER_16 = 0xffff;
+const ZIP64_MARKER_32 = 0xffffffff;
+
+// Central directory file header
+const CD_SIGNATURE = 0x02014b50;
+const CD_HEADER_SIZE = 46;
+const CD_FLAGS_OFFSET = 8;
+const CD_METHOD_OFFSET = 10;
+const CD_CRC_OFFSET = 16;
+const CD_COMPRESSED_OFFSET = 20;
+const CD_UNCOMPRESSED_OFFSET = 24;
+const CD_NAME_LENGTH_OFFSET = 28;
+const CD_EXTRA_LENGTH_OFFSET = 30;
+const CD_COMMENT_LENGTH_OFFSET = 32;
+const CD_LOCAL_OFFSET_OFFSET = 42;
+
+// Local file header
+const LOCAL_SIGNATURE = 0x04034b50;
+const LOCAL_HEADER_SIZE = 30;
+const LOCAL_NAME_LENGTH_OFFSET = 26;
+const LOCAL_EXTRA_LENGTH_OFFSET = 28;
+
+const FLAG_ENCRYPTED = 0x0001;
+const FLAG_UTF8 = 0x0800;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+/**
+ * Lists file entries (directories excluded) from the central directory
+ */
+export async function listZipEntries(zipPath: string): Promise<ZipEntry[]> {
+  const handle = await open(zipPath, 'r');
+  try {
+    const { size } = await handle.stat();
+    const tailLength = Math.min(size, EOCD_MIN_SIZE + EOCD_MAX_COMMENT);
+    const tail = Buffer.alloc(tailLength);
+    await handle.read(tail, 0, tailLength, size - tailLength);
+
+    const eocd = findEndOfCentralDirectory(tail);
+    if (eocd === -1) {
+      throw new Error(
+        'Invalid ZIP archive: end of central directory not found'
+      );
+    }
+
+    const entryCount = tail.readUInt16LE(eocd + EOCD_ENTRY_COUNT_OFFSET);
+    const cdSize = tail.readUInt32LE(eocd + EOCD_CD_SIZE_OFFSET);
+    const cdOffset = tail.readUInt32LE(eocd + EOCD_CD_OFFSET_OFFSET);
+    if (entryCount === ZIP64_MARKER_16 || cdOffset === ZIP64_MARKER_32) {
+      throw new Error('ZIP64 archives are not supported');
+    }
+
+    const directory = Buffer.alloc(cdSize);
+    await handle.read(directory, 0, cdSize, cdOffset);
+
+    return parseCentralDirectory(directory, entryCount);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Opens a decompressed stream for an entry
+ */
+export async function openZipEntryStream(
+  zipPath: string,
+  entry: ZipEntry
+): Promise<Readable> {
+  if (entry.compressedSize === 0) {
+    return Readable.from([]);
+  }
+
+  const dataStart = await entryDataOffset(zipPath, entry);
+  const raw = createReadStream(zipPath, {
+    start: dataStart,
+    end: dataStart + entry.compressedSize - 1,
+  });
+
+  return entry.method === 'deflate' ? raw.pipe(createInflateRaw()) : raw;
+}
+
+/**
+ * Reads up to `length` decompressed bytes from the start of an entry
+ * Used for header probes without inflating the whole entry
+ */
+export async function readZipEntryHead(
+  zipPath: string,
+  entry: ZipEntry,
+  length: number
+): Promise<Buffer> {
+  const stream = await openZipEntryStream(zipPath, entry);
+  const chunks: Buffer[] = [];
+  let total = 0;
+
+  try {
+    for await (const chunk of stream) {
+      const buffer = chunk as Buffer;
+      chunks.push(buffer);
+      total += buffer.length;
+      if (total >= length) {
+        break;
+      }
+    }
+  } finally {
+    stream.destroy();
+  }
+
+  return Buffer.concat(chunks).subarray(0, length);
+}
+
+/**
+ * Extracts an entry to disk, verifying size and CRC-32
+ */
+export async function extractZipEntry(
+  zipPath: string,
+  entry: ZipEntry,
+  destination: string
+): Promise<void> {
+  await mkdir(dirname(destination), { recursive: true });
+
+  let crc = 0;
+  let size = 0;
+  const verifier = new Transform({
+    transform(chunk: Buffer, _encoding, callback): void {
+      crc = crc32(chunk, crc);
+      size += chunk.length;
+      callback(null, chunk);
+    },
+  });
+
+  await pipeline(
+    await openZipEntryStream(zipPath, entry),
+    verifier,
+    createWriteStream(destination)
+  );
+
+  if (size !== entry.uncompressedSize || crc !== entry.crc32) {
+    throw new Error(`CRC mismatch extracting ${entry.name} from ${zipPath}`);
+  }
+}
+
+function findEndOfCentralDirectory(tail: Buffer): number {
+  for (let i = tail.length - EOCD_MIN_SIZE; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === EOCD_SIGNATURE) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function parseCentralDirectory(
+  directory: Buffer,
+  entryCount: number
+): ZipEntry[] {
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (directory.readUInt32LE(offset) !== CD_SIGNATURE) {
+      throw new Error('Invalid ZIP archive: corrupt central directory');
+    }
+
+    const flags = directory.readUInt16LE(offset + CD_FLAGS_OFFSET);
+    const methodCode = directory.readUInt16LE(offset + CD_METHOD_OFFSET);
+    const nameLength = directory.readUInt16LE(offset + CD_NAME_LENGTH_OFFSET);
+    const extraLength = directory.readUInt16LE(offset + CD_EXTRA_LENGTH_OFFSET);
+    const commentLength = directory.readUInt16LE(
+      offset + CD_COMMENT_LENGTH_OFFSET
+    );
+    const nameStart = offset + CD_HEADER_SIZE;
+    const name = directory.toString(
+      (flags & FLAG_UTF8) !== 0 ? 'utf8' : 'latin1',
+      nameStart,
+      nameStart + nameLength
+    );
+
+    if (!name.endsWith('/')) {
+      if ((flags & FLAG_ENCRYPTED) !== 0) {
+        throw new Error(`Encrypted ZIP entries are not supported: ${name}`);
+      }
+      if (methodCode !== METHOD_STORED && methodCode !== METHOD_DEFLATE) {
+        throw new Error(
+          `Unsupported ZIP compression method ${methodCode}: ${name}`
+        );
+      }
+
+      entries.push({
+        name,
+        method: methodCode === METHOD_DEFLATE ? 'deflate' : 'stored',
+        crc32: directory.readUInt32LE(offset + CD_CRC_OFFSET),
+        compressedSize: directory.readUInt32LE(offset + CD_COMPRESSED_OFFSET),
+        uncompressedSize: directory.readUInt32LE(
+          offset + CD_UNCOMPRESSED_OFFSET
+        ),
+        localHeaderOffset: directory.readUInt32LE(
+          offset + CD_LOCAL_OFFSET_OFFSET
+        ),
+      });
+    }
+
+    offset += CD_HEADER_SIZE + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+async function entryDataOffset(
+  zipPath: string,
+  entry: ZipEntry
+): Promise<number> {
+  const handle = await open(zipPath, 'r');
+  try {
+    const header = Buffer.alloc(LOCAL_HEADER_SIZE);
+    await handle.read(header, 0, LOCAL_HEADER_SIZE, entry.localHeaderOffset);
+
+    if (header.readUInt32LE(0) !== LOCAL_SIGNATURE) {
+      throw new Error(
+        `Invalid ZIP archive: bad local header for ${entry.name}`
+      );
+    }
+
+    return (
+      entry.localHeaderOffset +
+      LOCAL_HEADER_SIZE +
+      header.readUInt16LE(LOCAL_NAME_LENGTH_OFFSET) +
+      header.readUInt16LE(LOCAL_EXTRA_LENGTH_OFFSET)
+    );
+  } finally {
+    await handle.close();
+  }
+}
@@ -17,8 +17,15 @@ import escapeHtml from 'escape-html';
 import {
   getCorsConfig,
   configValidationSchema,
+  createUploadSchema,
+  batchUploadQuerySchema,
+  batchPrioritySchema,
 } from '../config/routes.config.js';
 import { platformConfig } from '../config/platform.config.js';
+import {
+  batchUploadConfig,
+  resumableUploadConfig,
+} from '../config/policy.config.js';
 
 import { PageGenerator } from './pages/page-generator.js';
 import { validateRequest } from './middleware/validation.middleware.js';
@@ -26,22 +33,86 @@ import {
   apiRateLimiter,
   strictApiRateLimiter,
   contentRateLimiter,
+  batchUploadRateLimiter,
+  uploadChunkRateLimiter,
 } from './middleware/rate-limit.middleware.js';
 import {
+  BATCH_UPLOAD_LIMITS,
+  SINGLE_UPLOAD_LIMITS,
   uploadMiddleware,
   type UploadedFile,
 } from './middleware/upload.middleware.js';
-import { PipelineOrchestrator } from './pipeline/pipeline-orchestrator.js';
+import {
+  PipelineOrchestrator,
+  type PipelineResult,
+} from './pipeline/pipeline-orchestrator.js';
 import { Classifier } from './pipeline/classifier.js';
 import { Validator } from './pipeline/validator.js';
 import { Normalizer } from './pipeline/normalizer.js';
 import { Archiver } from './pipeline/archiver.js';
 import { Promoter } from './pipeline/promoter.js';
 import { ConfigLoader } from './config/config-loader.js';
+import type { RomHashes } from './interfaces/pipeline.interface.js';
+import {
+  detectRetroArchPath,
+  generateRetroArchPaths,
+} from './config/simple-config.js';
+import { WatchFolder } from './watch-folder.js';
+import {
+  batchQueue,
+  type BatchJob,
+  type BatchJobPriority,
+  type BatchQueue,
+} from './ingestion/batch-queue.js';
+import {
+  batchProcessor,
+  type BatchProcessor,
+} from './ingestion/batch-processor.js';
+import { validateBatch } from './ingestion/batch-validator.js';
+import {
+  resumableUploads,
+  type ChunkChecksum,
+  type ChunkRejection,
+  type ResumableUpload,
+  type ResumableUploadStore,
+} from './ingestion/resumable-upload-store.js';
 
 const HTTP_STATUS_INTERNAL_ERROR = 500;
 const HTTP_STATUS_SERVICE_UNAVAILABLE = 503;
 
+/** Content type of resumable upload chunks, as in tus */
+const CHUNK_CONTENT_TYPE = 'application/offset+octet-stream';
+
+/** Response status for each reason a chunk is rejected */
+const CHUNK_REJECTION_STATUS: Record<ChunkRejection, number> = {
+  'not-found': 404,
+  busy: 423,
+  finalizing: 409,
+  'offset-mismatch': 409,
+  'too-large': 413,
+  'unsupported-checksum': 400,
+  // tus "Checksum Mismatch"
+  'checksum-mismatch': 460,
+};
+
+/**
+ * Parses an `Upload-Checksum: <algorithm> <base64 digest>` header
+ * @returns Undefined without the header, null when it is malformed
+ */
+function parseUploadChecksum(
+  header: string | string[] | undefined
+): ChunkChecksum | undefined | null {
+  if (header === undefined) {
+    return undefined;
+  }
+  const [algorithm, digest, ...rest] =
+    typeof header === 'string' ? header.trim().split(' ') : [];
+  if (algorithm === undefined || digest === undefined || rest.length > 0) {
+    return null;
+  }
+  return { algorithm, digest };
+}
+
 // Simple safe join to prevent path traversal
 function safeJoin(base: string, sub: string): string {
   const resolved = path.resolve(base, sub);
@@ -104,13 +175,31 @@ export class AppServer {
   private readonly app: Express;
   private readonly pageGenerator: PageGenerator;
   private readonly port: number;
+  private readonly uploads: ResumableUploadStore;
+  private readonly queue: BatchQueue;
+  private readonly processor: BatchProcessor;
+  /** Batch uploads are kept here until retention removes their job */
+  private readonly batchUploadDir: string;
 
   private static readonly DEFAULT_PORT = 3000;
 
-  constructor(port: number = AppServer.DEFAULT_PORT) {
+  constructor(
+    port: number = AppServer.DEFAULT_PORT,
+    uploads: ResumableUploadStore = resumableUploads,
+    queue: BatchQueue = batchQueue,
+    processor: BatchProcessor = batchProcessor,
+    batchUploadDir: string = path.resolve(
+      platformConfig.directories.workspace.staging,
+      'batch-uploads'
+    )
+  ) {
     this.app = express();
     this.pageGenerator = new PageGenerator();
     this.port = port;
+    this.uploads = uploads;
+    this.queue = queue;
+    this.processor = processor;
+    this.batchUploadDir = batchUploadDir;
 
     this.setupMiddleware();
     this.setupRoutes();
@@ -155,6 +244,9 @@ export class AppServer {
     // API Routes (from configuration)
     this.setupApiRoutes();
 
+    // Resumable upload routes for large files
+    this.setupResumableUploadRoutes();
+
     // Content index routes for Remote Downloader
     this.setupContentIndexRoutes();
 
@@ -198,92 +290,481 @@ export class AppServer {
     // POST /api/roms/upload - Upload and process ROM file (POL-021)
     const uploadDir = join(tmpdir(), 'retroarch-uploads');
     const BAD_REQUEST_STATUS = 400;
-    const INTERNAL_SERVER_ERROR_STATUS = 500;
 
     this.app.post(
       '/api/roms/upload',
       strictApiRateLimiter, // Use centralized strict rate limiter (20 req/15min)
-      uploadMiddleware(uploadDir),
+      uploadMiddleware(uploadDir, SINGLE_UPLOAD_LIMITS),
+      async (req: Request, res: Response) => {
+        const files = (req as Request & { uploadedFiles?: UploadedFile[] })
+          .uploadedFiles;
+
+        if (files === undefined || files.length === 0) {
+          res.status(BAD_REQUEST_STATUS).json({
+            success: false,
+            errors: ['No file uploaded'],
+          });
+          return;
+        }
+
+        const uploadedFile = files[0];
+        if (uploadedFile === undefined) {
+          res.status(BAD_REQUEST_STATUS).json({
+            success: false,
+            errors: ['File data missing'],
+          });
+          return;
+        }
+
+        await this.processUpload(res, uploadedFile.path, uploadedFile.hashes);
+      }
+    );
+
+    // POST /api/roms/batch-upload - Queue several ROM files (POL-021, POL-022)
+    const ACCEPTED_STATUS = 202;
+    const NOT_FOUND_STATUS = 404;
+
+    this.app.post(
+      '/api/roms/batch-upload',
+      batchUploadRateLimiter,
+      validateRequest(batchUploadQuerySchema, 'query'),
+      uploadMiddleware(this.batchUploadDir, BATCH_UPLOAD_LIMITS),
       async (req: Request, res: Response) => {
+        const files =
+          (req as Request & { uploadedFiles?: UploadedFile[] }).uploadedFiles ??
+          [];
+
+        if (files.length === 0) {
+          res.status(BAD_REQUEST_STATUS).json({
+            success: false,
+            errors: ['No files uploaded'],
+          });
+          return;
+        }
+
+        const validation = validateBatch(
+          files.map((file) => ({ name: file.originalname, size: file.size })),
+          batchUploadConfig
+        );
+        if (!validation.valid) {
+          await Promise.all(
+            files.map((file) => fsp.rm(file.path, { force: true }))
+          );
+          res.status(BAD_REQUEST_STATUS).json({
+            success: false,
+            errors: [validation.error ?? 'Invalid batch'],
+          });
+          return;
+        }
+
+        const { priority } = req.query as { priority?: BatchJobPriority };
+        const job = this.queue.createJob(
+          files.map((file) => ({
+            filename: file.originalname,
+            path: file.path,
+            size: file.size,
+            hashes: file.hashes,
+          })),
+          priority
+        );
+        // Start now rather than at the next poll
+        void this.processor.processQueuedNow();
+
+        res.status(ACCEPTED_STATUS).json({
+          success: true,
+          jobId: job.id,
+          status: job.status,
+          progress: job.progress,
+        });
+      }
+    );
+
+    // GET /api/roms/batch-status/:jobId - Progress and per-file results
+    this.app.get(
+      '/api/roms/batch-status/:jobId',
+      (req: Request, res: Response) => {
+        const job = this.queue.getJob(req.params['jobId'] ?? '');
+
+        if (job === undefined) {
+          res.status(NOT_FOUND_STATUS).json({
+            success: false,
+            errors: ['Batch job not found'],
+          });
+          return;
+        }
+
+        res.json({
+          jobId: job.id,
+          status: job.status,
+          priority: job.priority,
+          progress: job.progress,
+          files: job.results,
+          errors: job.errors,
+          createdAt: job.createdAt,
+          ...(job.startedAt !== undefined && { startedAt: job.startedAt }),
+          ...(job.completedAt !== undefined && {
+            completedAt: job.completedAt,
+          }),
+        });
+      }
+    );
+
+    this.setupBatchJobRoutes();
+  }
+
+  /**
+   * Cancel, retry and reprioritize batch jobs (POL-022)
+   */
+  private setupBatchJobRoutes(): void {
+    const ACCEPTED_STATUS = 202;
+    const NOT_FOUND_STATUS = 404;
+    const CONFLICT_STATUS = 409;
+
+    const findJob = (req: Request, res: Response): BatchJob | undefined => {
+      const job = this.queue.getJob(req.params['jobId'] ?? '');
+      if (job === undefined) {
+        res.status(NOT_FOUND_STATUS).json({
+          success: false,
+          errors: ['Batch job not found'],
+        });
+      }
+      return job;
+    };
+
+    const sendJob = (res: Response, job: BatchJob): void => {
+      res.json({
+        success: true,
+        jobId: job.id,
+        status: job.status,
+        priority: job.priority,
+        progress: job.progress,
+      });
+    };
+
+    // POST /api/roms/batch-jobs/:jobId/cancel - Stop a job's pending files
+    this.app.post(
+      '/api/roms/batch-jobs/:jobId/cancel',
+      strictApiRateLimiter,
+      (req: Request, res: Response) => {
+        const job = findJob(req, res);
+        if (job === undefined) {
+          return;
+        }
+
+        const cancelled = this.queue.cancelJob(job.id);
+        if (cancelled === undefined) {
+          res.status(CONFLICT_STATUS).json({
+            success: false,
+            errors: [`Batch job already ${job.status}`],
+          });
+          return;
+        }
+        sendJob(res, cancelled);
+      }
+    );
+
+    // POST /api/roms/batch-jobs/:jobId/retry - Queue its failed files again
+    this.app.post(
+      '/api/roms/batch-jobs/:jobId/retry',
+      strictApiRateLimiter,
+      (req: Request, res: Response) => {
+        const job = findJob(req, res);
+        if (job === undefined) {
+          return;
+        }
+
+        const retried = this.queue.retryJob(job.id);
+        if (retried === undefined) {
+          res.status(CONFLICT_STATUS).json({
+            success: false,
+            errors: ['Only finished jobs with failed files can be retried'],
+          });
+          return;
+        }
+        // Start now rather than at the next poll
+        void this.processor.processQueuedNow();
+
+        res.status(ACCEPTED_STATUS);
+        sendJob(res, retried);
+      }
+    );
+
+    // PUT /api/roms/batch-jobs/:jobId/priority - Move a job in the queue
+    this.app.put(
+      '/api/roms/batch-jobs/:jobId/priority',
+      strictApiRateLimiter,
+      validateRequest(batchPrioritySchema, 'body'),
+      (req: Request, res: Response) => {
+        const job = findJob(req, res);
+        if (job === undefined) {
+          return;
+        }
+
+        const { priority } = req.body as { priority: BatchJobPriority };
+        const updated = this.queue.setPriority(job.id, priority);
+        if (updated === undefined) {
+          res.status(CONFLICT_STATUS).json({
+            success: false,
+            errors: [`Batch job already ${job.status}`],
+          });
+          return;
+        }
+        sendJob(res, updated);
+      }
+    );
+  }
+
+  /**
+   * Resumable uploads (tus-style) for files too large for one request
+   * Create an upload, PATCH chunks at its offset, HEAD for the offset to
+   * resume from, then finalize to run the pipeline (POL-021, POL-022)
+   */
+  private setupResumableUploadRoutes(): void {
+    const CREATED_STATUS = 201;
+    const NO_CONTENT_STATUS = 204;
+    const BAD_REQUEST_STATUS = 400;
+    const NOT_FOUND_STATUS = 404;
+    const CONFLICT_STATUS = 409;
+    const UNSUPPORTED_MEDIA_TYPE_STATUS = 415;
+    const INTERNAL_SERVER_ERROR_STATUS = 500;
+
+    const sendError = (res: Response, error: unknown): void => {
+      res.status(INTERNAL_SERVER_ERROR_STATUS).json({
+        success: false,
+        // TEST-007: Skip coverage - defensive check for non-Error exception
+        errors: [error instanceof Error ? error.message : 'Unknown error'],
+      });
+    };
+
+    const sendUpload = (res: Response, upload: ResumableUpload): void => {
+      res.set({
+        'Upload-Offset': String(upload.offset),
+        'Upload-Length': String(upload.size),
+        'Upload-Expires': new Date(upload.expiresAt).toUTCString(),
+        'Cache-Control': 'no-store',
+      });
+    };
+
+    // POST /api/roms/uploads - Create an upload
+    this.app.post(
+      '/api/roms/uploads',
+      strictApiRateLimiter,
+      validateRequest(createUploadSchema, 'body'),
+      async (req: Request, res: Response) => {
+        const { filename, size } = req.body as {
+          filename: string;
+          size: number;
+        };
         try {
-          const files = (req as Request & { uploadedFiles?: UploadedFile[] })
-            .uploadedFiles;
+          const upload = await this.uploads.create(filename, size);
 
-          if (files === undefined || files.length === 0) {
-            res.status(BAD_REQUEST_STATUS).json({
-              success: false,
-              errors: ['No file uploaded'],
+          sendUpload(res, upload);
+          res
+            .status(CREATED_STATUS)
+            .location(`/api/roms/uploads/${upload.id}`)
+            .json({
+              success: true,
+              uploadId: upload.id,
+              offset: upload.offset,
+              size: upload.size,
+              chunkSize: resumableUploadConfig.chunkSize,
+              expiresAt: upload.expiresAt,
             });
+        } catch (error) {
+          sendError(res, error);
+        }
+      }
+    );
+
+    // HEAD /api/roms/uploads/:uploadId - Offset to resume from
+    this.app.head(
+      '/api/roms/uploads/:uploadId',
+      uploadChunkRateLimiter,
+      async (req: Request, res: Response) => {
+        try {
+          const upload = await this.uploads.get(req.params['uploadId'] ?? '');
+          if (upload === undefined) {
+            res.status(NOT_FOUND_STATUS).end();
             return;
           }
 
-          const uploadedFile = files[0];
-          if (uploadedFile === undefined) {
-            res.status(BAD_REQUEST_STATUS).json({
+          sendUpload(res, upload);
+          res.end();
+        } catch {
+          // HEAD responses carry no body
+          res.status(INTERNAL_SERVER_ERROR_STATUS).end();
+        }
+      }
+    );
+
+    // PATCH /api/roms/uploads/:uploadId - Append a chunk at Upload-Offset
+    this.app.patch(
+      '/api/roms/uploads/:uploadId',
+      uploadChunkRateLimiter,
+      async (req: Request, res: Response) => {
+        const contentType = req.headers['content-type'] ?? '';
+        if (!contentType.startsWith(CHUNK_CONTENT_TYPE)) {
+          res.status(UNSUPPORTED_MEDIA_TYPE_STATUS).json({
+            success: false,
+            errors: [`Chunks must be sent as ${CHUNK_CONTENT_TYPE}`],
+          });
+          return;
+        }
+
+        const offset = Number(req.headers['upload-offset'] ?? Number.NaN);
+        const checksum = parseUploadChecksum(req.headers['upload-checksum']);
+        if (!Number.isSafeInteger(offset) || offset < 0 || checksum === null) {
+          res.status(BAD_REQUEST_STATUS).json({
+            success: false,
+            errors: ['Invalid Upload-Offset or Upload-Checksum header'],
+          });
+          return;
+        }
+
+        try {
+          const result = await this.uploads.append(
+            req.params['uploadId'] ?? '',
+            offset,
+            req,
+            checksum
+          );
+          if (!result.success) {
+            res.status(CHUNK_REJECTION_STATUS[result.reason]).json({
               success: false,
-              errors: ['File data missing'],
+              errors: [result.error],
             });
             return;
           }
 
-          // Load user configuration
-          const configLoader = new ConfigLoader();
-          const configResult = await configLoader.load();
-
-          if (!configResult.success || configResult.config === undefined) {
-            res.status(INTERNAL_SERVER_ERROR_STATUS).json({
-              success: false,
-              errors: ['Configuration not found. Please run setup first.'],
-              phase: 'configuration',
-            });
+          sendUpload(res, result.upload);
+          res.status(NO_CONTENT_STATUS).end();
+        } catch (error) {
+          // The client dropped the connection; it resumes from HEAD
+          if (!req.complete) {
             return;
           }
+          sendError(res, error);
+        }
+      }
+    );
 
-          // Initialize pipeline components
-          const classifier = new Classifier(platformConfig);
-          const validator = new Validator(platformConfig);
-          const normalizer = new Normalizer(platformConfig);
-          const archiver = new Archiver(platformConfig);
-          const promoter = new Promoter(platformConfig);
-
-          // Create orchestrator with user config
-          const orchestrator = PipelineOrchestrator.fromUserConfig(
-            configResult.config,
-            classifier,
-            validator,
-            normalizer,
-            archiver,
-            promoter
+    // POST /api/roms/uploads/:uploadId/finalize - Run the pipeline
+    this.app.post(
+      '/api/roms/uploads/:uploadId/finalize',
+      strictApiRateLimiter,
+      async (req: Request, res: Response) => {
+        try {
+          // Holds the upload, so a second finalize or a late chunk gets 409
+          const result = await this.uploads.complete(
+            req.params['uploadId'] ?? ''
           );
+          if (!result.success) {
+            res
+              .status(
+                result.reason === 'not-found'
+                  ? NOT_FOUND_STATUS
+                  : CONFLICT_STATUS
+              )
+              .json({ success: false, errors: [result.error] });
+            return;
+          }
 
-          // Process the uploaded file
-          const result = await orchestrator.process(uploadedFile.path);
-
-          if (result.success) {
-            res.json({
-              success: true,
-              message: 'ROM processed successfully',
-              rom: result.rom,
-            });
-          } else {
-            res.status(BAD_REQUEST_STATUS).json({
-              success: false,
-              errors: result.errors,
-              phase: result.phase,
-            });
+          try {
+            await this.processUpload(res, result.path);
+          } finally {
+            await this.uploads.remove(result.upload.id);
           }
         } catch (error) {
-          const err = error as Error;
-          res.status(INTERNAL_SERVER_ERROR_STATUS).json({
-            success: false,
-            errors: [`Processing failed: ${err.message}`],
-            phase: 'unknown',
-          });
+          if (!res.headersSent) {
+            sendError(res, error);
+          }
         }
       }
     );
   }
 
+  /**
+   * Runs the pipeline on an uploaded file and sends its result
+   * @param knownHashes - Checksums taken while the file was received
+   */
+  private async processUpload(
+    res: Response,
+    filePath: string,
+    knownHashes?: RomHashes
+  ): Promise<void> {
+    const BAD_REQUEST_STATUS = 400;
+    const INTERNAL_SERVER_ERROR_STATUS = 500;
+
+    try {
+      const result = await this.runPipeline(filePath, knownHashes);
+      if (result === undefined) {
+        res.status(INTERNAL_SERVER_ERROR_STATUS).json({
+          success: false,
+          errors: ['Configuration not found. Please run setup first.'],
+          phase: 'configuration',
+        });
+        return;
+      }
+
+      if (result.success) {
+        res.json({
+          success: true,
+          message: 'ROM processed successfully',
+          rom: result.rom,
+        });
+      } else {
+        res.status(BAD_REQUEST_STATUS).json({
+          success: false,
+          errors: result.errors,
+          phase: result.phase,
+        });
+      }
+    } catch (error) {
+      const err = error as Error;
+      res.status(INTERNAL_SERVER_ERROR_STATUS).json({
+        success: false,
+        errors: [`Processing failed: ${err.message}`],
+        phase: 'unknown',
+      });
+    }
+  }
+
+  /**
+   * Runs the five pipeline phases on one file
+   * @returns Undefined when there is no user configuration yet
+   */
+  private async runPipeline(
+    filePath: string,
+    knownHashes?: RomHashes
+  ): Promise<PipelineResult | undefined> {
+    // Load user configuration
+    const configLoader = new ConfigLoader();
+    const configResult = await configLoader.load();
+
+    if (!configResult.success || configResult.config === undefined) {
+      return undefined;
+    }
+
+    // Initialize pipeline components
+    const classifier = new Classifier(platformConfig);
+    const validator = new Validator(platformConfig);
+    const normalizer = new Normalizer(platformConfig);
+    const archiver = new Archiver(platformConfig);
+    const promoter = new Promoter(platformConfig);
+
+    // Create orchestrator with user config
+    const orchestrator = PipelineOrchestrator.fromUserConfig(
+      configResult.config,
+      classifier,
+      validator,
+      normalizer,
+      archiver,
+      promoter
+    );
+
+    return orchestrator.process(filePath, knownHashes);
+  }
+
   /**
    * Expose read-only content index for RetroArch Remote Downloader
    * Serves HTML index at /content and file downloads via ?download=1
@@ -445,13 +926,15 @@ export class AppServer {
   }
 
   /**
-   * Start the Express server
+   * Start the Express server and the batch upload processor
    */
   start(): Promise<void> {
     return new Promise((resolve) => {
       this.app.listen(this.port, () => {
         // eslint-disable-next-line no-console
         console.log(`Server running at http://localhost:${this.port}/`);
+        this.processor.start();
+        this.uploads.start();
         resolve();
       });
     });
@@ -465,7 +948,7 @@ export class AppServer {
   }
 }
 
-/* v8 ignore next 6 */
+/* v8 ignore next 24 */
 /* eslint-disable no-console */
 // CLI execution
 if (import.meta.url === `file://${process.argv[1]}`) {
@@ -473,5 +956,22 @@ if (import.meta.url === `file://${process.argv[1]}`) {
   const port = parseInt(process.env['PORT'] ?? '3000', DEFAULT_BASE);
   const server = new AppServer(port);
   await server.start();
+
+  // WATCH_FOLDERS: inbox directories to ingest continuously, path-delimited
+  const inboxes = (process.env['WATCH_FOLDERS'] ?? '')
+    .split(path.delimiter)
+    .filter((inbox) => inbox !== '');
+  if (inboxes.length > 0) {
+    const basePath = process.env['RETROARCH_PATH'] ?? detectRetroArchPath();
+    if (basePath === null) {
+      console.error('WATCH_FOLDERS is set, but no RetroArch directory found');
+    } else {
+      await new WatchFolder(
+        generateRetroArchPaths(basePath),
+        platformConfig,
+        inboxes
+      ).start();
+    }
+  }
 }
 /* eslint-enable no-console */
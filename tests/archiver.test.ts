@@ -5,19 +5,23 @@
  * Covering error paths for POL-002 (Test Coverage)
  */
 
-import { writeFile, mkdir, rm, chmod } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { writeFile, readFile, mkdir, rm, chmod } from 'node:fs/promises';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 
 import { Archiver } from '../src/pipeline/archiver.js';
+import { HashIndex } from '../src/pipeline/hash-index.js';
 import type {
   ROMFile,
+  ManifestDocument,
   ManifestEntry,
 } from '../src/interfaces/pipeline.interface.js';
 
 import { PlatformConfigFactory } from './factories/pipeline.factory.js';
+import { CueSheetFactory } from './factories/cue-sheet.factory.js';
 
 describe('Archiver', () => {
   let archiver: Archiver;
@@ -143,6 +147,63 @@ describe('Archiver', () => {
         'Archive/ROMs/unknown/unknown-platform.rom'
       );
     });
+    it('should archive a cue sheet together with all its tracks', async () => {
+      // Arrange
+      const cuePath = await CueSheetFactory.write(testDir, 'disc.cue', [
+        { filename: 'disc (Track 1).bin' },
+        { filename: 'disc (Track 2).bin' },
+      ]);
+      const rom: ROMFile = {
+        id: 'disc',
+        filename: 'disc.cue',
+        path: cuePath,
+        platform: 'psx',
+        extension: '.cue',
+        size: 1,
+        companionFiles: [
+          join(testDir, 'disc (Track 1).bin'),
+          join(testDir, 'disc (Track 2).bin'),
+        ],
+      };
+
+      // Act
+      const result = await archiver.archiveROM(rom);
+
+      // Assert
+      const psxDir = join(testDir, 'Archive/ROMs/psx');
+      expect(result.success).toBe(true);
+      expect(existsSync(join(psxDir, 'disc.cue'))).toBe(true);
+      expect(existsSync(join(psxDir, 'disc (Track 1).bin'))).toBe(true);
+      expect(existsSync(join(psxDir, 'disc (Track 2).bin'))).toBe(true);
+    });
+
+    it('should not leave a partial disc when a track copy fails', async () => {
+      // Arrange
+      const cuePath = await CueSheetFactory.write(testDir, 'broken.cue', [
+        { filename: 'broken (Track 1).bin' },
+      ]);
+      const rom: ROMFile = {
+        id: 'broken',
+        filename: 'broken.cue',
+        path: cuePath,
+        platform: 'psx',
+        extension: '.cue',
+        size: 1,
+        companionFiles: [
+          join(testDir, 'broken (Track 1).bin'),
+          join(testDir, 'broken (Track 2).bin'),
+        ],
+      };
+
+      // Act
+      const result = await archiver.archiveROM(rom);
+
+      // Assert
+      const psxDir = join(testDir, 'Archive/ROMs/psx');
+      expect(result.success).toBe(false);
+      expect(existsSync(join(psxDir, 'broken.cue'))).toBe(false);
+      expect(existsSync(join(psxDir, 'broken (Track 1).bin'))).toBe(false);
+    });
   });
 
   describe('writeManifest', () => {
@@ -169,6 +230,30 @@ describe('Archiver', () => {
       expect(result.metadata?.['totalEntries']).toBe(1);
     });
 
+    it('should record the entry in the hash index', async () => {
+      // Arrange
+      const entry: ManifestEntry = {
+        id: 'rom-1',
+        filename: 'game.nes',
+        platform: 'nes',
+        hash: 'abc123',
+        size: 100,
+        extension: '.nes',
+        archivedAt: new Date().toISOString(),
+        metadata: {},
+      };
+
+      // Act
+      await archiver.writeManifest(entry);
+      const index = await HashIndex.open(join(testDir, 'Archive/Manifests'));
+
+      // Assert
+      expect(index.findDuplicate('ABC123')).toEqual({
+        file: 'nes.json',
+        entry,
+      });
+    });
+
     it('should update existing manifest entry by ID', async () => {
       // Arrange
       const entry1: ManifestEntry = {
@@ -327,6 +412,59 @@ describe('Archiver', () => {
       expect(result.data).toBe(false);
       expect(result.error).toBeDefined();
     });
+
+    it('should recover a corrupted manifest from its backup', async () => {
+      // Arrange
+      const entry = (id: string): ManifestEntry => ({
+        id,
+        filename: `${id}.nes`,
+        platform: 'nes',
+        hash: `hash-${id}`,
+        size: 100,
+        extension: '.nes',
+        archivedAt: new Date().toISOString(),
+        metadata: {},
+      });
+      await archiver.writeManifest(entry('rom-1'));
+      await archiver.writeManifest(entry('rom-2'));
+      const manifestPath = join(testDir, 'Archive/Manifests/nes.json');
+      await writeFile(manifestPath, '[{ "id": "rom-1"', 'utf-8');
+
+      // Act
+      const result = await archiver.writeManifest(entry('rom-3'));
+
+      // Assert
+      expect(result.success).toBe(true);
+      const { entries } = JSON.parse(
+        await readFile(manifestPath, 'utf-8')
+      ) as ManifestDocument;
+      expect(entries.map((e) => e.id)).toEqual(['rom-1', 'rom-3']);
+    });
+
+    it('should keep every entry when writes run concurrently', async () => {
+      // Arrange
+      const entries = ['a', 'b', 'c', 'd', 'e'].map(
+        (id): ManifestEntry => ({
+          id,
+          filename: `${id}.nes`,
+          platform: 'nes',
+          hash: `hash-${id}`,
+          size: 100,
+          extension: '.nes',
+          archivedAt: new Date().toISOString(),
+          metadata: {},
+        })
+      );
+
+      // Act
+      await Promise.all(entries.map((entry) => archiver.writeManifest(entry)));
+
+      // Assert
+      const manifest = JSON.parse(
+        await readFile(join(testDir, 'Archive/Manifests/nes.json'), 'utf-8')
+      ) as ManifestDocument;
+      expect(manifest.entries).toHaveLength(entries.length);
+    });
   });
 
   describe('storeMetadata', () => {
@@ -0,0 +1,184 @@
+/**
+ * Tests for Atomic File Writes
+ * Following TEST-002 (Single Responsibility per test)
+ * Following TEST-004 (Arrange-Act-Assert pattern)
+ */
+
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rm,
+  utimes,
+  writeFile,
+} from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import {
+  backupPathOf,
+  readJsonFile,
+  updateJsonFile,
+  updateTextFile,
+  writeFileAtomic,
+} from '../src/pipeline/atomic-file.js';
+
+const STALE_LOCK_AGE_S = 60;
+const CONCURRENT_WRITERS = 25;
+const LOCK_HELD_MS = 100;
+
+const parseNumbers = (value: unknown): number[] => {
+  if (!Array.isArray(value)) {
+    throw new Error('not a number list');
+  }
+  return value as number[];
+};
+
+describe('atomic file writes', () => {
+  let testDir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    testDir = join(
+      tmpdir(),
+      `atomic-file-test-${Date.now()}-${Math.random().toString(36).substring(7)}`
+    );
+    await mkdir(testDir, { recursive: true });
+    path = join(testDir, 'list.json');
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('writeFileAtomic', () => {
+    it('should replace the file and keep the previous version', async () => {
+      // Arrange
+      await writeFile(path, 'old');
+
+      // Act
+      await writeFileAtomic(path, 'new', 'old');
+
+      // Assert
+      expect(await readFile(path, 'utf-8')).toBe('new');
+      expect(await readFile(backupPathOf(path), 'utf-8')).toBe('old');
+      expect((await readdir(testDir)).sort()).toEqual([
+        'list.json',
+        'list.json.bak',
+      ]);
+    });
+  });
+
+  describe('updateJsonFile', () => {
+    it('should serialize concurrent writers of the same file', async () => {
+      // Act
+      await Promise.all(
+        Array.from({ length: CONCURRENT_WRITERS }, (_, n) =>
+          updateJsonFile(path, parseNumbers, (current = []) => [...current, n])
+        )
+      );
+
+      // Assert
+      const written = parseNumbers(JSON.parse(await readFile(path, 'utf-8')));
+      expect(written).toHaveLength(CONCURRENT_WRITERS);
+      expect(await readdir(testDir)).not.toContain('list.json.lock');
+    });
+
+    it('should wait for a lock held by another process', async () => {
+      // Arrange
+      await writeFile(`${path}.lock`, '12345\n');
+      let done = false;
+
+      // Act
+      const update = updateJsonFile(path, parseNumbers, () => [1]).then(() => {
+        done = true;
+      });
+      await new Promise((resolve) => setTimeout(resolve, LOCK_HELD_MS));
+      const doneWhileLocked = done;
+      await rm(`${path}.lock`);
+      await update;
+
+      // Assert
+      expect(doneWhileLocked).toBe(false);
+      expect(done).toBe(true);
+    });
+
+    it('should take over a stale lock', async () => {
+      // Arrange
+      await writeFile(`${path}.lock`, '12345\n');
+      const past = Date.now() / 1000 - STALE_LOCK_AGE_S;
+      await utimes(`${path}.lock`, past, past);
+
+      // Act
+      const written = await updateJsonFile(path, parseNumbers, () => [1]);
+
+      // Assert
+      expect(written).toEqual([1]);
+    });
+
+    it('should continue from the backup of a corrupt file', async () => {
+      // Arrange
+      await updateJsonFile(path, parseNumbers, () => [1]);
+      await updateJsonFile(path, parseNumbers, (current = []) => [
+        ...current,
+        2,
+      ]);
+      await writeFile(path, '[1, 2, 3');
+
+      // Act
+      const written = await updateJsonFile(
+        path,
+        parseNumbers,
+        (current = []) => [...current, 4]
+      );
+
+      // Assert
+      expect(written).toEqual([1, 4]);
+      expect(await readFile(backupPathOf(path), 'utf-8')).toContain('1');
+    });
+
+    it('should fail without touching a corrupt file that has no backup', async () => {
+      // Arrange
+      await writeFile(path, '{"not": "a list"}');
+
+      // Act & Assert
+      await expect(
+        updateJsonFile(path, parseNumbers, () => [1])
+      ).rejects.toThrow('list.json is corrupt and has no usable backup');
+      expect(await readFile(path, 'utf-8')).toBe('{"not": "a list"}');
+    });
+  });
+
+  describe('readJsonFile', () => {
+    it('should restore a corrupt file from its backup', async () => {
+      // Arrange
+      await updateJsonFile(path, parseNumbers, () => [1]);
+      await updateJsonFile(path, parseNumbers, () => [1, 2]);
+      await writeFile(path, '');
+
+      // Act
+      const read = await readJsonFile(path, parseNumbers);
+
+      // Assert
+      expect(read).toEqual({ data: [1], recovered: true });
+      expect(JSON.parse(await readFile(path, 'utf-8'))).toEqual([1]);
+    });
+
+    it('should return undefined for a missing file', async () => {
+      // Act & Assert
+      expect(await readJsonFile(path, parseNumbers)).toBeUndefined();
+    });
+  });
+
+  describe('updateTextFile', () => {
+    it('should pass undefined for a missing file', async () => {
+      // Act
+      await updateTextFile(path, (current) => current ?? 'created');
+
+      // Assert
+      expect(await readFile(path, 'utf-8')).toBe('created');
+    });
+  });
+});
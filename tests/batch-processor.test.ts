@@ -3,15 +3,25 @@
  * Following TEST-002 (AAA Pattern) and TEST-003 (SRP)
  */
 
-import { mkdir, writeFile, rm } from 'node:fs/promises';
+import { mkdir, writeFile, rm, readFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
 import { join } from 'node:path';
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 
 import { BatchProcessor } from '../src/batch-processor.js';
+import { crc32, formatCrc32 } from '../src/pipeline/crc32.js';
+import { MANIFEST_SCHEMA_VERSION } from '../src/pipeline/manifest-file.js';
+import { Validator } from '../src/pipeline/validator.js';
+import type { ManifestDocument } from '../src/interfaces/pipeline.interface.js';
 
 import { RetroArchPathsFactory } from './factories/simple-config.factory.js';
-import { PlatformConfigFactory } from './factories/pipeline.factory.js';
+import {
+  PlatformConfigFactory,
+  PlatformDefinitionFactory,
+} from './factories/pipeline.factory.js';
+import { RomHeaderFactory } from './factories/rom-header.factory.js';
+import { ZipFactory } from './factories/zip.factory.js';
 
 describe('Batch Processor', () => {
   const testDir = '/tmp/batch-processor-test';
@@ -38,8 +48,8 @@ describe('Batch Processor', () => {
       const processor = new BatchProcessor(paths, config);
 
       // Create test ROM files
-      await writeFile(join(inputDir, 'game1.nes'), 'test data');
-      await writeFile(join(inputDir, 'game2.nes'), 'test data');
+      await writeFile(join(inputDir, 'game1.nes'), 'test data 1');
+      await writeFile(join(inputDir, 'game2.nes'), 'test data 2');
       await writeFile(join(inputDir, 'readme.txt'), 'not a rom');
 
       // Act
@@ -60,8 +70,8 @@ describe('Batch Processor', () => {
       // Create nested structure
       const subDir = join(inputDir, 'nes', 'action');
       await mkdir(subDir, { recursive: true });
-      await writeFile(join(inputDir, 'game1.nes'), 'test');
-      await writeFile(join(subDir, 'game2.nes'), 'test');
+      await writeFile(join(inputDir, 'game1.nes'), 'test 1');
+      await writeFile(join(subDir, 'game2.nes'), 'test 2');
 
       // Act
       const result = await processor.processDirectory(inputDir);
@@ -71,6 +81,32 @@ describe('Batch Processor', () => {
       expect(result.processed).toBe(2);
     });
 
+    it('should process several files and directories as one batch', async () => {
+      // Arrange
+      const paths = RetroArchPathsFactory.create(outputDir);
+      const processor = new BatchProcessor(
+        paths,
+        PlatformConfigFactory.create()
+      );
+      const subDir = join(inputDir, 'more');
+      await mkdir(subDir, { recursive: true });
+      await writeFile(join(inputDir, 'game1.nes'), 'test 1');
+      await writeFile(join(inputDir, 'ignored.nes'), 'test 2');
+      await writeFile(join(subDir, 'game3.nes'), 'test 3');
+
+      // Act
+      const result = await processor.processPaths([
+        join(inputDir, 'game1.nes'),
+        subDir,
+      ]);
+
+      // Assert
+      expect(result.files.map((f) => f.filename).sort()).toEqual([
+        'game1.nes',
+        'game3.nes',
+      ]);
+    });
+
     it('should handle empty directory', async () => {
       // Arrange
       const paths = RetroArchPathsFactory.create(outputDir);
@@ -126,9 +162,9 @@ describe('Batch Processor', () => {
       });
       const processor = new BatchProcessor(paths, config);
 
-      await writeFile(join(inputDir, 'game1.nes'), 'test');
-      await writeFile(join(inputDir, 'game2.nes'), 'test');
-      await writeFile(join(inputDir, 'game3.sfc'), 'test');
+      await writeFile(join(inputDir, 'game1.nes'), 'test 1');
+      await writeFile(join(inputDir, 'game2.nes'), 'test 2');
+      await writeFile(join(inputDir, 'game3.sfc'), 'test 3');
 
       // Act
       const result = await processor.processDirectory(inputDir);
@@ -159,6 +195,65 @@ describe('Batch Processor', () => {
       // Manifests are written to paths.manifests directory
       // Would need to check file system in integration test
     });
+
+    it('should write versioned manifests the duplicate checker reads', async () => {
+      // Arrange
+      const paths = RetroArchPathsFactory.create(outputDir);
+      const config = PlatformConfigFactory.create();
+      const processor = new BatchProcessor(paths, config);
+      await writeFile(join(inputDir, 'game.nes'), 'test data');
+      const validator = new Validator(
+        PlatformConfigFactory.create({
+          directories: {
+            ...config.directories,
+            archive: {
+              ...config.directories.archive,
+              manifests: paths.manifests,
+            },
+          },
+        })
+      );
+
+      // Act
+      const result = await processor.processDirectory(inputDir);
+      const duplicate = await validator.checkDuplicate(
+        result.files[0]?.hashes?.sha256 ?? ''
+      );
+
+      // Assert
+      const manifest = JSON.parse(
+        await readFile(join(paths.manifests, 'nes.json'), 'utf-8')
+      ) as ManifestDocument;
+      expect(manifest.schemaVersion).toBe(MANIFEST_SCHEMA_VERSION);
+      expect(manifest.platform).toBe('nes');
+      expect(manifest.entries[0]?.filename).toBe('game.nes');
+      expect(duplicate.data).toBe(true);
+    });
+
+    it('should merge into the manifest instead of replacing it', async () => {
+      // Arrange
+      const paths = RetroArchPathsFactory.create(outputDir);
+      const processor = new BatchProcessor(
+        paths,
+        PlatformConfigFactory.create()
+      );
+      await writeFile(join(inputDir, 'first.nes'), 'first');
+      await processor.processDirectory(inputDir);
+      await rm(join(inputDir, 'first.nes'));
+      await writeFile(join(inputDir, 'second.nes'), 'second');
+
+      // Act
+      await processor.processDirectory(inputDir);
+
+      // Assert
+      const manifest = JSON.parse(
+        await readFile(join(paths.manifests, 'nes.json'), 'utf-8')
+      ) as ManifestDocument;
+      expect(manifest.entries.map((e) => e.filename)).toEqual([
+        'first.nes',
+        'second.nes',
+      ]);
+    });
   });
 
   describe('Playlist Generation', () => {
@@ -178,6 +273,39 @@ describe('Batch Processor', () => {
       // Playlists are written to paths.playlists directory
       // Would need to check file system in integration test
     });
+
+    it('should write the real CRC32 of each ROM in RetroArch format', async () => {
+      // Arrange
+      const paths = RetroArchPathsFactory.create(outputDir);
+      const config = PlatformConfigFactory.create();
+      const processor = new BatchProcessor(paths, config);
+      const data = Buffer.from('test data');
+      await writeFile(join(inputDir, 'game.nes'), data);
+
+      // Act
+      const result = await processor.processDirectory(inputDir);
+
+      // Assert
+      const expected = formatCrc32(crc32(data));
+      expect(result.files[0]?.hashes?.crc32).toBe(expected);
+
+      const playlist = JSON.parse(
+        await readFile(
+          join(paths.playlists, `${result.files[0]?.platformName}.lpl`),
+          'utf-8'
+        )
+      );
+      expect(playlist.items[0].crc32).toBe(`${expected.toUpperCase()}|crc`);
+
+      const manifest = JSON.parse(
+        await readFile(
+          join(paths.manifests, `${result.files[0]?.platform}.json`),
+          'utf-8'
+        )
+      );
+      expect(manifest.entries[0].hashes.crc32).toBe(expected);
+      expect(manifest.entries[0].hashes.sha256).toHaveLength(64);
+    });
   });
 
   describe('Error Handling', () => {
@@ -215,6 +343,592 @@ describe('Batch Processor', () => {
     });
   });
 
+  describe('Validation', () => {
+    it('should skip copies of ROMs already in the manifests', async () => {
+      // Arrange
+      const paths = RetroArchPathsFactory.create(outputDir);
+      const processor = new BatchProcessor(
+        paths,
+        PlatformConfigFactory.create()
+      );
+      await writeFile(join(inputDir, 'game.nes'), 'test data');
+      await processor.processDirectory(inputDir);
+      await rm(join(inputDir, 'game.nes'));
+      await writeFile(join(inputDir, 'copy.nes'), 'test data');
+
+      // Act
+      const result = await processor.processDirectory(inputDir);
+
+      // Assert
+      expect(result.processed).toBe(0);
+      expect(result.duplicates).toEqual([
+        { file: join(inputDir, 'copy.nes'), duplicateOf: 'game.nes' },
+      ]);
+      expect(
+        existsSync(
+          join(paths.downloads, 'Nintendo Entertainment System', 'copy.nes')
+        )
+      ).toBe(false);
+    });
+
+    it('should skip copies of a ROM earlier in the same run', async () => {
+      // Arrange
+      const paths = RetroArchPathsFactory.create(outputDir);
+      const processor = new BatchProcessor(
+        paths,
+        PlatformConfigFactory.create()
+      );
+      await writeFile(join(inputDir, 'game1.nes'), 'test data');
+      await writeFile(join(inputDir, 'game2.nes'), 'test data');
+
+      // Act
+      const result = await processor.processDirectory(inputDir);
+
+      // Assert
+      expect(result.processed).toBe(1);
+      expect(result.duplicates).toHaveLength(1);
+      expect(result.duplicates[0]?.duplicateOf).toBe(result.files[0]?.source);
+    });
+
+    it('should keep every copy in link-only mode', async () => {
+      // Arrange
+      const paths = RetroArchPathsFactory.create(outputDir);
+      const processor = new BatchProcessor(
+        paths,
+        PlatformConfigFactory.create(),
+        { linkOnly: true }
+      );
+      await writeFile(join(inputDir, 'game1.nes'), 'test data');
+      await writeFile(join(inputDir, 'game2.nes'), 'test data');
+
+      // Act
+      const result = await processor.processDirectory(inputDir);
+
+      // Assert
+      expect(result.processed).toBe(2);
+      expect(result.duplicates).toEqual([]);
+      expect(result.files[0]?.dat).toBeUndefined();
+    });
+
+    it('should not hash linked files in link-only mode', async () => {
+      // Arrange
+      const paths = RetroArchPathsFactory.create(outputDir);
+      const processor = new BatchProcessor(
+        paths,
+        PlatformConfigFactory.create(),
+        { linkOnly: true }
+      );
+      await writeFile(join(inputDir, 'game.nes'), 'test data');
+
+      // Act
+      const result = await processor.processDirectory(inputDir);
+
+      // Assert
+      expect(result.files[0]?.linkStrategy).toBe('hardlink');
+      expect(result.files[0]?.hashes).toBeUndefined();
+      const document = JSON.parse(
+        await readFile(join(paths.manifests, 'nes.json'), 'utf-8')
+      ) as ManifestDocument;
+      expect(document.entries[0]?.hash).toBe('');
+      expect(document.entries[0]?.ingestedFrom?.path).toBe(
+        join(inputDir, 'game.nes')
+      );
+    });
+
+    it('should skip unchanged files on a link-only rerun', async () => {
+      // Arrange
+      const paths = RetroArchPathsFactory.create(outputDir);
+      const processor = new BatchProcessor(
+        paths,
+        PlatformConfigFactory.create(),
+        { linkOnly: true }
+      );
+      await writeFile(join(inputDir, 'game.nes'), 'test data');
+      await processor.processDirectory(inputDir);
+
+      // Act
+      const result = await processor.processDirectory(inputDir);
+
+      // Assert
+      expect(result.changes.unchanged).toBe(1);
+      expect(result.skipped).toEqual([join(inputDir, 'game.nes')]);
+    });
+
+    it('should hash files copied in link-only mode', async () => {
+      // Arrange
+      const paths = RetroArchPathsFactory.create(outputDir);
+      const processor = new BatchProcessor(
+        paths,
+        PlatformConfigFactory.create({ linking: { strategies: ['copy'] } }),
+        { linkOnly: true }
+      );
+      await writeFile(join(inputDir, 'game.nes'), 'test data');
+
+      // Act
+      const result = await processor.processDirectory(inputDir);
+
+      // Assert
+      expect(result.files[0]?.linkStrategy).toBe('copy');
+      expect(result.files[0]?.hashes?.crc32).toBe(
+        formatCrc32(crc32(Buffer.from('test data')))
+      );
+    });
+
+    it('should record the manifest data of the pipeline', async () => {
+      // Arrange
+      const paths = RetroArchPathsFactory.create(outputDir);
+      const processor = new BatchProcessor(
+        paths,
+        PlatformConfigFactory.create(),
+        { hashWorkers: 2 }
+      );
+      await writeFile(
+        join(inputDir, 'Mario (USA).nes'),
+        RomHeaderFactory.nes()
+      );
+
+      // Act
+      await processor.processDirectory(inputDir);
+
+      // Assert
+      const { entries } = JSON.parse(
+        await readFile(join(paths.manifests, 'nes.json'), 'utf-8')
+      ) as ManifestDocument;
+      expect(entries[0]?.headerless?.headerSize).toBe(16);
+      expect(entries[0]?.dat).toEqual({ status: 'unknown' });
+      expect(entries[0]?.metadata).toMatchObject({
+        tags: { title: 'Mario', regions: ['USA'] },
+        source: join(inputDir, 'Mario (USA).nes'),
+      });
+    });
+
+    it('should report cue sheets with missing tracks as errors', async () => {
+      // Arrange
+      const paths = RetroArchPathsFactory.create(outputDir);
+      const processor = new BatchProcessor(
+        paths,
+        PlatformConfigFactory.create({
+          platforms: [PlatformDefinitionFactory.psx()],
+        })
+      );
+      await writeFile(
+        join(inputDir, 'disc.cue'),
+        'FILE "missing.bin" BINARY\n  TRACK 01 MODE2/2352\n    INDEX 01 00:00:00\n'
+      );
+
+      // Act
+      const result = await processor.processDirectory(inputDir);
+
+      // Assert
+      expect(result.processed).toBe(0);
+      expect(result.errors[0]?.error).toContain('Invalid cue sheet disc.cue');
+    });
+  });
+
+  describe('Incremental Re-ingestion', () => {
+    const readEntries = async (
+      paths: ReturnType<typeof RetroArchPathsFactory.create>
+    ): Promise<ManifestDocument['entries']> =>
+      (
+        JSON.parse(
+          await readFile(join(paths.manifests, 'nes.json'), 'utf-8')
+        ) as ManifestDocument
+      ).entries;
+
+    it('should skip files unchanged since the last run', async () => {
+      // Arrange
+      const paths = RetroArchPathsFactory.create(outputDir);
+      const processor = new BatchProcessor(
+        paths,
+        PlatformConfigFactory.create()
+      );
+      await writeFile(join(inputDir, 'game1.nes'), 'test 1');
+      await writeFile(join(inputDir, 'game2.nes'), 'test 2');
+      const first = await processor.processDirectory(inputDir);
+
+      // Act
+      const second = await processor.processDirectory(inputDir);
+
+      // Assert
+      expect(first.changes).toEqual({
+        added: 2,
+        changed: 0,
+        unchanged: 0,
+        removed: 0,
+      });
+      expect(second.changes).toEqual({
+        added: 0,
+        changed: 0,
+        unchanged: 2,
+        removed: 0,
+      });
+      expect(second.processed).toBe(0);
+      expect(second.skipped.sort()).toEqual([
+        join(inputDir, 'game1.nes'),
+        join(inputDir, 'game2.nes'),
+      ]);
+      expect(await readEntries(paths)).toHaveLength(2);
+    });
+
+    it('should replace the entry of a changed file', async () => {
+      // Arrange
+      const paths = RetroArchPathsFactory.create(outputDir);
+      const processor = new BatchProcessor(
+        paths,
+        PlatformConfigFactory.create()
+      );
+      await writeFile(join(inputDir, 'game.nes'), 'version 1');
+      await processor.processDirectory(inputDir);
+      await writeFile(join(inputDir, 'game.nes'), 'version 2 (fixed)');
+
+      // Act
+      const result = await processor.processDirectory(inputDir);
+
+      // Assert
+      expect(result.changes.changed).toBe(1);
+      expect(result.duplicates).toEqual([]);
+      const entries = await readEntries(paths);
+      expect(entries).toHaveLength(1);
+      expect(entries[0]?.size).toBe('version 2 (fixed)'.length);
+      expect(entries[0]?.ingestedFrom?.path).toBe(join(inputDir, 'game.nes'));
+    });
+
+    it('should count removed sources and keep their entries', async () => {
+      // Arrange
+      const paths = RetroArchPathsFactory.create(outputDir);
+      const processor = new BatchProcessor(
+        paths,
+        PlatformConfigFactory.create()
+      );
+      await writeFile(join(inputDir, 'kept.nes'), 'kept');
+      await writeFile(join(inputDir, 'deleted.nes'), 'deleted');
+      await processor.processDirectory(inputDir);
+      await rm(join(inputDir, 'deleted.nes'));
+
+      // Act
+      const result = await processor.processDirectory(inputDir);
+
+      // Assert
+      expect(result.changes).toMatchObject({ unchanged: 1, removed: 1 });
+      expect(await readEntries(paths)).toHaveLength(2);
+    });
+
+    it('should add to the playlist of an earlier partial run', async () => {
+      // Arrange
+      const paths = RetroArchPathsFactory.create(outputDir);
+      const processor = new BatchProcessor(
+        paths,
+        PlatformConfigFactory.create()
+      );
+      const firstDir = join(inputDir, 'first');
+      const secondDir = join(inputDir, 'second');
+      await mkdir(firstDir);
+      await mkdir(secondDir);
+      await writeFile(join(firstDir, 'first.nes'), 'first');
+      await writeFile(join(secondDir, 'second.nes'), 'second');
+      await processor.processDirectory(firstDir);
+
+      // Act
+      const result = await processor.processDirectory(secondDir);
+
+      // Assert
+      expect(result.changes.removed).toBe(0);
+      const playlist = JSON.parse(
+        await readFile(
+          join(paths.playlists, `${result.files[0]?.platformName}.lpl`),
+          'utf-8'
+        )
+      );
+      expect(playlist.items.map((i: { label: string }) => i.label)).toEqual([
+        'first',
+        'second',
+      ]);
+    });
+  });
+
+  describe('Link Strategies', () => {
+    it('should hard-link by default and record it in the manifest', async () => {
+      // Arrange
+      const paths = RetroArchPathsFactory.create(outputDir);
+      const processor = new BatchProcessor(
+        paths,
+        PlatformConfigFactory.create()
+      );
+      await writeFile(join(inputDir, 'game.nes'), 'test data');
+
+      // Act
+      const result = await processor.processDirectory(inputDir);
+
+      // Assert
+      expect(result.linkStrategies).toEqual({
+        hardlink: 1,
+        reflink: 0,
+        symlink: 0,
+        copy: 0,
+      });
+      const document = JSON.parse(
+        await readFile(join(paths.manifests, 'nes.json'), 'utf-8')
+      ) as ManifestDocument;
+      expect(document.entries[0]?.linkStrategy).toBe('hardlink');
+    });
+
+    it('should use the configured strategies', async () => {
+      // Arrange
+      const paths = RetroArchPathsFactory.create(outputDir);
+      const processor = new BatchProcessor(
+        paths,
+        PlatformConfigFactory.create({ linking: { strategies: ['copy'] } })
+      );
+      await writeFile(join(inputDir, 'game.nes'), 'test data');
+
+      // Act
+      const result = await processor.processDirectory(inputDir);
+
+      // Assert
+      expect(result.files[0]?.linkStrategy).toBe('copy');
+      expect(result.linkStrategies.copy).toBe(1);
+      expect(await readFile(result.files[0]?.destination ?? '', 'utf-8')).toBe(
+        'test data'
+      );
+    });
+  });
+
+  describe('Name Collisions', () => {
+    it('should reject a different file with the name of a placed one', async () => {
+      // Arrange
+      const base = PlatformConfigFactory.create();
+      const rejectedDir = join(testDir, 'rejected');
+      const processor = new BatchProcessor(
+        RetroArchPathsFactory.create(outputDir),
+        PlatformConfigFactory.create({
+          directories: {
+            ...base.directories,
+            workspace: { ...base.directories.workspace, rejected: rejectedDir },
+          },
+        })
+      );
+      await mkdir(join(inputDir, 'first'), { recursive: true });
+      await mkdir(join(inputDir, 'second'), { recursive: true });
+      await writeFile(join(inputDir, 'first', 'Game.nes'), 'first dump');
+      await writeFile(join(inputDir, 'second', 'Game.nes'), 'second dump');
+      const placed = await processor.processDirectory(join(inputDir, 'first'));
+
+      // Act
+      const result = await processor.processDirectory(join(inputDir, 'second'));
+
+      // Assert
+      expect(result.files).toEqual([]);
+      expect(result.rejected[0]?.file).toBe(
+        join(inputDir, 'second', 'Game.nes')
+      );
+      expect(await readFile(join(rejectedDir, 'Game.nes'), 'utf-8')).toBe(
+        'second dump'
+      );
+      expect(await readFile(placed.files[0]?.destination ?? '', 'utf-8')).toBe(
+        'first dump'
+      );
+      const document = JSON.parse(
+        await readFile(
+          join(RetroArchPathsFactory.create(outputDir).manifests, 'nes.json'),
+          'utf-8'
+        )
+      ) as ManifestDocument;
+      expect(document.entries).toHaveLength(1);
+    });
+  });
+
+  describe('Shared Extension Resolution', () => {
+    const psxGenesisConfig = (): ReturnType<
+      typeof PlatformConfigFactory.create
+    > => {
+      const base = PlatformConfigFactory.create();
+      return PlatformConfigFactory.create({
+        directories: {
+          ...base.directories,
+          workspace: {
+            ...base.directories.workspace,
+            rejected: join(testDir, 'rejected'),
+          },
+        },
+        platforms: [
+          PlatformDefinitionFactory.genesis(),
+          PlatformDefinitionFactory.psx(),
+        ],
+      });
+    };
+
+    it('should file a Genesis .bin under Genesis, not PlayStation', async () => {
+      // Arrange
+      const paths = RetroArchPathsFactory.create(outputDir);
+      const processor = new BatchProcessor(paths, psxGenesisConfig());
+      await writeFile(join(inputDir, 'sonic.bin'), RomHeaderFactory.genesis());
+
+      // Act
+      const result = await processor.processDirectory(inputDir);
+
+      // Assert
+      expect(result.files[0]?.platform).toBe('genesis');
+    });
+
+    it('should use a matching cue sheet for PlayStation tracks', async () => {
+      // Arrange
+      const paths = RetroArchPathsFactory.create(outputDir);
+      const processor = new BatchProcessor(paths, psxGenesisConfig());
+      await writeFile(join(inputDir, 'disc.bin'), 'track data');
+      await writeFile(join(inputDir, 'disc.cue'), 'FILE "disc.bin" BINARY');
+
+      // Act
+      const result = await processor.processDirectory(inputDir);
+
+      // Assert
+      const bin = result.files.find((f) => f.filename === 'disc.bin');
+      expect(bin?.platform).toBe('psx');
+    });
+
+    it('should reject undecidable files instead of misfiling them', async () => {
+      // Arrange
+      const paths = RetroArchPathsFactory.create(outputDir);
+      const processor = new BatchProcessor(paths, psxGenesisConfig());
+      await writeFile(join(inputDir, 'mystery.bin'), 'no header');
+
+      // Act
+      const result = await processor.processDirectory(inputDir);
+
+      // Assert
+      expect(result.processed).toBe(0);
+      expect(result.rejected).toHaveLength(1);
+      expect(result.rejected[0]?.reason).toContain('Ambiguous extension');
+      expect(result.rejected[0]?.rejectedPath).toBe(
+        join(testDir, 'rejected', 'mystery.bin')
+      );
+    });
+  });
+
+  describe('Zip Archives', () => {
+    const zipConfig = (): ReturnType<typeof PlatformConfigFactory.create> => {
+      const base = PlatformConfigFactory.create();
+      return PlatformConfigFactory.create({
+        directories: {
+          ...base.directories,
+          workspace: {
+            ...base.directories.workspace,
+            staging: join(testDir, 'staging'),
+            rejected: join(testDir, 'rejected'),
+          },
+        },
+        platforms: [PlatformDefinitionFactory.nes()],
+      });
+    };
+
+    it('should link a single-ROM archive intact and reference its entry', async () => {
+      // Arrange
+      const paths = RetroArchPathsFactory.create(outputDir);
+      const processor = new BatchProcessor(paths, zipConfig());
+      await writeFile(
+        join(inputDir, 'mario.zip'),
+        ZipFactory.single('mario.nes', RomHeaderFactory.nes())
+      );
+
+      // Act
+      const result = await processor.processDirectory(inputDir);
+
+      // Assert
+      expect(result.files).toHaveLength(1);
+      expect(result.files[0]?.filename).toBe('mario.zip');
+      expect(result.files[0]?.entryName).toBe('mario.nes');
+
+      const playlist = JSON.parse(
+        await readFile(
+          join(paths.playlists, `${result.files[0]?.platformName}.lpl`),
+          'utf-8'
+        )
+      );
+      expect(playlist.items[0].path).toBe(
+        `${result.files[0]?.destination}#mario.nes`
+      );
+    });
+
+    it('should use the CRC32 of the entry, not of the zip file', async () => {
+      // Arrange
+      const paths = RetroArchPathsFactory.create(outputDir);
+      const processor = new BatchProcessor(paths, zipConfig());
+      const rom = RomHeaderFactory.nes();
+      await writeFile(
+        join(inputDir, 'mario.zip'),
+        ZipFactory.single('mario.nes', rom)
+      );
+
+      // Act
+      const result = await processor.processDirectory(inputDir);
+
+      // Assert
+      expect(result.files[0]?.hashes?.crc32).toBe(formatCrc32(crc32(rom)));
+    });
+
+    it('should extract multi-entry archives and clean up staging', async () => {
+      // Arrange
+      const paths = RetroArchPathsFactory.create(outputDir);
+      const processor = new BatchProcessor(paths, zipConfig());
+      await writeFile(
+        join(inputDir, 'pack.zip'),
+        ZipFactory.create([
+          { name: 'a.nes', data: RomHeaderFactory.nes(), deflate: true },
+          { name: 'b.nes', data: RomHeaderFactory.nes({ size: 64 }) },
+          { name: 'info.txt', data: Buffer.from('readme') },
+        ])
+      );
+
+      // Act
+      const result = await processor.processDirectory(inputDir);
+
+      // Assert
+      expect(result.files.map((f) => f.filename).sort()).toEqual([
+        'a.nes',
+        'b.nes',
+      ]);
+      expect(existsSync(result.files[0]?.destination ?? '')).toBe(true);
+      expect(existsSync(join(testDir, 'staging', 'pack'))).toBe(false);
+    });
+  });
+
+  describe('Multi-Disc Sets', () => {
+    it('should write one m3u playlist entry per disc set', async () => {
+      // Arrange
+      const paths = RetroArchPathsFactory.create(outputDir);
+      const processor = new BatchProcessor(
+        paths,
+        PlatformConfigFactory.create({
+          platforms: [PlatformDefinitionFactory.psx()],
+        })
+      );
+      for (const n of [1, 2]) {
+        await writeFile(
+          join(inputDir, `Epic (USA) (Disc ${n}).chd`),
+          `disc ${n}`
+        );
+      }
+      await writeFile(join(inputDir, 'Solo (USA).chd'), 'solo disc');
+
+      // Act
+      const result = await processor.processDirectory(inputDir);
+
+      // Assert
+      const platformName = PlatformDefinitionFactory.psx().name;
+      const playlist = JSON.parse(
+        await readFile(join(paths.playlists, `${platformName}.lpl`), 'utf-8')
+      );
+      const m3uPath = join(paths.downloads, platformName, 'Epic (USA).m3u');
+      expect(result.processed).toBe(3);
+      expect(playlist.items).toHaveLength(2);
+      expect(playlist.items.map((i: { path: string }) => i.path)).toContain(
+        m3uPath
+      );
+      expect(await readFile(m3uPath, 'utf-8')).toBe(
+        'Epic (USA) (Disc 1).chd\nEpic (USA) (Disc 2).chd\n'
+      );
+    });
+  });
+
   describe('Platform Mapping', () => {
     it('should correctly map file extensions to platforms', async () => {
       // Arrange
@@ -249,8 +963,8 @@ describe('Batch Processor', () => {
       const config = PlatformConfigFactory.create();
       const processor = new BatchProcessor(paths, config);
 
-      await writeFile(join(inputDir, 'game.NES'), 'test');
-      await writeFile(join(inputDir, 'game2.NeS'), 'test');
+      await writeFile(join(inputDir, 'game.NES'), 'test 1');
+      await writeFile(join(inputDir, 'game2.NeS'), 'test 2');
 
       // Act
       const result = await processor.processDirectory(inputDir);
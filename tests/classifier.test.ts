@@ -8,16 +8,22 @@
 import { writeFile, mkdir } from 'node:fs/promises';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
+import { Readable } from 'node:stream';
 
 import { describe, it, expect, beforeEach } from 'vitest';
 
 import { Classifier } from '../src/pipeline/classifier.js';
+import { hashStream } from '../src/pipeline/rom-hashes.js';
 import type { ROMFile } from '../src/interfaces/pipeline.interface.js';
 
 import {
   PlatformConfigFactory,
+  PlatformDefinitionFactory,
   ROMFileFactory,
 } from './factories/pipeline.factory.js';
+import { RomHeaderFactory } from './factories/rom-header.factory.js';
+import { ZipFactory } from './factories/zip.factory.js';
+import { PatchFactory } from './factories/patch.factory.js';
 
 describe('Classifier', () => {
   let classifier: Classifier;
@@ -159,6 +165,370 @@ describe('Classifier', () => {
     });
   });
 
+  describe('classify with header detection', () => {
+    beforeEach(() => {
+      const config = PlatformConfigFactory.create({
+        platforms: [
+          PlatformDefinitionFactory.nes(),
+          PlatformDefinitionFactory.snes(),
+          PlatformDefinitionFactory.genesis(),
+          PlatformDefinitionFactory.psx(),
+        ],
+      });
+      classifier = new Classifier(config);
+    });
+
+    it('should classify by header with full confidence', async () => {
+      // Arrange
+      const testFile = join(testDir, 'header-game.nes');
+      await writeFile(testFile, RomHeaderFactory.nes());
+
+      // Act
+      const result = await classifier.classify(testFile);
+
+      // Assert
+      expect(result.data?.platform).toBe('nes');
+      expect(result.data?.confidence).toBe(1);
+      expect(result.metadata?.['detectionMethod']).toBe('header');
+      expect(result.data?.metadata?.['headerSignature']).toBe('iNES');
+    });
+
+    it('should classify a PlayStation .bin by CD header', async () => {
+      // Arrange
+      const testFile = join(testDir, 'disc.bin');
+      await writeFile(testFile, RomHeaderFactory.psx());
+
+      // Act
+      const result = await classifier.classify(testFile);
+
+      // Assert
+      expect(result.data?.platform).toBe('psx');
+      expect(result.metadata?.['warnings']).toBeUndefined();
+    });
+
+    it('should classify a Genesis .bin by SEGA header', async () => {
+      // Arrange
+      const testFile = join(testDir, 'cart.bin');
+      await writeFile(testFile, RomHeaderFactory.genesis());
+
+      // Act
+      const result = await classifier.classify(testFile);
+
+      // Assert
+      expect(result.data?.platform).toBe('genesis');
+    });
+
+    it('should warn when header and extension disagree', async () => {
+      // Arrange
+      const testFile = join(testDir, 'misnamed.smc');
+      await writeFile(testFile, RomHeaderFactory.nes());
+
+      // Act
+      const result = await classifier.classify(testFile);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.data?.platform).toBe('nes');
+      const warnings = result.metadata?.['warnings'] as string[];
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0]).toContain('Header indicates nes');
+      expect(warnings[0]).toContain('snes');
+    });
+
+    it('should fall back to extension with reduced confidence', async () => {
+      // Arrange
+      const testFile = join(testDir, 'plain.sfc');
+      await writeFile(testFile, 'no header here');
+
+      // Act
+      const result = await classifier.classify(testFile);
+
+      // Assert
+      expect(result.data?.platform).toBe('snes');
+      expect(result.data?.confidence).toBe(0.5);
+      expect(result.metadata?.['detectionMethod']).toBe('extension');
+    });
+
+    it('should resolve shared extensions from a matching cue sheet', async () => {
+      // Arrange
+      const testFile = join(testDir, 'disc.bin');
+      await writeFile(testFile, 'no header here');
+      await writeFile(join(testDir, 'disc.cue'), 'FILE "disc.bin" BINARY');
+
+      // Act
+      const result = await classifier.classify(testFile);
+
+      // Assert
+      expect(result.data?.platform).toBe('psx');
+      expect(result.metadata?.['detectionMethod']).toBe('sibling');
+      expect(result.data?.metadata?.['ambiguousExtension']).toBe(true);
+    });
+
+    it('should reject undecidable shared extensions', async () => {
+      // Arrange
+      const rejectedDir = join(testDir, 'Rejected');
+      classifier = new Classifier(
+        PlatformConfigFactory.create({
+          directories: {
+            ...PlatformConfigFactory.create().directories,
+            workspace: {
+              root: testDir,
+              staging: join(testDir, 'Staging'),
+              validation: join(testDir, 'Validation'),
+              rejected: rejectedDir,
+              tools: join(testDir, 'Tools'),
+            },
+          },
+          platforms: [
+            PlatformDefinitionFactory.genesis(),
+            PlatformDefinitionFactory.psx(),
+          ],
+        })
+      );
+      const testFile = join(testDir, 'unknown.bin');
+      await writeFile(testFile, 'no header here');
+
+      // Act
+      const result = await classifier.classify(testFile);
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Ambiguous extension .bin');
+      expect(result.metadata?.['rejectedPath']).toBe(
+        join(rejectedDir, 'unknown.bin')
+      );
+    });
+
+    it('should ignore header platforms missing from config', async () => {
+      // Arrange
+      const testFile = join(testDir, 'game.nes');
+      await writeFile(testFile, RomHeaderFactory.gba());
+
+      // Act
+      const result = await classifier.classify(testFile);
+
+      // Assert
+      expect(result.data?.platform).toBe('nes');
+      expect(result.metadata?.['detectionMethod']).toBe('extension');
+    });
+  });
+
+  describe('classifyArchive', () => {
+    let stagingDir: string;
+    let rejectedDir: string;
+
+    beforeEach(() => {
+      stagingDir = join(testDir, 'Staging');
+      rejectedDir = join(testDir, 'Rejected');
+      classifier = new Classifier(
+        PlatformConfigFactory.create({
+          directories: {
+            ...PlatformConfigFactory.create().directories,
+            workspace: {
+              root: testDir,
+              staging: stagingDir,
+              validation: join(testDir, 'Validation'),
+              rejected: rejectedDir,
+              tools: join(testDir, 'Tools'),
+            },
+          },
+          platforms: [
+            PlatformDefinitionFactory.nes(),
+            PlatformDefinitionFactory.genesis(),
+            PlatformDefinitionFactory.psx(),
+          ],
+        })
+      );
+    });
+
+    it('should keep a single-ROM archive intact', async () => {
+      // Arrange
+      const zipPath = join(testDir, 'game.zip');
+      const rom = RomHeaderFactory.nes();
+      await writeFile(zipPath, ZipFactory.single('game.nes', rom));
+
+      // Act
+      const result = await classifier.classifyArchive(zipPath);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.data).toHaveLength(1);
+      expect(result.data?.[0]).toMatchObject({
+        filename: 'game.zip',
+        path: zipPath,
+        containerPath: zipPath,
+        entryName: 'game.nes',
+        extension: '.nes',
+        platform: 'nes',
+        size: rom.length,
+      });
+      expect(result.metadata?.['archiveMode']).toBe('intact');
+    });
+
+    it('should extract multi-entry archives into staging', async () => {
+      // Arrange
+      const zipPath = join(testDir, 'collection.zip');
+      await writeFile(
+        zipPath,
+        ZipFactory.create([
+          { name: 'one.nes', data: RomHeaderFactory.nes(), deflate: true },
+          { name: 'two/two.nes', data: RomHeaderFactory.nes() },
+        ])
+      );
+
+      // Act
+      const result = await classifier.classifyArchive(zipPath);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.data?.map((r) => r.path)).toEqual([
+        join(stagingDir, 'collection', 'one.nes'),
+        join(stagingDir, 'collection', 'two.nes'),
+      ]);
+      expect(result.data?.[1]?.entryName).toBe('two/two.nes');
+      expect(result.metadata?.['archiveMode']).toBe('extracted');
+    });
+
+    it('should fail when the archive holds no ROMs', async () => {
+      const zipPath = join(testDir, 'docs.zip');
+      await writeFile(
+        zipPath,
+        ZipFactory.single('readme.txt', Buffer.from('hi'))
+      );
+
+      const result = await classifier.classifyArchive(zipPath);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Archive contains no recognized ROM files');
+    });
+
+    it('should reject archives holding only undecidable entries', async () => {
+      const zipPath = join(testDir, 'mystery.zip');
+      await writeFile(
+        zipPath,
+        ZipFactory.single('mystery.bin', Buffer.alloc(64))
+      );
+
+      const result = await classifier.classifyArchive(zipPath);
+
+      expect(result.success).toBe(false);
+      expect(result.metadata?.['rejectedPath']).toBe(
+        join(rejectedDir, 'mystery.zip')
+      );
+    });
+
+    it('should return the single ROM from classify()', async () => {
+      const zipPath = join(testDir, 'solo.zip');
+      await writeFile(
+        zipPath,
+        ZipFactory.single('solo.nes', RomHeaderFactory.nes())
+      );
+
+      const result = await classifier.classify(zipPath);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.entryName).toBe('solo.nes');
+    });
+  });
+
+  describe('classify patches', () => {
+    const base = Buffer.from('base rom content');
+    const patched = Buffer.from('patched rom content');
+
+    beforeEach(async () => {
+      // Arrange: one archived NES ROM the patches can apply to
+      const manifests = join(testDir, 'Manifests');
+      classifier = new Classifier(
+        PlatformConfigFactory.create({
+          directories: {
+            ...PlatformConfigFactory.create().directories,
+            archive: {
+              root: testDir,
+              bios: join(testDir, 'BIOS'),
+              manifests,
+              roms: join(testDir, 'ROMs'),
+            },
+          },
+        })
+      );
+      await mkdir(manifests, { recursive: true });
+      await writeFile(
+        join(manifests, 'nes.json'),
+        JSON.stringify([
+          {
+            id: 'base-id',
+            filename: 'Quest (Japan).nes',
+            platform: 'nes',
+            hash: 'sha',
+            hashes: await hashStream(Readable.from([base])),
+            size: base.length,
+            extension: '.nes',
+            archivedAt: '2024-01-01T00:00:00.000Z',
+          },
+        ])
+      );
+    });
+
+    it('should take the platform of the base matched by source CRC-32', async () => {
+      // Arrange
+      const patchFile = join(testDir, 'Quest [T+Eng].bps');
+      await writeFile(patchFile, PatchFactory.bps(base, patched));
+
+      // Act
+      const result = await classifier.classify(patchFile);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.data?.platform).toBe('nes');
+      expect(result.data?.patch).toMatchObject({
+        format: 'bps',
+        sourceSize: base.length,
+        base: { id: 'base-id', filename: 'Quest (Japan).nes' },
+        matchedBy: 'crc32',
+      });
+      expect(result.metadata?.['detectionMethod']).toBe('patch');
+    });
+
+    it('should match IPS patches by file name', async () => {
+      // Arrange
+      const patchFile = join(testDir, 'Quest (Japan).ips');
+      await writeFile(patchFile, PatchFactory.ips(base, patched));
+
+      // Act
+      const result = await classifier.classify(patchFile);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.data?.patch?.matchedBy).toBe('name');
+    });
+
+    it('should fail when no archived ROM matches', async () => {
+      // Arrange
+      const patchFile = join(testDir, 'Other.ups');
+      await writeFile(patchFile, PatchFactory.ups(patched, base));
+
+      // Act
+      const result = await classifier.classify(patchFile);
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('No archived ROM matches patch source');
+    });
+
+    it('should fail for a patch extension without patch content', async () => {
+      // Arrange
+      const patchFile = join(testDir, 'fake.ips');
+      await writeFile(patchFile, 'not a patch');
+
+      // Act
+      const result = await classifier.classify(patchFile);
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Not an IPS, BPS or UPS patch');
+    });
+  });
+
   describe('moveToValidation', () => {
     it('should return validation path for ROM', () => {
       // Arrange
@@ -102,6 +102,21 @@ describe('ConfigValidator', () => {
       expect(result.warnings[0]).toContain('not absolute');
     });
 
+    it('should warn for a relative DAT directory', () => {
+      // Arrange
+      const config = coLocatedTemplate.generate(EXAMPLE_BASE_PATH);
+      config.datDirectory = 'dats';
+
+      // Act
+      const result = validator.validate(config);
+
+      // Assert
+      expect(result.valid).toBe(true);
+      expect(result.warnings).toContain(
+        'datDirectory: Path "dats" is not absolute. Consider using an absolute path for better reliability.'
+      );
+    });
+
     it('should detect path conflicts when one path is parent of another', () => {
       // Arrange
       const config: UserConfig = {
@@ -0,0 +1,150 @@
+/**
+ * Tests for CUE Sheet Parser
+ * Following TEST-002 (Single Responsibility per test)
+ * Following TEST-004 (Arrange-Act-Assert pattern)
+ */
+
+import { writeFile, mkdir, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { parseCueSheet, verifyCueSheet } from '../src/pipeline/cue-sheet.js';
+
+import { CueSheetFactory, RAW_SECTOR } from './factories/cue-sheet.factory.js';
+
+describe('CUE Sheet', () => {
+  describe('parseCueSheet', () => {
+    it('should parse files, tracks and index frames', () => {
+      // Arrange
+      const text = [
+        'REM GENRE Action',
+        'FILE "Game (Track 1).bin" BINARY',
+        '  TRACK 01 MODE2/2352',
+        '    INDEX 01 00:00:00',
+        '  TRACK 02 audio',
+        '    INDEX 00 01:02:03',
+        '    INDEX 01 01:04:03',
+      ].join('\r\n');
+
+      // Act
+      const sheet = parseCueSheet(text);
+
+      // Assert
+      expect(sheet.files).toHaveLength(1);
+      expect(sheet.files[0]?.filename).toBe('Game (Track 1).bin');
+      expect(sheet.files[0]?.tracks.map((t) => t.mode)).toEqual([
+        'MODE2/2352',
+        'AUDIO',
+      ]);
+      expect(sheet.files[0]?.tracks[1]?.indexes.get(0)).toBe((60 + 2) * 75 + 3);
+    });
+
+    it('should accept unquoted filenames', () => {
+      const sheet = parseCueSheet('FILE game.bin BINARY\nTRACK 1 MODE1/2352');
+
+      expect(sheet.files[0]?.filename).toBe('game.bin');
+      expect(sheet.files[0]?.tracks[0]?.number).toBe(1);
+    });
+  });
+
+  describe('verifyCueSheet', () => {
+    let testDir: string;
+
+    beforeEach(async () => {
+      testDir = join(tmpdir(), `cue-sheet-test-${Date.now()}`);
+      await mkdir(testDir, { recursive: true });
+    });
+
+    afterEach(async () => {
+      await rm(testDir, { recursive: true, force: true });
+    });
+
+    it('should accept complete multi-track discs', async () => {
+      // Arrange
+      const cuePath = await CueSheetFactory.write(testDir, 'disc.cue', [
+        { filename: 'disc (Track 1).bin' },
+        { filename: 'disc (Track 2).bin' },
+      ]);
+
+      // Act
+      const result = await verifyCueSheet(cuePath);
+
+      // Assert
+      expect(result.problems).toEqual([]);
+      expect(result.files).toEqual([
+        join(testDir, 'disc (Track 1).bin'),
+        join(testDir, 'disc (Track 2).bin'),
+      ]);
+    });
+
+    it('should report missing track files', async () => {
+      const cuePath = await CueSheetFactory.write(
+        testDir,
+        'disc.cue',
+        [{ filename: 'data.bin' }, { filename: 'audio.bin' }],
+        { omit: ['audio.bin'] }
+      );
+
+      const result = await verifyCueSheet(cuePath);
+
+      expect(result.problems).toHaveLength(1);
+      expect(result.problems[0]).toMatchObject({
+        file: 'audio.bin',
+        track: 2,
+        issue: 'missing',
+      });
+    });
+
+    it('should report tracks that are not whole sectors', async () => {
+      const cuePath = await CueSheetFactory.write(testDir, 'disc.cue', [
+        { filename: 'data.bin', size: RAW_SECTOR * 3 + 100 },
+      ]);
+
+      const result = await verifyCueSheet(cuePath);
+
+      expect(result.problems[0]?.issue).toBe('truncated');
+      expect(result.problems[0]?.message).toContain('2352-byte sectors');
+    });
+
+    it('should honour MODE1/2048 sector size', async () => {
+      const cuePath = await CueSheetFactory.write(testDir, 'disc.cue', [
+        { filename: 'data.iso', mode: 'MODE1/2048', size: 2048 * 10 },
+      ]);
+
+      const result = await verifyCueSheet(cuePath);
+
+      expect(result.problems).toEqual([]);
+    });
+
+    it('should report files shorter than a later track start', async () => {
+      // Arrange: track 2 starts at 00:00:10 (10 sectors) in a 5-sector file
+      const cuePath = join(testDir, 'single.cue');
+      await writeFile(
+        cuePath,
+        [
+          'FILE "single.bin" BINARY',
+          '  TRACK 01 MODE1/2352',
+          '    INDEX 01 00:00:00',
+          '  TRACK 02 AUDIO',
+          '    INDEX 01 00:00:10',
+        ].join('\n')
+      );
+      await writeFile(
+        join(testDir, 'single.bin'),
+        Buffer.alloc(RAW_SECTOR * 5)
+      );
+
+      // Act
+      const result = await verifyCueSheet(cuePath);
+
+      // Assert
+      expect(result.problems[0]).toMatchObject({
+        file: 'single.bin',
+        track: 2,
+        issue: 'truncated',
+      });
+    });
+  });
+});
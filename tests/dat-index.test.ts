@@ -0,0 +1,191 @@
+/**
+ * Tests for DAT Parser and Index
+ * Following TEST-002 (Single Responsibility per test)
+ * Following TEST-004 (Arrange-Act-Assert pattern)
+ */
+
+import { writeFile, mkdir, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { Readable } from 'node:stream';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { parseDatFile } from '../src/pipeline/dat-file.js';
+import { DatIndex } from '../src/pipeline/dat-index.js';
+import { hashStream } from '../src/pipeline/rom-hashes.js';
+import type { RomHashes } from '../src/interfaces/pipeline.interface.js';
+
+import { DatFactory } from './factories/dat.factory.js';
+
+const hashesOf = (content: string): Promise<RomHashes> =>
+  hashStream(Readable.from([Buffer.from(content)]));
+
+describe('DAT Parser', () => {
+  it('should read header name, games, clones and ROM checksums', () => {
+    // Arrange
+    const xml = DatFactory.xml('Sega - Mega Drive - Genesis', [
+      { name: 'Game (USA)', roms: [{ name: 'Game (USA).md', content: 'a' }] },
+      {
+        name: 'Game (Japan)',
+        cloneOf: 'Game (USA)',
+        roms: [{ name: 'Game (Japan).md', content: 'b', status: 'baddump' }],
+      },
+    ]);
+
+    // Act
+    const dat = parseDatFile(xml);
+
+    // Assert
+    expect(dat.name).toBe('Sega - Mega Drive - Genesis');
+    expect(dat.games).toHaveLength(2);
+    expect(dat.games[1]?.cloneOf).toBe('Game (USA)');
+    expect(dat.games[0]?.roms[0]).toMatchObject({
+      name: 'Game (USA).md',
+      size: 1,
+      crc32: 'e8b7be43',
+    });
+    expect(dat.games[1]?.roms[0]?.status).toBe('baddump');
+  });
+
+  it('should decode XML entities in names', () => {
+    // Arrange
+    const xml =
+      '<datafile><game name="Tom &amp; Jerry (USA)"><rom name="Tom &amp; Jerry (USA).nes" size="4" crc="00000000"/></game></datafile>';
+
+    // Act
+    const dat = parseDatFile(xml, 'fallback');
+
+    // Assert
+    expect(dat.name).toBe('fallback');
+    expect(dat.games[0]?.name).toBe('Tom & Jerry (USA)');
+    expect(dat.games[0]?.roms[0]?.name).toBe('Tom & Jerry (USA).nes');
+  });
+
+  it('should skip ROM elements without a size', () => {
+    // Arrange
+    const xml =
+      '<datafile><game name="G"><rom name="g.bin"/></game></datafile>';
+
+    // Act
+    const dat = parseDatFile(xml);
+
+    // Assert
+    expect(dat.games[0]?.roms).toEqual([]);
+  });
+});
+
+describe('DAT Index', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `dat-index-test-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should load every .dat and .xml file in a directory', async () => {
+    // Arrange
+    await writeFile(
+      join(testDir, 'nes.dat'),
+      DatFactory.single('NES', 'A (USA)', 'A (USA).nes', 'nes-rom')
+    );
+    await writeFile(
+      join(testDir, 'snes.xml'),
+      DatFactory.single('SNES', 'B (Europe)', 'B (Europe).sfc', 'snes-rom')
+    );
+    await writeFile(join(testDir, 'readme.txt'), 'not a dat');
+
+    // Act
+    const index = await DatIndex.load(testDir);
+
+    // Assert
+    expect(index.dats).toEqual(['NES', 'SNES']);
+    expect(index.errors).toEqual([]);
+    expect(
+      index.lookup(await hashesOf('snes-rom'), 8, 'renamed.sfc').game
+    ).toBe('B (Europe)');
+  });
+
+  it('should match by CRC-32 and size when SHA-1 is absent', async () => {
+    // Arrange
+    const index = new DatIndex();
+    index.add(
+      parseDatFile(
+        '<datafile><game name="C (Japan)"><rom name="c.pce" size="3" crc="352441C2"/></game></datafile>'
+      )
+    );
+
+    // Act
+    const match = index.lookup(await hashesOf('abc'), 3, 'other.pce');
+
+    // Assert
+    expect(match.status).toBe('verified');
+    expect(match.matchedBy).toBe('crc32');
+    expect(match.region).toBe('Japan');
+  });
+
+  it('should report the parent of a clone', async () => {
+    // Arrange
+    const index = new DatIndex();
+    index.add(
+      parseDatFile(
+        DatFactory.xml('NES', [
+          { name: 'Mega Man (USA)', roms: [{ name: 'a.nes', content: 'a' }] },
+          {
+            name: 'Rockman (Japan)',
+            cloneOf: 'Mega Man (USA)',
+            roms: [{ name: 'b.nes', content: 'b' }],
+          },
+        ])
+      )
+    );
+
+    // Act
+    const match = index.lookup(await hashesOf('b'), 1, 'b.nes');
+
+    // Assert
+    expect(match.game).toBe('Rockman (Japan)');
+    expect(match.cloneOf).toBe('Mega Man (USA)');
+  });
+
+  it('should not match a CRC-32 with a different size', async () => {
+    // Arrange
+    const index = new DatIndex();
+    index.add(
+      parseDatFile(
+        '<datafile><game name="C"><rom name="c.pce" size="4" crc="352441C2"/></game></datafile>'
+      )
+    );
+
+    // Act
+    const match = index.lookup(await hashesOf('abc'), 3, 'other.pce');
+
+    // Assert
+    expect(match.status).toBe('unknown');
+  });
+
+  it('should index tens of thousands of entries', async () => {
+    // Arrange
+    const games = Array.from({ length: 20000 }, (_, i) => ({
+      name: `Game ${i} (USA)`,
+      roms: [{ name: `Game ${i} (USA).nes`, content: `rom-${i}` }],
+    }));
+    const index = new DatIndex();
+
+    // Act
+    index.add(parseDatFile(DatFactory.xml('Big', games)));
+    const match = index.lookup(
+      await hashesOf('rom-19999'),
+      9,
+      'Game 19999 (USA).nes'
+    );
+
+    // Assert
+    expect(match.game).toBe('Game 19999 (USA)');
+    expect(match.matchedBy).toBe('sha1');
+  });
+});
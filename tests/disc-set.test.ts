@@ -0,0 +1,93 @@
+/**
+ * Tests for Multi-Disc Sets
+ * Following TEST-002 (Single Responsibility per test)
+ * Following TEST-004 (Arrange-Act-Assert pattern)
+ */
+
+import { writeFile, readFile, mkdir, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import {
+  parseDiscTag,
+  renderM3u,
+  updateM3u,
+} from '../src/pipeline/disc-set.js';
+
+describe('Disc Sets', () => {
+  describe('parseDiscTag', () => {
+    it('should parse Redump disc tags', () => {
+      expect(parseDiscTag('Final Fantasy VII (USA) (Disc 1).cue')).toEqual({
+        title: 'Final Fantasy VII (USA)',
+        disc: 1,
+      });
+    });
+
+    it('should parse "of N" and lettered discs', () => {
+      expect(parseDiscTag('Game (Europe) (Disc 2 of 3).chd')?.disc).toBe(2);
+      expect(parseDiscTag('Game (Japan) (Disk B).bin')?.disc).toBe(2);
+    });
+
+    it('should drop track tags from the title', () => {
+      expect(parseDiscTag('Game (USA) (Disc 1) (Track 02).bin')).toEqual({
+        title: 'Game (USA)',
+        disc: 1,
+      });
+    });
+
+    it('should return null for single-disc games', () => {
+      expect(parseDiscTag('Crash Bandicoot (USA).cue')).toBeNull();
+    });
+  });
+
+  describe('renderM3u', () => {
+    it('should list discs in order', () => {
+      const text = renderM3u([
+        { disc: 2, file: 'Game (Disc 2).cue' },
+        { disc: 1, file: 'Game (Disc 1).cue' },
+      ]);
+
+      expect(text).toBe('Game (Disc 1).cue\nGame (Disc 2).cue\n');
+    });
+  });
+
+  describe('updateM3u', () => {
+    let testDir: string;
+
+    beforeEach(async () => {
+      testDir = join(tmpdir(), `disc-set-test-${Date.now()}`);
+      await mkdir(testDir, { recursive: true });
+    });
+
+    afterEach(async () => {
+      await rm(testDir, { recursive: true, force: true });
+    });
+
+    it('should add a re-ingested disc to an existing playlist', async () => {
+      // Arrange
+      await writeFile(join(testDir, 'Game.m3u'), 'Game (Disc 1).cue\n');
+
+      // Act
+      const m3uPath = await updateM3u(testDir, 'Game.m3u', [
+        { disc: 2, file: 'Game (Disc 2).cue' },
+      ]);
+
+      // Assert
+      expect(await readFile(m3uPath, 'utf-8')).toBe(
+        'Game (Disc 1).cue\nGame (Disc 2).cue\n'
+      );
+    });
+
+    it('should replace the line of a disc ingested again', async () => {
+      await writeFile(join(testDir, 'Game.m3u'), 'Game (Disc 1).bin\n');
+
+      const m3uPath = await updateM3u(testDir, 'Game.m3u', [
+        { disc: 1, file: 'Game (Disc 1).cue' },
+      ]);
+
+      expect(await readFile(m3uPath, 'utf-8')).toBe('Game (Disc 1).cue\n');
+    });
+  });
+});
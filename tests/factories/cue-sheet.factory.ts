@@ -0,0 +1,62 @@
+/**
+ * Test Factory for CUE Sheets
+ * Follows Factory Pattern and DRY principles (TEST-001)
+ * Single Responsibility: Build cue sheets and their track files
+ */
+
+import { writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+export const RAW_SECTOR = 2352;
+
+export interface CueTrackSpec {
+  filename: string;
+  mode?: string;
+  /** Track file size in bytes (default: 4 raw sectors) */
+  size?: number;
+}
+
+export class CueSheetFactory {
+  /**
+   * One FILE per track; first track data, the rest audio by default
+   */
+  static text(tracks: CueTrackSpec[]): string {
+    return tracks
+      .map((track, index) => {
+        const number = String(index + 1).padStart(2, '0');
+        const mode = track.mode ?? (index === 0 ? 'MODE2/2352' : 'AUDIO');
+        return [
+          `FILE "${track.filename}" BINARY`,
+          `  TRACK ${number} ${mode}`,
+          '    INDEX 01 00:00:00',
+        ].join('\n');
+      })
+      .join('\n');
+  }
+
+  /**
+   * Writes a cue sheet and its track files to a directory
+   * @returns Path of the cue sheet
+   */
+  static async write(
+    dir: string,
+    cueName: string,
+    tracks: CueTrackSpec[],
+    options: { omit?: string[] } = {}
+  ): Promise<string> {
+    const cuePath = join(dir, cueName);
+    await writeFile(cuePath, CueSheetFactory.text(tracks));
+
+    for (const track of tracks) {
+      if (options.omit?.includes(track.filename) === true) {
+        continue;
+      }
+      await writeFile(
+        join(dir, track.filename),
+        Buffer.alloc(track.size ?? RAW_SECTOR * 4)
+      );
+    }
+
+    return cuePath;
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Test Factory for Logiqx DAT Files
+ * Follows Factory Pattern and DRY principles (TEST-001)
+ * Single Responsibility: Build DAT XML with checksums of given content
+ */
+
+import { createHash } from 'node:crypto';
+
+import { crc32, formatCrc32 } from '../../src/pipeline/crc32.js';
+
+export interface DatRomSpec {
+  /** ROM file name, e.g. "Game (USA).nes" */
+  name: string;
+  content: Buffer | string;
+  status?: string;
+}
+
+export interface DatGameSpec {
+  name: string;
+  cloneOf?: string;
+  roms: DatRomSpec[];
+}
+
+export class DatFactory {
+  /**
+   * Logiqx XML with real CRC-32 / MD5 / SHA-1 of each ROM's content
+   */
+  static xml(name: string, games: DatGameSpec[]): string {
+    const body = games
+      .map((game) => {
+        const cloneOf =
+          game.cloneOf !== undefined ? ` cloneof="${game.cloneOf}"` : '';
+        const roms = game.roms.map((rom) => {
+          const data = Buffer.from(rom.content);
+          const status =
+            rom.status !== undefined ? ` status="${rom.status}"` : '';
+          return `    <rom name="${rom.name}" size="${data.length}" crc="${formatCrc32(crc32(data)).toUpperCase()}" md5="${createHash('md5').update(data).digest('hex')}" sha1="${createHash('sha1').update(data).digest('hex')}"${status}/>`;
+        });
+        return [
+          `  <game name="${game.name}"${cloneOf}>`,
+          `    <description>${game.name}</description>`,
+          ...roms,
+          '  </game>',
+        ].join('\n');
+      })
+      .join('\n');
+
+    return [
+      '<?xml version="1.0"?>',
+      '<!DOCTYPE datafile PUBLIC "-//Logiqx//DTD ROM Management Datafile//EN" "http://www.logiqx.com/Dats/datafile.dtd">',
+      '<datafile>',
+      '  <header>',
+      `    <name>${name}</name>`,
+      '  </header>',
+      body,
+      '</datafile>',
+    ].join('\n');
+  }
+
+  /**
+   * DAT with one single-ROM game
+   */
+  static single(
+    datName: string,
+    gameName: string,
+    romName: string,
+    content: Buffer | string
+  ): string {
+    return DatFactory.xml(datName, [
+      { name: gameName, roms: [{ name: romName, content }] },
+    ]);
+  }
+}
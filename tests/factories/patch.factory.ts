@@ -0,0 +1,179 @@
+/**
+ * Test Factory for IPS / BPS / UPS Patches
+ * Follows Factory Pattern and DRY principles (TEST-001)
+ * Single Responsibility: Encode patches that turn one buffer into another
+ */
+
+import { crc32 } from '../../src/pipeline/crc32.js';
+
+const BPS_SOURCE_READ = 0;
+const BPS_TARGET_READ = 1;
+
+export class PatchFactory {
+  /**
+   * IPS with one record per run of differing bytes
+   */
+  static ips(source: Buffer, target: Buffer): Buffer {
+    const parts: Buffer[] = [Buffer.from('PATCH')];
+    for (const [offset, length] of differingRuns(source, target)) {
+      const record = Buffer.alloc(5);
+      record.writeUIntBE(offset, 0, 3);
+      record.writeUInt16BE(length, 3);
+      parts.push(record, target.subarray(offset, offset + length));
+    }
+    parts.push(Buffer.from('EOF'));
+    if (target.length < source.length) {
+      const truncate = Buffer.alloc(3);
+      truncate.writeUIntBE(target.length, 0, 3);
+      parts.push(truncate);
+    }
+    return Buffer.concat(parts);
+  }
+
+  /**
+   * IPS with a single RLE record filling `length` bytes at `offset`
+   */
+  static ipsRle(offset: number, length: number, value: number): Buffer {
+    const record = Buffer.alloc(8);
+    record.writeUIntBE(offset, 0, 3);
+    record.writeUInt16BE(0, 3);
+    record.writeUInt16BE(length, 5);
+    record.writeUInt8(value, 7);
+    return Buffer.concat([Buffer.from('PATCH'), record, Buffer.from('EOF')]);
+  }
+
+  /**
+   * BPS using source reads for equal bytes and target reads otherwise
+   */
+  static bps(source: Buffer, target: Buffer): Buffer {
+    const actions: number[] = [];
+    let index = 0;
+    while (index < target.length) {
+      const same = index < source.length && source[index] === target[index];
+      let end = index;
+      while (
+        end < target.length &&
+        (end < source.length && source[end] === target[end]) === same
+      ) {
+        end++;
+      }
+      const action = same ? BPS_SOURCE_READ : BPS_TARGET_READ;
+      actions.push(...varint((end - index - 1) * 4 + action));
+      if (!same) {
+        actions.push(...target.subarray(index, end));
+      }
+      index = end;
+    }
+    return PatchFactory.bpsFromActions(source, target, actions);
+  }
+
+  /**
+   * BPS wrapping hand-encoded action bytes in a valid header and footer
+   */
+  static bpsFromActions(
+    source: Buffer,
+    target: Buffer,
+    actions: number[]
+  ): Buffer {
+    return withFooter(
+      Buffer.concat([
+        Buffer.from('BPS1'),
+        Buffer.from([
+          ...varint(source.length),
+          ...varint(target.length),
+          ...varint(0),
+          ...actions,
+        ]),
+      ]),
+      source,
+      target
+    );
+  }
+
+  /**
+   * UPS XOR-ing every run of differing bytes
+   */
+  static ups(source: Buffer, target: Buffer): Buffer {
+    const body: number[] = [...varint(source.length), ...varint(target.length)];
+    const length = Math.max(source.length, target.length);
+    let last = 0;
+    let index = 0;
+
+    while (index < length) {
+      if (xorAt(source, target, index) === 0) {
+        index++;
+        continue;
+      }
+      body.push(...varint(index - last));
+      while (index < length && xorAt(source, target, index) !== 0) {
+        body.push(xorAt(source, target, index));
+        index++;
+      }
+      body.push(0);
+      index++;
+      last = index;
+    }
+
+    return withFooter(
+      Buffer.concat([Buffer.from('UPS1'), Buffer.from(body)]),
+      source,
+      target
+    );
+  }
+
+  /**
+   * BPS / UPS varint
+   */
+  static varint(value: number): number[] {
+    return varint(value);
+  }
+}
+
+function varint(value: number): number[] {
+  const bytes: number[] = [];
+  let remaining = value;
+  for (;;) {
+    const low = remaining & 0x7f;
+    remaining = Math.floor(remaining / 128);
+    if (remaining === 0) {
+      bytes.push(0x80 | low);
+      return bytes;
+    }
+    bytes.push(low);
+    remaining--;
+  }
+}
+
+function withFooter(body: Buffer, source: Buffer, target: Buffer): Buffer {
+  const checksums = Buffer.alloc(8);
+  checksums.writeUInt32LE(crc32(source), 0);
+  checksums.writeUInt32LE(crc32(target), 4);
+  const unsigned = Buffer.concat([body, checksums]);
+  const patchCrc = Buffer.alloc(4);
+  patchCrc.writeUInt32LE(crc32(unsigned), 0);
+  return Buffer.concat([unsigned, patchCrc]);
+}
+
+function xorAt(source: Buffer, target: Buffer, index: number): number {
+  return (source[index] ?? 0) ^ (target[index] ?? 0);
+}
+
+function differingRuns(
+  source: Buffer,
+  target: Buffer
+): Array<[offset: number, length: number]> {
+  const runs: Array<[number, number]> = [];
+  let index = 0;
+  while (index < target.length) {
+    if (source[index] === target[index]) {
+      index++;
+      continue;
+    }
+    const start = index;
+    while (index < target.length && source[index] !== target[index]) {
+      index++;
+    }
+    runs.push([start, index - start]);
+  }
+  return runs;
+}
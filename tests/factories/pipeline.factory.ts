@@ -106,7 +106,7 @@ export class PlaylistEntryFactory {
       label: 'Test Game',
       core_path: 'DETECT',
       core_name: 'DETECT',
-      crc32: '00000000',
+      crc32: '00000000|crc',
       db_name: 'Nintendo - NES',
       ...overrides,
     };
@@ -116,11 +116,10 @@ export class PlaylistEntryFactory {
    * Create a PlaylistEntry from a ROMFile
    */
   static fromROMFile(rom: ROMFile): PlaylistEntry {
-    const CRC32_LENGTH = 8;
     return this.create({
       path: rom.path,
       label: rom.filename.replace(/\.[^.]+$/, ''),
-      crc32: rom.hash?.substring(0, CRC32_LENGTH) ?? '00000000',
+      crc32: `${(rom.hashes?.crc32 ?? '00000000').toUpperCase()}|crc`,
       db_name: rom.platform ?? 'Unknown',
     });
   }
@@ -226,6 +225,18 @@ export class PlatformDefinitionFactory {
     };
   }
 
+  /**
+   * Create Genesis platform definition (shares .bin with PlayStation)
+   */
+  static genesis(): PlatformDefinition {
+    return {
+      id: 'genesis',
+      name: 'Sega - Mega Drive - Genesis',
+      extensions: ['.md', '.gen', '.bin'],
+      requiresBIOS: false,
+    };
+  }
+
   /**
    * Create SNES platform definition
    */
@@ -237,4 +248,16 @@ export class PlatformDefinitionFactory {
       requiresBIOS: false,
     };
   }
+
+  /**
+   * Create N64 platform definition (three byte orders)
+   */
+  static n64(): PlatformDefinition {
+    return {
+      id: 'n64',
+      name: 'Nintendo - Nintendo 64',
+      extensions: ['.n64', '.z64', '.v64'],
+      requiresBIOS: false,
+    };
+  }
 }
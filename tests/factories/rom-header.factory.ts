@@ -0,0 +1,104 @@
+/**
+ * Test Factory for ROM Headers
+ * Follows Factory Pattern and DRY principles (TEST-001)
+ * Single Responsibility: Build minimal ROM images with valid signatures
+ */
+
+const SNES_LOROM_HEADER = 0x7fc0;
+const SNES_HIROM_HEADER = 0xffc0;
+const CD_SECTOR_SIZE = 2352;
+
+export class RomHeaderFactory {
+  /**
+   * iNES image (16-byte header + PRG data)
+   */
+  static nes(options: { nes2?: boolean; size?: number } = {}): Buffer {
+    const buffer = Buffer.alloc(options.size ?? 16 + 16384);
+    buffer.write('NES\x1a', 0, 'binary');
+    buffer[4] = 1;
+    buffer[7] = options.nes2 === true ? 0x08 : 0x00;
+    return buffer;
+  }
+
+  /**
+   * SNES image with a valid internal header
+   */
+  static snes(
+    options: { hiRom?: boolean; copierHeader?: boolean } = {}
+  ): Buffer {
+    const romSize = options.hiRom === true ? 0x10000 : 0x8000;
+    const skip = options.copierHeader === true ? 512 : 0;
+    const buffer = Buffer.alloc(romSize + skip);
+    const base =
+      skip + (options.hiRom === true ? SNES_HIROM_HEADER : SNES_LOROM_HEADER);
+    buffer.write('TEST GAME'.padEnd(21, ' '), base, 'ascii');
+    buffer[base + 0x15] = options.hiRom === true ? 0x21 : 0x20;
+    buffer.writeUInt16LE(0x1234 ^ 0xffff, base + 0x1c);
+    buffer.writeUInt16LE(0x1234, base + 0x1e);
+    return buffer;
+  }
+
+  /**
+   * Mega Drive image with "SEGA" at 0x100
+   */
+  static genesis(): Buffer {
+    const buffer = Buffer.alloc(0x200);
+    buffer.write('SEGA MEGA DRIVE ', 0x100, 'ascii');
+    return buffer;
+  }
+
+  /**
+   * N64 image in the requested byte order
+   */
+  static n64(order: 'z64' | 'v64' | 'n64' = 'z64', size = 0x40): Buffer {
+    const bigEndian = Buffer.alloc(size);
+    for (let i = 0; i < size; i++) {
+      bigEndian[i] = i & 0xff;
+    }
+    bigEndian.writeUInt32BE(0x80371240, 0);
+
+    if (order === 'z64') {
+      return bigEndian;
+    }
+
+    const converted = Buffer.from(bigEndian);
+    if (order === 'v64') {
+      return converted.swap16();
+    }
+    return converted.swap32();
+  }
+
+  /**
+   * GBA image with the Nintendo logo prefix and fixed byte
+   */
+  static gba(): Buffer {
+    const buffer = Buffer.alloc(0xc0);
+    Buffer.from('24ffae51699aa2213d84820a84e409ad', 'hex').copy(buffer, 0x04);
+    buffer[0xb2] = 0x96;
+    return buffer;
+  }
+
+  /**
+   * Raw MODE2/2352 CD image; PLAYSTATION volume descriptor optional
+   */
+  static psx(options: { withVolume?: boolean; sectors?: number } = {}): Buffer {
+    const sectors = options.sectors ?? 17;
+    const buffer = Buffer.alloc(CD_SECTOR_SIZE * sectors);
+    for (let sector = 0; sector < sectors; sector++) {
+      const start = sector * CD_SECTOR_SIZE;
+      buffer[start] = 0x00;
+      buffer.fill(0xff, start + 1, start + 11);
+      buffer[start + 11] = 0x00;
+      buffer[start + 15] = 2;
+    }
+
+    if (options.withVolume !== false && sectors > 16) {
+      const pvd = 16 * CD_SECTOR_SIZE + 24;
+      buffer[pvd] = 1;
+      buffer.write('CD001', pvd + 1, 'ascii');
+      buffer.write('PLAYSTATION'.padEnd(32, ' '), pvd + 8, 'ascii');
+    }
+
+    return buffer;
+  }
+}
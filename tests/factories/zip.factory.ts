@@ -0,0 +1,78 @@
+/**
+ * Test Factory for ZIP Archives
+ * Follows Factory Pattern and DRY principles (TEST-001)
+ * Single Responsibility: Build small in-memory zip files
+ */
+
+import { deflateRawSync } from 'node:zlib';
+
+import { crc32 } from '../../src/pipeline/crc32.js';
+
+export interface ZipFactoryEntry {
+  name: string;
+  data: Buffer;
+  /** Deflate the entry (default: stored) */
+  deflate?: boolean;
+}
+
+export class ZipFactory {
+  /**
+   * Builds a zip archive from the given entries
+   */
+  static create(entries: ZipFactoryEntry[]): Buffer {
+    const locals: Buffer[] = [];
+    const centrals: Buffer[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+      const name = Buffer.from(entry.name, 'utf-8');
+      const body =
+        entry.deflate === true ? deflateRawSync(entry.data) : entry.data;
+      const method = entry.deflate === true ? 8 : 0;
+      const checksum = crc32(entry.data);
+
+      const local = Buffer.alloc(30);
+      local.writeUInt32LE(0x04034b50, 0);
+      local.writeUInt16LE(20, 4);
+      local.writeUInt16LE(0x0800, 6);
+      local.writeUInt16LE(method, 8);
+      local.writeUInt32LE(checksum, 14);
+      local.writeUInt32LE(body.length, 18);
+      local.writeUInt32LE(entry.data.length, 22);
+      local.writeUInt16LE(name.length, 26);
+
+      const central = Buffer.alloc(46);
+      central.writeUInt32LE(0x02014b50, 0);
+      central.writeUInt16LE(20, 4);
+      central.writeUInt16LE(20, 6);
+      central.writeUInt16LE(0x0800, 8);
+      central.writeUInt16LE(method, 10);
+      central.writeUInt32LE(checksum, 16);
+      central.writeUInt32LE(body.length, 20);
+      central.writeUInt32LE(entry.data.length, 24);
+      central.writeUInt16LE(name.length, 28);
+      central.writeUInt32LE(offset, 42);
+
+      locals.push(local, name, body);
+      centrals.push(central, name);
+      offset += local.length + name.length + body.length;
+    }
+
+    const directory = Buffer.concat(centrals);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...locals, directory, end]);
+  }
+
+  /**
+   * Builds a zip with a single entry
+   */
+  static single(name: string, data: Buffer, deflate = true): Buffer {
+    return ZipFactory.create([{ name, data, deflate }]);
+  }
+}
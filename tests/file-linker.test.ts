@@ -0,0 +1,112 @@
+/**
+ * Tests for File Linker
+ * Following TEST-002 (Single Responsibility per test)
+ * Following TEST-004 (Arrange-Act-Assert pattern)
+ */
+
+import { existsSync, statSync } from 'node:fs';
+import { lstat, mkdir, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { FileLinker } from '../src/pipeline/file-linker.js';
+
+/** A tmpfs on most Linux systems, so on another device than `tmpdir()` */
+const OTHER_DEVICE_DIR = '/dev/shm';
+const hasOtherDevice =
+  existsSync(OTHER_DEVICE_DIR) &&
+  statSync(OTHER_DEVICE_DIR).dev !== statSync(tmpdir()).dev;
+
+describe('FileLinker', () => {
+  let testDir: string;
+  let source: string;
+  let destination: string;
+
+  beforeEach(async () => {
+    testDir = join(
+      tmpdir(),
+      `file-linker-test-${Date.now()}-${Math.random().toString(36).substring(7)}`
+    );
+    await mkdir(testDir, { recursive: true });
+    source = join(testDir, 'game.nes');
+    destination = join(testDir, 'linked.nes');
+    await writeFile(source, 'rom data');
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should hard-link files on the same device', async () => {
+    // Act
+    const strategy = await new FileLinker().link(source, destination);
+
+    // Assert
+    expect(strategy).toBe('hardlink');
+    expect((await stat(destination)).ino).toBe((await stat(source)).ino);
+  });
+
+  it('should make a verified copy when configured to', async () => {
+    // Act
+    const strategy = await new FileLinker(['copy']).link(source, destination);
+
+    // Assert
+    expect(strategy).toBe('copy');
+    expect((await stat(destination)).ino).not.toBe((await stat(source)).ino);
+    expect(await readFile(destination, 'utf-8')).toBe('rom data');
+  });
+
+  it('should not symlink a source that is deleted afterwards', async () => {
+    // Arrange
+    const linker = new FileLinker(['symlink', 'copy']);
+
+    // Act
+    const durable = await linker.link(source, destination);
+    const staged = await linker.link(
+      source,
+      join(testDir, 'staged.nes'),
+      false
+    );
+
+    // Assert
+    expect(durable).toBe('symlink');
+    expect((await lstat(destination)).isSymbolicLink()).toBe(true);
+    expect(staged).toBe('copy');
+  });
+
+  it.skipIf(!hasOtherDevice)(
+    'should fall back when hard links cross devices',
+    async () => {
+      // Arrange
+      const otherSource = join(
+        OTHER_DEVICE_DIR,
+        `file-linker-test-${Math.random().toString(36).substring(7)}.nes`
+      );
+      await writeFile(otherSource, 'rom data');
+      const linker = new FileLinker(['hardlink', 'copy']);
+
+      try {
+        // Act
+        const first = await linker.link(otherSource, destination);
+        const second = await linker.link(
+          otherSource,
+          join(testDir, 'second.nes')
+        );
+
+        // Assert
+        expect([first, second]).toEqual(['copy', 'copy']);
+      } finally {
+        await rm(otherSource, { force: true });
+      }
+    }
+  );
+
+  it('should throw errors that no strategy can work around', async () => {
+    // Act & Assert
+    await expect(
+      new FileLinker().link(join(testDir, 'missing.nes'), destination)
+    ).rejects.toThrow('ENOENT');
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Tests for Filename Tag Parser
+ * Following TEST-002 (Single Responsibility per test)
+ * Following TEST-004 (Arrange-Act-Assert pattern)
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  filenameTagsOf,
+  parseFilenameTags,
+} from '../src/pipeline/filename-tags.js';
+
+import { ROMFileFactory } from './factories/pipeline.factory.js';
+
+describe('Filename Tag Parser', () => {
+  describe('No-Intro tags', () => {
+    it('should parse regions, languages and revision', () => {
+      // Act
+      const tags = parseFilenameTags(
+        'Legend of Zelda, The (USA, Europe) (En,Fr) (Rev 2).nes'
+      );
+
+      // Assert
+      expect(tags.title).toBe('Legend of Zelda, The');
+      expect(tags.regions).toEqual(['USA', 'Europe']);
+      expect(tags.languages).toEqual(['En', 'Fr']);
+      expect(tags.revision).toBe('2');
+      expect(tags.dumpStatus).toBe('unknown');
+      expect(tags.developmentStatus).toBe('release');
+    });
+
+    it('should parse development status and versions', () => {
+      // Act
+      const beta = parseFilenameTags('Game (Japan) (Beta 2).sfc');
+      const proto = parseFilenameTags('Game (USA) (Proto) (v1.1).sfc');
+
+      // Assert
+      expect(beta.developmentStatus).toBe('beta');
+      expect(proto.developmentStatus).toBe('prototype');
+      expect(proto.version).toBe('1.1');
+    });
+
+    it('should keep unrecognized tags as flags, ignoring disc tags', () => {
+      // Act
+      const tags = parseFilenameTags(
+        'Game (USA) (Disc 1) (Unl) (Virtual Console).bin'
+      );
+
+      // Assert
+      expect(tags.flags).toEqual(['Unl', 'Virtual Console']);
+    });
+
+    it('should read a language tag that follows the region', () => {
+      // Act
+      const tags = parseFilenameTags('Game (Europe) (No).gb');
+
+      // Assert
+      expect(tags.regions).toEqual(['Europe']);
+      expect(tags.languages).toEqual(['No']);
+    });
+  });
+
+  describe('GoodTools codes', () => {
+    it('should map country codes to No-Intro regions', () => {
+      expect(parseFilenameTags('Mario (U).nes').regions).toEqual(['USA']);
+      expect(parseFilenameTags('Mario (JU).nes').regions).toEqual([
+        'Japan',
+        'USA',
+      ]);
+    });
+
+    it('should parse dump flags, keeping the worst', () => {
+      expect(parseFilenameTags('Mario (U) [!].nes').dumpStatus).toBe(
+        'verified'
+      );
+      expect(parseFilenameTags('Mario (U) [!] [b1].nes').dumpStatus).toBe(
+        'bad'
+      );
+      expect(parseFilenameTags('Mario (U) [h1C].nes').dumpStatus).toBe('hack');
+      expect(parseFilenameTags('Mario (U) [o2].nes').dumpStatus).toBe(
+        'overdump'
+      );
+    });
+
+    it('should parse translations and the PRG revision', () => {
+      // Act
+      const tags = parseFilenameTags('Mother (J) (PRG1) [T+Eng1.0].nes');
+
+      // Assert
+      expect(tags.dumpStatus).toBe('translation');
+      expect(tags.revision).toBe('1');
+      expect(tags.flags).toEqual(['T+Eng1.0']);
+    });
+  });
+
+  describe('filenameTagsOf', () => {
+    it('should prefer tags stored in metadata', () => {
+      // Arrange
+      const stored = parseFilenameTags('Stored (Japan).nes');
+      const rom = ROMFileFactory.create({
+        filename: 'Other (USA).nes',
+        metadata: { tags: stored },
+      });
+
+      // Act & Assert
+      expect(filenameTagsOf(rom)).toBe(stored);
+    });
+
+    it('should parse the original name when nothing is stored', () => {
+      // Arrange
+      const rom = ROMFileFactory.create({
+        filename: 'Game (USA).nes',
+        originalName: 'Game (USA) [b].nes',
+        metadata: {},
+      });
+
+      // Act & Assert
+      expect(filenameTagsOf(rom).dumpStatus).toBe('bad');
+    });
+  });
+});
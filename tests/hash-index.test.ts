@@ -0,0 +1,178 @@
+/**
+ * Tests for Hash Index
+ * Following TEST-002 (Single Responsibility per test)
+ * Following TEST-004 (Arrange-Act-Assert pattern)
+ */
+
+import { appendFile, mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { HASH_INDEX_FILENAME, HashIndex } from '../src/pipeline/hash-index.js';
+import type {
+  ManifestEntry,
+  RomHashes,
+} from '../src/interfaces/pipeline.interface.js';
+
+import { ManifestEntryFactory } from './factories/pipeline.factory.js';
+
+const HASHES: RomHashes = {
+  crc32: '1a2b3c4d',
+  md5: 'md5-full',
+  sha1: 'sha1-full',
+  sha256: 'sha256-full',
+};
+
+describe('HashIndex', () => {
+  let manifestsDir: string;
+
+  beforeEach(async () => {
+    manifestsDir = join(
+      tmpdir(),
+      `hash-index-test-${Date.now()}-${Math.random().toString(36).substring(7)}`
+    );
+    await mkdir(manifestsDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(manifestsDir, { recursive: true, force: true });
+  });
+
+  const writeManifest = async (
+    file: string,
+    entries: ManifestEntry[]
+  ): Promise<void> => {
+    await writeFile(join(manifestsDir, file), JSON.stringify(entries));
+  };
+
+  it('should build from the manifests and find entries by every algorithm', async () => {
+    // Arrange
+    const entry = ManifestEntryFactory.create({
+      hash: HASHES.sha256,
+      hashes: HASHES,
+      headerless: {
+        headerSize: 16,
+        hashes: { crc32: 'ffff0000', md5: 'm', sha1: 's', sha256: 'data' },
+      },
+    });
+    await writeManifest('nes.json', [entry]);
+
+    // Act
+    const index = await HashIndex.open(manifestsDir);
+
+    // Assert
+    expect(index.lastRebuildReason).toBe('index missing');
+    expect(index.find('crc32', '1A2B3C4D')).toEqual([entry]);
+    expect(index.find('md5', 'md5-full')).toEqual([entry]);
+    expect(index.find('sha1', 'sha1-full')).toEqual([entry]);
+    expect(index.find('sha256', 'data')).toEqual([entry]);
+    expect(index.findDuplicate('other', 'data')).toEqual({
+      file: 'nes.json',
+      entry,
+    });
+    expect(index.find('sha1', 'unknown')).toEqual([]);
+  });
+
+  it('should append entries to the log and replace by id', async () => {
+    // Arrange
+    await writeManifest('nes.json', []);
+    const index = await HashIndex.open(manifestsDir);
+    const first = ManifestEntryFactory.create({ id: 'rom-1', hash: 'one' });
+    const second = ManifestEntryFactory.create({ id: 'rom-1', hash: 'two' });
+
+    // Act
+    await writeManifest('nes.json', [first]);
+    await index.put('nes.json', first);
+    await writeManifest('nes.json', [second]);
+    await index.put('nes.json', second);
+    const reopened = await HashIndex.open(manifestsDir);
+
+    // Assert
+    expect(reopened.findDuplicate('one')).toBeUndefined();
+    expect(reopened.entries('nes.json')).toEqual([second]);
+    expect(reopened.lastRebuildReason).toBe('index missing');
+    const log = await readFile(
+      join(manifestsDir, HASH_INDEX_FILENAME),
+      'utf-8'
+    );
+    expect(log.trim().split('\n')).toHaveLength(6);
+  });
+
+  it('should rebuild when a manifest changed outside the index', async () => {
+    // Arrange
+    await writeManifest('nes.json', []);
+    await HashIndex.open(manifestsDir);
+    await writeManifest('snes.json', [
+      ManifestEntryFactory.create({ hash: 'edited' }),
+    ]);
+
+    // Act
+    const index = await HashIndex.open(manifestsDir);
+
+    // Assert
+    expect(index.findDuplicate('edited')?.file).toBe('snes.json');
+    expect(index.lastRebuildReason).toBe(
+      'snes.json changed since it was indexed'
+    );
+  });
+
+  it('should rebuild when a record is truncated', async () => {
+    // Arrange
+    await writeManifest('nes.json', [
+      ManifestEntryFactory.create({ hash: 'kept' }),
+    ]);
+    await HashIndex.open(manifestsDir);
+    await appendFile(
+      join(manifestsDir, HASH_INDEX_FILENAME),
+      '1234abcd\t{"op"'
+    );
+
+    // Act
+    const index = await HashIndex.open(manifestsDir);
+
+    // Assert
+    expect(index.lastRebuildReason).toBe('truncated record');
+    expect(index.findDuplicate('kept')).toBeDefined();
+  });
+
+  it('should rebuild a log whose records fail their checksum', async () => {
+    // Arrange
+    await writeManifest('nes.json', [
+      ManifestEntryFactory.create({ hash: 'kept' }),
+    ]);
+    await writeFile(
+      join(manifestsDir, HASH_INDEX_FILENAME),
+      '00000000\t{"op":"version","version":1}\n'
+    );
+
+    // Act
+    const index = await HashIndex.open(manifestsDir);
+
+    // Assert
+    expect(index.lastRebuildReason).toBe('corrupt record at byte 0');
+    expect(index.findDuplicate('kept')).toBeDefined();
+  });
+
+  it('should report malformed manifests without failing', async () => {
+    // Arrange
+    await writeFile(join(manifestsDir, 'nes.json'), 'invalid-json{]');
+    await writeFile(join(manifestsDir, 'psx.json'), '{"not":"an array"}');
+
+    // Act
+    const index = await HashIndex.open(manifestsDir);
+
+    // Assert
+    expect(index.errors).toHaveLength(2);
+    expect(index.errors[1]).toBe('psx.json: not a pipeline manifest');
+  });
+
+  it('should be empty without a manifests directory', async () => {
+    // Act
+    const index = await HashIndex.open(join(manifestsDir, 'missing'));
+
+    // Assert
+    expect(index.entries()).toEqual([]);
+  });
+});
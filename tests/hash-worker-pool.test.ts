@@ -0,0 +1,108 @@
+/**
+ * Tests for Hash Worker Pool
+ * Following TEST-002 (Single Responsibility per test)
+ * Following TEST-004 (Arrange-Act-Assert pattern)
+ */
+
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import {
+  HashWorkerPool,
+  hashContent,
+} from '../src/pipeline/hash-worker-pool.js';
+import { crc32, formatCrc32 } from '../src/pipeline/crc32.js';
+import { listZipEntries } from '../src/pipeline/zip-reader.js';
+
+import { RomHeaderFactory } from './factories/rom-header.factory.js';
+import { ZipFactory } from './factories/zip.factory.js';
+
+const POOL_SIZE = 2;
+const TASK_COUNT = 6;
+
+describe('HashWorkerPool', () => {
+  let testDir: string;
+  let pool: HashWorkerPool;
+
+  beforeEach(async () => {
+    testDir = join(
+      tmpdir(),
+      `hash-worker-pool-test-${Date.now()}-${Math.random().toString(36).substring(7)}`
+    );
+    await mkdir(testDir, { recursive: true });
+    pool = new HashWorkerPool(POOL_SIZE);
+  });
+
+  afterEach(async () => {
+    await pool.close();
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should hash on workers as on the calling thread', async () => {
+    // Arrange
+    const path = join(testDir, 'game.nes');
+    await writeFile(path, RomHeaderFactory.nes());
+    const task = { path, platform: 'nes', size: RomHeaderFactory.nes().length };
+
+    // Act
+    const result = await pool.hash(task);
+
+    // Assert
+    expect(result).toEqual(await hashContent(task));
+    expect(result.headerless?.headerSize).toBe(16);
+  });
+
+  it('should hash a zip entry decompressed', async () => {
+    // Arrange
+    const rom = RomHeaderFactory.nes();
+    const path = join(testDir, 'game.zip');
+    await writeFile(
+      path,
+      ZipFactory.create([{ name: 'game.nes', data: rom, deflate: true }])
+    );
+    const [entry] = await listZipEntries(path);
+
+    // Act
+    const result = await pool.hash({
+      path,
+      size: rom.length,
+      ...(entry !== undefined && { entry }),
+    });
+
+    // Assert
+    expect(result.hashes.crc32).toBe(formatCrc32(crc32(rom)));
+  });
+
+  it('should queue more tasks than workers', async () => {
+    // Arrange
+    const paths = await Promise.all(
+      Array.from({ length: TASK_COUNT }, async (_, n) => {
+        const path = join(testDir, `game${n}.bin`);
+        await writeFile(path, `content ${n}`);
+        return path;
+      })
+    );
+
+    // Act
+    const results = await Promise.all(
+      paths.map((path) => pool.hash({ path, size: 0 }))
+    );
+
+    // Assert
+    expect(results.map((r) => r.hashes.crc32)).toEqual(
+      Array.from({ length: TASK_COUNT }, (_, n) =>
+        formatCrc32(crc32(Buffer.from(`content ${n}`)))
+      )
+    );
+  });
+
+  it('should reject tasks whose content cannot be read', async () => {
+    // Act & Assert
+    await expect(
+      pool.hash({ path: join(testDir, 'missing.nes'), size: 0 })
+    ).rejects.toThrow('ENOENT');
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Tests for ROM Header Detector
+ * Following TEST-002 (Single Responsibility per test)
+ * Following TEST-004 (Arrange-Act-Assert pattern)
+ */
+
+import { writeFile, mkdir, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import {
+  detectPlatformFromBuffer,
+  detectPlatformFromHeader,
+  detectN64ByteOrder,
+  romHeaderSize,
+  snesCopierHeaderSize,
+} from '../src/pipeline/header-detector.js';
+
+import { RomHeaderFactory } from './factories/rom-header.factory.js';
+
+describe('Header Detector', () => {
+  describe('detectPlatformFromBuffer', () => {
+    it('should detect iNES header', () => {
+      const rom = RomHeaderFactory.nes();
+
+      const result = detectPlatformFromBuffer(rom, rom.length);
+
+      expect(result?.platform).toBe('nes');
+      expect(result?.signature).toBe('iNES');
+      expect(result?.confidence).toBe(1);
+    });
+
+    it('should detect NES 2.0 header', () => {
+      const rom = RomHeaderFactory.nes({ nes2: true });
+
+      const result = detectPlatformFromBuffer(rom, rom.length);
+
+      expect(result?.signature).toBe('NES 2.0');
+    });
+
+    it('should detect SNES LoROM header', () => {
+      const rom = RomHeaderFactory.snes();
+
+      const result = detectPlatformFromBuffer(rom, rom.length);
+
+      expect(result?.platform).toBe('snes');
+      expect(result?.signature).toBe('SNES LoROM header');
+    });
+
+    it('should detect SNES HiROM header behind a copier header', () => {
+      const rom = RomHeaderFactory.snes({ hiRom: true, copierHeader: true });
+
+      const result = detectPlatformFromBuffer(rom, rom.length);
+
+      expect(result?.platform).toBe('snes');
+      expect(result?.signature).toContain('HiROM');
+      expect(result?.signature).toContain('copier header');
+    });
+
+    it('should reject SNES header with invalid checksum complement', () => {
+      const rom = RomHeaderFactory.snes();
+      rom.writeUInt16LE(0, 0x7fc0 + 0x1c);
+
+      const result = detectPlatformFromBuffer(rom, rom.length);
+
+      expect(result).toBeNull();
+    });
+
+    it('should detect SEGA header for Mega Drive', () => {
+      const rom = RomHeaderFactory.genesis();
+
+      const result = detectPlatformFromBuffer(rom, rom.length);
+
+      expect(result?.platform).toBe('genesis');
+    });
+
+    it.each(['z64', 'v64', 'n64'] as const)(
+      'should detect N64 %s byte order',
+      (order) => {
+        const rom = RomHeaderFactory.n64(order);
+
+        const result = detectPlatformFromBuffer(rom, rom.length);
+
+        expect(result?.platform).toBe('n64');
+        expect(result?.signature).toContain(`.${order}`);
+      }
+    );
+
+    it('should detect GBA Nintendo logo', () => {
+      const rom = RomHeaderFactory.gba();
+
+      const result = detectPlatformFromBuffer(rom, rom.length);
+
+      expect(result?.platform).toBe('gba');
+    });
+
+    it('should detect PlayStation volume with high confidence', () => {
+      const rom = RomHeaderFactory.psx();
+
+      const result = detectPlatformFromBuffer(rom, rom.length);
+
+      expect(result?.platform).toBe('psx');
+      expect(result?.confidence).toBeGreaterThan(0.9);
+    });
+
+    it('should detect bare CD sync pattern with low confidence', () => {
+      const rom = RomHeaderFactory.psx({ withVolume: false, sectors: 1 });
+
+      const result = detectPlatformFromBuffer(rom, rom.length);
+
+      expect(result?.platform).toBe('psx');
+      expect(result?.confidence).toBe(0.5);
+    });
+
+    it('should return null for unknown content', () => {
+      const data = Buffer.from('test-content');
+
+      const result = detectPlatformFromBuffer(data, data.length);
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('detectPlatformFromHeader', () => {
+    let testDir: string;
+
+    beforeEach(async () => {
+      testDir = join(tmpdir(), `header-detector-test-${Date.now()}`);
+      await mkdir(testDir, { recursive: true });
+    });
+
+    afterEach(async () => {
+      await rm(testDir, { recursive: true, force: true });
+    });
+
+    it('should read header from disk', async () => {
+      const file = join(testDir, 'game.bin');
+      const rom = RomHeaderFactory.genesis();
+      await writeFile(file, rom);
+
+      const result = await detectPlatformFromHeader(file, rom.length);
+
+      expect(result?.platform).toBe('genesis');
+    });
+
+    it('should reject missing files', async () => {
+      await expect(
+        detectPlatformFromHeader(join(testDir, 'missing.bin'), 0)
+      ).rejects.toThrow();
+    });
+  });
+
+  describe('helpers', () => {
+    it('should report N64 byte order', () => {
+      expect(detectN64ByteOrder(RomHeaderFactory.n64('v64'))).toBe('v64');
+      expect(detectN64ByteOrder(Buffer.from([1, 2]))).toBeNull();
+    });
+
+    it('should detect 512-byte copier headers from file size', () => {
+      expect(snesCopierHeaderSize(0x8000 + 512)).toBe(512);
+      expect(snesCopierHeaderSize(0x8000)).toBe(0);
+    });
+
+    it('should size the header preceding NES and SNES ROM data', () => {
+      const nes = RomHeaderFactory.nes();
+      expect(romHeaderSize('nes', nes, nes.length)).toBe(16);
+      expect(romHeaderSize('nes', Buffer.alloc(16), 16)).toBe(0);
+      expect(romHeaderSize('snes', Buffer.alloc(0), 0x8000 + 512)).toBe(512);
+      expect(romHeaderSize('genesis', nes, 0x8000 + 512)).toBe(0);
+    });
+  });
+});
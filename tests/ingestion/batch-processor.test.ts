@@ -4,10 +4,25 @@
  * Tests: job processing, status updates, error handling, progress tracking
  */
 
+import {
+  appendFileSync,
+  existsSync,
+  readFileSync,
+  writeFileSync,
+} from 'node:fs';
+import { mkdir, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 
-import { batchQueue, type BatchFile } from '../../src/ingestion/batch-queue.js';
-import { batchProcessor } from '../../src/ingestion/batch-processor.js';
+import { BatchQueue, type BatchFile } from '../../src/ingestion/batch-queue.js';
+import {
+  BatchProcessor,
+  batchProcessor,
+} from '../../src/ingestion/batch-processor.js';
+import { PipelineOrchestrator } from '../../src/pipeline/pipeline-orchestrator.js';
+import { batchQueueConfig } from '../../config/policy.config.js';
 
 /**
  * Test factories
@@ -26,20 +41,32 @@ function createTestBatchFile(
 
 // Removed unused factory to satisfy TS6133
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 describe('Batch Processor (POL-022, TEST-001, TEST-004)', () => {
-  beforeEach(() => {
-    // Clear batch queue before each test
-    batchQueue.listJobs().forEach((_job) => {
-      // Queue is not directly clearable, but we test with fresh jobs
-    });
+  let queueDir: string;
+  let journalPath: string;
+  let batchQueue: BatchQueue;
+
+  beforeEach(async () => {
+    // Fresh journal per test
+    queueDir = join(
+      tmpdir(),
+      `batch-queue-test-${Date.now()}-${Math.random().toString(36).substring(7)}`
+    );
+    await mkdir(queueDir, { recursive: true });
+    journalPath = join(queueDir, 'batch-jobs.jsonl');
+    batchQueue = new BatchQueue(journalPath);
 
     // Mock console to avoid noise in tests
     vi.spyOn(console, 'log').mockImplementation(() => {});
     vi.spyOn(console, 'error').mockImplementation(() => {});
   });
 
-  afterEach(() => {
-    vi.clearAllMocks();
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    batchQueue.close();
+    await rm(queueDir, { recursive: true, force: true });
   });
 
   describe('Batch Job Queue Operations', () => {
@@ -230,9 +257,51 @@ describe('Batch Processor (POL-022, TEST-001, TEST-004)', () => {
       // Assert
       expect(result).toBeUndefined();
     });
+
+    it('should start every file as pending', () => {
+      // Act
+      const job = batchQueue.createJob([
+        createTestBatchFile('game.nes'),
+        createTestBatchFile('other.nes'),
+      ]);
+
+      // Assert
+      expect(job.priority).toBe('normal');
+      expect(job.results).toEqual([
+        { filename: 'game.nes', status: 'pending' },
+        { filename: 'other.nes', status: 'pending' },
+      ]);
+    });
+
+    it('should record per-file results', () => {
+      // Arrange
+      const job = batchQueue.createJob([
+        createTestBatchFile('game.nes'),
+        createTestBatchFile('broken.nes'),
+      ]);
+
+      // Act
+      batchQueue.updateFile(job.id, 0, {
+        filename: 'game.nes',
+        status: 'completed',
+        platform: 'nes',
+      });
+      batchQueue.updateFile(job.id, 1, {
+        filename: 'broken.nes',
+        status: 'failed',
+        error: 'Unknown platform',
+      });
+
+      // Assert
+      const updated = batchQueue.getJob(job.id);
+      expect(updated?.results.map((result) => result.status)).toEqual([
+        'completed',
+        'failed',
+      ]);
+    });
   });
 
-  describe('Job Cleanup', () => {
+  describe('Job Retention', () => {
     it('should clear old completed jobs', () => {
       // Arrange
       const job1 = batchQueue.createJob([createTestBatchFile('game1.nes')]);
@@ -245,10 +314,10 @@ describe('Batch Processor (POL-022, TEST-001, TEST-004)', () => {
       // Manually set completedAt to far past for testing
       const jobObj1 = batchQueue.getJob(job1.id);
       if (jobObj1 !== undefined) {
-        jobObj1.completedAt = new Date(Date.now() - 48 * 60 * 60 * 1000); // 48 hours ago
+        jobObj1.completedAt = new Date(Date.now() - 2 * DAY_MS); // 48 hours ago
       }
 
-      const cleared = batchQueue.clearOldJobs(24 * 60 * 60 * 1000); // 24 hour threshold
+      const cleared = batchQueue.applyRetention(); // 24 hour retention
 
       // Assert
       expect(cleared).toBeGreaterThan(0);
@@ -261,7 +330,7 @@ describe('Batch Processor (POL-022, TEST-001, TEST-004)', () => {
       batchQueue.updateStatus(job.id, 'completed');
 
       // Act
-      batchQueue.clearOldJobs(24 * 60 * 60 * 1000);
+      batchQueue.applyRetention();
 
       // Assert
       expect(batchQueue.getJob(job.id)).toBeDefined(); // Recent job kept
@@ -269,20 +338,453 @@ describe('Batch Processor (POL-022, TEST-001, TEST-004)', () => {
 
     it('should not clear queued or processing jobs', () => {
       // Arrange
-      const queuedJob = batchQueue.createJob([
+      const queue = new BatchQueue(journalPath, {
+        ...batchQueueConfig,
+        retentionMs: 0,
+        maxFinishedJobs: 0,
+      });
+      const queuedJob = queue.createJob([createTestBatchFile('game1.nes')]);
+      const processingJob = queue.createJob([createTestBatchFile('game2.nes')]);
+      queue.updateStatus(processingJob.id, 'processing');
+
+      // Act
+      queue.applyRetention(); // Clear all finished, but queued/processing protected
+
+      // Assert
+      expect(queue.getJob(queuedJob.id)).toBeDefined();
+      expect(queue.getJob(processingJob.id)).toBeDefined();
+      queue.close();
+    });
+
+    it('should keep only the most recent finished jobs', () => {
+      // Arrange
+      const queue = new BatchQueue(journalPath, {
+        ...batchQueueConfig,
+        maxFinishedJobs: 1,
+      });
+      const older = queue.createJob([createTestBatchFile('game1.nes')]);
+      const newer = queue.createJob([createTestBatchFile('game2.nes')]);
+      queue.updateStatus(older.id, 'completed');
+      queue.updateStatus(newer.id, 'completed');
+      older.completedAt = new Date(Date.now() - 1000);
+
+      // Act
+      const cleared = queue.applyRetention();
+
+      // Assert
+      expect(cleared).toBe(1);
+      expect(queue.listJobs().map((job) => job.id)).toEqual([newer.id]);
+      queue.close();
+    });
+
+    it('should delete the uploaded files of removed jobs', () => {
+      // Arrange
+      const path = join(queueDir, 'game.nes');
+      writeFileSync(path, 'rom');
+      const job = batchQueue.createJob([
+        createTestBatchFile('game.nes', { path }),
+      ]);
+      batchQueue.updateStatus(job.id, 'completed');
+      job.completedAt = new Date(Date.now() - 2 * DAY_MS);
+
+      // Act
+      batchQueue.applyRetention();
+
+      // Assert
+      expect(existsSync(path)).toBe(false);
+    });
+
+    it('should compact removed jobs out of the journal', () => {
+      // Arrange
+      const job = batchQueue.createJob([createTestBatchFile('game.nes')]);
+      batchQueue.updateStatus(job.id, 'completed');
+      job.completedAt = new Date(Date.now() - 2 * DAY_MS);
+
+      // Act
+      batchQueue.applyRetention();
+
+      // Assert
+      expect(readFileSync(journalPath, 'utf-8')).toBe('');
+    });
+  });
+
+  describe('Journal Persistence', () => {
+    it('should restore jobs after a restart', () => {
+      // Arrange
+      const job = batchQueue.createJob([createTestBatchFile('game.nes')]);
+      batchQueue.updateStatus(job.id, 'processing');
+      batchQueue.updateFile(job.id, 0, {
+        filename: 'game.nes',
+        status: 'completed',
+        platform: 'nes',
+      });
+      batchQueue.updateProgress(job.id, 1);
+      batchQueue.close();
+
+      // Act
+      const restored = new BatchQueue(journalPath).getJob(job.id);
+
+      // Assert
+      expect(restored).toEqual(job);
+      expect(restored?.startedAt).toBeInstanceOf(Date);
+    });
+
+    it('should drop an entry cut short by a crash', () => {
+      // Arrange
+      const job = batchQueue.createJob([createTestBatchFile('game.nes')]);
+      batchQueue.close();
+      appendFileSync(journalPath, '{"type":"error","jobId":"');
+
+      // Act
+      const restarted = new BatchQueue(journalPath);
+      restarted.addError(job.id, 'After restart');
+      restarted.close();
+
+      // Assert
+      expect(new BatchQueue(journalPath).getJob(job.id)?.errors).toEqual([
+        'After restart',
+      ]);
+    });
+  });
+
+  describe('Job Leasing', () => {
+    it('should lease a queued job as processing', () => {
+      // Arrange
+      const job = batchQueue.createJob([createTestBatchFile('game.nes')]);
+
+      // Act
+      const leased = batchQueue.leaseNextJob();
+
+      // Assert
+      expect(leased?.id).toBe(job.id);
+      expect(leased?.status).toBe('processing');
+      expect(batchQueue.leaseNextJob()).toBeUndefined(); // Lease still held
+    });
+
+    it('should hand out a job again once its lease runs out', () => {
+      // Arrange
+      const job = batchQueue.createJob([createTestBatchFile('game.nes')]);
+      batchQueue.leaseNextJob(0);
+      batchQueue.close();
+
+      // Act
+      const leased = new BatchQueue(journalPath).leaseNextJob();
+
+      // Assert
+      expect(leased?.id).toBe(job.id);
+      expect(leased?.startedAt).toEqual(job.startedAt);
+    });
+
+    it('should report a file whose attempt was interrupted', () => {
+      // Arrange
+      const job = batchQueue.createJob([createTestBatchFile('game.nes')]);
+      const firstAttempt = batchQueue.startFile(job.id, 0);
+      batchQueue.close();
+
+      // Act
+      const retry = new BatchQueue(journalPath).startFile(job.id, 0);
+
+      // Assert
+      expect(firstAttempt).toBe(false);
+      expect(retry).toBe(true);
+    });
+  });
+
+  describe('Job Resumption', () => {
+    it('should resume an interrupted job after its last recorded file', async () => {
+      // Arrange
+      const process = vi
+        .spyOn(PipelineOrchestrator.prototype, 'process')
+        .mockResolvedValue({ success: true, errors: [] });
+      const job = batchQueue.createJob([
         createTestBatchFile('game1.nes'),
+        createTestBatchFile('game2.nes'),
       ]);
-      const processingJob = batchQueue.createJob([
+      batchQueue.leaseNextJob(0);
+      batchQueue.updateFile(job.id, 0, {
+        filename: 'game1.nes',
+        status: 'completed',
+      });
+      batchQueue.close();
+      const restarted = new BatchQueue(journalPath);
+
+      // Act
+      await new BatchProcessor(restarted).processQueuedNow();
+
+      // Assert
+      expect(process).toHaveBeenCalledOnce();
+      expect(process).toHaveBeenCalledWith('/tmp/test/game2.nes', undefined);
+      expect(restarted.getJob(job.id)).toMatchObject({
+        status: 'completed',
+        progress: { processed: 2, total: 2 },
+      });
+      restarted.close();
+    });
+
+    it('should complete a retried file that an interrupted attempt archived', async () => {
+      // Arrange
+      vi.spyOn(PipelineOrchestrator.prototype, 'process').mockResolvedValue({
+        success: false,
+        errors: ['Duplicate ROM detected'],
+        phase: 'validator',
+      });
+      const job = batchQueue.createJob([createTestBatchFile('game.nes')]);
+      batchQueue.leaseNextJob(0);
+      batchQueue.startFile(job.id, 0);
+
+      // Act
+      await new BatchProcessor(batchQueue).processQueuedNow();
+
+      // Assert
+      expect(batchQueue.getJob(job.id)?.results).toEqual([
+        { filename: 'game.nes', status: 'completed' },
+      ]);
+    });
+  });
+
+  describe('Final Status', () => {
+    it('should mark a job with some failed files partially failed', async () => {
+      // Arrange
+      vi.spyOn(PipelineOrchestrator.prototype, 'process')
+        .mockResolvedValueOnce({ success: true, errors: [] })
+        .mockResolvedValueOnce({
+          success: false,
+          errors: ['Unknown platform'],
+        });
+      const job = batchQueue.createJob([
+        createTestBatchFile('game.nes'),
+        createTestBatchFile('broken.nes'),
+      ]);
+
+      // Act
+      await new BatchProcessor(batchQueue).processQueuedNow();
+
+      // Assert
+      expect(batchQueue.getJob(job.id)?.status).toBe('partially_failed');
+    });
+
+    it('should mark a job whose files all failed as failed', async () => {
+      // Arrange
+      vi.spyOn(PipelineOrchestrator.prototype, 'process').mockResolvedValue({
+        success: false,
+        errors: ['Unknown platform'],
+      });
+      const job = batchQueue.createJob([createTestBatchFile('broken.nes')]);
+
+      // Act
+      await new BatchProcessor(batchQueue).processQueuedNow();
+
+      // Assert
+      expect(batchQueue.getJob(job.id)?.status).toBe('failed');
+    });
+
+    it('should not complete a retried job with cancelled files', async () => {
+      // Arrange
+      vi.spyOn(PipelineOrchestrator.prototype, 'process').mockResolvedValue({
+        success: true,
+        errors: [],
+      });
+      const job = batchQueue.createJob([
+        createTestBatchFile('flaky.nes'),
+        createTestBatchFile('game.nes'),
+      ]);
+      batchQueue.updateFile(job.id, 0, {
+        filename: 'flaky.nes',
+        status: 'failed',
+        error: 'Unreadable',
+      });
+      batchQueue.cancelJob(job.id);
+      batchQueue.retryJob(job.id);
+
+      // Act
+      await new BatchProcessor(batchQueue).processQueuedNow();
+
+      // Assert
+      expect(
+        batchQueue.getJob(job.id)?.results.map((result) => result.status)
+      ).toEqual(['completed', 'cancelled']);
+      expect(batchQueue.getJob(job.id)?.status).toBe('partially_failed');
+    });
+  });
+
+  describe('Job Cancellation', () => {
+    it('should cancel a queued job and its files', () => {
+      // Arrange
+      const job = batchQueue.createJob([createTestBatchFile('game.nes')]);
+
+      // Act
+      const cancelled = batchQueue.cancelJob(job.id);
+
+      // Assert
+      expect(cancelled?.status).toBe('cancelled');
+      expect(cancelled?.completedAt).toBeInstanceOf(Date);
+      expect(cancelled?.results[0]?.status).toBe('cancelled');
+      expect(batchQueue.leaseNextJob()).toBeUndefined();
+    });
+
+    it('should not cancel a finished job', () => {
+      // Arrange
+      const job = batchQueue.createJob([createTestBatchFile('game.nes')]);
+      batchQueue.updateStatus(job.id, 'completed');
+
+      // Act
+      const cancelled = batchQueue.cancelJob(job.id);
+
+      // Assert
+      expect(cancelled).toBeUndefined();
+      expect(batchQueue.getJob(job.id)?.status).toBe('completed');
+    });
+
+    it('should stop processing a job cancelled between files', async () => {
+      // Arrange
+      const job = batchQueue.createJob([
+        createTestBatchFile('game1.nes'),
         createTestBatchFile('game2.nes'),
       ]);
-      batchQueue.updateStatus(processingJob.id, 'processing');
+      const process = vi
+        .spyOn(PipelineOrchestrator.prototype, 'process')
+        .mockImplementation(() => {
+          batchQueue.cancelJob(job.id);
+          return Promise.resolve({ success: true, errors: [] });
+        });
+
+      // Act
+      await new BatchProcessor(batchQueue).processQueuedNow();
+
+      // Assert
+      expect(process).toHaveBeenCalledOnce();
+      expect(batchQueue.getJob(job.id)?.status).toBe('cancelled');
+      expect(
+        batchQueue.getJob(job.id)?.results.map((result) => result.status)
+      ).toEqual(['completed', 'cancelled']);
+    });
+  });
+
+  describe('Job Retry', () => {
+    it('should queue only the failed files again', () => {
+      // Arrange
+      const job = batchQueue.createJob([
+        createTestBatchFile('game.nes'),
+        createTestBatchFile('broken.nes'),
+      ]);
+      batchQueue.updateFile(job.id, 0, {
+        filename: 'game.nes',
+        status: 'completed',
+      });
+      batchQueue.updateFile(job.id, 1, {
+        filename: 'broken.nes',
+        status: 'failed',
+        error: 'Unknown platform',
+      });
+      batchQueue.addError(job.id, 'broken.nes: Unknown platform');
+      batchQueue.updateStatus(job.id, 'partially_failed');
+
+      // Act
+      const retried = batchQueue.retryJob(job.id);
+
+      // Assert
+      expect(retried?.status).toBe('queued');
+      expect(retried?.completedAt).toBeUndefined();
+      expect(retried?.errors).toEqual([]);
+      expect(retried?.progress.processed).toBe(1);
+      expect(retried?.results.map((result) => result.status)).toEqual([
+        'completed',
+        'pending',
+      ]);
+    });
+
+    it('should not retry a job without failed files', () => {
+      // Arrange
+      const job = batchQueue.createJob([createTestBatchFile('game.nes')]);
+      batchQueue.updateStatus(job.id, 'completed');
+
+      // Act & Assert
+      expect(batchQueue.retryJob(job.id)).toBeUndefined();
+    });
+
+    it('should process only the retried files', async () => {
+      // Arrange
+      const process = vi
+        .spyOn(PipelineOrchestrator.prototype, 'process')
+        .mockResolvedValueOnce({ success: true, errors: [] })
+        .mockResolvedValueOnce({ success: false, errors: ['Unreadable'] })
+        .mockResolvedValueOnce({ success: true, errors: [] });
+      const job = batchQueue.createJob([
+        createTestBatchFile('game.nes'),
+        createTestBatchFile('flaky.nes'),
+      ]);
+      const processor = new BatchProcessor(batchQueue);
+      await processor.processQueuedNow();
+
+      // Act
+      batchQueue.retryJob(job.id);
+      await processor.processQueuedNow();
+
+      // Assert
+      expect(process).toHaveBeenLastCalledWith(
+        '/tmp/test/flaky.nes',
+        undefined
+      );
+      expect(process).toHaveBeenCalledTimes(3);
+      expect(batchQueue.getJob(job.id)?.status).toBe('completed');
+    });
+  });
+
+  describe('Job Priority', () => {
+    it('should lease higher priority jobs first', () => {
+      // Arrange
+      batchQueue.createJob([createTestBatchFile('bulk.nes')], 'low');
+      batchQueue.createJob([createTestBatchFile('batch.nes')]);
+      const urgent = batchQueue.createJob(
+        [createTestBatchFile('urgent.nes')],
+        'high'
+      );
 
       // Act
-      batchQueue.clearOldJobs(0); // Clear all old, but queued/processing protected
+      const leased = batchQueue.leaseNextJob();
 
       // Assert
-      expect(batchQueue.getJob(queuedJob.id)).toBeDefined();
-      expect(batchQueue.getJob(processingJob.id)).toBeDefined();
+      expect(leased?.id).toBe(urgent.id);
+    });
+
+    it('should change the priority of a queued job', () => {
+      // Arrange
+      const job = batchQueue.createJob([createTestBatchFile('game.nes')]);
+
+      // Act
+      const updated = batchQueue.setPriority(job.id, 'high');
+      batchQueue.close();
+
+      // Assert
+      expect(updated?.priority).toBe('high');
+      expect(new BatchQueue(journalPath).getJob(job.id)?.priority).toBe('high');
+    });
+
+    it('should pause a running job for a higher priority one', async () => {
+      // Arrange
+      const bulk = batchQueue.createJob([
+        createTestBatchFile('bulk1.nes'),
+        createTestBatchFile('bulk2.nes'),
+      ]);
+      const process = vi
+        .spyOn(PipelineOrchestrator.prototype, 'process')
+        .mockImplementation((path) => {
+          if (path.endsWith('bulk1.nes')) {
+            batchQueue.createJob([createTestBatchFile('urgent.nes')], 'high');
+          }
+          return Promise.resolve({ success: true, errors: [] });
+        });
+
+      // Act
+      await new BatchProcessor(batchQueue).processQueuedNow();
+
+      // Assert
+      expect(process.mock.calls.map(([path]) => path)).toEqual([
+        '/tmp/test/bulk1.nes',
+        '/tmp/test/urgent.nes',
+        '/tmp/test/bulk2.nes',
+      ]);
+      expect(batchQueue.getJob(bulk.id)?.status).toBe('completed');
     });
   });
 
@@ -8,31 +8,7 @@
 import { describe, it, expect } from 'vitest';
 
 import { validateBatch } from '../../src/ingestion/batch-validator.js';
-
-// Inline config for testing (POL-022)
-// TODO: Fix vitest config import issue and use: import { batchUploadConfig } from '../../config/policy.config.js';
-const batchUploadConfig = {
-  maxBatchSize: 100,
-  maxFileSize: 50 * 1024 * 1024, // 50MB per file
-  processingStrategy: 'serial' as const,
-  errorHandling: 'continueOnError' as const,
-  allowedExtensions: [
-    '.zip',
-    '.nes',
-    '.snes',
-    '.sfc',
-    '.gba',
-    '.gb',
-    '.gbc',
-    '.n64',
-    '.md',
-    '.gen',
-    '.sms',
-    '.gg',
-    '.pce',
-  ],
-  rateLimitPerMinute: 10,
-};
+import { batchUploadConfig } from '../../config/policy.config.js';
 
 describe('Batch Validator (POL-022)', () => {
   describe('batch size validation', () => {
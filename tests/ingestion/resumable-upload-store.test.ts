@@ -0,0 +1,243 @@
+/**
+ * Resumable Upload Store Tests
+ * Following TEST-002 (Single Responsibility per test)
+ * Following TEST-004 (Arrange-Act-Assert pattern)
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, readFile, rm } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { setImmediate } from 'node:timers/promises';
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { ResumableUploadStore } from '../../src/ingestion/resumable-upload-store.js';
+import { resumableUploadConfig } from '../../config/policy.config.js';
+
+/**
+ * Chunk body that yields `parts`, then optionally fails like a dropped
+ * connection
+ */
+async function* chunkOf(
+  parts: string[],
+  dropped = false
+): AsyncGenerator<Buffer> {
+  for (const part of parts) {
+    await setImmediate(); // Parts arrive like socket data
+    yield Buffer.from(part);
+  }
+  if (dropped) {
+    throw new Error('aborted');
+  }
+}
+
+function sha1Of(content: string): string {
+  return createHash('sha1').update(content).digest('base64');
+}
+
+describe('Resumable Upload Store (POL-022)', () => {
+  let uploadsDir: string;
+  let store: ResumableUploadStore;
+
+  beforeEach(async () => {
+    uploadsDir = join(
+      tmpdir(),
+      `resumable-upload-test-${Date.now()}-${Math.random().toString(36).substring(7)}`
+    );
+    await mkdir(uploadsDir, { recursive: true });
+    store = new ResumableUploadStore(uploadsDir);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(uploadsDir, { recursive: true, force: true });
+  });
+
+  it('should append chunks in order and complete the file', async () => {
+    // Arrange
+    const upload = await store.create('game.chd', 10);
+
+    // Act
+    await store.append(upload.id, 0, chunkOf(['hello']));
+    const result = await store.append(upload.id, 5, chunkOf(['world']));
+    const completed = await store.complete(upload.id);
+    const path = completed.success ? completed.path : '';
+
+    // Assert
+    expect(result.success && result.upload.offset).toBe(10);
+    expect(basename(path)).toBe('game.chd');
+    expect(await readFile(path, 'utf-8')).toBe('helloworld');
+  });
+
+  it('should report the offset to resume from', async () => {
+    // Arrange
+    const upload = await store.create('game.chd', 10);
+    await store.append(upload.id, 0, chunkOf(['hello']));
+
+    // Act
+    const reopened = await new ResumableUploadStore(uploadsDir).get(upload.id);
+
+    // Assert
+    expect(reopened?.offset).toBe(5);
+  });
+
+  it('should reject a chunk at the wrong offset', async () => {
+    // Arrange
+    const upload = await store.create('game.chd', 10);
+
+    // Act
+    const result = await store.append(upload.id, 3, chunkOf(['hello']));
+
+    // Assert
+    expect(result.success || result.reason).toBe('offset-mismatch');
+  });
+
+  it('should reject a chunk beyond the upload size', async () => {
+    // Arrange
+    const upload = await store.create('game.chd', 4);
+
+    // Act
+    const result = await store.append(upload.id, 0, chunkOf(['hello']));
+
+    // Assert
+    expect(result.success || result.reason).toBe('too-large');
+    expect((await store.get(upload.id))?.offset).toBe(0);
+  });
+
+  it('should discard a chunk that fails its checksum', async () => {
+    // Arrange
+    const upload = await store.create('game.chd', 10);
+
+    // Act
+    const result = await store.append(upload.id, 0, chunkOf(['hello']), {
+      algorithm: 'sha1',
+      digest: sha1Of('other'),
+    });
+
+    // Assert
+    expect(result.success || result.reason).toBe('checksum-mismatch');
+    expect((await store.get(upload.id))?.offset).toBe(0);
+  });
+
+  it('should accept a chunk that matches its checksum', async () => {
+    // Arrange
+    const upload = await store.create('game.chd', 10);
+
+    // Act
+    const result = await store.append(upload.id, 0, chunkOf(['hello']), {
+      algorithm: 'sha1',
+      digest: sha1Of('hello'),
+    });
+
+    // Assert
+    expect(result.success).toBe(true);
+  });
+
+  it('should keep the bytes of an interrupted chunk', async () => {
+    // Arrange
+    const upload = await store.create('game.chd', 10);
+
+    // Act
+    await expect(
+      store.append(upload.id, 0, chunkOf(['hel'], true))
+    ).rejects.toThrow('aborted');
+
+    // Assert
+    expect((await store.get(upload.id))?.offset).toBe(3);
+  });
+
+  it('should drop an interrupted chunk that carries a checksum', async () => {
+    // Arrange
+    const upload = await store.create('game.chd', 10);
+
+    // Act
+    await expect(
+      store.append(upload.id, 0, chunkOf(['hel'], true), {
+        algorithm: 'sha1',
+        digest: sha1Of('hello'),
+      })
+    ).rejects.toThrow('aborted');
+
+    // Assert
+    expect((await store.get(upload.id))?.offset).toBe(0);
+  });
+
+  it('should not complete an upload that is missing bytes', async () => {
+    // Arrange
+    const upload = await store.create('game.chd', 10);
+
+    // Act
+    const result = await store.complete(upload.id);
+
+    // Assert
+    expect(result.success || result.reason).toBe('incomplete');
+  });
+
+  it('should refuse a second finalize of the same upload', async () => {
+    // Arrange
+    const upload = await store.create('game.chd', 5);
+    await store.append(upload.id, 0, chunkOf(['hello']));
+
+    // Act
+    const [first, second] = await Promise.all([
+      store.complete(upload.id),
+      store.complete(upload.id),
+    ]);
+
+    // Assert
+    expect(first.success).toBe(true);
+    expect(second.success || second.reason).toBe('busy');
+  });
+
+  it('should refuse chunks while an upload is finalized', async () => {
+    // Arrange
+    const upload = await store.create('game.chd', 5);
+    await store.append(upload.id, 0, chunkOf(['hello']));
+    await store.complete(upload.id);
+
+    // Act
+    const result = await store.append(upload.id, 5, chunkOf(['more']));
+
+    // Assert
+    expect(result.success || result.reason).toBe('finalizing');
+  });
+
+  it('should not expire an upload while it is finalized', async () => {
+    // Arrange
+    const upload = await store.create('game.chd', 0);
+    await store.complete(upload.id);
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + resumableUploadConfig.expiryMs + 1);
+
+    // Act
+    const removed = await store.expireStale();
+
+    // Assert
+    expect(removed).toEqual([]);
+  });
+
+  it('should not resolve ids outside the uploads directory', async () => {
+    // Act
+    const upload = await store.get('../../etc');
+
+    // Assert
+    expect(upload).toBeUndefined();
+  });
+
+  it('should remove expired uploads', async () => {
+    // Arrange
+    const expiring = new ResumableUploadStore(uploadsDir, {
+      ...resumableUploadConfig,
+      expiryMs: 0,
+    });
+    const upload = await expiring.create('game.chd', 10);
+
+    // Act
+    const removed = await expiring.expireStale();
+
+    // Assert
+    expect(removed).toEqual([upload.id]);
+    expect(await readdir(uploadsDir)).toEqual([]);
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Tests for Manifest File
+ * Following TEST-002 (Single Responsibility per test)
+ * Following TEST-004 (Arrange-Act-Assert pattern)
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import {
+  MANIFEST_SCHEMA_VERSION,
+  migrateManifests,
+  parseManifestDocument,
+} from '../src/pipeline/manifest-file.js';
+import type {
+  ManifestDocument,
+  RomHashes,
+} from '../src/interfaces/pipeline.interface.js';
+
+import { ManifestEntryFactory } from './factories/pipeline.factory.js';
+
+const HASHES: RomHashes = {
+  crc32: '1a2b3c4d',
+  md5: 'a'.repeat(32),
+  sha1: 'b'.repeat(40),
+  sha256: 'c'.repeat(64),
+};
+
+/** Manifest as the BatchProcessor wrote it before schema version 2 */
+const LEGACY_BATCH_MANIFEST = {
+  version: '1.0.0',
+  platform: 'Nintendo Entertainment System',
+  totalFiles: 1,
+  files: [
+    {
+      filename: 'Game.nes',
+      size: 40,
+      source: '/in/Game.nes',
+      destination: '/out/downloads/Nintendo Entertainment System/Game.nes',
+      processedAt: '2024-01-01T00:00:00.000Z',
+    },
+  ],
+};
+
+describe('manifest file', () => {
+  describe('parseManifestDocument', () => {
+    it('should read a version 2 document', () => {
+      // Arrange
+      const document: ManifestDocument = {
+        schemaVersion: MANIFEST_SCHEMA_VERSION,
+        platform: 'nes',
+        entries: [ManifestEntryFactory.create()],
+      };
+
+      // Act & Assert
+      expect(parseManifestDocument(document)).toEqual(document);
+    });
+
+    it('should read a legacy Archiver array', () => {
+      // Arrange
+      const entry = ManifestEntryFactory.create({ platform: 'snes' });
+
+      // Act
+      const document = parseManifestDocument([entry]);
+
+      // Assert
+      expect(document).toEqual({
+        schemaVersion: MANIFEST_SCHEMA_VERSION,
+        platform: 'snes',
+        entries: [entry],
+      });
+    });
+
+    it('should convert a legacy BatchProcessor manifest', () => {
+      // Act
+      const document = parseManifestDocument(LEGACY_BATCH_MANIFEST);
+
+      // Assert
+      expect(document.entries).toEqual([
+        {
+          id: expect.stringMatching(/^batch-path-[0-9a-f]{16}$/) as string,
+          filename: 'Game.nes',
+          platform: 'Nintendo Entertainment System',
+          hash: '',
+          size: 40,
+          extension: '.nes',
+          archivedAt: '2024-01-01T00:00:00.000Z',
+          metadata: {
+            source: '/in/Game.nes',
+            destination:
+              '/out/downloads/Nintendo Entertainment System/Game.nes',
+          },
+        },
+      ]);
+    });
+
+    it('should key a hashed legacy batch file by its content', () => {
+      // Arrange
+      const [file] = LEGACY_BATCH_MANIFEST.files;
+      const manifest = {
+        ...LEGACY_BATCH_MANIFEST,
+        files: [{ ...file, hashes: HASHES }],
+      };
+
+      // Act
+      const document = parseManifestDocument(manifest);
+
+      // Assert
+      expect(document.entries[0]).toMatchObject({
+        id: `batch-${'c'.repeat(16)}`,
+        hash: HASHES.sha256,
+        hashes: HASHES,
+      });
+    });
+
+    it('should name the invalid field of a version 2 document', () => {
+      // Arrange
+      const document = {
+        schemaVersion: MANIFEST_SCHEMA_VERSION,
+        platform: 'nes',
+        entries: [{ ...ManifestEntryFactory.create(), size: -1 }],
+      };
+
+      // Act & Assert
+      expect(() => parseManifestDocument(document)).toThrow(
+        /^invalid manifest: entries\.0\.size: /
+      );
+    });
+
+    it('should reject other JSON documents', () => {
+      // Act & Assert
+      expect(() => parseManifestDocument({ games: [] })).toThrow(
+        'not a pipeline manifest'
+      );
+    });
+  });
+
+  describe('migrateManifests', () => {
+    let manifestsDir: string;
+
+    beforeEach(async () => {
+      manifestsDir = join(
+        tmpdir(),
+        `manifest-file-test-${Date.now()}-${Math.random().toString(36).substring(7)}`
+      );
+      await mkdir(manifestsDir, { recursive: true });
+    });
+
+    afterEach(async () => {
+      await rm(manifestsDir, { recursive: true, force: true });
+    });
+
+    const readDocument = async (file: string): Promise<ManifestDocument> =>
+      JSON.parse(
+        await readFile(join(manifestsDir, file), 'utf-8')
+      ) as ManifestDocument;
+
+    it('should rewrite legacy Archiver manifests in place', async () => {
+      // Arrange
+      const entry = ManifestEntryFactory.create();
+      await writeFile(join(manifestsDir, 'nes.json'), JSON.stringify([entry]));
+
+      // Act
+      const report = await migrateManifests(manifestsDir);
+
+      // Assert
+      expect(report.migrated).toEqual(['nes.json']);
+      expect(await readDocument('nes.json')).toEqual({
+        schemaVersion: MANIFEST_SCHEMA_VERSION,
+        platform: 'nes',
+        entries: [entry],
+      });
+    });
+
+    it('should merge batch manifests into the platform id manifest', async () => {
+      // Arrange
+      const archived = ManifestEntryFactory.create();
+      await writeFile(
+        join(manifestsDir, 'nes.json'),
+        JSON.stringify([archived])
+      );
+      await writeFile(
+        join(manifestsDir, 'Nintendo Entertainment System.json'),
+        JSON.stringify(LEGACY_BATCH_MANIFEST)
+      );
+
+      // Act
+      const report = await migrateManifests(manifestsDir, [
+        { id: 'nes', name: 'Nintendo Entertainment System' },
+      ]);
+
+      // Assert
+      expect(report.migrated).toEqual([
+        'Nintendo Entertainment System.json -> nes.json',
+      ]);
+      // Rewritten by the merge before its own turn
+      expect(report.current).toEqual(['nes.json']);
+      const document = await readDocument('nes.json');
+      expect(document.entries.map((e) => [e.filename, e.platform])).toEqual([
+        ['test-game.nes', 'nes'],
+        ['Game.nes', 'nes'],
+      ]);
+      expect(
+        (await readdir(manifestsDir)).filter((file) => file.endsWith('.json'))
+      ).toEqual(['nes.json']);
+    });
+
+    it('should hash legacy batch files from their destination', async () => {
+      // Arrange
+      const destination = join(manifestsDir, 'Game.nes');
+      await writeFile(destination, 'rom data');
+      const [file] = LEGACY_BATCH_MANIFEST.files;
+      await writeFile(
+        join(manifestsDir, 'Nintendo Entertainment System.json'),
+        JSON.stringify({
+          ...LEGACY_BATCH_MANIFEST,
+          files: [
+            { ...file, destination },
+            { ...file, filename: 'Gone.nes', destination: '/missing/Gone.nes' },
+          ],
+        })
+      );
+
+      // Act
+      const report = await migrateManifests(manifestsDir, [
+        { id: 'nes', name: 'Nintendo Entertainment System' },
+      ]);
+
+      // Assert
+      expect(report.errors).toEqual([]);
+      const [hashed, unreadable] = (await readDocument('nes.json')).entries;
+      expect(hashed?.hash).toBe(
+        createHash('sha256').update('rom data').digest('hex')
+      );
+      expect(hashed?.id).toBe(`batch-${hashed?.hash.slice(0, 16) ?? ''}`);
+      expect(unreadable).toMatchObject({ filename: 'Gone.nes', hash: '' });
+    });
+
+    it('should leave current manifests and report unreadable ones', async () => {
+      // Arrange
+      const current = JSON.stringify({
+        schemaVersion: MANIFEST_SCHEMA_VERSION,
+        platform: 'snes',
+        entries: [],
+      });
+      await writeFile(join(manifestsDir, 'snes.json'), current);
+      await writeFile(join(manifestsDir, 'psx.json'), '{"games": []}');
+
+      // Act
+      const report = await migrateManifests(manifestsDir);
+
+      // Assert
+      expect(report.current).toEqual(['snes.json']);
+      expect(report.errors).toEqual(['psx.json: not a pipeline manifest']);
+      expect(await readFile(join(manifestsDir, 'snes.json'), 'utf-8')).toBe(
+        current
+      );
+    });
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * Tests for N64 Byte Order
+ * Following TEST-002 (Single Responsibility per test)
+ * Following TEST-004 (Arrange-Act-Assert pattern)
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { toBigEndian } from '../src/pipeline/n64-byte-order.js';
+
+import { RomHeaderFactory } from './factories/rom-header.factory.js';
+
+describe('N64 Byte Order', () => {
+  it.each(['z64', 'v64', 'n64'] as const)(
+    'should convert .%s images to big-endian',
+    (order) => {
+      // Act
+      const result = toBigEndian(RomHeaderFactory.n64(order), order);
+
+      // Assert
+      expect(result).toEqual(RomHeaderFactory.n64('z64'));
+    }
+  );
+
+  it('should reject images that are not whole 32-bit words', () => {
+    expect(() => toBigEndian(Buffer.alloc(6), 'n64')).toThrow(
+      'N64 image size must be a multiple of 4 bytes (6)'
+    );
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Tests for Naming Templates
+ * Following TEST-002 (Single Responsibility per test)
+ * Following TEST-004 (Arrange-Act-Assert pattern)
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  DEFAULT_NAMING_TEMPLATE,
+  namingFields,
+  renderNamingTemplate,
+  sanitizeFilename,
+  unknownNamingTokens,
+} from '../src/pipeline/naming.js';
+
+import { ROMFileFactory } from './factories/pipeline.factory.js';
+
+describe('Naming Templates', () => {
+  describe('namingFields', () => {
+    it('should skip revision and disc tags when looking for the region', () => {
+      // Arrange
+      const rom = ROMFileFactory.create({
+        filename: 'Game (Rev 2) (Japan) (Disc 1).bin',
+      });
+
+      // Act
+      const fields = namingFields(rom);
+
+      // Assert
+      expect(fields).toEqual({
+        title: 'Game',
+        region: 'Japan',
+        revision: 'Rev 2',
+        disc: 'Disc 1',
+      });
+    });
+
+    it('should translate GoodTools country codes', () => {
+      // Arrange
+      const rom = ROMFileFactory.create({ filename: 'Mario (JU) [!].nes' });
+
+      // Act
+      const fields = namingFields(rom);
+
+      // Assert
+      expect(fields.region).toBe('Japan, USA');
+    });
+
+    it('should prefer the DAT match over filename tags', () => {
+      // Arrange
+      const rom = ROMFileFactory.create({
+        filename: 'mario (U) [!].nes',
+        dat: {
+          status: 'verified',
+          game: 'Super Mario Bros. (World)',
+          region: 'World',
+        },
+      });
+
+      // Act
+      const fields = namingFields(rom);
+
+      // Assert
+      expect(fields.title).toBe('Super Mario Bros.');
+      expect(fields.region).toBe('World');
+      expect(fields.revision).toBe('');
+    });
+  });
+
+  describe('renderNamingTemplate', () => {
+    it('should render the default template and drop empty groups', () => {
+      // Act
+      const name = renderNamingTemplate(DEFAULT_NAMING_TEMPLATE, {
+        title: 'Game',
+        region: 'USA',
+        revision: '',
+        disc: 'Disc 1',
+      });
+
+      // Assert
+      expect(name).toBe('Game (USA) (Disc 1)');
+    });
+
+    it('should support square-bracket groups and bare tokens', () => {
+      // Act
+      const name = renderNamingTemplate('{region} - {title} [{revision}]', {
+        title: 'Game',
+        region: 'Europe',
+        revision: 'Rev A',
+        disc: '',
+      });
+
+      // Assert
+      expect(name).toBe('Europe - Game [Rev A]');
+    });
+  });
+
+  describe('unknownNamingTokens', () => {
+    it('should list tokens that are not naming fields', () => {
+      expect(unknownNamingTokens('{title} ({year}) {foo}')).toEqual([
+        'year',
+        'foo',
+      ]);
+      expect(unknownNamingTokens(DEFAULT_NAMING_TEMPLATE)).toEqual([]);
+    });
+  });
+
+  describe('sanitizeFilename', () => {
+    it('should replace characters illegal on Windows and Android', () => {
+      expect(sanitizeFilename('A<B>C|D*E?.nes')).toBe('A_B_C_D_E_.nes');
+    });
+
+    it('should turn colons into dashes', () => {
+      expect(sanitizeFilename('Zelda: Link.nes')).toBe('Zelda - Link.nes');
+    });
+
+    it('should avoid reserved device names and trailing dots', () => {
+      expect(sanitizeFilename('CON.nes')).toBe('CON_.nes');
+      expect(sanitizeFilename('Game...nes')).toBe('Game.nes');
+    });
+  });
+});
@@ -5,12 +5,18 @@
  * Covering error paths for POL-002 (Test Coverage)
  */
 
-import { describe, it, expect } from 'vitest';
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 
 import { Normalizer } from '../src/pipeline/normalizer.js';
 import type { ROMFile } from '../src/interfaces/pipeline.interface.js';
 
 import { PlatformConfigFactory } from './factories/pipeline.factory.js';
+import { RomHeaderFactory } from './factories/rom-header.factory.js';
 
 const baseRom: ROMFile = {
   id: 'rom-normalizer-1',
@@ -79,6 +85,393 @@ describe('Normalizer', () => {
       expect(result.success).toBe(false);
       expect(result.error).toContain('filename');
     });
+
+    it('should group multi-disc dumps by title', async () => {
+      const normalizer = new Normalizer(config);
+      const disc = {
+        ...baseRom,
+        path: '/tmp/Final Fantasy VII (USA) (Disc 2).bin',
+        filename: 'Final Fantasy VII (USA) (Disc 2).bin',
+        extension: '.bin',
+        platform: 'psx',
+        companionFiles: ['/tmp/Final Fantasy VII (USA) (Disc 2).cue'],
+      };
+
+      const result = await normalizer.applyNamingPattern(disc);
+
+      expect(result.data?.discSet).toEqual({
+        title: 'Final Fantasy VII (USA)',
+        disc: 2,
+        file: 'Final Fantasy VII (USA) (Disc 2).cue',
+        playlist: 'Final Fantasy VII (USA).m3u',
+      });
+    });
+
+    it('should not assign a disc set to single-disc games', async () => {
+      const normalizer = new Normalizer(config);
+
+      const result = await normalizer.applyNamingPattern(baseRom);
+
+      expect(result.data?.discSet).toBeUndefined();
+    });
+
+    describe('with a naming template', () => {
+      let archiveRoms: string;
+      let namingConfig: ReturnType<typeof PlatformConfigFactory.create>;
+
+      beforeEach(async () => {
+        const root = join(tmpdir(), `normalizer-test-${Date.now()}`);
+        archiveRoms = join(root, 'ROMs');
+        await mkdir(join(archiveRoms, 'nes'), { recursive: true });
+        namingConfig = PlatformConfigFactory.create({
+          directories: {
+            ...config.directories,
+            archive: { ...config.directories.archive, roms: archiveRoms },
+          },
+          naming: { template: '{title} ({region}) ({revision})' },
+        });
+      });
+
+      afterEach(async () => {
+        await rm(join(archiveRoms, '..'), { recursive: true, force: true });
+      });
+
+      it('should rename from the DAT match and record the original name', async () => {
+        const normalizer = new Normalizer(namingConfig);
+        const rom: ROMFile = {
+          ...baseRom,
+          filename: 'smb.nes',
+          dat: {
+            status: 'verified',
+            game: 'Super Mario Bros. (World) (Rev 1)',
+            region: 'World',
+            revision: '1',
+          },
+        };
+
+        const result = await normalizer.applyNamingPattern(rom);
+
+        expect(result.success).toBe(true);
+        expect(result.data?.filename).toBe(
+          'Super Mario Bros. (World) (Rev 1).nes'
+        );
+        expect(result.data?.originalName).toBe('smb.nes');
+        expect(result.metadata?.['renamed']).toBe(true);
+      });
+
+      it('should fall back to filename tags and drop empty groups', async () => {
+        const normalizer = new Normalizer(namingConfig);
+        const rom: ROMFile = {
+          ...baseRom,
+          filename: 'Zelda (Europe) [!].nes',
+        };
+
+        const result = await normalizer.applyNamingPattern(rom);
+
+        expect(result.data?.filename).toBe('Zelda (Europe).nes');
+      });
+
+      it('should keep a name that already matches the template', async () => {
+        const normalizer = new Normalizer(namingConfig);
+
+        const result = await normalizer.applyNamingPattern(baseRom);
+
+        expect(result.data?.filename).toBe('test.nes');
+        expect(result.data?.originalName).toBeUndefined();
+      });
+
+      it('should sanitize characters illegal on Windows and Android', async () => {
+        const normalizer = new Normalizer(namingConfig);
+        const rom: ROMFile = {
+          ...baseRom,
+          dat: {
+            status: 'verified',
+            game: 'Star Wars: Return of the "Jedi"? (USA)',
+            region: 'USA',
+          },
+        };
+
+        const result = await normalizer.applyNamingPattern(rom);
+
+        expect(result.data?.filename).toBe(
+          'Star Wars - Return of the _Jedi__ (USA).nes'
+        );
+      });
+
+      it('should resolve collisions with the CRC32, independent of order', async () => {
+        const normalizer = new Normalizer(namingConfig);
+        await writeFile(join(archiveRoms, 'nes', 'Zelda (Europe).nes'), 'x');
+        const rom: ROMFile = {
+          ...baseRom,
+          filename: 'Zelda (Europe) (Beta).nes',
+          hashes: {
+            crc32: 'ab12cd34',
+            md5: '',
+            sha1: '',
+            sha256: '',
+          },
+        };
+
+        const result = await normalizer.applyNamingPattern(rom);
+
+        expect(result.data?.filename).toBe('Zelda (Europe) [AB12CD34].nes');
+      });
+
+      it('should number collisions when no CRC32 is known', async () => {
+        const normalizer = new Normalizer(namingConfig);
+        await writeFile(join(archiveRoms, 'nes', 'Zelda (Europe).nes'), 'x');
+        await writeFile(
+          join(archiveRoms, 'nes', 'Zelda (Europe) (1).nes'),
+          'x'
+        );
+        const rom: ROMFile = { ...baseRom, filename: 'Zelda (Europe) [b].nes' };
+
+        const result = await normalizer.applyNamingPattern(rom);
+
+        expect(result.data?.filename).toBe('Zelda (Europe) (2).nes');
+      });
+
+      it('should keep names of tracks referenced by a cue sheet', async () => {
+        const normalizer = new Normalizer(namingConfig);
+        const track: ROMFile = {
+          ...baseRom,
+          filename: 'Game (USA) (Track 1).bin',
+          extension: '.bin',
+          companionFiles: ['/tmp/Game (USA).cue'],
+        };
+
+        const result = await normalizer.applyNamingPattern(track);
+
+        expect(result.data?.filename).toBe('Game (USA) (Track 1).bin');
+        expect(result.metadata?.['reason']).toContain('cue sheet');
+      });
+
+      it('should keep disc numbers so disc sets stay grouped', async () => {
+        const normalizer = new Normalizer(namingConfig);
+        const disc: ROMFile = {
+          ...baseRom,
+          filename: 'Game (USA) (Disc 2) (Alt).iso',
+          extension: '.iso',
+        };
+
+        const result = await normalizer.applyNamingPattern(disc);
+
+        expect(result.data?.filename).toBe('Game (USA) (Disc 2).iso');
+        expect(result.data?.discSet).toMatchObject({
+          title: 'Game (USA)',
+          disc: 2,
+          file: 'Game (USA) (Disc 2).iso',
+        });
+      });
+
+      it('should reject templates with unknown tokens', async () => {
+        const normalizer = new Normalizer(
+          PlatformConfigFactory.create({
+            naming: { template: '{title} ({publisher})' },
+          })
+        );
+
+        const result = await normalizer.applyNamingPattern(baseRom);
+
+        expect(result.success).toBe(false);
+        expect(result.error).toContain('{publisher}');
+      });
+    });
+  });
+
+  describe('normalizeByteOrder', () => {
+    let root: string;
+    let n64Config: ReturnType<typeof PlatformConfigFactory.create>;
+
+    beforeEach(async () => {
+      root = join(
+        tmpdir(),
+        `normalizer-n64-${Date.now()}-${Math.random().toString(36).substring(7)}`
+      );
+      await mkdir(root, { recursive: true });
+      n64Config = PlatformConfigFactory.create({
+        directories: {
+          ...config.directories,
+          workspace: {
+            ...config.directories.workspace,
+            staging: join(root, 'Staging'),
+          },
+        },
+      });
+    });
+
+    afterEach(async () => {
+      await rm(root, { recursive: true, force: true });
+    });
+
+    const n64Rom = async (filename: string, data: Buffer): Promise<ROMFile> => {
+      const path = join(root, filename);
+      await writeFile(path, data);
+      return {
+        id: 'rom-n64',
+        path,
+        filename,
+        extension: filename.slice(filename.lastIndexOf('.')),
+        size: data.length,
+        platform: 'n64',
+      };
+    };
+
+    it.each(['v64', 'n64'] as const)(
+      'should convert .%s images to big-endian .z64 and hash them',
+      async (order) => {
+        const normalizer = new Normalizer(n64Config);
+        const rom = await n64Rom(
+          `Game (USA).${order}`,
+          RomHeaderFactory.n64(order)
+        );
+
+        const result = await normalizer.normalizeByteOrder(rom);
+
+        const canonical = RomHeaderFactory.n64('z64');
+        expect(result.success).toBe(true);
+        expect(result.data).toMatchObject({
+          filename: 'Game (USA).z64',
+          extension: '.z64',
+          originalName: `Game (USA).${order}`,
+          hash: createHash('sha256').update(canonical).digest('hex'),
+          originalFormat: { extension: `.${order}`, byteOrder: order },
+        });
+        expect(await readFile(result.data?.path ?? '')).toEqual(canonical);
+        expect(result.metadata?.['converted']).toBe(true);
+      }
+    );
+
+    it('should rename a big-endian image with a .n64 extension', async () => {
+      const normalizer = new Normalizer(n64Config);
+      const rom = await n64Rom('Game.n64', RomHeaderFactory.n64('z64'));
+
+      const result = await normalizer.normalizeByteOrder(rom);
+
+      expect(result.data?.filename).toBe('Game.z64');
+      expect(result.data?.originalFormat).toEqual({
+        extension: '.n64',
+        byteOrder: 'z64',
+      });
+    });
+
+    it('should leave .z64 images and other platforms untouched', async () => {
+      const normalizer = new Normalizer(n64Config);
+      const z64 = await n64Rom('Game.z64', RomHeaderFactory.n64('z64'));
+
+      const n64Result = await normalizer.normalizeByteOrder(z64);
+      const nesResult = await normalizer.normalizeByteOrder(baseRom);
+
+      expect(n64Result.data).toBe(z64);
+      expect(n64Result.metadata?.['converted']).toBe(false);
+      expect(nesResult.data).toBe(baseRom);
+    });
+
+    it('should fail for images that are not whole 32-bit words', async () => {
+      const normalizer = new Normalizer(n64Config);
+      const rom = await n64Rom(
+        'Game.n64',
+        Buffer.concat([RomHeaderFactory.n64('n64'), Buffer.from([0])])
+      );
+
+      const result = await normalizer.normalizeByteOrder(rom);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('multiple of 4 bytes');
+    });
+  });
+
+  describe('stripCopierHeader', () => {
+    let root: string;
+    let stripConfig: ReturnType<typeof PlatformConfigFactory.create>;
+
+    beforeEach(async () => {
+      root = join(
+        tmpdir(),
+        `normalizer-smc-${Date.now()}-${Math.random().toString(36).substring(7)}`
+      );
+      await mkdir(root, { recursive: true });
+      stripConfig = PlatformConfigFactory.create({
+        directories: {
+          ...config.directories,
+          workspace: {
+            ...config.directories.workspace,
+            staging: join(root, 'Staging'),
+          },
+        },
+        copierHeaders: { strip: true },
+      });
+    });
+
+    afterEach(async () => {
+      await rm(root, { recursive: true, force: true });
+    });
+
+    const smcRom = async (): Promise<ROMFile> => {
+      const path = join(root, 'Game (USA).smc');
+      await writeFile(
+        path,
+        Buffer.concat([Buffer.alloc(512), Buffer.alloc(0x8000, 1)])
+      );
+      return {
+        id: 'rom-snes',
+        path,
+        filename: 'Game (USA).smc',
+        extension: '.smc',
+        size: 512 + 0x8000,
+        platform: 'snes',
+        hash: 'headered',
+        headerless: {
+          headerSize: 512,
+          hashes: { crc32: 'c', md5: 'm', sha1: 's', sha256: 'data' },
+        },
+      };
+    };
+
+    it('should stage the ROM data and adopt the headerless hashes', async () => {
+      const normalizer = new Normalizer(stripConfig);
+      const rom = await smcRom();
+
+      const result = await normalizer.stripCopierHeader(rom);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({
+        filename: 'Game (USA).smc',
+        size: 0x8000,
+        hash: 'data',
+        hashes: { sha256: 'data' },
+        originalFormat: { extension: '.smc', headerSize: 512 },
+      });
+      expect(result.data?.headerless).toBeUndefined();
+      expect(await readFile(result.data?.path ?? '')).toEqual(
+        Buffer.alloc(0x8000, 1)
+      );
+    });
+
+    it('should keep headers unless stripping is configured', async () => {
+      const normalizer = new Normalizer(config);
+      const rom = await smcRom();
+
+      const result = await normalizer.stripCopierHeader(rom);
+
+      expect(result.data).toBe(rom);
+      expect(result.metadata?.['stripped']).toBe(false);
+    });
+
+    it('should keep iNES headers, which emulators need', async () => {
+      const normalizer = new Normalizer(stripConfig);
+      const rom: ROMFile = {
+        ...baseRom,
+        headerless: {
+          headerSize: 16,
+          hashes: { crc32: 'c', md5: 'm', sha1: 's', sha256: 'data' },
+        },
+      };
+
+      const result = await normalizer.stripCopierHeader(rom);
+
+      expect(result.data).toBe(rom);
+    });
   });
 
   describe('convertToCHD', () => {
@@ -157,6 +550,27 @@ describe('Normalizer', () => {
       expect(result.data?.['generatedAt']).toBeDefined();
     });
 
+    it('should parse filename tags from the ingested name', async () => {
+      const normalizer = new Normalizer(config);
+      const rom: ROMFile = {
+        ...baseRom,
+        filename: 'Zelda (Europe).nes',
+        originalName: 'Zelda (Europe) (En,Fr,De) (Rev 1) [!].nes',
+      };
+
+      const result = await normalizer.generateMetadata(rom);
+
+      expect(result.data?.['tags']).toEqual({
+        title: 'Zelda',
+        regions: ['Europe'],
+        languages: ['En', 'Fr', 'De'],
+        revision: '1',
+        dumpStatus: 'verified',
+        developmentStatus: 'release',
+        flags: [],
+      });
+    });
+
     it('should handle null ROM input gracefully', async () => {
       const normalizer = new Normalizer(config);
 
@@ -0,0 +1,316 @@
+/**
+ * Tests for 1G1R Curated Set Selection
+ * Following TEST-002 (Single Responsibility per test)
+ * Following TEST-004 (Arrange-Act-Assert pattern)
+ */
+
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import {
+  OneGameOneRomBuilder,
+  selectOneGameOneRom,
+} from '../src/pipeline/one-game-one-rom.js';
+import { Promoter } from '../src/pipeline/promoter.js';
+import type {
+  OneGameOneRomConfig,
+  PlatformConfig,
+} from '../src/interfaces/platform-config.interface.js';
+import type {
+  ManifestEntry,
+  PlaylistEntry,
+  ROMFile,
+} from '../src/interfaces/pipeline.interface.js';
+
+import {
+  ManifestEntryFactory,
+  PlatformConfigFactory,
+} from './factories/pipeline.factory.js';
+
+const USA_FIRST: OneGameOneRomConfig = {
+  regions: ['USA', 'Europe', 'Japan'],
+  languages: ['En'],
+};
+
+const entry = (
+  filename: string,
+  overrides: Partial<ManifestEntry> = {}
+): ManifestEntry =>
+  ManifestEntryFactory.create({ id: filename, filename, ...overrides });
+
+const winnerOf = (entries: ManifestEntry[], regions = USA_FIRST): string[] =>
+  selectOneGameOneRom(entries, regions).map(
+    (group) => group.winner.entries[0]?.filename ?? ''
+  );
+
+describe('1G1R selection', () => {
+  it('should pick the most preferred region', () => {
+    // Arrange
+    const entries = [
+      entry('Game (Japan).nes'),
+      entry('Game (Europe).nes'),
+      entry('Game (USA).nes'),
+    ];
+
+    // Act
+    const groups = selectOneGameOneRom(entries, USA_FIRST);
+
+    // Assert
+    expect(groups).toHaveLength(1);
+    expect(groups[0]?.winner.entries[0]?.filename).toBe('Game (USA).nes');
+    expect(groups[0]?.losers).toHaveLength(2);
+  });
+
+  it('should follow a configured region order', () => {
+    // Arrange
+    const entries = [entry('Game (USA).nes'), entry('Game (Europe).nes')];
+
+    // Act
+    const winners = winnerOf(entries, { regions: ['Europe', 'USA'] });
+
+    // Assert
+    expect(winners).toEqual(['Game (Europe).nes']);
+  });
+
+  it('should prefer a listed language when regions tie', () => {
+    // Arrange
+    const entries = [
+      entry('Game (Europe) (Fr,De).nes'),
+      entry('Game (Europe) (En,Fr).nes'),
+    ];
+
+    // Act
+    const winners = winnerOf(entries);
+
+    // Assert
+    expect(winners).toEqual(['Game (Europe) (En,Fr).nes']);
+  });
+
+  it('should prefer the latest revision', () => {
+    // Arrange
+    const entries = [
+      entry('Game (USA) (Rev 1).nes'),
+      entry('Game (USA).nes'),
+      entry('Game (USA) (Rev 2).nes'),
+    ];
+
+    // Act
+    const winners = winnerOf(entries);
+
+    // Assert
+    expect(winners).toEqual(['Game (USA) (Rev 2).nes']);
+  });
+
+  it('should rank bad dumps and pre-release builds below any region', () => {
+    // Arrange
+    const entries = [
+      entry('Game (U) [b1].nes'),
+      entry('Game (USA) (Beta).nes'),
+      entry('Game (Japan).nes'),
+    ];
+
+    // Act
+    const winners = winnerOf(entries);
+
+    // Assert
+    expect(winners).toEqual(['Game (Japan).nes']);
+  });
+
+  it('should group DAT clones under their parent title', () => {
+    // Arrange
+    const entries = [
+      entry('mega.nes', {
+        dat: { status: 'verified', game: 'Mega Man (USA)', region: 'USA' },
+      }),
+      entry('rock.nes', {
+        dat: {
+          status: 'verified',
+          game: 'Rockman (Japan)',
+          cloneOf: 'Mega Man (USA)',
+          region: 'Japan',
+        },
+      }),
+    ];
+
+    // Act
+    const groups = selectOneGameOneRom(entries, USA_FIRST);
+
+    // Assert
+    expect(groups).toHaveLength(1);
+    expect(groups[0]?.key).toBe('mega man');
+    expect(groups[0]?.winner.entries[0]?.filename).toBe('mega.nes');
+  });
+
+  it('should keep the discs of a set together', () => {
+    // Arrange
+    const disc = (region: string, n: number): ManifestEntry =>
+      entry(`Epic (${region}) (Disc ${n}).chd`, {
+        platform: 'psx',
+        discSet: {
+          title: `Epic (${region})`,
+          playlist: `Epic (${region}).m3u`,
+          file: `Epic (${region}) (Disc ${n}).chd`,
+          disc: n,
+        },
+      });
+    const entries = [
+      disc('Europe', 1),
+      disc('USA', 2),
+      disc('Europe', 2),
+      disc('USA', 1),
+    ];
+
+    // Act
+    const groups = selectOneGameOneRom(entries, USA_FIRST);
+
+    // Assert
+    expect(groups).toHaveLength(1);
+    expect(groups[0]?.winner.entries.map((e) => e.filename)).toEqual([
+      'Epic (USA) (Disc 1).chd',
+      'Epic (USA) (Disc 2).chd',
+    ]);
+    expect(groups[0]?.losers[0]?.entries).toHaveLength(2);
+  });
+});
+
+describe('1G1R Builder', () => {
+  let testDir: string;
+  let config: PlatformConfig;
+
+  beforeEach(async () => {
+    testDir = join(
+      tmpdir(),
+      `1g1r-test-${Date.now()}-${Math.random().toString(36).substring(7)}`
+    );
+    config = PlatformConfigFactory.create({
+      directories: {
+        archive: {
+          root: join(testDir, 'Archive'),
+          bios: join(testDir, 'Archive/BIOS'),
+          manifests: join(testDir, 'Archive/Manifests'),
+          roms: join(testDir, 'Archive/ROMs'),
+        },
+        sync: {
+          root: join(testDir, 'Sync'),
+          content: {
+            roms: join(testDir, 'Sync/content/roms'),
+            bios: join(testDir, 'Sync/content/bios'),
+            saves: join(testDir, 'Sync/content/saves'),
+            states: join(testDir, 'Sync/content/states'),
+          },
+          playlists: join(testDir, 'Sync/playlists'),
+          config: join(testDir, 'Sync/retroarch.cfg'),
+        },
+        thumbnails: { root: join(testDir, 'Thumbnails') },
+        workspace: {
+          root: join(testDir, 'Workspace'),
+          staging: join(testDir, 'Workspace/Staging'),
+          validation: join(testDir, 'Workspace/Validation'),
+          rejected: join(testDir, 'Workspace/Rejected'),
+          tools: join(testDir, 'Workspace/Tools'),
+        },
+      },
+      oneGameOneRom: USA_FIRST,
+    });
+    await mkdir(join(testDir, 'Archive/ROMs/nes'), { recursive: true });
+    await mkdir(join(testDir, 'Archive/Manifests'), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  const archive = async (entries: ManifestEntry[]): Promise<void> => {
+    for (const e of entries) {
+      await writeFile(join(testDir, 'Archive/ROMs/nes', e.filename), e.id);
+    }
+    await writeFile(
+      join(testDir, 'Archive/Manifests/nes.json'),
+      JSON.stringify(entries)
+    );
+  };
+
+  it('should promote winners and remove losers from sync and playlists', async () => {
+    // Arrange: the whole set was promoted before curation
+    const entries = [
+      entry('Game (Japan).nes', { id: 'japan' }),
+      entry('Game (USA).nes', { id: 'usa' }),
+      entry('Other (Europe).nes', { id: 'other' }),
+    ];
+    await archive(entries);
+    const promoter = new Promoter(config);
+    const japan: ROMFile = {
+      id: 'japan',
+      filename: 'Game (Japan).nes',
+      path: join(testDir, 'Archive/ROMs/nes/Game (Japan).nes'),
+      extension: '.nes',
+      size: 5,
+      platform: 'nes',
+    };
+    await promoter.promoteROM(japan);
+    await promoter.updatePlaylist(japan);
+
+    // Act
+    const result = await new OneGameOneRomBuilder(config).rebuild();
+
+    // Assert
+    expect(result.success).toBe(true);
+    expect(result.data?.games).toBe(2);
+    expect(result.data?.errors).toEqual([]);
+    const syncDir = join(testDir, 'Sync/content/roms/nes');
+    expect(existsSync(join(syncDir, 'Game (USA).nes'))).toBe(true);
+    expect(existsSync(join(syncDir, 'Other (Europe).nes'))).toBe(true);
+    expect(existsSync(join(syncDir, 'Game (Japan).nes'))).toBe(false);
+    const playlist = JSON.parse(
+      await readFile(join(testDir, 'Sync/playlists/nes.lpl'), 'utf-8')
+    ) as { items: PlaylistEntry[] };
+    expect(playlist.items.map((item) => item.label).sort()).toEqual([
+      'Game (USA)',
+      'Other (Europe)',
+    ]);
+  });
+
+  it('should only rebuild the requested platforms', async () => {
+    // Arrange
+    await archive([entry('Game (USA).nes', { id: 'usa' })]);
+    await writeFile(join(testDir, 'Archive/Manifests/snes.json'), '[]');
+
+    // Act
+    const result = await new OneGameOneRomBuilder(config).rebuild(['snes']);
+
+    // Assert
+    expect(result.data?.platforms).toEqual(['snes']);
+    expect(result.data?.promoted).toEqual([]);
+  });
+
+  it('should report manifests that are not pipeline manifests', async () => {
+    // Arrange
+    await writeFile(
+      join(testDir, 'Archive/Manifests/nes.json'),
+      JSON.stringify({ version: '1.0.0', files: [] })
+    );
+
+    // Act
+    const result = await new OneGameOneRomBuilder(config).rebuild();
+
+    // Assert
+    expect(result.success).toBe(true);
+    expect(result.data?.errors).toEqual(['nes: not a pipeline manifest']);
+  });
+
+  it('should fail when the manifests directory is missing', async () => {
+    // Arrange
+    await rm(join(testDir, 'Archive/Manifests'), { recursive: true });
+
+    // Act
+    const result = await new OneGameOneRomBuilder(config).rebuild();
+
+    // Assert
+    expect(result.success).toBe(false);
+    expect(result.error).toBeDefined();
+  });
+});
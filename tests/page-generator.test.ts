@@ -8,6 +8,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 
 import { PageGenerator } from '../src/pages/page-generator.js';
+import { resumableUploadConfig } from '../config/policy.config.js';
 
 import {
   PageConfigFactory,
@@ -156,6 +157,22 @@ describe('PageGenerator', () => {
     });
   });
 
+  describe('ingest form script', () => {
+    it('should upload large files in resumable chunks', () => {
+      // Arrange
+      const ingestPage = generator.getPageByRoute('/ingest');
+
+      // Act
+      const html = generator.generatePage(ingestPage!);
+
+      // Assert
+      expect(html).toContain('/api/roms/uploads');
+      expect(html).toContain(
+        `const RESUMABLE_THRESHOLD = ${resumableUploadConfig.thresholdSize};`
+      );
+    });
+  });
+
   describe('getPageByRoute', () => {
     it('should return page config for existing route', () => {
       const page = generator.getPageByRoute('/');
@@ -0,0 +1,282 @@
+/**
+ * Tests for Patcher
+ * Following TEST-002 (Single Responsibility per test)
+ * Following TEST-004 (Arrange-Act-Assert pattern)
+ */
+
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { Readable } from 'node:stream';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { Patcher, findPatchBase } from '../src/pipeline/patcher.js';
+import { readPatchHeader } from '../src/pipeline/rom-patch.js';
+import { hashStream } from '../src/pipeline/rom-hashes.js';
+import type { PlatformConfig } from '../src/interfaces/platform-config.interface.js';
+import type {
+  ManifestEntry,
+  ROMFile,
+} from '../src/interfaces/pipeline.interface.js';
+
+import {
+  ManifestEntryFactory,
+  PlatformConfigFactory,
+} from './factories/pipeline.factory.js';
+import { PatchFactory } from './factories/patch.factory.js';
+import { ZipFactory } from './factories/zip.factory.js';
+
+const BASE = Buffer.from('Quest (Japan) - original script');
+const TRANSLATED = Buffer.from('Quest (Japan) - English script');
+
+describe('Patcher', () => {
+  let testDir: string;
+  let config: PlatformConfig;
+  let patcher: Patcher;
+
+  beforeEach(async () => {
+    testDir = join(
+      tmpdir(),
+      `patcher-test-${Date.now()}-${Math.random().toString(36).substring(7)}`
+    );
+    config = PlatformConfigFactory.create({
+      directories: {
+        ...PlatformConfigFactory.create().directories,
+        archive: {
+          root: join(testDir, 'Archive'),
+          bios: join(testDir, 'Archive/BIOS'),
+          manifests: join(testDir, 'Archive/Manifests'),
+          roms: join(testDir, 'Archive/ROMs'),
+        },
+        sync: {
+          ...PlatformConfigFactory.create().directories.sync,
+          content: {
+            ...PlatformConfigFactory.create().directories.sync.content,
+            roms: join(testDir, 'Sync/content/roms'),
+          },
+        },
+        workspace: {
+          ...PlatformConfigFactory.create().directories.workspace,
+          staging: join(testDir, 'Workspace/Staging'),
+        },
+      },
+    });
+    patcher = new Patcher(config);
+    await mkdir(join(testDir, 'Archive/ROMs/nes'), { recursive: true });
+    await mkdir(join(testDir, 'Archive/Manifests'), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  /** Archives `content` and records it in the nes manifest */
+  const archiveBase = async (
+    filename: string,
+    content: Buffer,
+    overrides: Partial<ManifestEntry> = {}
+  ): Promise<ManifestEntry> => {
+    await writeFile(join(testDir, 'Archive/ROMs/nes', filename), content);
+    const entry = ManifestEntryFactory.create({
+      id: `base-${filename}`,
+      filename,
+      size: BASE.length,
+      hashes: await hashStream(Readable.from([BASE])),
+      ...overrides,
+    });
+    await writeFile(
+      join(testDir, 'Archive/Manifests/nes.json'),
+      JSON.stringify([entry])
+    );
+    return entry;
+  };
+
+  /** Writes a patch file and builds the ROMFile the Classifier would */
+  const patchROM = async (
+    filename: string,
+    data: Buffer,
+    base: ManifestEntry
+  ): Promise<ROMFile> => {
+    const path = join(testDir, filename);
+    await writeFile(path, data);
+    const header = readPatchHeader(data);
+    return {
+      id: 'patch-1',
+      filename,
+      path,
+      platform: 'nes',
+      extension: '.bps',
+      size: data.length,
+      patch: {
+        ...header,
+        base: {
+          id: base.id,
+          filename: base.filename,
+          platform: base.platform,
+          ...(base.entryName !== undefined && { entryName: base.entryName }),
+        },
+        matchedBy: 'crc32',
+      },
+    };
+  };
+
+  describe('findPatchBase', () => {
+    it('should match BPS and UPS patches by source CRC-32 and size', async () => {
+      // Arrange
+      const base = await archiveBase('renamed.nes', BASE);
+
+      // Act
+      const match = await findPatchBase(
+        join(testDir, 'Archive/Manifests'),
+        'anything.ups',
+        readPatchHeader(PatchFactory.ups(BASE, TRANSLATED))
+      );
+
+      // Assert
+      expect(match).toEqual({ entry: base, matchedBy: 'crc32' });
+    });
+
+    it('should match IPS patches by file name', async () => {
+      // Arrange
+      await archiveBase('Quest (Japan).nes', BASE);
+
+      // Act
+      const match = await findPatchBase(
+        join(testDir, 'Archive/Manifests'),
+        'quest (japan).IPS',
+        { format: 'ips' }
+      );
+
+      // Assert
+      expect(match?.entry.filename).toBe('Quest (Japan).nes');
+      expect(match?.matchedBy).toBe('name');
+    });
+
+    it('should return null when no archived ROM matches', async () => {
+      // Arrange
+      await archiveBase('Quest (Japan).nes', BASE);
+
+      // Act
+      const match = await findPatchBase(
+        join(testDir, 'Archive/Manifests'),
+        'Other.bps',
+        readPatchHeader(PatchFactory.bps(TRANSLATED, BASE))
+      );
+
+      // Assert
+      expect(match).toBeNull();
+    });
+  });
+
+  describe('applyPatch', () => {
+    it('should stage the patched ROM linked to its base', async () => {
+      // Arrange
+      const base = await archiveBase('Quest (Japan).nes', BASE);
+      const patch = await patchROM(
+        'Quest (Japan) [T+Eng].bps',
+        PatchFactory.bps(BASE, TRANSLATED),
+        base
+      );
+
+      // Act
+      const result = await patcher.applyPatch(patch);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({
+        filename: 'Quest (Japan) [T+Eng].nes',
+        extension: '.nes',
+        platform: 'nes',
+        size: TRANSLATED.length,
+        patchedFrom: {
+          id: base.id,
+          filename: 'Quest (Japan).nes',
+          patch: 'Quest (Japan) [T+Eng].bps',
+          format: 'bps',
+        },
+      });
+      expect(await readFile(result.data?.path ?? '')).toEqual(TRANSLATED);
+      expect(result.metadata?.['verified']).toBe(true);
+    });
+
+    it('should read the base from an intact zip', async () => {
+      // Arrange
+      const base = await archiveBase(
+        'Quest.zip',
+        ZipFactory.single('Quest.nes', BASE),
+        { entryName: 'Quest.nes' }
+      );
+      const patch = await patchROM(
+        'Quest (Hack).ups',
+        PatchFactory.ups(BASE, TRANSLATED),
+        base
+      );
+
+      // Act
+      const result = await patcher.applyPatch(patch);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.data?.filename).toBe('Quest (Hack).nes');
+      expect(await readFile(result.data?.path ?? '')).toEqual(TRANSLATED);
+    });
+
+    it('should fail when the archived base no longer matches', async () => {
+      // Arrange
+      const base = await archiveBase('Quest (Japan).nes', TRANSLATED);
+      const patch = await patchROM(
+        'Quest.bps',
+        PatchFactory.bps(BASE, TRANSLATED),
+        base
+      );
+
+      // Act
+      const result = await patcher.applyPatch(patch);
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Base ROM does not match patch source');
+    });
+
+    it('should fail for files that are not classified patches', async () => {
+      // Act
+      const result = await patcher.applyPatch({
+        id: 'rom',
+        filename: 'game.nes',
+        path: join(testDir, 'game.nes'),
+        extension: '.nes',
+        size: 0,
+      });
+
+      // Assert
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('placeSoftPatch', () => {
+    it('should name the patch after its base in archive and sync', async () => {
+      // Arrange
+      const base = await archiveBase('Quest (Japan).nes', BASE);
+      const patch = await patchROM(
+        'translation-v1.2.bps',
+        PatchFactory.bps(BASE, TRANSLATED),
+        base
+      );
+
+      // Act
+      const result = await patcher.placeSoftPatch(patch);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual([
+        join(testDir, 'Archive/ROMs/nes/Quest (Japan).bps'),
+        join(testDir, 'Sync/content/roms/nes/Quest (Japan).bps'),
+      ]);
+      expect(
+        existsSync(join(testDir, 'Sync/content/roms/nes/Quest (Japan).bps'))
+      ).toBe(true);
+    });
+  });
+});
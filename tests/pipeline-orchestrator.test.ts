@@ -4,7 +4,8 @@
  * Following TEST-004 (Arrange-Act-Assert pattern)
  */
 
-import { writeFile, mkdir } from 'node:fs/promises';
+import { createHash } from 'node:crypto';
+import { writeFile, mkdir, readFile } from 'node:fs/promises';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
 
@@ -25,13 +26,24 @@ import type {
   PhaseResult,
   ROMFile,
   PlaylistEntry,
+  DatMatch,
+  ManifestDocument,
 } from '../src/interfaces/pipeline.interface.js';
+import type { PlatformConfig } from '../src/interfaces/platform-config.interface.js';
 
-import { PlatformConfigFactory } from './factories/pipeline.factory.js';
+import {
+  PlatformConfigFactory,
+  PlatformDefinitionFactory,
+} from './factories/pipeline.factory.js';
+import { RomHeaderFactory } from './factories/rom-header.factory.js';
+import { ZipFactory } from './factories/zip.factory.js';
+import { DatFactory } from './factories/dat.factory.js';
+import { PatchFactory } from './factories/patch.factory.js';
 
 describe('PipelineOrchestrator', () => {
   let orchestrator: PipelineOrchestrator;
   let testDir: string;
+  let pipelineConfig: PlatformConfig;
 
   beforeEach(async () => {
     // Arrange: Set up test environment with all pipeline phases
@@ -73,6 +85,7 @@ describe('PipelineOrchestrator', () => {
       },
     });
 
+    pipelineConfig = config;
     const classifier = new Classifier(config);
     const validator = new Validator(config);
     const normalizer = new Normalizer(config);
@@ -212,14 +225,387 @@ describe('PipelineOrchestrator', () => {
       const manifestPath = join(testDir, 'Archive/Manifests/nes.json');
       const { readFile: fsReadFile } = await import('node:fs/promises');
       const manifestContent = await fsReadFile(manifestPath, 'utf-8');
-      const manifest = JSON.parse(manifestContent);
+      const document = JSON.parse(manifestContent);
+      const manifest = document.entries;
 
+      expect(document.schemaVersion).toBe(2);
       expect(Array.isArray(manifest)).toBe(true);
       expect(manifest.length).toBeGreaterThan(0);
       expect(manifest[0]).toHaveProperty('id');
       expect(manifest[0]).toHaveProperty('hash');
       expect(manifest[0]).toHaveProperty('platform', 'nes');
     });
+
+    it('should surface DAT verification in the result and manifest', async () => {
+      // Arrange
+      const datsDir = join(testDir, 'DATs');
+      await mkdir(datsDir, { recursive: true });
+      await writeFile(
+        join(datsDir, 'nes.dat'),
+        DatFactory.single('NES', 'Known (USA)', 'Known (USA).nes', 'dat-rom')
+      );
+      const config: PlatformConfig = {
+        ...pipelineConfig,
+        directories: {
+          ...pipelineConfig.directories,
+          archive: { ...pipelineConfig.directories.archive, dats: datsDir },
+        },
+      };
+      const datOrchestrator = new PipelineOrchestrator(
+        config,
+        new Classifier(config),
+        new Validator(config),
+        new Normalizer(config),
+        new Archiver(config),
+        new Promoter(config)
+      );
+      const testFile = join(testDir, 'known.nes');
+      await writeFile(testFile, 'dat-rom');
+
+      // Act
+      const result = await datOrchestrator.process(testFile);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.dat?.status).toBe('verified');
+      expect(result.dat?.game).toBe('Known (USA)');
+      expect(result.rom?.dat).toEqual(result.dat);
+
+      const { entries: manifest } = JSON.parse(
+        await readFile(join(testDir, 'Archive/Manifests/nes.json'), 'utf-8')
+      );
+      expect(manifest[0].dat.status).toBe('verified');
+      expect(manifest[0].hashes.crc32).toBe(result.rom?.hashes?.crc32);
+    });
+
+    it('should archive and promote under the normalized name', async () => {
+      // Arrange
+      const config: PlatformConfig = {
+        ...pipelineConfig,
+        naming: { template: '{title} ({region})' },
+      };
+      const namingOrchestrator = new PipelineOrchestrator(
+        config,
+        new Classifier(config),
+        new Validator(config),
+        new Normalizer(config),
+        new Archiver(config),
+        new Promoter(config)
+      );
+      const testFile = join(testDir, 'Zelda (Europe) [!].nes');
+      await writeFile(testFile, 'zelda-content');
+
+      // Act
+      const result = await namingOrchestrator.process(testFile);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.rom?.filename).toBe('Zelda (Europe).nes');
+      await expect(
+        readFile(join(testDir, 'Archive/ROMs/nes/Zelda (Europe).nes'), 'utf-8')
+      ).resolves.toBe('zelda-content');
+      await expect(
+        readFile(
+          join(testDir, 'Sync/content/roms/nes/Zelda (Europe).nes'),
+          'utf-8'
+        )
+      ).resolves.toBe('zelda-content');
+
+      const { entries: manifest } = JSON.parse(
+        await readFile(join(testDir, 'Archive/Manifests/nes.json'), 'utf-8')
+      );
+      expect(manifest[0].filename).toBe('Zelda (Europe).nes');
+      expect(manifest[0].originalName).toBe('Zelda (Europe) [!].nes');
+    });
+  });
+
+  describe('process - zip archives', () => {
+    it('should hash the inner entry and reference it in manifest and playlist', async () => {
+      // Arrange
+      const zipPath = join(testDir, 'zipped.zip');
+      const rom = RomHeaderFactory.nes();
+      await writeFile(zipPath, ZipFactory.single('zipped.nes', rom));
+
+      // Act
+      const result = await orchestrator.process(zipPath);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.roms).toHaveLength(1);
+      expect(result.rom?.hash).toBe(
+        createHash('sha256').update(rom).digest('hex')
+      );
+
+      const { entries: manifest } = JSON.parse(
+        await readFile(join(testDir, 'Archive/Manifests/nes.json'), 'utf-8')
+      );
+      expect(manifest[0]).toMatchObject({
+        containerPath: zipPath,
+        entryName: 'zipped.nes',
+      });
+
+      const playlist = JSON.parse(
+        await readFile(join(testDir, 'Sync/playlists/nes.lpl'), 'utf-8')
+      );
+      expect(playlist.items[0].path).toBe(
+        join(testDir, 'Sync/content/roms/nes/zipped.zip#zipped.nes')
+      );
+    });
+
+    it('should process every ROM of a multi-entry archive', async () => {
+      // Arrange
+      const zipPath = join(testDir, 'pack.zip');
+      await writeFile(
+        zipPath,
+        ZipFactory.create([
+          { name: 'first.nes', data: RomHeaderFactory.nes({ size: 64 }) },
+          {
+            name: 'second.nes',
+            data: RomHeaderFactory.nes({ size: 128 }),
+            deflate: true,
+          },
+        ])
+      );
+
+      // Act
+      const result = await orchestrator.process(zipPath);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.roms?.map((r) => r.filename)).toEqual([
+        'first.nes',
+        'second.nes',
+      ]);
+    });
+
+    it('should prefix entry failures with the entry name', async () => {
+      // Arrange: identical entries make the second a duplicate
+      const zipPath = join(testDir, 'dupes.zip');
+      const rom = RomHeaderFactory.nes({ size: 256 });
+      await writeFile(
+        zipPath,
+        ZipFactory.create([
+          { name: 'a.nes', data: rom },
+          { name: 'b.nes', data: rom },
+        ])
+      );
+
+      // Act
+      const result = await orchestrator.process(zipPath);
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.phase).toBe('validator');
+      expect(result.errors).toEqual(['b.nes: Duplicate ROM detected']);
+    });
+  });
+
+  describe('process - patches', () => {
+    it('should archive the patched ROM linked to its base', async () => {
+      // Arrange
+      const base = RomHeaderFactory.nes({ size: 64 });
+      const translated = Buffer.from(base);
+      translated.write('English', 32);
+      const basePath = join(testDir, 'Quest (Japan).nes');
+      const patchPath = join(testDir, 'Quest (Japan) [T+Eng].bps');
+      await writeFile(basePath, base);
+      await writeFile(patchPath, PatchFactory.bps(base, translated));
+      const baseResult = await orchestrator.process(basePath);
+
+      // Act
+      const result = await orchestrator.process(patchPath);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.rom?.filename).toBe('Quest (Japan) [T+Eng].nes');
+      const { entries: manifest } = JSON.parse(
+        await readFile(join(testDir, 'Archive/Manifests/nes.json'), 'utf-8')
+      ) as ManifestDocument;
+      expect(manifest).toHaveLength(2);
+      expect(manifest[1]?.patchedFrom).toEqual({
+        id: baseResult.rom?.id,
+        filename: 'Quest (Japan).nes',
+        patch: 'Quest (Japan) [T+Eng].bps',
+        format: 'bps',
+      });
+      expect(
+        await readFile(
+          join(testDir, 'Sync/content/roms/nes/Quest (Japan) [T+Eng].nes')
+        )
+      ).toEqual(translated);
+    });
+
+    it('should place soft patches next to the promoted base', async () => {
+      // Arrange
+      const config = { ...pipelineConfig, patching: { mode: 'soft' as const } };
+      const softOrchestrator = new PipelineOrchestrator(
+        config,
+        new Classifier(config),
+        new Validator(config),
+        new Normalizer(config),
+        new Archiver(config),
+        new Promoter(config)
+      );
+      const base = RomHeaderFactory.nes({ size: 64 });
+      const basePath = join(testDir, 'Quest (Japan).nes');
+      const patchPath = join(testDir, 'Quest (Japan).ips');
+      await writeFile(basePath, base);
+      await writeFile(
+        patchPath,
+        PatchFactory.ips(base, Buffer.concat([base, Buffer.from('!')]))
+      );
+      await softOrchestrator.process(basePath);
+
+      // Act
+      const result = await softOrchestrator.process(patchPath);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.rom?.patch?.format).toBe('ips');
+      expect(
+        await readFile(join(testDir, 'Sync/content/roms/nes/Quest (Japan).ips'))
+      ).toEqual(await readFile(patchPath));
+    });
+
+    it('should report patch failures in the patcher phase', async () => {
+      // Arrange: the archived base is replaced after ingestion
+      const base = RomHeaderFactory.nes({ size: 64 });
+      const basePath = join(testDir, 'Quest (Japan).nes');
+      await writeFile(basePath, base);
+      await orchestrator.process(basePath);
+      const patchPath = join(testDir, 'Quest (Japan).bps');
+      await writeFile(
+        patchPath,
+        PatchFactory.bps(base, Buffer.from('translated'))
+      );
+      await writeFile(join(testDir, 'Archive/ROMs/nes/Quest (Japan).nes'), 'x');
+
+      // Act
+      const result = await orchestrator.process(patchPath);
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.phase).toBe('patcher');
+    });
+  });
+
+  describe('process - N64 byte order', () => {
+    beforeEach(() => {
+      const config = {
+        ...pipelineConfig,
+        platforms: [
+          ...pipelineConfig.platforms,
+          PlatformDefinitionFactory.n64(),
+        ],
+      };
+      orchestrator = new PipelineOrchestrator(
+        config,
+        new Classifier(config),
+        new Validator(config),
+        new Normalizer(config),
+        new Archiver(config),
+        new Promoter(config)
+      );
+    });
+
+    it('should archive byte-swapped images as canonical .z64', async () => {
+      // Arrange
+      const testFile = join(testDir, 'Racer (USA).v64');
+      await writeFile(testFile, RomHeaderFactory.n64('v64'));
+
+      // Act
+      const result = await orchestrator.process(testFile);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.rom?.filename).toBe('Racer (USA).z64');
+      expect(
+        await readFile(join(testDir, 'Archive/ROMs/n64/Racer (USA).z64'))
+      ).toEqual(RomHeaderFactory.n64('z64'));
+      const { entries: manifest } = JSON.parse(
+        await readFile(join(testDir, 'Archive/Manifests/n64.json'), 'utf-8')
+      ) as ManifestDocument;
+      expect(manifest[0]?.originalFormat).toEqual({
+        extension: '.v64',
+        byteOrder: 'v64',
+      });
+    });
+
+    it('should detect duplicates across byte orders', async () => {
+      // Arrange
+      const z64 = join(testDir, 'Racer (USA).z64');
+      const n64 = join(testDir, 'Racer (USA) [copy].n64');
+      await writeFile(z64, RomHeaderFactory.n64('z64'));
+      await writeFile(n64, RomHeaderFactory.n64('n64'));
+      await orchestrator.process(z64);
+
+      // Act
+      const result = await orchestrator.process(n64);
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.phase).toBe('normalizer');
+      expect(result.errors).toContain('Duplicate ROM detected');
+    });
+  });
+
+  describe('process - ROM headers', () => {
+    it('should detect NES duplicates whose iNES headers differ', async () => {
+      // Arrange
+      const first = RomHeaderFactory.nes({ size: 16 + 64 });
+      const second = Buffer.from(first);
+      second[7] = 0x08; // NES 2.0 header
+      const firstPath = join(testDir, 'Quest (USA).nes');
+      const secondPath = join(testDir, 'Quest (USA) [NES 2.0].nes');
+      await writeFile(firstPath, first);
+      await writeFile(secondPath, second);
+      await orchestrator.process(firstPath);
+
+      // Act
+      const result = await orchestrator.process(secondPath);
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.phase).toBe('validator');
+      expect(result.errors).toContain('Duplicate ROM detected');
+    });
+
+    it('should archive SNES dumps without their copier header when configured', async () => {
+      // Arrange
+      const config = {
+        ...pipelineConfig,
+        platforms: [PlatformDefinitionFactory.snes()],
+        copierHeaders: { strip: true },
+      };
+      const stripping = new PipelineOrchestrator(
+        config,
+        new Classifier(config),
+        new Validator(config),
+        new Normalizer(config),
+        new Archiver(config),
+        new Promoter(config)
+      );
+      const data = Buffer.alloc(0x8000, 1);
+      const testFile = join(testDir, 'Quest (USA).smc');
+      await writeFile(testFile, Buffer.concat([Buffer.alloc(512), data]));
+
+      // Act
+      const result = await stripping.process(testFile);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(
+        await readFile(join(testDir, 'Archive/ROMs/snes/Quest (USA).smc'))
+      ).toEqual(data);
+      const { entries: manifest } = JSON.parse(
+        await readFile(join(testDir, 'Archive/Manifests/snes.json'), 'utf-8')
+      ) as ManifestDocument;
+      expect(manifest[0]).toMatchObject({
+        hash: createHash('sha256').update(data).digest('hex'),
+        size: 0x8000,
+        originalFormat: { extension: '.smc', headerSize: 512 },
+      });
+    });
   });
 
   describe('process - error handling', () => {
@@ -270,6 +656,9 @@ describe('PipelineOrchestrator', () => {
       classify(filePath: string): Promise<PhaseResult<ROMFile>> {
         return Promise.resolve({ success: true, data: baseRom(filePath) });
       }
+      classifyArchive(filePath: string): Promise<PhaseResult<ROMFile[]>> {
+        return Promise.resolve({ success: true, data: [baseRom(filePath)] });
+      }
       moveToValidation(_rom: ROMFile): PhaseResult<string> {
         return { success: true, data: 'validation' };
       }
@@ -288,6 +677,9 @@ describe('PipelineOrchestrator', () => {
       checkDuplicate(): Promise<PhaseResult<boolean>> {
         return Promise.resolve({ success: true, data: false });
       }
+      verifyAgainstDat(): Promise<PhaseResult<DatMatch>> {
+        return Promise.resolve({ success: true, data: { status: 'unknown' } });
+      }
       validateBIOSDependencies(): Promise<PhaseResult<boolean>> {
         return Promise.resolve({ success: true, data: true });
       }
@@ -297,6 +689,12 @@ describe('PipelineOrchestrator', () => {
     }
 
     class NormalizerFail implements INormalizer {
+      normalizeByteOrder(rom: ROMFile): Promise<PhaseResult<ROMFile>> {
+        return Promise.resolve({ success: true, data: rom });
+      }
+      stripCopierHeader(rom: ROMFile): Promise<PhaseResult<ROMFile>> {
+        return Promise.resolve({ success: true, data: rom });
+      }
       applyNamingPattern(): Promise<PhaseResult<ROMFile>> {
         return Promise.resolve({ success: false, error: 'naming failed' });
       }
@@ -337,6 +735,9 @@ describe('PipelineOrchestrator', () => {
           },
         });
       }
+      demoteROM(): Promise<PhaseResult<string[]>> {
+        return Promise.resolve({ success: true, data: [] });
+      }
       syncThumbnails(): Promise<PhaseResult<boolean>> {
         return Promise.resolve({ success: true, data: false });
       }
@@ -0,0 +1,192 @@
+/**
+ * Tests for Platform Ambiguity Resolver
+ * Following TEST-002 (Single Responsibility per test)
+ * Following TEST-004 (Arrange-Act-Assert pattern)
+ */
+
+import { writeFile, mkdir, rm, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { existsSync } from 'node:fs';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import {
+  PlatformResolver,
+  rejectFile,
+} from '../src/pipeline/platform-resolver.js';
+
+import { PlatformDefinitionFactory } from './factories/pipeline.factory.js';
+import { RomHeaderFactory } from './factories/rom-header.factory.js';
+
+describe('PlatformResolver', () => {
+  let resolver: PlatformResolver;
+  let testDir: string;
+
+  beforeEach(async () => {
+    resolver = new PlatformResolver([
+      PlatformDefinitionFactory.nes(),
+      PlatformDefinitionFactory.genesis(),
+      PlatformDefinitionFactory.psx(),
+    ]);
+    testDir = join(
+      tmpdir(),
+      `resolver-test-${Date.now()}-${Math.random().toString(36).substring(7)}`
+    );
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('shared extension detection', () => {
+    it('should detect extensions claimed by several platforms', () => {
+      // Assert
+      expect(Array.from(resolver.sharedExtensions.keys())).toEqual(['.bin']);
+      expect(resolver.isAmbiguous('.BIN')).toBe(true);
+      expect(resolver.isAmbiguous('.nes')).toBe(false);
+    });
+
+    it('should list candidates case-insensitively', () => {
+      // Act
+      const candidates = resolver.candidatesFor('.BIN');
+
+      // Assert
+      expect(candidates.map((p) => p.id)).toEqual(['genesis', 'psx']);
+    });
+  });
+
+  describe('resolve', () => {
+    it('should resolve unique extensions directly', async () => {
+      // Arrange
+      const file = join(testDir, 'game.nes');
+      await writeFile(file, 'plain');
+
+      // Act
+      const result = await resolver.resolve(file, 5);
+
+      // Assert
+      expect(result.platform?.id).toBe('nes');
+      expect(result.method).toBe('extension');
+    });
+
+    it('should prefer a header probe', async () => {
+      // Arrange
+      const file = join(testDir, 'game.bin');
+      const data = RomHeaderFactory.genesis();
+      await writeFile(file, data);
+
+      // Act
+      const result = await resolver.resolve(file, data.length);
+
+      // Assert
+      expect(result.platform?.id).toBe('genesis');
+      expect(result.method).toBe('header');
+    });
+
+    it('should use a same-basename cue sheet', async () => {
+      // Arrange
+      const file = join(testDir, 'game.bin');
+      await writeFile(file, 'plain');
+      await writeFile(join(testDir, 'game.cue'), 'FILE "game.bin" BINARY');
+
+      // Act
+      const result = await resolver.resolve(file, 5, null);
+
+      // Assert
+      expect(result.platform?.id).toBe('psx');
+      expect(result.method).toBe('sibling');
+    });
+
+    it('should use a cue sheet referencing a differently named track', async () => {
+      // Arrange
+      const file = join(testDir, 'Game (Track 2).bin');
+      await writeFile(file, 'plain');
+      await writeFile(
+        join(testDir, 'Game.cue'),
+        'FILE "Game (Track 1).bin" BINARY\nFILE "Game (Track 2).bin" BINARY'
+      );
+
+      // Act
+      const result = await resolver.resolve(file, 5, null);
+
+      // Assert
+      expect(result.platform?.id).toBe('psx');
+    });
+
+    it('should use platform folder names', async () => {
+      // Arrange
+      const folder = join(testDir, 'Sega - Mega Drive - Genesis');
+      await mkdir(folder, { recursive: true });
+      const file = join(folder, 'game.bin');
+      await writeFile(file, 'plain');
+
+      // Act
+      const result = await resolver.resolve(file, 5, null);
+
+      // Assert
+      expect(result.platform?.id).toBe('genesis');
+      expect(result.method).toBe('folder');
+    });
+
+    it('should match folder aliases such as the platform id', async () => {
+      // Arrange
+      const folder = join(testDir, 'PSX', 'RPG');
+      await mkdir(folder, { recursive: true });
+      const file = join(folder, 'game.bin');
+      await writeFile(file, 'plain');
+
+      // Act
+      const result = await resolver.resolve(file, 5, null);
+
+      // Assert
+      expect(result.platform?.id).toBe('psx');
+    });
+
+    it('should leave undecidable files unresolved with a reason', async () => {
+      // Arrange
+      const file = join(testDir, 'game.bin');
+      await writeFile(file, 'plain');
+
+      // Act
+      const result = await resolver.resolve(file, 5);
+
+      // Assert
+      expect(result.platform).toBeUndefined();
+      expect(result.method).toBe('unresolved');
+      expect(result.reason).toContain('genesis, psx');
+    });
+
+    it('should report unknown extensions', async () => {
+      // Act
+      const result = await resolver.resolve(join(testDir, 'x.zzz'), 0);
+
+      // Assert
+      expect(result.platform).toBeUndefined();
+      expect(result.candidates).toHaveLength(0);
+      expect(result.reason).toContain('Unknown file extension');
+    });
+  });
+
+  describe('rejectFile', () => {
+    it('should place the file and a reason sidecar in the rejected directory', async () => {
+      // Arrange
+      const file = join(testDir, 'game.bin');
+      await writeFile(file, 'plain');
+      const rejectedDir = join(testDir, 'Rejected');
+
+      // Act
+      const rejectedPath = await rejectFile(file, rejectedDir, 'Ambiguous');
+
+      // Assert
+      expect(existsSync(rejectedPath)).toBe(true);
+      expect(existsSync(file)).toBe(true);
+      const sidecar = JSON.parse(
+        await readFile(`${rejectedPath}.rejection.json`, 'utf-8')
+      ) as { reason: string; source: string };
+      expect(sidecar.reason).toBe('Ambiguous');
+      expect(sidecar.source).toBe(file);
+    });
+  });
+});
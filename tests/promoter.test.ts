@@ -19,6 +19,7 @@ import { Promoter } from '../src/pipeline/promoter.js';
 import type { ROMFile } from '../src/interfaces/pipeline.interface.js';
 
 import { PlatformConfigFactory } from './factories/pipeline.factory.js';
+import { CueSheetFactory } from './factories/cue-sheet.factory.js';
 
 describe('Promoter', () => {
   let promoter: Promoter;
@@ -157,6 +158,35 @@ describe('Promoter', () => {
       expect(result.success).toBe(true);
       expect(result.data).toContain('Sync/content/roms/unknown/unknown.rom');
     });
+    it('should promote a disc as one unit and list its cue sheet', async () => {
+      // Arrange
+      const trackOne = join(testDir, 'disc (Track 1).bin');
+      const cuePath = await CueSheetFactory.write(testDir, 'disc.cue', [
+        { filename: 'disc (Track 1).bin' },
+      ]);
+      const rom: ROMFile = {
+        id: 'disc',
+        filename: 'disc (Track 1).bin',
+        path: trackOne,
+        platform: 'psx',
+        extension: '.bin',
+        size: 1,
+        hash: 'abcdef0123456789',
+        companionFiles: [cuePath],
+      };
+
+      // Act
+      const promoted = await promoter.promoteROM(rom);
+      const playlist = await promoter.updatePlaylist(rom);
+
+      // Assert
+      const syncDir = join(testDir, 'Sync/content/roms/psx');
+      expect(promoted.success).toBe(true);
+      expect(await fsReadFile(join(syncDir, 'disc.cue'), 'utf-8')).toContain(
+        'disc (Track 1).bin'
+      );
+      expect(playlist.data?.path).toBe(join(syncDir, 'disc.cue'));
+    });
   });
 
   describe('updatePlaylist', () => {
@@ -169,6 +199,13 @@ describe('Promoter', () => {
         size: 12,
         platform: 'nes',
         hash: '8186648a5c16e8e71970c6b604a7550416c911197624fed4ebc98363521a9249',
+        hashes: {
+          crc32: '3e7a1c5b',
+          md5: 'a'.repeat(32),
+          sha1: 'a'.repeat(40),
+          sha256:
+            '8186648a5c16e8e71970c6b604a7550416c911197624fed4ebc98363521a9249',
+        },
       };
 
       const result = await promoter.updatePlaylist(rom);
@@ -190,7 +227,7 @@ describe('Promoter', () => {
       expect(playlist.items.length).toBe(1);
       const firstItem = playlist.items[0]!;
       expect(firstItem.path).toContain('Sync/content/roms/nes/demo.nes');
-      expect(firstItem.crc32).toBe(rom.hash?.substring(0, 8));
+      expect(firstItem.crc32).toBe('3E7A1C5B|crc');
     });
 
     it('should update existing playlist entry by path', async () => {
@@ -209,6 +246,12 @@ describe('Promoter', () => {
       const romUpdated: ROMFile = {
         ...rom,
         hash: 'bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb',
+        hashes: {
+          crc32: 'bbbbbbbb',
+          md5: 'b'.repeat(32),
+          sha1: 'b'.repeat(40),
+          sha256: 'b'.repeat(64),
+        },
       };
       const result = await promoter.updatePlaylist(romUpdated);
 
@@ -223,12 +266,18 @@ describe('Promoter', () => {
         items: Array<{ crc32: string }>;
       };
       expect(playlist.items.length).toBe(1);
-      expect(playlist.items[0]!.crc32).toBe(romUpdated.hash?.substring(0, 8));
+      expect(playlist.items[0]!.crc32).toBe('BBBBBBBB|crc');
     });
 
     it('should update existing playlist entry by crc match when path differs', async () => {
       const baseHash =
         'cccccccccccccccccccccccccccccccccccccccccccccccccccccccccccccccc';
+      const hashes = {
+        crc32: 'cccccccc',
+        md5: 'c'.repeat(32),
+        sha1: 'c'.repeat(40),
+        sha256: baseHash,
+      };
 
       const rom1: ROMFile = {
         id: 'rom-7',
@@ -238,6 +287,7 @@ describe('Promoter', () => {
         size: 12,
         platform: 'nes',
         hash: baseHash,
+        hashes,
       };
 
       const rom2: ROMFile = {
@@ -247,7 +297,8 @@ describe('Promoter', () => {
         extension: '.nes',
         size: 12,
         platform: 'nes',
-        hash: baseHash, // same hash triggers update by crc
+        hash: baseHash,
+        hashes, // same crc32 triggers update by crc
       };
 
       await promoter.updatePlaylist(rom1);
@@ -288,6 +339,29 @@ describe('Promoter', () => {
       expect(result.error).toBeDefined();
     });
 
+    it('should keep every entry when updates run concurrently', async () => {
+      const roms = ['one', 'two', 'three', 'four'].map(
+        (name): ROMFile => ({
+          id: name,
+          path: join(testDir, `Workspace/${name}.nes`),
+          filename: `${name}.nes`,
+          extension: '.nes',
+          size: 12,
+          platform: 'nes',
+        })
+      );
+
+      const results = await Promise.all(
+        roms.map((rom) => promoter.updatePlaylist(rom))
+      );
+
+      expect(results.every((result) => result.success)).toBe(true);
+      const playlist = JSON.parse(
+        await fsReadFile(join(testDir, 'Sync/playlists/nes.lpl'), 'utf-8')
+      ) as { items: unknown[] };
+      expect(playlist.items).toHaveLength(roms.length);
+    });
+
     it('should fail when playlist directory is read-only', async () => {
       const playlistDir = join(testDir, 'Sync/playlists');
       await mkdir(playlistDir, { recursive: true });
@@ -324,7 +398,147 @@ describe('Promoter', () => {
       const result = await promoter.updatePlaylist(rom);
 
       expect(result.success).toBe(true);
-      expect(result.data?.crc32).toBe('00000000');
+      expect(result.data?.crc32).toBe('00000000|crc');
+    });
+
+    it('should not merge entries whose crc32 is unknown', async () => {
+      const rom1: ROMFile = {
+        id: 'rom-12',
+        path: join(testDir, 'Workspace/first.nes'),
+        filename: 'first.nes',
+        extension: '.nes',
+        size: 12,
+        platform: 'nes',
+      };
+      const rom2: ROMFile = {
+        id: 'rom-13',
+        path: join(testDir, 'Workspace/second.nes'),
+        filename: 'second.nes',
+        extension: '.nes',
+        size: 12,
+        platform: 'nes',
+      };
+
+      await promoter.updatePlaylist(rom1);
+      const result = await promoter.updatePlaylist(rom2);
+
+      expect(result.success).toBe(true);
+      expect(result.metadata?.['totalEntries']).toBe(2);
+    });
+  });
+
+  describe('multi-disc sets', () => {
+    const disc = (n: number): ROMFile => {
+      const filename = `Epic (USA) (Disc ${n}).chd`;
+      return {
+        id: `epic-${n}`,
+        path: join(testDir, filename),
+        filename,
+        extension: '.chd',
+        size: 4,
+        platform: 'psx',
+        hash: `${n}`.repeat(16),
+        discSet: {
+          title: 'Epic (USA)',
+          disc: n,
+          file: filename,
+          playlist: 'Epic (USA).m3u',
+        },
+      };
+    };
+
+    it('should write an m3u and list the set once', async () => {
+      // Arrange
+      await writeFile(join(testDir, 'Epic (USA) (Disc 1).chd'), 'one');
+      await writeFile(join(testDir, 'Epic (USA) (Disc 2).chd'), 'two');
+
+      // Act
+      for (const rom of [disc(1), disc(2)]) {
+        await promoter.promoteROM(rom);
+        await promoter.updatePlaylist(rom);
+      }
+
+      // Assert
+      const syncDir = join(testDir, 'Sync/content/roms/psx');
+      expect(await fsReadFile(join(syncDir, 'Epic (USA).m3u'), 'utf-8')).toBe(
+        'Epic (USA) (Disc 1).chd\nEpic (USA) (Disc 2).chd\n'
+      );
+      const playlist = JSON.parse(
+        await fsReadFile(join(testDir, 'Sync/playlists/psx.lpl'), 'utf-8')
+      ) as { items: Array<{ path: string; label: string }> };
+      expect(playlist.items).toHaveLength(1);
+      expect(playlist.items[0]).toMatchObject({
+        path: join(syncDir, 'Epic (USA).m3u'),
+        label: 'Epic (USA)',
+      });
+    });
+
+    it('should rebuild the m3u from manifest membership', async () => {
+      // Arrange: disc 1 is recorded in the manifest but its m3u is gone
+      await mkdir(join(testDir, 'Archive/Manifests'), { recursive: true });
+      await writeFile(
+        join(testDir, 'Archive/Manifests/psx.json'),
+        JSON.stringify([{ id: 'epic-1', discSet: disc(1).discSet }])
+      );
+      await writeFile(join(testDir, 'Epic (USA) (Disc 2).chd'), 'two');
+
+      // Act
+      const result = await promoter.promoteROM(disc(2));
+
+      // Assert
+      expect(
+        await fsReadFile(result.metadata?.['m3uPath'] as string, 'utf-8')
+      ).toBe('Epic (USA) (Disc 1).chd\nEpic (USA) (Disc 2).chd\n');
+    });
+  });
+
+  describe('demoteROM', () => {
+    it('should remove the synced file and its playlist entry', async () => {
+      // Arrange
+      const source = join(testDir, 'Game (Japan).nes');
+      await writeFile(source, 'japan');
+      const rom: ROMFile = {
+        id: 'rom-japan',
+        path: source,
+        filename: 'Game (Japan).nes',
+        extension: '.nes',
+        size: 5,
+        platform: 'nes',
+      };
+      const promoted = await promoter.promoteROM(rom);
+      await promoter.updatePlaylist(rom);
+
+      // Act
+      const result = await promoter.demoteROM(rom);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual([promoted.data]);
+      expect(result.metadata?.['removedFromPlaylist']).toBe(true);
+      const playlist = JSON.parse(
+        await fsReadFile(join(testDir, 'Sync/playlists/nes.lpl'), 'utf-8')
+      ) as { items: unknown[] };
+      expect(playlist.items).toEqual([]);
+    });
+
+    it('should succeed when the ROM was never promoted', async () => {
+      // Arrange
+      const rom: ROMFile = {
+        id: 'rom-absent',
+        path: join(testDir, 'absent.nes'),
+        filename: 'absent.nes',
+        extension: '.nes',
+        size: 0,
+        platform: 'nes',
+      };
+
+      // Act
+      const result = await promoter.demoteROM(rom);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual([]);
+      expect(result.metadata?.['removedFromPlaylist']).toBe(false);
     });
   });
 
@@ -12,6 +12,7 @@ import {
   apiRateLimiter,
   strictApiRateLimiter,
   contentRateLimiter,
+  isUploadChunkRequest,
 } from '../src/middleware/rate-limit.middleware.js';
 
 import { ConfigFactory } from './factories/config.factory.js';
@@ -130,6 +131,39 @@ describe('Rate Limiting Middleware (POL-021)', () => {
     });
   });
 
+  describe('isUploadChunkRequest', () => {
+    let app: Express;
+
+    beforeEach(() => {
+      app = express();
+      app.use('/api', apiRateLimiter);
+      app.patch('/api/roms/uploads/:uploadId', (_req, res) => {
+        res.json({ success: true });
+      });
+    });
+
+    it('should match chunk and offset requests of an upload', () => {
+      expect(
+        isUploadChunkRequest({
+          method: 'PATCH',
+          originalUrl: '/api/roms/uploads/abc',
+        } as never)
+      ).toBe(true);
+      expect(
+        isUploadChunkRequest({
+          method: 'POST',
+          originalUrl: '/api/roms/uploads/abc/finalize',
+        } as never)
+      ).toBe(false);
+    });
+
+    it('should leave upload chunks out of the API limit', async () => {
+      const response = await request(app).patch('/api/roms/uploads/abc');
+
+      expect(response.headers).not.toHaveProperty('ratelimit-limit');
+    });
+  });
+
   describe('Rate limiter behavior', () => {
     it('should reset rate limit after window expires', async () => {
       const app = express();
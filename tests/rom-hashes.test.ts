@@ -0,0 +1,127 @@
+/**
+ * Tests for ROM Hashes
+ * Following TEST-002 (Single Responsibility per test)
+ * Following TEST-004 (Arrange-Act-Assert pattern)
+ */
+
+import { createHash } from 'node:crypto';
+import { writeFile, mkdir, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { Readable } from 'node:stream';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import {
+  hashFile,
+  hashStream,
+  hashStreamHeaderless,
+  playlistCrc32,
+} from '../src/pipeline/rom-hashes.js';
+
+describe('ROM Hashes', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `rom-hashes-test-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('hashStream', () => {
+    it('should match single-shot digests across chunk boundaries', async () => {
+      // Arrange
+      const data = Buffer.from('The quick brown fox jumps over the lazy dog');
+      const chunks = [
+        data.subarray(0, 7),
+        data.subarray(7, 20),
+        data.subarray(20),
+      ];
+
+      // Act
+      const hashes = await hashStream(Readable.from(chunks));
+
+      // Assert
+      expect(hashes).toEqual({
+        crc32: '414fa339',
+        md5: createHash('md5').update(data).digest('hex'),
+        sha1: createHash('sha1').update(data).digest('hex'),
+        sha256: createHash('sha256').update(data).digest('hex'),
+      });
+    });
+
+    it('should hash empty content', async () => {
+      // Act
+      const hashes = await hashStream(Readable.from([]));
+
+      // Assert
+      expect(hashes.crc32).toBe('00000000');
+      expect(hashes.md5).toBe('d41d8cd98f00b204e9800998ecf8427e');
+    });
+  });
+
+  describe('hashStreamHeaderless', () => {
+    it('should skip a header spanning several chunks', async () => {
+      // Arrange
+      const data = Buffer.from('HEADERrom data');
+      const chunks = [
+        data.subarray(0, 3),
+        data.subarray(3, 9),
+        data.subarray(9),
+      ];
+
+      // Act
+      const result = await hashStreamHeaderless(Readable.from(chunks), () => 6);
+
+      // Assert
+      expect(result.hashes).toEqual(await hashStream(Readable.from([data])));
+      expect(result.headerless).toEqual({
+        headerSize: 6,
+        hashes: await hashStream(Readable.from([data.subarray(6)])),
+      });
+    });
+
+    it('should omit headerless hashes without a header', async () => {
+      // Act
+      const result = await hashStreamHeaderless(
+        Readable.from([Buffer.from('rom')]),
+        () => 0
+      );
+
+      // Assert
+      expect(result.headerless).toBeUndefined();
+    });
+  });
+
+  describe('hashFile', () => {
+    it('should hash a file on disk', async () => {
+      // Arrange
+      const filePath = join(testDir, 'check.bin');
+      await writeFile(filePath, '123456789');
+
+      // Act
+      const hashes = await hashFile(filePath);
+
+      // Assert
+      expect(hashes.crc32).toBe('cbf43926');
+    });
+
+    it('should reject for a missing file', async () => {
+      // Act & Assert
+      await expect(hashFile(join(testDir, 'missing.bin'))).rejects.toThrow();
+    });
+  });
+
+  describe('playlistCrc32', () => {
+    it('should format as uppercase hex with the crc suffix', () => {
+      expect(playlistCrc32('cbf43926')).toBe('CBF43926|crc');
+    });
+
+    it('should fall back to zero when the CRC32 is unknown', () => {
+      expect(playlistCrc32(undefined)).toBe('00000000|crc');
+    });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Tests for IPS / BPS / UPS Patch Formats
+ * Following TEST-002 (Single Responsibility per test)
+ * Following TEST-004 (Arrange-Act-Assert pattern)
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  applyPatch,
+  patchFormatOf,
+  readPatchHeader,
+} from '../src/pipeline/rom-patch.js';
+import { crc32, formatCrc32 } from '../src/pipeline/crc32.js';
+
+import { PatchFactory } from './factories/patch.factory.js';
+
+const SOURCE = Buffer.from('Super Game (Japan) - original dialogue');
+const TARGET = Buffer.from('Super Game (Japan) - English translation!');
+
+describe('ROM Patch Formats', () => {
+  it('should detect patch formats by extension', () => {
+    expect(patchFormatOf('/in/Game (Japan).IPS')).toBe('ips');
+    expect(patchFormatOf('game.bps')).toBe('bps');
+    expect(patchFormatOf('game.ups')).toBe('ups');
+    expect(patchFormatOf('game.nes')).toBeNull();
+  });
+
+  it('should read source and target checksums from a BPS header', () => {
+    // Arrange
+    const patch = PatchFactory.bps(SOURCE, TARGET);
+
+    // Act
+    const header = readPatchHeader(patch);
+
+    // Assert
+    expect(header).toEqual({
+      format: 'bps',
+      sourceSize: SOURCE.length,
+      targetSize: TARGET.length,
+      sourceCrc32: formatCrc32(crc32(SOURCE)),
+      targetCrc32: formatCrc32(crc32(TARGET)),
+    });
+  });
+
+  it('should reject files without patch magic', () => {
+    expect(() => readPatchHeader(Buffer.from('NES\x1a'))).toThrow(
+      'Not an IPS, BPS or UPS patch'
+    );
+  });
+
+  describe('IPS', () => {
+    it('should apply records and grow the ROM', () => {
+      // Act
+      const result = applyPatch(SOURCE, PatchFactory.ips(SOURCE, TARGET));
+
+      // Assert
+      expect(result.toString()).toBe(TARGET.toString());
+    });
+
+    it('should apply RLE records', () => {
+      // Arrange
+      const source = Buffer.alloc(8);
+
+      // Act
+      const result = applyPatch(source, PatchFactory.ipsRle(2, 3, 0xff));
+
+      // Assert
+      expect([...result]).toEqual([0, 0, 0xff, 0xff, 0xff, 0, 0, 0]);
+    });
+
+    it('should truncate to the size after EOF', () => {
+      // Arrange
+      const target = SOURCE.subarray(0, 10);
+
+      // Act
+      const result = applyPatch(SOURCE, PatchFactory.ips(SOURCE, target));
+
+      // Assert
+      expect(result.toString()).toBe(target.toString());
+    });
+
+    it('should fail without an EOF marker', () => {
+      expect(() => applyPatch(SOURCE, Buffer.from('PATCH'))).toThrow(
+        'missing EOF marker'
+      );
+    });
+  });
+
+  describe('BPS', () => {
+    it('should apply source and target reads', () => {
+      // Act
+      const result = applyPatch(SOURCE, PatchFactory.bps(SOURCE, TARGET));
+
+      // Assert
+      expect(result.toString()).toBe(TARGET.toString());
+    });
+
+    it('should apply relative source and target copies', () => {
+      // Arrange: DEF (source +3), ABC (source -6), DEF (target copy of 0)
+      const source = Buffer.from('ABCDEF');
+      const target = Buffer.from('DEFABCDEF');
+      const patch = PatchFactory.bpsFromActions(source, target, [
+        ...PatchFactory.varint(2 * 4 + 2),
+        ...PatchFactory.varint(3 * 2),
+        ...PatchFactory.varint(2 * 4 + 2),
+        ...PatchFactory.varint(6 * 2 + 1),
+        ...PatchFactory.varint(2 * 4 + 3),
+        ...PatchFactory.varint(0),
+      ]);
+
+      // Act
+      const result = applyPatch(source, patch);
+
+      // Assert
+      expect(result.toString()).toBe('DEFABCDEF');
+    });
+
+    it('should refuse a base ROM with a different checksum', () => {
+      // Arrange
+      const patch = PatchFactory.bps(SOURCE, TARGET);
+
+      // Act & Assert
+      expect(() => applyPatch(Buffer.from(TARGET), patch)).toThrow(
+        'Base ROM does not match patch source'
+      );
+    });
+
+    it('should detect a corrupt patch', () => {
+      // Arrange
+      const patch = PatchFactory.bps(SOURCE, TARGET);
+      patch[8] = (patch[8] ?? 0) ^ 0xff;
+
+      // Act & Assert
+      expect(() => applyPatch(SOURCE, patch)).toThrow('patch CRC-32 mismatch');
+    });
+  });
+
+  describe('UPS', () => {
+    it('should apply XOR runs', () => {
+      // Act
+      const result = applyPatch(SOURCE, PatchFactory.ups(SOURCE, TARGET));
+
+      // Assert
+      expect(result.toString()).toBe(TARGET.toString());
+    });
+
+    it('should shrink the ROM to the target size', () => {
+      // Arrange
+      const target = Buffer.from('Super');
+
+      // Act
+      const result = applyPatch(SOURCE, PatchFactory.ups(SOURCE, target));
+
+      // Assert
+      expect(result.toString()).toBe('Super');
+    });
+  });
+});
@@ -3,13 +3,33 @@
  * Tests Express server with CORS, validation, and rate limiting (POL-012, POL-013, POL-021)
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { mkdir, readFile, rm } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import request from 'supertest';
+import { ipKeyGenerator } from 'express-rate-limit';
 
 import { AppServer } from '../src/server.js';
+import { BatchProcessor } from '../src/ingestion/batch-processor.js';
+import { BatchQueue } from '../src/ingestion/batch-queue.js';
+import { ResumableUploadStore } from '../src/ingestion/resumable-upload-store.js';
+import { strictApiRateLimiter } from '../src/middleware/rate-limit.middleware.js';
+import { PipelineOrchestrator } from '../src/pipeline/pipeline-orchestrator.js';
 
 import { ConfigFactory } from './factories/config.factory.js';
 
+/**
+ * Gives later tests the strict limit's full budget again, whichever
+ * loopback address supertest connected from
+ */
+function resetStrictRateLimit(): void {
+  for (const ip of ['127.0.0.1', '::ffff:127.0.0.1', '::1']) {
+    void strictApiRateLimiter.resetKey(ipKeyGenerator(ip));
+  }
+}
+
 describe('AppServer', () => {
   let server: AppServer;
 
@@ -128,6 +148,400 @@ describe('AppServer', () => {
       });
     });
 
+    describe('Batch upload (POL-022)', () => {
+      let queueDir: string;
+      let batchQueue: BatchQueue;
+      let batchServer: AppServer;
+
+      beforeEach(async () => {
+        queueDir = join(
+          tmpdir(),
+          `server-queue-test-${Date.now()}-${Math.random().toString(36).substring(7)}`
+        );
+        await mkdir(queueDir, { recursive: true });
+        batchQueue = new BatchQueue(join(queueDir, 'batch-jobs.jsonl'));
+        const batchProcessor = new BatchProcessor(batchQueue);
+        // Keep queued jobs from being ingested into a real library
+        vi.spyOn(batchProcessor, 'processQueuedNow').mockResolvedValue();
+        batchServer = new AppServer(
+          0,
+          new ResumableUploadStore(join(queueDir, 'uploads')),
+          batchQueue,
+          batchProcessor,
+          join(queueDir, 'batch-uploads')
+        );
+      });
+
+      afterEach(async () => {
+        vi.restoreAllMocks();
+        resetStrictRateLimit();
+        batchQueue.close();
+        await rm(queueDir, { recursive: true, force: true });
+      });
+
+      it('should reject a request without files', async () => {
+        const response = await request(batchServer.getApp())
+          .post('/api/roms/batch-upload')
+          .send({});
+
+        expect(response.status).toBe(400);
+        expect(response.body.errors).toEqual(['No files uploaded']);
+      });
+
+      it('should reject a batch with unsupported files', async () => {
+        const response = await request(batchServer.getApp())
+          .post('/api/roms/batch-upload')
+          .attach('files', Buffer.from('notes'), 'notes.txt');
+
+        expect(response.status).toBe(400);
+        expect(response.body.success).toBe(false);
+      });
+
+      it('should queue a valid batch and report its status', async () => {
+        const upload = await request(batchServer.getApp())
+          .post('/api/roms/batch-upload')
+          .attach('files', Buffer.from('rom one'), 'one.nes')
+          .attach('files', Buffer.from('rom two'), 'two.sfc');
+
+        expect(upload.status).toBe(202);
+        expect(upload.body.status).toBe('queued');
+
+        const status = await request(batchServer.getApp()).get(
+          `/api/roms/batch-status/${upload.body.jobId as string}`
+        );
+
+        expect(status.status).toBe(200);
+        expect(status.body).toMatchObject({
+          jobId: upload.body.jobId,
+          status: 'queued',
+          priority: 'normal',
+          files: [
+            { filename: 'one.nes', status: 'pending' },
+            { filename: 'two.sfc', status: 'pending' },
+          ],
+          errors: [],
+        });
+        expect(status.body.progress.total).toBe(2);
+      });
+
+      it('should keep queued files in the batch upload directory', async () => {
+        const upload = await request(batchServer.getApp())
+          .post('/api/roms/batch-upload')
+          .attach('files', Buffer.from('rom one'), 'one.nes');
+
+        const job = batchQueue.getJob(upload.body.jobId as string);
+        const path = job?.files[0]?.path ?? '';
+        expect(dirname(path)).toBe(join(queueDir, 'batch-uploads'));
+        expect(await readFile(path, 'utf-8')).toBe('rom one');
+      });
+
+      it('should queue a batch at the requested priority', async () => {
+        const upload = await request(batchServer.getApp())
+          .post('/api/roms/batch-upload?priority=high')
+          .attach('files', Buffer.from('rom one'), 'one.nes');
+
+        expect(upload.status).toBe(202);
+        expect(batchQueue.getJob(upload.body.jobId as string)?.priority).toBe(
+          'high'
+        );
+      });
+
+      it('should reject an unknown priority', async () => {
+        const response = await request(batchServer.getApp())
+          .post('/api/roms/batch-upload?priority=urgent')
+          .attach('files', Buffer.from('rom one'), 'one.nes');
+
+        expect(response.status).toBe(400);
+      });
+
+      it('should cancel a queued job', async () => {
+        const job = batchQueue.createJob([
+          { filename: 'game.nes', path: '/tmp/game.nes', size: 1 },
+        ]);
+
+        const response = await request(batchServer.getApp()).post(
+          `/api/roms/batch-jobs/${job.id}/cancel`
+        );
+
+        expect(response.status).toBe(200);
+        expect(response.body.status).toBe('cancelled');
+      });
+
+      it('should apply strict rate limiting to job changes', async () => {
+        const response = await request(batchServer.getApp()).post(
+          '/api/roms/batch-jobs/unknown-job/cancel'
+        );
+
+        expect(
+          parseInt(response.headers['ratelimit-limit'] as string)
+        ).toBeLessThanOrEqual(20);
+      });
+
+      it('should refuse to cancel a finished job', async () => {
+        const job = batchQueue.createJob([
+          { filename: 'game.nes', path: '/tmp/game.nes', size: 1 },
+        ]);
+        batchQueue.updateStatus(job.id, 'completed');
+
+        const response = await request(batchServer.getApp()).post(
+          `/api/roms/batch-jobs/${job.id}/cancel`
+        );
+
+        expect(response.status).toBe(409);
+        expect(response.body.errors).toEqual(['Batch job already completed']);
+      });
+
+      it('should retry the failed files of a job', async () => {
+        const job = batchQueue.createJob([
+          { filename: 'game.nes', path: '/tmp/game.nes', size: 1 },
+        ]);
+        batchQueue.updateFile(job.id, 0, {
+          filename: 'game.nes',
+          status: 'failed',
+          error: 'Unreadable',
+        });
+        batchQueue.updateStatus(job.id, 'failed');
+
+        const response = await request(batchServer.getApp()).post(
+          `/api/roms/batch-jobs/${job.id}/retry`
+        );
+
+        expect(response.status).toBe(202);
+        expect(response.body.status).toBe('queued');
+      });
+
+      it('should refuse to retry a job without failed files', async () => {
+        const job = batchQueue.createJob([
+          { filename: 'game.nes', path: '/tmp/game.nes', size: 1 },
+        ]);
+
+        const response = await request(batchServer.getApp()).post(
+          `/api/roms/batch-jobs/${job.id}/retry`
+        );
+
+        expect(response.status).toBe(409);
+      });
+
+      it('should change the priority of a job', async () => {
+        const job = batchQueue.createJob([
+          { filename: 'game.nes', path: '/tmp/game.nes', size: 1 },
+        ]);
+
+        const response = await request(batchServer.getApp())
+          .put(`/api/roms/batch-jobs/${job.id}/priority`)
+          .send({ priority: 'low' });
+
+        expect(response.status).toBe(200);
+        expect(response.body.priority).toBe('low');
+      });
+
+      it('should return 404 when changing an unknown job', async () => {
+        const response = await request(batchServer.getApp())
+          .put('/api/roms/batch-jobs/unknown-job/priority')
+          .send({ priority: 'high' });
+
+        expect(response.status).toBe(404);
+      });
+
+      it('should return 404 for an unknown batch job', async () => {
+        const response = await request(batchServer.getApp()).get(
+          '/api/roms/batch-status/unknown-job'
+        );
+
+        expect(response.status).toBe(404);
+        expect(response.body.errors).toEqual(['Batch job not found']);
+      });
+    });
+
+    describe('Resumable upload (POL-022)', () => {
+      const CHUNK_TYPE = 'application/offset+octet-stream';
+      let uploadsDir: string;
+      let uploadServer: AppServer;
+
+      beforeEach(async () => {
+        uploadsDir = join(
+          tmpdir(),
+          `server-uploads-test-${Date.now()}-${Math.random().toString(36).substring(7)}`
+        );
+        await mkdir(uploadsDir, { recursive: true });
+        uploadServer = new AppServer(0, new ResumableUploadStore(uploadsDir));
+      });
+
+      afterEach(async () => {
+        vi.restoreAllMocks();
+        await rm(uploadsDir, { recursive: true, force: true });
+      });
+
+      const createUpload = async (size: number): Promise<string> => {
+        const response = await request(uploadServer.getApp())
+          .post('/api/roms/uploads')
+          .send({ filename: 'game.nes', size });
+        return response.body.uploadId as string;
+      };
+
+      it('should create an upload with its location', async () => {
+        const response = await request(uploadServer.getApp())
+          .post('/api/roms/uploads')
+          .send({ filename: 'game.nes', size: 10 });
+
+        expect(response.status).toBe(201);
+        expect(response.headers['location']).toBe(
+          `/api/roms/uploads/${response.body.uploadId as string}`
+        );
+        expect(response.body).toMatchObject({ success: true, offset: 0 });
+      });
+
+      it('should reject an upload without a size', async () => {
+        const response = await request(uploadServer.getApp())
+          .post('/api/roms/uploads')
+          .send({ filename: 'game.nes' });
+
+        expect(response.status).toBe(400);
+      });
+
+      it('should append a chunk and report the new offset', async () => {
+        const uploadId = await createUpload(10);
+
+        const patch = await request(uploadServer.getApp())
+          .patch(`/api/roms/uploads/${uploadId}`)
+          .set('Content-Type', CHUNK_TYPE)
+          .set('Upload-Offset', '0')
+          .send(Buffer.from('hello'));
+        const head = await request(uploadServer.getApp()).head(
+          `/api/roms/uploads/${uploadId}`
+        );
+
+        expect(patch.status).toBe(204);
+        expect(patch.headers['upload-offset']).toBe('5');
+        expect(head.status).toBe(200);
+        expect(head.headers['upload-offset']).toBe('5');
+        expect(head.headers['upload-length']).toBe('10');
+      });
+
+      it('should reject a chunk at the wrong offset with 409', async () => {
+        const uploadId = await createUpload(10);
+
+        const response = await request(uploadServer.getApp())
+          .patch(`/api/roms/uploads/${uploadId}`)
+          .set('Content-Type', CHUNK_TYPE)
+          .set('Upload-Offset', '4')
+          .send(Buffer.from('hello'));
+
+        expect(response.status).toBe(409);
+      });
+
+      it('should reject a chunk that fails its checksum with 460', async () => {
+        const uploadId = await createUpload(10);
+
+        const response = await request(uploadServer.getApp())
+          .patch(`/api/roms/uploads/${uploadId}`)
+          .set('Content-Type', CHUNK_TYPE)
+          .set('Upload-Offset', '0')
+          .set('Upload-Checksum', 'sha1 AAAAAAAAAAAAAAAAAAAAAAAAAAA=')
+          .send(Buffer.from('hello'));
+
+        expect(response.status).toBe(460);
+      });
+
+      it('should return 404 for an unknown upload', async () => {
+        const response = await request(uploadServer.getApp()).head(
+          '/api/roms/uploads/00000000-0000-4000-8000-000000000000'
+        );
+
+        expect(response.status).toBe(404);
+      });
+
+      it('should refuse to finalize an incomplete upload', async () => {
+        const uploadId = await createUpload(10);
+
+        const response = await request(uploadServer.getApp()).post(
+          `/api/roms/uploads/${uploadId}/finalize`
+        );
+
+        expect(response.status).toBe(409);
+        expect(response.body.errors).toEqual([
+          'Upload incomplete: 0 of 10 bytes received',
+        ]);
+      });
+
+      it('should hand a complete upload to the pipeline', async () => {
+        const process = vi
+          .spyOn(PipelineOrchestrator.prototype, 'process')
+          .mockResolvedValue({ success: true, errors: [] });
+        const uploadId = await createUpload(5);
+        await request(uploadServer.getApp())
+          .patch(`/api/roms/uploads/${uploadId}`)
+          .set('Content-Type', CHUNK_TYPE)
+          .set('Upload-Offset', '0')
+          .send(Buffer.from('hello'));
+
+        const response = await request(uploadServer.getApp()).post(
+          `/api/roms/uploads/${uploadId}/finalize`
+        );
+
+        expect(response.status).toBe(200);
+        expect(process).toHaveBeenCalledWith(
+          join(uploadsDir, uploadId, 'game.nes'),
+          undefined
+        );
+      });
+
+      it('should refuse a second finalize while the first runs', async () => {
+        let release = (): void => {};
+        let started = (): void => {};
+        const processing = new Promise<void>((resolve) => {
+          started = resolve;
+        });
+        vi.spyOn(PipelineOrchestrator.prototype, 'process').mockImplementation(
+          () =>
+            new Promise((resolve) => {
+              started();
+              release = (): void => resolve({ success: true, errors: [] });
+            })
+        );
+        const uploadId = await createUpload(5);
+        await request(uploadServer.getApp())
+          .patch(`/api/roms/uploads/${uploadId}`)
+          .set('Content-Type', CHUNK_TYPE)
+          .set('Upload-Offset', '0')
+          .send(Buffer.from('hello'));
+
+        const first = request(uploadServer.getApp())
+          .post(`/api/roms/uploads/${uploadId}/finalize`)
+          .then((response) => response);
+        await processing;
+        const second = await request(uploadServer.getApp()).post(
+          `/api/roms/uploads/${uploadId}/finalize`
+        );
+        const chunk = await request(uploadServer.getApp())
+          .patch(`/api/roms/uploads/${uploadId}`)
+          .set('Content-Type', CHUNK_TYPE)
+          .set('Upload-Offset', '5')
+          .send(Buffer.from('more'));
+        release();
+
+        expect(second.status).toBe(409);
+        expect(chunk.status).toBe(409);
+        expect((await first).status).toBe(200);
+      });
+
+      it('should answer a failing finalize with a JSON 500', async () => {
+        const store = new ResumableUploadStore(uploadsDir);
+        vi.spyOn(store, 'complete').mockRejectedValue(new Error('disk full'));
+        const failingServer = new AppServer(0, store);
+
+        const response = await request(failingServer.getApp()).post(
+          '/api/roms/uploads/00000000-0000-4000-8000-000000000000/finalize'
+        );
+
+        expect(response.status).toBe(500);
+        expect(response.body).toEqual({
+          success: false,
+          errors: ['disk full'],
+        });
+      });
+    });
+
     describe('GET /api/nonexistent', () => {
       it('should return 404 for non-existent API endpoints', async () => {
         const response = await request(server.getApp()).get('/api/nonexistent');
@@ -0,0 +1,216 @@
+/**
+ * Upload Middleware Tests
+ * Tests streaming multipart uploads and their limits (POL-022)
+ * Following TEST-002 (Single Responsibility per test)
+ * Following TEST-004 (Arrange-Act-Assert pattern)
+ */
+
+import { createHash } from 'node:crypto';
+import { request as httpRequest } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdir, readdir, readFile, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import express, { type Express, type Request } from 'express';
+import request from 'supertest';
+
+import {
+  BATCH_UPLOAD_LIMITS,
+  uploadMiddleware,
+  type UploadedFile,
+  type UploadLimits,
+} from '../src/middleware/upload.middleware.js';
+
+const BOUNDARY = 'test-boundary';
+const POLL_MS = 10;
+
+/**
+ * Builds a multipart/form-data body with one part per file
+ */
+function multipartBody(files: Record<string, Buffer | string>): Buffer {
+  const parts = Object.entries(files).map(([name, content]) =>
+    Buffer.concat([
+      Buffer.from(
+        `--${BOUNDARY}\r\nContent-Disposition: form-data; name="files"; filename="${name}"\r\nContent-Type: application/octet-stream\r\n\r\n`
+      ),
+      Buffer.from(content),
+      Buffer.from('\r\n'),
+    ])
+  );
+  return Buffer.concat([...parts, Buffer.from(`--${BOUNDARY}--\r\n`)]);
+}
+
+describe('Upload Middleware (POL-022)', () => {
+  let uploadDir: string;
+
+  beforeEach(async () => {
+    uploadDir = join(
+      tmpdir(),
+      `upload-middleware-test-${Date.now()}-${Math.random().toString(36).substring(7)}`
+    );
+    await mkdir(uploadDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(uploadDir, { recursive: true, force: true });
+  });
+
+  /**
+   * App echoing the files the middleware stored
+   */
+  const createApp = (limits: UploadLimits = BATCH_UPLOAD_LIMITS): Express => {
+    const app = express();
+    app.post('/upload', uploadMiddleware(uploadDir, limits), (req, res) => {
+      res.json({
+        files:
+          (req as Request & { uploadedFiles?: UploadedFile[] }).uploadedFiles ??
+          [],
+      });
+    });
+    return app;
+  };
+
+  it('should stream each file to disk with its checksums', async () => {
+    // Arrange
+    // A partial boundary inside the content must not end the part
+    const rom = Buffer.from(`binary\r\n--${BOUNDARY.slice(0, -1)}\r\ndata`);
+
+    // Act
+    const response = await request(createApp())
+      .post('/upload')
+      .set('Content-Type', `multipart/form-data; boundary=${BOUNDARY}`)
+      .send(multipartBody({ 'game.nes': rom, 'other.gba': 'gba data' }));
+
+    // Assert
+    const files = response.body.files as UploadedFile[];
+    expect(files.map((file) => file.originalname)).toEqual([
+      'game.nes',
+      'other.gba',
+    ]);
+    expect(await readFile(files[0]?.path ?? '')).toEqual(rom);
+    expect(files[0]?.size).toBe(rom.length);
+    expect(files[0]?.hashes.sha256).toBe(
+      createHash('sha256').update(rom).digest('hex')
+    );
+  });
+
+  it('should parse bodies that arrive in small chunks', async () => {
+    // Arrange
+    const body = multipartBody({ 'game.nes': 'chunked rom data' });
+    const server = createApp().listen(0);
+    const { port } = server.address() as AddressInfo;
+    const CHUNK_SIZE = 3;
+
+    try {
+      // Act
+      const response = await new Promise<string>((resolve, reject) => {
+        const req = httpRequest(
+          {
+            port,
+            path: '/upload',
+            method: 'POST',
+            headers: {
+              'Content-Type': `multipart/form-data; boundary=${BOUNDARY}`,
+            },
+          },
+          (res) => {
+            let data = '';
+            res.on('data', (chunk: Buffer) => (data += chunk.toString()));
+            res.on('end', () => resolve(data));
+          }
+        );
+        req.on('error', reject);
+        for (let i = 0; i < body.length; i += CHUNK_SIZE) {
+          req.write(body.subarray(i, i + CHUNK_SIZE));
+        }
+        req.end();
+      });
+
+      // Assert
+      const files = (JSON.parse(response) as { files: UploadedFile[] }).files;
+      expect(await readFile(files[0]?.path ?? '', 'utf-8')).toBe(
+        'chunked rom data'
+      );
+    } finally {
+      server.close();
+    }
+  });
+
+  it('should reject a file over the size limit with 413', async () => {
+    // Act
+    const response = await request(createApp({ maxFileSize: 8, maxFiles: 10 }))
+      .post('/upload')
+      .set('Content-Type', `multipart/form-data; boundary=${BOUNDARY}`)
+      .send(multipartBody({ 'small.nes': 'tiny', 'big.nes': 'far too large' }));
+
+    // Assert
+    expect(response.status).toBe(413);
+    expect(response.body.errors[0]).toContain('big.nes exceeds maximum size');
+    expect(await readdir(uploadDir)).toEqual([]);
+  });
+
+  it('should reject too many files with 413', async () => {
+    // Act
+    const response = await request(
+      createApp({ maxFileSize: 1024, maxFiles: 1 })
+    )
+      .post('/upload')
+      .set('Content-Type', `multipart/form-data; boundary=${BOUNDARY}`)
+      .send(multipartBody({ 'one.nes': 'one', 'two.nes': 'two' }));
+
+    // Assert
+    expect(response.status).toBe(413);
+    expect(await readdir(uploadDir)).toEqual([]);
+  });
+
+  it('should reject a body that ends before its closing boundary', async () => {
+    // Act
+    const response = await request(createApp())
+      .post('/upload')
+      .set('Content-Type', `multipart/form-data; boundary=${BOUNDARY}`)
+      .send(
+        `--${BOUNDARY}\r\nContent-Disposition: form-data; name="files"; filename="cut.nes"\r\n\r\npartial`
+      );
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(await readdir(uploadDir)).toEqual([]);
+  });
+
+  it('should remove partial files when the client disconnects', async () => {
+    // Arrange
+    const server = createApp().listen(0);
+    const { port } = server.address() as AddressInfo;
+    const req = httpRequest({
+      port,
+      path: '/upload',
+      method: 'POST',
+      headers: {
+        'Content-Type': `multipart/form-data; boundary=${BOUNDARY}`,
+      },
+    });
+    req.on('error', () => undefined);
+
+    try {
+      req.write(
+        `--${BOUNDARY}\r\nContent-Disposition: form-data; name="files"; filename="game.nes"\r\n\r\n${'x'.repeat(1024)}`
+      );
+      while ((await readdir(uploadDir)).length === 0) {
+        await new Promise((resolve) => setTimeout(resolve, POLL_MS));
+      }
+
+      // Act
+      req.destroy();
+
+      // Assert
+      while ((await readdir(uploadDir)).length > 0) {
+        await new Promise((resolve) => setTimeout(resolve, POLL_MS));
+      }
+      expect(await readdir(uploadDir)).toEqual([]);
+    } finally {
+      server.close();
+    }
+  });
+});
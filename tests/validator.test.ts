@@ -13,28 +13,40 @@ import { createHash } from 'node:crypto';
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 
 import { Validator } from '../src/pipeline/validator.js';
+import type {
+  HeaderlessHashes,
+  ROMFile,
+  RomHashes,
+} from '../src/interfaces/pipeline.interface.js';
 
 import {
   PlatformConfigFactory,
   ROMFileFactory,
   PlatformDefinitionFactory,
+  ManifestEntryFactory,
 } from './factories/pipeline.factory.js';
+import { CueSheetFactory, RAW_SECTOR } from './factories/cue-sheet.factory.js';
+import { DatFactory } from './factories/dat.factory.js';
+import { RomHeaderFactory } from './factories/rom-header.factory.js';
 
 describe('Validator', () => {
   let validator: Validator;
   let testDir: string;
   let biosDir: string;
   let manifestsDir: string;
+  let datsDir: string;
 
   beforeEach(async () => {
     // Arrange: Set up test environment
     testDir = join(tmpdir(), `validator-test-${Date.now()}`);
     biosDir = join(testDir, 'BIOS');
     manifestsDir = join(testDir, 'Manifests');
+    datsDir = join(testDir, 'DATs');
 
     await mkdir(testDir, { recursive: true });
     await mkdir(biosDir, { recursive: true });
     await mkdir(manifestsDir, { recursive: true });
+    await mkdir(datsDir, { recursive: true });
 
     const config = PlatformConfigFactory.create({
       directories: {
@@ -43,6 +55,7 @@ describe('Validator', () => {
           bios: biosDir,
           manifests: manifestsDir,
           roms: 'RetroArch-Archive/ROMs',
+          dats: datsDir,
         },
         sync: {
           root: 'RetroArch-Sync',
@@ -100,6 +113,26 @@ describe('Validator', () => {
       expect(result.metadata?.['validatedAt']).toBeDefined();
     });
 
+    it('should compute CRC32, MD5, SHA-1 and SHA-256 in one pass', async () => {
+      // Arrange
+      const testContent = '123456789';
+      const testFile = join(testDir, 'check.nes');
+      await writeFile(testFile, testContent);
+      const rom = ROMFileFactory.create({ path: testFile, size: 9 });
+
+      // Act
+      const result = await validator.generateHash(rom);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.metadata?.['hashes']).toEqual({
+        crc32: 'cbf43926',
+        md5: createHash('md5').update(testContent).digest('hex'),
+        sha1: createHash('sha1').update(testContent).digest('hex'),
+        sha256: result.data,
+      });
+    });
+
     it('should return error for non-existent file', async () => {
       // Arrange
       const rom = ROMFileFactory.create({
@@ -232,6 +265,117 @@ describe('Validator', () => {
       expect(result2.success).toBe(true);
       expect(result1.data).not.toBe(result2.data);
     });
+    it('should also hash NES dumps without their iNES header', async () => {
+      // Arrange
+      const content = RomHeaderFactory.nes({ size: 16 + 64 });
+      content.fill(0xea, 16);
+      const testFile = join(testDir, 'game.nes');
+      await writeFile(testFile, content);
+      const rom = ROMFileFactory.create({
+        path: testFile,
+        size: content.length,
+      });
+
+      // Act
+      const result = await validator.generateHash(rom);
+
+      // Assert
+      const headerless = result.metadata?.['headerless'] as HeaderlessHashes;
+      expect(result.data).toBe(
+        createHash('sha256').update(content).digest('hex')
+      );
+      expect(headerless.headerSize).toBe(16);
+      expect(headerless.hashes.sha256).toBe(
+        createHash('sha256').update(content.subarray(16)).digest('hex')
+      );
+    });
+
+    it('should detect SNES copier headers from the file size', async () => {
+      // Arrange
+      const content = Buffer.alloc(512 + 0x8000, 1);
+      const testFile = join(testDir, 'game.smc');
+      await writeFile(testFile, content);
+      const rom = ROMFileFactory.create({
+        path: testFile,
+        platform: 'snes',
+        size: content.length,
+      });
+
+      // Act
+      const result = await validator.generateHash(rom);
+
+      // Assert
+      const headerless = result.metadata?.['headerless'] as HeaderlessHashes;
+      expect(headerless.headerSize).toBe(512);
+    });
+
+    it('should not report headerless hashes for other platforms', async () => {
+      // Arrange
+      const content = RomHeaderFactory.nes();
+      const testFile = join(testDir, 'game.bin');
+      await writeFile(testFile, content);
+      const rom = ROMFileFactory.create({
+        path: testFile,
+        platform: 'genesis',
+        size: content.length,
+      });
+
+      // Act
+      const result = await validator.generateHash(rom);
+
+      // Assert
+      expect(result.metadata?.['headerless']).toBeUndefined();
+    });
+
+    it('should reuse checksums taken during upload', async () => {
+      // Arrange
+      const testFile = join(testDir, 'game.gba');
+      await writeFile(testFile, 'uploaded content');
+      const uploaded: RomHashes = {
+        crc32: '01234567',
+        md5: 'upload-md5',
+        sha1: 'upload-sha1',
+        sha256: 'upload-sha256',
+      };
+      const rom = ROMFileFactory.create({
+        path: testFile,
+        platform: 'gba',
+        hashes: uploaded,
+      });
+
+      // Act
+      const result = await validator.generateHash(rom);
+
+      // Assert
+      expect(result.data).toBe('upload-sha256');
+      expect(result.metadata?.['hashes']).toEqual(uploaded);
+    });
+
+    it('should rehash uploaded dumps that carry a header', async () => {
+      // Arrange
+      const content = RomHeaderFactory.nes({ size: 16 + 64 });
+      const testFile = join(testDir, 'game.nes');
+      await writeFile(testFile, content);
+      const rom = ROMFileFactory.create({
+        path: testFile,
+        size: content.length,
+        hashes: {
+          crc32: '01234567',
+          md5: 'upload-md5',
+          sha1: 'upload-sha1',
+          sha256: 'upload-sha256',
+        },
+      });
+
+      // Act
+      const result = await validator.generateHash(rom);
+
+      // Assert
+      expect(result.metadata?.['headerless']).toBeDefined();
+      expect(result.data).toBe(
+        createHash('sha256').update(content).digest('hex')
+      );
+    });
   });
 
   describe('checkCompanionFiles', () => {
@@ -333,6 +477,251 @@ describe('Validator', () => {
     });
   });
 
+  describe('checkCompanionFiles - cue sheets', () => {
+    it('should list every track of a cue sheet', async () => {
+      // Arrange
+      const cuePath = await CueSheetFactory.write(testDir, 'disc.cue', [
+        { filename: 'disc (Track 1).bin' },
+        { filename: 'disc (Track 2).bin' },
+      ]);
+      const rom = ROMFileFactory.forPlayStation({
+        path: cuePath,
+        filename: 'disc.cue',
+      });
+
+      // Act
+      const result = await validator.checkCompanionFiles(rom);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual([
+        join(testDir, 'disc (Track 1).bin'),
+        join(testDir, 'disc (Track 2).bin'),
+      ]);
+    });
+
+    it('should fail with the missing and truncated tracks', async () => {
+      // Arrange
+      const cuePath = await CueSheetFactory.write(
+        testDir,
+        'disc.cue',
+        [
+          { filename: 'disc (Track 1).bin', size: RAW_SECTOR * 2 - 1 },
+          { filename: 'disc (Track 2).bin' },
+        ],
+        { omit: ['disc (Track 2).bin'] }
+      );
+      const rom = ROMFileFactory.forPlayStation({
+        path: cuePath,
+        filename: 'disc.cue',
+      });
+
+      // Act
+      const result = await validator.checkCompanionFiles(rom);
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('disc (Track 2).bin is missing');
+      expect(result.metadata?.['missingTracks']).toEqual([
+        'disc (Track 2).bin',
+      ]);
+      expect(result.metadata?.['truncatedTracks']).toEqual([
+        'disc (Track 1).bin',
+      ]);
+    });
+
+    it('should pull in sibling tracks when validating a track file', async () => {
+      // Arrange
+      await CueSheetFactory.write(testDir, 'game.cue', [
+        { filename: 'game.bin' },
+        { filename: 'game (Track 2).bin' },
+      ]);
+      const rom = ROMFileFactory.forPlayStation({
+        path: join(testDir, 'game.bin'),
+        filename: 'game.bin',
+      });
+
+      // Act
+      const result = await validator.checkCompanionFiles(rom);
+
+      // Assert
+      expect(result.data).toEqual([
+        join(testDir, 'game.cue'),
+        join(testDir, 'game (Track 2).bin'),
+      ]);
+    });
+  });
+
+  describe('verifyAgainstDat', () => {
+    const hashRom = async (
+      filename: string,
+      content: string
+    ): Promise<ROMFile> => {
+      const path = join(testDir, filename);
+      await writeFile(path, content);
+      const rom = ROMFileFactory.create({
+        path,
+        filename,
+        size: content.length,
+      });
+      const hashResult = await validator.generateHash(rom);
+      return {
+        ...rom,
+        hashes: hashResult.metadata?.['hashes'] as RomHashes,
+      };
+    };
+
+    it('should verify a ROM whose checksums are in a DAT', async () => {
+      // Arrange
+      await writeFile(
+        join(datsDir, 'nes.dat'),
+        DatFactory.single(
+          'Nintendo - Nintendo Entertainment System',
+          'Super Game (USA, Europe) (Rev 1)',
+          'Super Game (USA, Europe) (Rev 1).nes',
+          'good-dump'
+        )
+      );
+      const rom = await hashRom('super.nes', 'good-dump');
+
+      // Act
+      const result = await validator.verifyAgainstDat(rom);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({
+        status: 'verified',
+        datName: 'Nintendo - Nintendo Entertainment System',
+        game: 'Super Game (USA, Europe) (Rev 1)',
+        region: 'USA, Europe',
+        revision: '1',
+        matchedBy: 'sha1',
+      });
+    });
+
+    it('should verify headered dumps by their headerless checksums', async () => {
+      // Arrange
+      const data = Buffer.alloc(64, 0xea);
+      await writeFile(
+        join(datsDir, 'nes.dat'),
+        DatFactory.single('NES', 'Game (USA)', 'Game (USA).nes', data)
+      );
+      const content = Buffer.concat([RomHeaderFactory.nes({ size: 16 }), data]);
+      const path = join(testDir, 'Game (USA).nes');
+      await writeFile(path, content);
+      const rom = ROMFileFactory.create({
+        path,
+        filename: 'Game (USA).nes',
+        size: content.length,
+      });
+      const hashResult = await validator.generateHash(rom);
+
+      // Act
+      const result = await validator.verifyAgainstDat({
+        ...rom,
+        hashes: hashResult.metadata?.['hashes'] as RomHashes,
+        headerless: hashResult.metadata?.['headerless'] as HeaderlessHashes,
+      });
+
+      // Assert
+      expect(result.data?.status).toBe('verified');
+      expect(result.data?.matchedBy).toBe('sha1');
+    });
+
+    it('should tag a known file name with different content as a bad dump', async () => {
+      // Arrange
+      await writeFile(
+        join(datsDir, 'nes.dat'),
+        DatFactory.single('NES', 'Game (Japan)', 'Game (Japan).nes', 'good')
+      );
+      const rom = await hashRom('Game (Japan).nes', 'corrupted');
+
+      // Act
+      const result = await validator.verifyAgainstDat(rom);
+
+      // Assert
+      expect(result.data?.status).toBe('bad-dump');
+      expect(result.data?.matchedBy).toBe('name');
+      expect(result.data?.game).toBe('Game (Japan)');
+    });
+
+    it('should tag DAT entries flagged baddump as bad dumps', async () => {
+      // Arrange
+      await writeFile(
+        join(datsDir, 'nes.dat'),
+        DatFactory.xml('NES', [
+          {
+            name: 'Game (USA) [b]',
+            roms: [{ name: 'Game.nes', content: 'bad', status: 'baddump' }],
+          },
+        ])
+      );
+      const rom = await hashRom('whatever.nes', 'bad');
+
+      // Act
+      const result = await validator.verifyAgainstDat(rom);
+
+      // Assert
+      expect(result.data?.status).toBe('bad-dump');
+      expect(result.data?.matchedBy).toBe('sha1');
+    });
+
+    it('should report unknown ROMs', async () => {
+      // Arrange
+      await writeFile(
+        join(datsDir, 'nes.dat'),
+        DatFactory.single('NES', 'Game (USA)', 'Game (USA).nes', 'listed')
+      );
+      const rom = await hashRom('homebrew.nes', 'not-listed');
+
+      // Act
+      const result = await validator.verifyAgainstDat(rom);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({ status: 'unknown' });
+    });
+
+    it('should report unknown when no DAT directory is configured', async () => {
+      // Arrange
+      const unconfigured = new Validator(PlatformConfigFactory.create());
+      const rom = await hashRom('game.nes', 'content');
+
+      // Act
+      const result = await unconfigured.verifyAgainstDat(rom);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.data?.status).toBe('unknown');
+      expect(result.metadata?.['datsConfigured']).toBe(false);
+    });
+
+    it('should require hashes', async () => {
+      // Arrange
+      const rom = ROMFileFactory.create();
+
+      // Act
+      const result = await validator.verifyAgainstDat(rom);
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('hashed');
+    });
+
+    it('should fail when the DAT directory does not exist', async () => {
+      // Arrange
+      await rm(datsDir, { recursive: true, force: true });
+      const rom = await hashRom('game.nes', 'content');
+
+      // Act
+      const result = await validator.verifyAgainstDat(rom);
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toBeDefined();
+    });
+  });
+
   describe('checkDuplicate', () => {
     it('should return false when no manifest exists', async () => {
       // Arrange
@@ -440,6 +829,23 @@ describe('Validator', () => {
       expect(result.metadata?.['duplicateOf']).toBe('game2.cue');
     });
 
+    it('should find duplicates in a corrupt manifest through its backup', async () => {
+      // Arrange
+      const manifestPath = join(manifestsDir, 'nes.json');
+      await writeFile(
+        `${manifestPath}.bak`,
+        JSON.stringify([ManifestEntryFactory.create({ hash: 'abc123' })])
+      );
+      await writeFile(manifestPath, '[{"id": "trunc');
+
+      // Act
+      const result = await validator.checkDuplicate('abc123');
+
+      // Assert
+      expect(result.data).toBe(true);
+      expect(result.metadata?.['manifestErrors']).toBeUndefined();
+    });
+
     it('should handle malformed manifest files gracefully', async () => {
       // Arrange
       const hash = 'abc123';
@@ -500,6 +906,63 @@ describe('Validator', () => {
       expect(result.success).toBe(true);
       expect(result.data).toBe(false);
     });
+
+    describe('headerless hashes', () => {
+      const hashes = (sha256: string): RomHashes => ({
+        crc32: '00000000',
+        md5: '',
+        sha1: '',
+        sha256,
+      });
+
+      it('should match dumps that differ only in their header', async () => {
+        // Arrange
+        await writeFile(
+          join(manifestsDir, 'nes.json'),
+          JSON.stringify([
+            {
+              id: 'rom-1',
+              filename: 'game.nes',
+              platform: 'nes',
+              hash: 'headered-a',
+              headerless: { headerSize: 16, hashes: hashes('data') },
+              size: 80,
+              archivedAt: new Date().toISOString(),
+            },
+          ])
+        );
+
+        // Act
+        const result = await validator.checkDuplicate('headered-b', 'data');
+
+        // Assert
+        expect(result.data).toBe(true);
+        expect(result.metadata?.['duplicateOf']).toBe('game.nes');
+      });
+
+      it('should match a headered dump against its stripped copy', async () => {
+        // Arrange
+        await writeFile(
+          join(manifestsDir, 'snes.json'),
+          JSON.stringify([
+            {
+              id: 'rom-1',
+              filename: 'game.smc',
+              platform: 'snes',
+              hash: 'data',
+              size: 0x8000,
+              archivedAt: new Date().toISOString(),
+            },
+          ])
+        );
+
+        // Act
+        const result = await validator.checkDuplicate('headered', 'data');
+
+        // Assert
+        expect(result.data).toBe(true);
+      });
+    });
   });
 
   describe('validateBIOSDependencies', () => {
@@ -0,0 +1,189 @@
+/**
+ * Tests for Watch Folder
+ * Following TEST-002 (AAA Pattern) and TEST-003 (SRP)
+ */
+
+import {
+  appendFile,
+  mkdir,
+  readdir,
+  readFile,
+  rm,
+  writeFile,
+} from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import { BatchProcessor } from '../src/batch-processor.js';
+import { WatchFolder, type WatchReport } from '../src/watch-folder.js';
+
+import { RetroArchPathsFactory } from './factories/simple-config.factory.js';
+import {
+  PlatformConfigFactory,
+  PlatformDefinitionFactory,
+} from './factories/pipeline.factory.js';
+
+const SETTLE_MS = 300;
+const POLL_INTERVAL_MS = 20;
+const WRITE_PAUSE_MS = 50;
+
+describe('Watch Folder', () => {
+  let testDir: string;
+  let inboxDir: string;
+  let outputDir: string;
+  let rejectedDir: string;
+  let watcher: WatchFolder | undefined;
+
+  beforeEach(async () => {
+    testDir = join(
+      tmpdir(),
+      `watch-folder-test-${Date.now()}-${Math.random().toString(36).substring(7)}`
+    );
+    inboxDir = join(testDir, 'inbox');
+    outputDir = join(testDir, 'output');
+    rejectedDir = join(testDir, 'rejected');
+    await mkdir(inboxDir, { recursive: true });
+    await mkdir(outputDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await watcher?.stop();
+    watcher = undefined;
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Starts a watcher on the inbox; `batch` resolves with its first batch
+   */
+  const watchInbox = async (): Promise<{ batch: Promise<WatchReport> }> => {
+    const base = PlatformConfigFactory.create();
+    const config = PlatformConfigFactory.create({
+      directories: {
+        ...base.directories,
+        workspace: { ...base.directories.workspace, rejected: rejectedDir },
+      },
+    });
+    let onBatch: (report: WatchReport) => void = () => undefined;
+    const batch = new Promise<WatchReport>((resolve) => {
+      onBatch = resolve;
+    });
+    watcher = new WatchFolder(
+      RetroArchPathsFactory.create(outputDir),
+      config,
+      [inboxDir],
+      { settleMs: SETTLE_MS, pollIntervalMs: POLL_INTERVAL_MS, onBatch }
+    );
+    await watcher.start();
+    return { batch };
+  };
+
+  it('should ingest files left in the inbox before it started', async () => {
+    // Arrange
+    await writeFile(join(inboxDir, 'game.nes'), 'test data');
+
+    // Act
+    const report = await (await watchInbox()).batch;
+
+    // Assert
+    expect(report.result.processed).toBe(1);
+    expect(report.rejected).toEqual([]);
+    expect(await readdir(inboxDir)).toEqual([]);
+  });
+
+  it('should ingest files left in subdirectories of the inbox', async () => {
+    // Arrange
+    await mkdir(join(inboxDir, 'nes'), { recursive: true });
+    await writeFile(join(inboxDir, 'nes', 'game.nes'), 'test data');
+
+    // Act
+    const report = await (await watchInbox()).batch;
+
+    // Assert
+    expect(report.files).toEqual([join(inboxDir, 'nes', 'game.nes')]);
+    expect(report.result.processed).toBe(1);
+  });
+
+  it('should retry the files of a batch that failed', async () => {
+    // Arrange
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const processPaths = vi
+      .spyOn(BatchProcessor.prototype, 'processPaths')
+      .mockRejectedValueOnce(new Error('Workspace unavailable'));
+    await writeFile(join(inboxDir, 'game.nes'), 'test data');
+
+    // Act
+    const report = await (await watchInbox()).batch;
+
+    // Assert
+    expect(processPaths).toHaveBeenCalledTimes(2);
+    expect(report.result.processed).toBe(1);
+    expect(await readdir(inboxDir)).toEqual([]);
+  });
+
+  it('should keep a file whose name is taken by a different ROM', async () => {
+    // Arrange
+    const libraryDir = join(
+      outputDir,
+      'downloads',
+      PlatformDefinitionFactory.nes().name
+    );
+    await mkdir(libraryDir, { recursive: true });
+    await writeFile(join(libraryDir, 'Game.nes'), 'first dump');
+    await writeFile(join(inboxDir, 'Game.nes'), 'second dump');
+
+    // Act
+    const report = await (await watchInbox()).batch;
+
+    // Assert
+    expect(report.result.files).toEqual([]);
+    expect(await readFile(join(libraryDir, 'Game.nes'), 'utf-8')).toBe(
+      'first dump'
+    );
+    expect(await readFile(join(rejectedDir, 'Game.nes'), 'utf-8')).toBe(
+      'second dump'
+    );
+  });
+
+  it('should wait for a file to stop growing before ingesting it', async () => {
+    // Arrange
+    const { batch } = await watchInbox();
+
+    // Act
+    await writeFile(join(inboxDir, 'game.nes'), 'first half, ');
+    await new Promise((resolve) => setTimeout(resolve, WRITE_PAUSE_MS));
+    await appendFile(join(inboxDir, 'game.nes'), 'second half');
+    const report = await batch;
+
+    // Assert
+    const destination = report.result.files[0]?.destination ?? '';
+    expect(await readFile(destination, 'utf-8')).toBe(
+      'first half, second half'
+    );
+    expect(await readdir(inboxDir)).toEqual([]);
+  });
+
+  it('should move unrecognized files to rejected with a report', async () => {
+    // Arrange
+    await writeFile(join(inboxDir, 'notes.txt'), 'not a rom');
+
+    // Act
+    const report = await (await watchInbox()).batch;
+
+    // Assert
+    expect(report.rejected).toEqual([
+      {
+        file: join(inboxDir, 'notes.txt'),
+        reason: 'Not a recognized ROM file or archive',
+        rejectedPath: join(rejectedDir, 'notes.txt'),
+      },
+    ]);
+    const sidecar = JSON.parse(
+      await readFile(join(rejectedDir, 'notes.txt.rejection.json'), 'utf-8')
+    ) as { reason: string };
+    expect(sidecar.reason).toBe('Not a recognized ROM file or archive');
+    expect(await readdir(inboxDir)).toEqual([]);
+  });
+});
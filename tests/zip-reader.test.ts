@@ -0,0 +1,237 @@
+/**
+ * Tests for ZIP Reader and Contents Classification
+ * Following TEST-002 (Single Responsibility per test)
+ * Following TEST-004 (Arrange-Act-Assert pattern)
+ */
+
+import { writeFile, readFile, mkdir, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { crc32, formatCrc32 } from '../src/pipeline/crc32.js';
+import {
+  extractZipEntry,
+  listZipEntries,
+  readZipEntryHead,
+} from '../src/pipeline/zip-reader.js';
+import {
+  archiveReference,
+  classifyZipContents,
+  isIntactArchive,
+} from '../src/pipeline/zip-contents.js';
+import { PlatformResolver } from '../src/pipeline/platform-resolver.js';
+
+import { PlatformDefinitionFactory } from './factories/pipeline.factory.js';
+import { RomHeaderFactory } from './factories/rom-header.factory.js';
+import { ZipFactory } from './factories/zip.factory.js';
+
+describe('ZIP Reader', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `zip-reader-test-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('crc32', () => {
+    it('should match the standard check value', () => {
+      expect(formatCrc32(crc32(Buffer.from('123456789')))).toBe('cbf43926');
+    });
+
+    it('should chain across chunks', () => {
+      const whole = crc32(Buffer.from('hello world'));
+      const chained = crc32(Buffer.from(' world'), crc32(Buffer.from('hello')));
+
+      expect(chained).toBe(whole);
+    });
+  });
+
+  describe('listZipEntries', () => {
+    it('should list stored and deflated entries', async () => {
+      // Arrange
+      const zipPath = join(testDir, 'mixed.zip');
+      await writeFile(
+        zipPath,
+        ZipFactory.create([
+          { name: 'a.nes', data: Buffer.from('stored') },
+          { name: 'sub/b.gba', data: Buffer.alloc(1000, 7), deflate: true },
+        ])
+      );
+
+      // Act
+      const entries = await listZipEntries(zipPath);
+
+      // Assert
+      expect(entries.map((e) => e.name)).toEqual(['a.nes', 'sub/b.gba']);
+      expect(entries[0]?.method).toBe('stored');
+      expect(entries[1]?.method).toBe('deflate');
+      expect(entries[1]?.uncompressedSize).toBe(1000);
+    });
+
+    it('should skip directory entries', async () => {
+      const zipPath = join(testDir, 'dirs.zip');
+      await writeFile(
+        zipPath,
+        ZipFactory.create([
+          { name: 'folder/', data: Buffer.alloc(0) },
+          { name: 'folder/game.nes', data: Buffer.from('x') },
+        ])
+      );
+
+      const entries = await listZipEntries(zipPath);
+
+      expect(entries.map((e) => e.name)).toEqual(['folder/game.nes']);
+    });
+
+    it('should reject files that are not zip archives', async () => {
+      const notZip = join(testDir, 'fake.zip');
+      await writeFile(notZip, 'definitely not a zip archive');
+
+      await expect(listZipEntries(notZip)).rejects.toThrow(
+        'end of central directory not found'
+      );
+    });
+  });
+
+  describe('readZipEntryHead', () => {
+    it('should return the first bytes of a deflated entry', async () => {
+      const zipPath = join(testDir, 'head.zip');
+      const data = Buffer.from('0123456789abcdef'.repeat(100));
+      await writeFile(zipPath, ZipFactory.single('data.bin', data));
+      const [entry] = await listZipEntries(zipPath);
+
+      const head = await readZipEntryHead(zipPath, entry!, 16);
+
+      expect(head.toString()).toBe('0123456789abcdef');
+    });
+  });
+
+  describe('extractZipEntry', () => {
+    it('should extract deflated content byte-for-byte', async () => {
+      // Arrange
+      const zipPath = join(testDir, 'extract.zip');
+      const rom = RomHeaderFactory.nes();
+      await writeFile(zipPath, ZipFactory.single('game.nes', rom));
+      const [entry] = await listZipEntries(zipPath);
+      const destination = join(testDir, 'out', 'game.nes');
+
+      // Act
+      await extractZipEntry(zipPath, entry!, destination);
+
+      // Assert
+      expect((await readFile(destination)).equals(rom)).toBe(true);
+    });
+
+    it('should fail on CRC mismatch', async () => {
+      const zipPath = join(testDir, 'corrupt.zip');
+      await writeFile(
+        zipPath,
+        ZipFactory.single('game.nes', Buffer.from('payload'), false)
+      );
+      const [entry] = await listZipEntries(zipPath);
+
+      await expect(
+        extractZipEntry(
+          zipPath,
+          { ...entry!, crc32: 0 },
+          join(testDir, 'game.nes')
+        )
+      ).rejects.toThrow('CRC mismatch');
+    });
+  });
+
+  describe('classifyZipContents', () => {
+    const resolver = new PlatformResolver([
+      PlatformDefinitionFactory.nes(),
+      PlatformDefinitionFactory.genesis(),
+      PlatformDefinitionFactory.psx(),
+    ]);
+
+    it('should classify entries and skip non-ROM files', async () => {
+      // Arrange
+      const zipPath = join(testDir, 'game.zip');
+      await writeFile(
+        zipPath,
+        ZipFactory.create([
+          { name: 'game.nes', data: RomHeaderFactory.nes(), deflate: true },
+          { name: 'readme.txt', data: Buffer.from('hello') },
+        ])
+      );
+
+      // Act
+      const contents = await classifyZipContents(zipPath, resolver);
+
+      // Assert
+      expect(contents.roms).toHaveLength(1);
+      expect(contents.roms[0]?.resolution.platform?.id).toBe('nes');
+      expect(contents.roms[0]?.resolution.method).toBe('header');
+      expect(contents.skipped).toEqual(['readme.txt']);
+    });
+
+    it('should resolve shared extensions from a cue sheet in the archive', async () => {
+      const zipPath = join(testDir, 'disc.zip');
+      await writeFile(
+        zipPath,
+        ZipFactory.create([
+          {
+            name: 'disc.cue',
+            data: Buffer.from('FILE "track01.bin" BINARY\n'),
+          },
+          { name: 'track01.bin', data: Buffer.alloc(2352) },
+        ])
+      );
+
+      const contents = await classifyZipContents(zipPath, resolver);
+      const track = contents.roms.find((r) => r.entry.name === 'track01.bin');
+
+      expect(track?.resolution.platform?.id).toBe('psx');
+      expect(track?.resolution.method).toBe('sibling');
+    });
+
+    it('should report undecidable entries as unresolved', async () => {
+      const zipPath = join(testDir, 'mystery.zip');
+      await writeFile(
+        zipPath,
+        ZipFactory.single('mystery.bin', Buffer.alloc(4096))
+      );
+
+      const contents = await classifyZipContents(zipPath, resolver);
+
+      expect(contents.roms).toHaveLength(0);
+      expect(contents.unresolved[0]?.resolution.reason).toContain(
+        'Ambiguous extension .bin'
+      );
+    });
+  });
+
+  describe('archive references', () => {
+    it('should format container#entry references', () => {
+      expect(archiveReference('/roms/game.zip', 'game.nes')).toBe(
+        '/roms/game.zip#game.nes'
+      );
+    });
+
+    it('should treat ROMs still inside their container as intact', () => {
+      const rom = {
+        id: 'x',
+        filename: 'game.zip',
+        path: '/roms/game.zip',
+        extension: '.nes',
+        size: 1,
+        containerPath: '/roms/game.zip',
+        entryName: 'game.nes',
+      };
+
+      expect(isIntactArchive(rom)).toBe(true);
+      expect(isIntactArchive({ ...rom, path: '/staging/game.nes' })).toBe(
+        false
+      );
+    });
+  });
+});